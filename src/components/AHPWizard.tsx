@@ -0,0 +1,375 @@
+import { useState, useEffect } from "react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import { Scale, AlertTriangle, CheckCircle, ChevronLeft, ChevronRight } from "lucide-react";
+import { supabase } from "@/integrations/supabase/client";
+import { useToast } from "@/hooks/use-toast";
+import {
+  MAX_CONSISTENCY_RATIO,
+  SAATY_SCALE,
+  calculateAHP,
+  createComparisonMatrix,
+  distributeWeights,
+  setComparison,
+} from "@/lib/saw";
+import type { AHPResult } from "@/lib/saw";
+import type { Json } from "@/integrations/supabase/types";
+import type { Criteria } from "@/types/database";
+
+interface AHPWizardProps {
+  criteria: Criteria[];
+  categoryTotals: { [category: string]: number };
+  onApplied?: () => void;
+}
+
+interface PairwiseComparisonProps {
+  items: string[];
+  matrix: number[][];
+  onChange: (matrix: number[][]) => void;
+}
+
+// Indeks skala Saaty yang paling dekat dengan nilai perbandingan
+const findScaleIndex = (value: number): number => {
+  let closest = 0;
+  SAATY_SCALE.forEach((item, index) => {
+    if (Math.abs(item.value - value) < Math.abs(SAATY_SCALE[closest].value - value)) {
+      closest = index;
+    }
+  });
+  return closest;
+};
+
+const ConsistencyBadge = ({ result }: { result: AHPResult }) => (
+  <Badge
+    variant={result.isConsistent ? "secondary" : "destructive"}
+    className={result.isConsistent ? "bg-green-100 text-green-800" : ""}
+  >
+    CR: {result.consistencyRatio.toFixed(3)}
+  </Badge>
+);
+
+const PairwiseComparison = ({ items, matrix, onChange }: PairwiseComparisonProps) => {
+  const pairs: [number, number][] = [];
+  for (let i = 0; i < items.length; i++) {
+    for (let j = i + 1; j < items.length; j++) {
+      pairs.push([i, j]);
+    }
+  }
+
+  if (pairs.length === 0) {
+    return <p className="text-sm text-gray-500 italic">Hanya satu elemen, tidak perlu perbandingan berpasangan.</p>;
+  }
+
+  return (
+    <div className="space-y-2">
+      {pairs.map(([i, j]) => (
+        <div key={`${i}-${j}`} className="grid grid-cols-1 md:grid-cols-3 gap-2 items-center p-2 border rounded">
+          <span className="font-medium text-sm">{items[i]}</span>
+          <Select
+            value={String(findScaleIndex(matrix[i][j]))}
+            onValueChange={(value) => onChange(setComparison(matrix, i, j, SAATY_SCALE[parseInt(value)].value))}
+          >
+            <SelectTrigger className="h-8">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {SAATY_SCALE.map((item, index) => (
+                <SelectItem key={index} value={String(index)}>{item.label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <span className="text-sm text-gray-600 md:text-right">dibanding {items[j]}</span>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export const AHPWizard = ({ criteria, categoryTotals, onApplied }: AHPWizardProps) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [step, setStep] = useState(0);
+  const [useCategoryAHP, setUseCategoryAHP] = useState(true);
+  const [categoryMatrix, setCategoryMatrix] = useState<number[][]>([]);
+  const [criteriaMatrices, setCriteriaMatrices] = useState<{ [category: string]: number[][] }>({});
+  const [loading, setLoading] = useState(false);
+  const { toast } = useToast();
+
+  // Hanya kategori yang memiliki kriteria yang ikut dibandingkan
+  const categories = Object.keys(categoryTotals).filter(category =>
+    criteria.some(criterion => criterion.category === category)
+  );
+  const criteriaByCategory = (category: string) => criteria.filter(criterion => criterion.category === category);
+
+  // Mulai dari matriks "sama penting" setiap kali wizard dibuka
+  useEffect(() => {
+    if (!isOpen) return;
+
+    setStep(0);
+    setCategoryMatrix(createComparisonMatrix(categories.length));
+    const matrices: { [category: string]: number[][] } = {};
+    categories.forEach(category => {
+      matrices[category] = createComparisonMatrix(criteriaByCategory(category).length);
+    });
+    setCriteriaMatrices(matrices);
+  }, [isOpen]);
+
+  const categoryResult = calculateAHP(categoryMatrix);
+  const criteriaResults: { [category: string]: AHPResult } = {};
+  categories.forEach(category => {
+    criteriaResults[category] = calculateAHP(criteriaMatrices[category] || []);
+  });
+
+  // Total bobot per kategori: dari AHP atau tetap memakai target yang berlaku
+  const newCategoryTotals: { [category: string]: number } = {};
+  if (useCategoryAHP && categoryResult.priorities.length === categories.length) {
+    const totals = distributeWeights(100, categoryResult.priorities);
+    categories.forEach((category, index) => {
+      newCategoryTotals[category] = totals[index];
+    });
+  } else {
+    categories.forEach(category => {
+      newCategoryTotals[category] = categoryTotals[category];
+    });
+  }
+
+  const newWeights: { [criteria_id: string]: number } = {};
+  categories.forEach(category => {
+    const categoryCriteria = criteriaByCategory(category);
+    const priorities = criteriaResults[category].priorities;
+    if (priorities.length !== categoryCriteria.length) return;
+
+    const weights = distributeWeights(newCategoryTotals[category], priorities);
+    categoryCriteria.forEach((criterion, index) => {
+      newWeights[criterion.id] = weights[index];
+    });
+  });
+
+  const inconsistentScopes = [
+    ...(useCategoryAHP && !categoryResult.isConsistent ? ['Antar Kategori'] : []),
+    ...categories.filter(category => !criteriaResults[category].isConsistent)
+  ];
+
+  const lastStep = categories.length + 1;
+
+  const handleApply = async () => {
+    if (inconsistentScopes.length > 0 &&
+      !confirm(`Rasio konsistensi melebihi ${MAX_CONSISTENCY_RATIO} pada: ${inconsistentScopes.join(', ')}. Tetap terapkan bobot?`)) {
+      return;
+    }
+
+    setLoading(true);
+    try {
+      for (const criterion of criteria) {
+        if (newWeights[criterion.id] === undefined) continue;
+
+        const { error } = await supabase
+          .from('criteria')
+          .update({ weight: newWeights[criterion.id] })
+          .eq('id', criterion.id);
+
+        if (error) throw error;
+      }
+
+      // Total kategori hasil AHP menjadi target baru pada tabel categories
+      if (useCategoryAHP) {
+        for (const category of categories) {
+          const { error } = await supabase
+            .from('categories')
+            .update({ total_weight: newCategoryTotals[category], updated_at: new Date().toISOString() })
+            .eq('name', category);
+
+          if (error) throw error;
+        }
+      }
+
+      const criteriaComparisons: { [category: string]: Json } = {};
+      categories.forEach(category => {
+        const result = criteriaResults[category];
+        criteriaComparisons[category] = {
+          items: criteriaByCategory(category).map(criterion => criterion.id),
+          matrix: criteriaMatrices[category],
+          priorities: result.priorities,
+          consistency_ratio: result.consistencyRatio
+        };
+      });
+
+      const { error: historyError } = await supabase
+        .from('ahp_weightings')
+        .insert({
+          category_comparison: useCategoryAHP ? {
+            items: categories,
+            matrix: categoryMatrix,
+            priorities: categoryResult.priorities,
+            consistency_ratio: categoryResult.consistencyRatio
+          } : null,
+          category_totals: newCategoryTotals,
+          criteria_comparisons: criteriaComparisons
+        });
+
+      if (historyError) throw historyError;
+
+      toast({
+        title: "Berhasil",
+        description: "Bobot kriteria hasil AHP berhasil diterapkan",
+      });
+
+      setIsOpen(false);
+      if (onApplied) {
+        onApplied();
+      }
+    } catch (error) {
+      console.error('Error applying AHP weights:', error);
+      toast({
+        title: "Error",
+        description: "Gagal menerapkan bobot AHP",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const renderStep = () => {
+    if (step === 0) {
+      return (
+        <div className="space-y-4">
+          <div className="flex items-center gap-2">
+            <Switch id="use-category-ahp" checked={useCategoryAHP} onCheckedChange={setUseCategoryAHP} />
+            <Label htmlFor="use-category-ahp">Tentukan total bobot kategori dengan perbandingan berpasangan</Label>
+          </div>
+          {useCategoryAHP ? (
+            <>
+              <PairwiseComparison items={categories} matrix={categoryMatrix} onChange={setCategoryMatrix} />
+              <div className="flex items-center gap-2 text-sm">
+                <ConsistencyBadge result={categoryResult} />
+                {categories.map(category => (
+                  <span key={category} className="text-gray-600">
+                    {category.replace(/^[A-Z]\.\s/, '')}: <strong>{newCategoryTotals[category]}%</strong>
+                  </span>
+                ))}
+              </div>
+            </>
+          ) : (
+            <p className="text-sm text-gray-600">
+              Total bobot kategori tetap: {categories.map(category => `${category} ${categoryTotals[category]}%`).join(', ')}
+            </p>
+          )}
+        </div>
+      );
+    }
+
+    if (step <= categories.length) {
+      const category = categories[step - 1];
+      const categoryCriteria = criteriaByCategory(category);
+      const result = criteriaResults[category];
+
+      return (
+        <div className="space-y-4">
+          <p className="text-sm text-gray-600">
+            Bandingkan tingkat kepentingan kriteria dalam kategori <strong>{category}</strong> (total {newCategoryTotals[category]}%)
+          </p>
+          <PairwiseComparison
+            items={categoryCriteria.map(criterion => criterion.name)}
+            matrix={criteriaMatrices[category] || []}
+            onChange={(matrix) => setCriteriaMatrices(prev => ({ ...prev, [category]: matrix }))}
+          />
+          <div className="flex items-center gap-2">
+            <ConsistencyBadge result={result} />
+            {!result.isConsistent && (
+              <span className="text-sm text-red-600">Perbandingan tidak konsisten, tinjau kembali penilaian Anda</span>
+            )}
+          </div>
+        </div>
+      );
+    }
+
+    return (
+      <div className="space-y-4">
+        {inconsistentScopes.length > 0 ? (
+          <div className="p-3 bg-red-50 rounded-lg text-sm flex items-start gap-2">
+            <AlertTriangle className="w-4 h-4 text-red-600 mt-0.5 flex-shrink-0" />
+            <p className="text-red-700">
+              Rasio konsistensi di atas {MAX_CONSISTENCY_RATIO} pada: <strong>{inconsistentScopes.join(', ')}</strong>
+            </p>
+          </div>
+        ) : (
+          <div className="p-3 bg-green-50 rounded-lg text-sm flex items-center gap-2">
+            <CheckCircle className="w-4 h-4 text-green-600" />
+            <p className="text-green-700">Semua perbandingan konsisten (CR ≤ {MAX_CONSISTENCY_RATIO})</p>
+          </div>
+        )}
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Kriteria</TableHead>
+              <TableHead>Kategori</TableHead>
+              <TableHead className="text-right">Prioritas Lokal</TableHead>
+              <TableHead className="text-right">Bobot Lama (%)</TableHead>
+              <TableHead className="text-right">Bobot Baru (%)</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {categories.flatMap(category =>
+              criteriaByCategory(category).map((criterion, index) => (
+                <TableRow key={criterion.id}>
+                  <TableCell className="font-medium">{criterion.name}</TableCell>
+                  <TableCell>{category}</TableCell>
+                  <TableCell className="text-right">{(criteriaResults[category].priorities[index] ?? 0).toFixed(3)}</TableCell>
+                  <TableCell className="text-right">{criterion.weight}</TableCell>
+                  <TableCell className="text-right font-semibold">{newWeights[criterion.id] ?? '-'}</TableCell>
+                </TableRow>
+              ))
+            )}
+          </TableBody>
+        </Table>
+      </div>
+    );
+  };
+
+  const stepTitle = step === 0
+    ? 'Langkah 1: Perbandingan Antar Kategori'
+    : step <= categories.length
+      ? `Langkah ${step + 1}: ${categories[step - 1]}`
+      : `Langkah ${lastStep + 1}: Ringkasan & Penerapan`;
+
+  return (
+    <Dialog open={isOpen} onOpenChange={setIsOpen}>
+      <DialogTrigger asChild>
+        <Button variant="outline" disabled={criteria.length === 0}>
+          <Scale className="w-4 h-4 mr-2" />
+          Wizard AHP
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Pembobotan Kriteria dengan AHP</DialogTitle>
+          <p className="text-sm text-gray-600">{stepTitle}</p>
+        </DialogHeader>
+
+        {renderStep()}
+
+        <div className="flex justify-between pt-4">
+          <Button variant="outline" onClick={() => setStep(prev => prev - 1)} disabled={step === 0 || loading}>
+            <ChevronLeft className="w-4 h-4 mr-1" />
+            Sebelumnya
+          </Button>
+          {step < lastStep ? (
+            <Button onClick={() => setStep(prev => prev + 1)}>
+              Berikutnya
+              <ChevronRight className="w-4 h-4 ml-1" />
+            </Button>
+          ) : (
+            <Button onClick={handleApply} disabled={loading} className="bg-green-600 hover:bg-green-700">
+              {loading ? "Menerapkan..." : "Terapkan Bobot"}
+            </Button>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
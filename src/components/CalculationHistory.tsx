@@ -0,0 +1,244 @@
+import { useState, useEffect } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { FolderOpen, GitCompare, History, Pin, PinOff, Trash2 } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { useCalculationHistory } from "@/hooks/use-calculation-history";
+import type { CalculationRun } from "@/hooks/use-calculation-history";
+import { usePeriod } from "@/components/PeriodProvider";
+import { RunComparison } from "@/components/RunComparison";
+import { buildRunComparisonReport } from "@/lib/saw";
+import type { RunComparisonReport } from "@/lib/saw";
+
+interface CalculationHistoryProps {
+  refreshKey?: string; // Berubah setiap ada perhitungan baru tersimpan
+  openedId?: string; // Id perhitungan yang sedang ditampilkan
+  onOpen: (calculationId: string) => void;
+  onChanged?: () => void;
+  onComparisonChange?: (report: RunComparisonReport | null) => void; // Untuk disertakan pada laporan cetak
+}
+
+const formatRunDate = (date: string) => new Date(date).toLocaleString('id-ID');
+
+const describeRun = (run: CalculationRun) => `${run.label || run.method} (${formatRunDate(run.calculationDate)})`;
+
+export const CalculationHistory = ({ refreshKey, openedId, onOpen, onChanged, onComparisonChange }: CalculationHistoryProps) => {
+  const { runs, loading, refetch, setOfficial, updateLabel, deleteRun, fetchRunResults, fetchRunMatrix } = useCalculationHistory();
+  const [labels, setLabels] = useState<{ [runId: string]: string }>({});
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [comparison, setComparison] = useState<{ runIds: string[]; report: RunComparisonReport } | null>(null);
+  const { isClosed } = usePeriod();
+  const { toast } = useToast();
+
+  useEffect(() => {
+    if (refreshKey) {
+      refetch();
+    }
+  }, [refreshKey]);
+
+  useEffect(() => {
+    setLabels(Object.fromEntries(runs.map(run => [run.id, run.label || ''])));
+    setSelectedIds(prev => prev.filter(id => runs.some(run => run.id === id)));
+  }, [runs]);
+
+  const showComparison = (next: { runIds: string[]; report: RunComparisonReport } | null) => {
+    setComparison(next);
+    if (onComparisonChange) {
+      onComparisonChange(next ? next.report : null);
+    }
+  };
+
+  const runAction = async (action: () => Promise<void>, success: string, failure: string) => {
+    try {
+      await action();
+      toast({
+        title: "Berhasil",
+        description: success,
+      });
+      if (onChanged) {
+        onChanged();
+      }
+    } catch (error) {
+      console.error(failure, error);
+      toast({
+        title: "Error",
+        description: failure,
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleLabelSave = (run: CalculationRun) => {
+    const label = labels[run.id] ?? '';
+    if (label.trim() === (run.label || '')) return;
+
+    runAction(() => updateLabel(run, label), "Label perhitungan disimpan", "Gagal menyimpan label perhitungan");
+  };
+
+  const handleTogglePin = (run: CalculationRun) => {
+    runAction(
+      () => setOfficial(run, !run.isOfficial),
+      run.isOfficial ? "Pin hasil resmi dilepas; perhitungan terakhir kembali menjadi bawaan" : `${describeRun(run)} dipin sebagai hasil resmi`,
+      "Gagal mengubah hasil resmi"
+    );
+  };
+
+  const handleDelete = (run: CalculationRun) => {
+    const warning = run.isOfficial ? ' Perhitungan ini adalah hasil resmi periode.' : '';
+    if (!confirm(`Hapus perhitungan ${describeRun(run)}?${warning}`)) return;
+
+    if (comparison && comparison.runIds.includes(run.id)) {
+      showComparison(null);
+    }
+    runAction(() => deleteRun(run), "Perhitungan berhasil dihapus", "Gagal menghapus perhitungan");
+  };
+
+  const toggleSelected = (runId: string, checked: boolean) => {
+    setSelectedIds(prev => checked
+      ? [...prev.filter(id => id !== runId), runId].slice(-2)
+      : prev.filter(id => id !== runId));
+  };
+
+  const handleCompare = async () => {
+    // Perhitungan yang lebih lama menjadi A agar perubahan dibaca sebagai "dari A ke B"
+    const [runA, runB] = runs
+      .filter(run => selectedIds.includes(run.id))
+      .sort((a, b) => a.calculationDate.localeCompare(b.calculationDate));
+    if (!runA || !runB) return;
+
+    try {
+      const [resultsA, resultsB, matrixA, matrixB] = await Promise.all([
+        fetchRunResults(runA.id),
+        fetchRunResults(runB.id),
+        fetchRunMatrix(runA.id),
+        fetchRunMatrix(runB.id)
+      ]);
+      showComparison({
+        runIds: [runA.id, runB.id],
+        report: buildRunComparisonReport(describeRun(runA), describeRun(runB), resultsA, resultsB, matrixA, matrixB)
+      });
+    } catch (error) {
+      console.error('Error loading runs for comparison:', error);
+      toast({
+        title: "Error",
+        description: "Gagal memuat hasil perhitungan untuk dibandingkan",
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <Card className="bg-white shadow-lg">
+        <CardHeader>
+          <div className="flex justify-between items-center">
+            <div>
+              <CardTitle className="flex items-center gap-2">
+                <History className="w-5 h-5" />
+                Riwayat Perhitungan ({runs.length})
+              </CardTitle>
+              <p className="text-sm text-gray-600">
+                Hasil resmi dimuat otomatis di halaman utama; tanpa pin, perhitungan terakhir yang dipakai.
+              </p>
+            </div>
+            <Button variant="outline" size="sm" onClick={handleCompare} disabled={selectedIds.length !== 2}>
+              <GitCompare className="w-4 h-4 mr-2" />
+              Bandingkan ({selectedIds.length}/2)
+            </Button>
+          </div>
+        </CardHeader>
+        <CardContent>
+          {loading && runs.length === 0 ? (
+            <p className="text-center py-4 text-gray-500">Memuat riwayat...</p>
+          ) : runs.length === 0 ? (
+            <p className="text-center py-4 text-gray-500">Belum ada perhitungan tersimpan pada periode ini</p>
+          ) : (
+            <div className="overflow-x-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead className="w-8"></TableHead>
+                    <TableHead>Tanggal</TableHead>
+                    <TableHead>Label</TableHead>
+                    <TableHead>Metode</TableHead>
+                    <TableHead className="text-center">Karyawan</TableHead>
+                    <TableHead className="text-center">Kriteria</TableHead>
+                    <TableHead>Dijalankan oleh</TableHead>
+                    <TableHead>Aksi</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {runs.map(run => (
+                    <TableRow key={run.id} className={run.id === openedId ? 'bg-blue-50' : undefined}>
+                      <TableCell>
+                        <Checkbox
+                          checked={selectedIds.includes(run.id)}
+                          onCheckedChange={(checked) => toggleSelected(run.id, checked === true)}
+                        />
+                      </TableCell>
+                      <TableCell className="whitespace-nowrap">
+                        {formatRunDate(run.calculationDate)}
+                        {run.isOfficial && <Badge className="ml-2 bg-green-600">Resmi</Badge>}
+                      </TableCell>
+                      <TableCell>
+                        <Input
+                          value={labels[run.id] ?? ''}
+                          placeholder="Tanpa label"
+                          className="h-8 min-w-[160px]"
+                          onChange={(e) => setLabels(prev => ({ ...prev, [run.id]: e.target.value }))}
+                          onBlur={() => handleLabelSave(run)}
+                          onKeyDown={(e) => e.key === 'Enter' && handleLabelSave(run)}
+                        />
+                      </TableCell>
+                      <TableCell>
+                        <Badge variant="outline">{run.method}</Badge>
+                        {run.weightingName && <p className="text-xs text-gray-500 mt-1">{run.weightingName}</p>}
+                      </TableCell>
+                      <TableCell className="text-center">{run.totalEmployees}</TableCell>
+                      <TableCell className="text-center">{run.totalCriteria}</TableCell>
+                      <TableCell className="text-sm text-gray-600">{run.runBy || '-'}</TableCell>
+                      <TableCell>
+                        <div className="flex gap-1">
+                          <Button variant="outline" size="sm" onClick={() => onOpen(run.id)} title="Buka">
+                            <FolderOpen className="w-4 h-4" />
+                          </Button>
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            onClick={() => handleTogglePin(run)}
+                            disabled={isClosed}
+                            title={run.isOfficial ? 'Lepas pin resmi' : 'Pin sebagai hasil resmi'}
+                          >
+                            {run.isOfficial ? <PinOff className="w-4 h-4" /> : <Pin className="w-4 h-4" />}
+                          </Button>
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            onClick={() => handleDelete(run)}
+                            disabled={isClosed}
+                            className="text-red-600 hover:text-red-700"
+                            title="Hapus"
+                          >
+                            <Trash2 className="w-4 h-4" />
+                          </Button>
+                        </div>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {comparison && (
+        <RunComparison report={comparison.report} onClose={() => showComparison(null)} />
+      )}
+    </div>
+  );
+};
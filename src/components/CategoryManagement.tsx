@@ -0,0 +1,276 @@
+import { useState, useEffect } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { ArrowUp, ArrowDown, Trash2, Plus, Save, Layers } from "lucide-react";
+import { supabase } from "@/integrations/supabase/client";
+import { useToast } from "@/hooks/use-toast";
+import { CATEGORY_TOTAL_TARGET, distributeWeights, validateCategories } from "@/lib/saw";
+import type { Category, Criteria } from "@/types/database";
+
+interface CategoryManagementProps {
+  categories: Category[];
+  criteria: Criteria[];
+  onSaved?: () => void;
+}
+
+// Baris draf; id kosong berarti kategori baru yang belum tersimpan
+interface CategoryDraft {
+  id?: string;
+  name: string;
+  total_weight: number;
+  description: string;
+}
+
+const toDrafts = (categories: Category[]): CategoryDraft[] =>
+  categories.map(category => ({
+    id: category.id,
+    name: category.name,
+    total_weight: category.total_weight,
+    description: category.description || ''
+  }));
+
+export const CategoryManagement = ({ categories, criteria, onSaved }: CategoryManagementProps) => {
+  const [drafts, setDrafts] = useState<CategoryDraft[]>([]);
+  const [saving, setSaving] = useState(false);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    setDrafts(toDrafts(categories));
+  }, [categories]);
+
+  const originalName = (draft: CategoryDraft) => categories.find(category => category.id === draft.id)?.name;
+  const criteriaCount = (draft: CategoryDraft) => {
+    const name = originalName(draft);
+    return name ? criteria.filter(criterion => criterion.category === name).length : 0;
+  };
+
+  const definitions = drafts.map((draft, index) => ({
+    name: draft.name.trim(),
+    position: index + 1,
+    totalWeight: draft.total_weight,
+    description: draft.description.trim() || null
+  }));
+  const validationError = validateCategories(definitions);
+  const draftTotal = Math.round(drafts.reduce((sum, draft) => sum + draft.total_weight, 0) * 100) / 100;
+
+  const updateAt = (index: number, changes: Partial<CategoryDraft>) => {
+    setDrafts(prev => prev.map((draft, i) => i === index ? { ...draft, ...changes } : draft));
+  };
+
+  const handleMove = (index: number, offset: number) => {
+    const target = index + offset;
+    if (target < 0 || target >= drafts.length) return;
+
+    const reordered = [...drafts];
+    [reordered[index], reordered[target]] = [reordered[target], reordered[index]];
+    setDrafts(reordered);
+  };
+
+  const handleRemove = (index: number) => {
+    const count = criteriaCount(drafts[index]);
+    if (count > 0) {
+      toast({
+        title: "Error",
+        description: `Kategori ${drafts[index].name} masih dipakai ${count} kriteria; pindahkan atau hapus kriteria tersebut terlebih dahulu`,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setDrafts(prev => prev.filter((_, i) => i !== index));
+  };
+
+  const handleAdd = () => {
+    setDrafts(prev => [...prev, { name: '', total_weight: 0, description: '' }]);
+  };
+
+  // Bobot kriteria dalam kategori yang targetnya berubah diskalakan ulang secara proporsional
+  const rescaleCriteriaWeights = async (): Promise<string[]> => {
+    const adjusted: string[] = [];
+
+    for (const draft of drafts) {
+      const name = originalName(draft);
+      if (!name) continue;
+
+      const categoryCriteria = criteria.filter(criterion => criterion.category === name);
+      const currentTotal = categoryCriteria.reduce((sum, criterion) => sum + criterion.weight, 0);
+      if (categoryCriteria.length === 0 || Math.abs(currentTotal - draft.total_weight) < 0.01) continue;
+
+      const priorities = currentTotal > 0
+        ? categoryCriteria.map(criterion => criterion.weight / currentTotal)
+        : categoryCriteria.map(() => 1 / categoryCriteria.length);
+      const weights = distributeWeights(draft.total_weight, priorities);
+
+      for (const [index, criterion] of categoryCriteria.entries()) {
+        const { error } = await supabase
+          .from('criteria')
+          .update({ weight: weights[index] })
+          .eq('id', criterion.id);
+
+        if (error) throw error;
+      }
+      adjusted.push(draft.name.trim());
+    }
+
+    return adjusted;
+  };
+
+  const handleSave = async () => {
+    if (validationError) {
+      toast({
+        title: "Error",
+        description: validationError,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const removedIds = categories
+        .filter(category => !drafts.some(draft => draft.id === category.id))
+        .map(category => category.id);
+
+      if (removedIds.length > 0) {
+        const { error } = await supabase.from('categories').delete().in('id', removedIds);
+        if (error) throw error;
+      }
+
+      // Penggantian nama diteruskan ke criteria.category melalui foreign key ON UPDATE CASCADE
+      for (const [index, draft] of drafts.entries()) {
+        const categoryData = {
+          name: draft.name.trim(),
+          position: index + 1,
+          total_weight: draft.total_weight,
+          description: draft.description.trim() || null
+        };
+
+        const { error } = draft.id
+          ? await supabase
+            .from('categories')
+            .update({ ...categoryData, updated_at: new Date().toISOString() })
+            .eq('id', draft.id)
+          : await supabase.from('categories').insert(categoryData);
+
+        if (error) throw error;
+      }
+
+      const adjusted = await rescaleCriteriaWeights();
+
+      toast({
+        title: "Berhasil",
+        description: adjusted.length > 0
+          ? `Kategori disimpan; bobot kriteria pada ${adjusted.join(', ')} disesuaikan dengan target baru`
+          : "Kategori berhasil disimpan",
+      });
+
+      if (onSaved) {
+        onSaved();
+      }
+    } catch (error) {
+      console.error('Error saving categories:', error);
+      toast({
+        title: "Error",
+        description: "Gagal menyimpan kategori",
+        variant: "destructive",
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Layers className="w-5 h-5" />
+          Kategori Kriteria ({drafts.length})
+        </CardTitle>
+        <p className="text-sm text-gray-600">
+          Urutan kategori menentukan urutan kolom decision matrix. Total bobot semua kategori harus {CATEGORY_TOTAL_TARGET}%.
+        </p>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead className="w-24">Urutan</TableHead>
+              <TableHead>Nama Kategori</TableHead>
+              <TableHead>Deskripsi</TableHead>
+              <TableHead className="w-32">Total Bobot (%)</TableHead>
+              <TableHead className="text-center">Kriteria</TableHead>
+              <TableHead>Aksi</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {drafts.map((draft, index) => (
+              <TableRow key={draft.id || `new-${index}`}>
+                <TableCell>
+                  <div className="flex gap-1">
+                    <Button variant="outline" size="sm" onClick={() => handleMove(index, -1)} disabled={index === 0}>
+                      <ArrowUp className="w-4 h-4" />
+                    </Button>
+                    <Button variant="outline" size="sm" onClick={() => handleMove(index, 1)} disabled={index === drafts.length - 1}>
+                      <ArrowDown className="w-4 h-4" />
+                    </Button>
+                  </div>
+                </TableCell>
+                <TableCell>
+                  <Input
+                    value={draft.name}
+                    placeholder="contoh: D. Pengembangan Diri"
+                    onChange={(e) => updateAt(index, { name: e.target.value })}
+                  />
+                </TableCell>
+                <TableCell>
+                  <Input value={draft.description} onChange={(e) => updateAt(index, { description: e.target.value })} />
+                </TableCell>
+                <TableCell>
+                  <Input
+                    type="number"
+                    step="0.01"
+                    min="0"
+                    max={CATEGORY_TOTAL_TARGET}
+                    value={draft.total_weight}
+                    onChange={(e) => updateAt(index, { total_weight: parseFloat(e.target.value) || 0 })}
+                  />
+                </TableCell>
+                <TableCell className="text-center">{criteriaCount(draft)}</TableCell>
+                <TableCell>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => handleRemove(index)}
+                    className="text-red-600 hover:text-red-700"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </Button>
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+
+        <div className="flex flex-wrap items-center gap-2">
+          <Badge variant={draftTotal === CATEGORY_TOTAL_TARGET ? "default" : "destructive"}>
+            Total: {draftTotal}% / {CATEGORY_TOTAL_TARGET}%
+          </Badge>
+          {validationError && <span className="text-sm text-red-600">{validationError}</span>}
+          <div className="flex gap-2 ml-auto">
+            <Button variant="outline" size="sm" onClick={handleAdd}>
+              <Plus className="w-4 h-4 mr-1" />
+              Tambah Kategori
+            </Button>
+            <Button size="sm" onClick={handleSave} disabled={saving || !!validationError} className="bg-green-600 hover:bg-green-700">
+              <Save className="w-4 h-4 mr-1" />
+              {saving ? 'Menyimpan...' : 'Simpan Kategori'}
+            </Button>
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
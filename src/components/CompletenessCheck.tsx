@@ -0,0 +1,123 @@
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { AlertTriangle, CheckCircle } from "lucide-react";
+import type { Employee } from "@/pages/Index";
+import { MISSING_SCORE_POLICIES, formatScale } from "@/lib/saw";
+import type { MissingScore, MissingScorePolicy, SAWCriterion } from "@/lib/saw";
+
+interface CompletenessCheckProps {
+  employees: Employee[];
+  criteria: SAWCriterion[];
+  missing: MissingScore[];
+  policy: MissingScorePolicy | null;
+  onPolicyChange: (policy: MissingScorePolicy) => void;
+  defaults: { [criterionId: string]: number };
+  onDefaultsChange: (defaults: { [criterionId: string]: number }) => void;
+}
+
+// Jumlah baris daftar kekosongan yang ditampilkan sebelum diringkas
+const MAX_LISTED_GAPS = 50;
+
+export const CompletenessCheck = ({
+  employees,
+  criteria,
+  missing,
+  policy,
+  onPolicyChange,
+  defaults,
+  onDefaultsChange,
+}: CompletenessCheckProps) => {
+  if (missing.length === 0) {
+    return (
+      <div className="p-3 bg-green-50 rounded-lg text-sm flex items-center gap-2 text-green-800">
+        <CheckCircle className="w-4 h-4 text-green-600" />
+        Data evaluasi lengkap: semua karyawan memiliki nilai untuk setiap kriteria aktif.
+      </div>
+    );
+  }
+
+  const affectedEmployees = new Set(missing.map(gap => gap.recordIndex)).size;
+  const criteriaWithGaps = criteria.filter((_, j) => missing.some(gap => gap.criterionIndex === j));
+
+  return (
+    <Card className="border-amber-300 bg-amber-50">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2 text-amber-800">
+          <AlertTriangle className="w-5 h-5" />
+          Data Evaluasi Belum Lengkap
+        </CardTitle>
+        <p className="text-sm text-amber-700">
+          {missing.length} nilai kosong pada {affectedEmployees} karyawan dan {criteriaWithGaps.length} kriteria.
+          Pilih kebijakan penanganan sebelum menjalankan perhitungan; kebijakan yang dipakai ikut tersimpan bersama hasil.
+        </p>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="max-h-64 overflow-y-auto bg-white rounded-lg border">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Karyawan</TableHead>
+                <TableHead>Kriteria</TableHead>
+                <TableHead>Kategori</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {missing.slice(0, MAX_LISTED_GAPS).map(gap => (
+                <TableRow key={`${gap.recordIndex}-${gap.criterionIndex}`}>
+                  <TableCell className="font-medium">{employees[gap.recordIndex]?.name}</TableCell>
+                  <TableCell>{criteria[gap.criterionIndex]?.name}</TableCell>
+                  <TableCell className="text-gray-600">{criteria[gap.criterionIndex]?.category}</TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+          {missing.length > MAX_LISTED_GAPS && (
+            <p className="text-xs text-gray-500 p-2">dan {missing.length - MAX_LISTED_GAPS} nilai kosong lainnya</p>
+          )}
+        </div>
+
+        <div className="space-y-2">
+          <Label>Kebijakan Nilai Kosong</Label>
+          <Select value={policy || undefined} onValueChange={(value) => onPolicyChange(value as MissingScorePolicy)}>
+            <SelectTrigger className="w-full md:w-80 bg-white">
+              <SelectValue placeholder="Pilih kebijakan" />
+            </SelectTrigger>
+            <SelectContent>
+              {MISSING_SCORE_POLICIES.map(item => (
+                <SelectItem key={item.value} value={item.value}>{item.label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          {policy ? (
+            <p className="text-xs text-gray-600">{MISSING_SCORE_POLICIES.find(item => item.value === policy)?.description}</p>
+          ) : (
+            <Badge variant="destructive">Perhitungan diblokir sampai kebijakan dipilih</Badge>
+          )}
+        </div>
+
+        {policy === 'default' && (
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+            {criteriaWithGaps.map(criterion => (
+              <div key={criterion.id} className="space-y-1">
+                <Label className="text-xs">{criterion.name} ({formatScale(criterion.scale)})</Label>
+                <Input
+                  type="number"
+                  className="bg-white"
+                  min={criterion.scale.min}
+                  max={criterion.scale.max ?? undefined}
+                  step={criterion.scale.step}
+                  value={defaults[criterion.id] ?? ''}
+                  onChange={(e) => onDefaultsChange({ ...defaults, [criterion.id]: parseFloat(e.target.value) })}
+                />
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
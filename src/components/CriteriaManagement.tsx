@@ -6,35 +6,57 @@ import { Label } from "@/components/ui/label";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
-import { Plus, Edit, Trash2, Settings, AlertTriangle } from "lucide-react";
+import { Plus, Edit, Trash2, Settings, AlertTriangle, GripVertical } from "lucide-react";
 import { supabase } from "@/integrations/supabase/client";
 import { useToast } from "@/hooks/use-toast";
+import { useCategories } from "@/hooks/use-categories";
+import { usePeriod } from "@/components/PeriodProvider";
+import { AHPWizard } from "@/components/AHPWizard";
+import { ObjectiveWeightingDialog } from "@/components/ObjectiveWeightingDialog";
+import { CategoryManagement } from "@/components/CategoryManagement";
+import {
+  DEFAULT_NORMALIZATION,
+  DEFAULT_SCALES,
+  DEFAULT_THRESHOLD_BANDS,
+  NORMALIZATION_STRATEGIES,
+  SCALE_KINDS,
+  formatScale,
+  getNormalizationLabel,
+  getScaleValues,
+  parseScale,
+  parseThresholdBands,
+  sortCriteria,
+  suggestCriterionCode,
+  validateScale,
+  validateThresholdBands,
+} from "@/lib/saw";
+import type { CriterionScale, NormalizationStrategy, ScaleKind, ThresholdBand } from "@/lib/saw";
+import type { Json } from "@/integrations/supabase/types";
 import type { Criteria } from "@/types/database";
 
 interface CriteriaManagementProps {
   onCriteriaChange?: () => void;
 }
 
-// Fixed category totals
-const CATEGORY_TOTALS = {
-  "A. Kinerja Inti": 60,
-  "B. Kedisiplinan": 25,
-  "C. Faktor Tambahan": 15
-};
-
 export const CriteriaManagement = ({ onCriteriaChange }: CriteriaManagementProps) => {
   const [criteria, setCriteria] = useState<Criteria[]>([]);
   const [isDialogOpen, setIsDialogOpen] = useState(false);
   const [editingCriteria, setEditingCriteria] = useState<Criteria | null>(null);
   const [loading, setLoading] = useState(false);
+  const [draggedId, setDraggedId] = useState<string | null>(null);
+  const { categories, categoryOrder, categoryTotals: categoryTargets, refetch: refetchCategories } = useCategories();
+  const { activePeriod, isClosed } = usePeriod();
   const { toast } = useToast();
   
   const [formData, setFormData] = useState({
+    code: "",
     name: "",
     type: "Benefit" as "Benefit" | "Cost",
     weight: 0,
     category: "",
-    scale: ""
+    scale: DEFAULT_SCALES.likert as CriterionScale,
+    normalization: DEFAULT_NORMALIZATION as NormalizationStrategy,
+    thresholdBands: DEFAULT_THRESHOLD_BANDS as ThresholdBand[]
   });
 
   // Calculate total weights by category
@@ -51,7 +73,7 @@ export const CriteriaManagement = ({ onCriteriaChange }: CriteriaManagementProps
   // Auto-adjust weights to maintain fixed category totals
   const autoAdjustWeights = async (newCriterion: Criteria, isEdit: boolean = false) => {
     try {
-      const categoryTotal = CATEGORY_TOTALS[newCriterion.category as keyof typeof CATEGORY_TOTALS];
+      const categoryTotal = categoryTargets[newCriterion.category];
       if (!categoryTotal) {
         console.warn('No fixed total defined for category:', newCriterion.category);
         return;
@@ -116,7 +138,7 @@ export const CriteriaManagement = ({ onCriteriaChange }: CriteriaManagementProps
   // Auto-adjust weights when criteria is deleted
   const autoAdjustAfterDeletion = async (deletedCriterion: Criteria) => {
     try {
-      const categoryTotal = CATEGORY_TOTALS[deletedCriterion.category as keyof typeof CATEGORY_TOTALS];
+      const categoryTotal = categoryTargets[deletedCriterion.category];
       if (!categoryTotal) {
         console.warn('No fixed total defined for category:', deletedCriterion.category);
         return;
@@ -179,6 +201,7 @@ export const CriteriaManagement = ({ onCriteriaChange }: CriteriaManagementProps
       const { data, error } = await supabase
         .from('criteria')
         .select('*')
+        .eq('period_id', activePeriod.id)
         .order('category', { ascending: true });
       
       if (error) {
@@ -191,7 +214,10 @@ export const CriteriaManagement = ({ onCriteriaChange }: CriteriaManagementProps
       } else {
         const typedCriteria = (data || []).map(item => ({
           ...item,
-          type: item.type as 'Benefit' | 'Cost'
+          type: item.type as 'Benefit' | 'Cost',
+          scale: parseScale(item.scale),
+          normalization: item.normalization as NormalizationStrategy,
+          threshold_bands: parseThresholdBands(item.threshold_bands)
         })) as Criteria[];
         setCriteria(typedCriteria);
         console.log('Criteria loaded:', typedCriteria.length);
@@ -208,6 +234,16 @@ export const CriteriaManagement = ({ onCriteriaChange }: CriteriaManagementProps
     }
   };
 
+  // AHP antar kategori dapat mengubah total bobot kategori, sehingga kategori ikut dimuat ulang
+  const handleWeightingApplied = async () => {
+    await refetchCategories();
+    await fetchCriteria();
+
+    if (onCriteriaChange) {
+      onCriteriaChange();
+    }
+  };
+
   useEffect(() => {
     fetchCriteria();
   }, []);
@@ -215,7 +251,7 @@ export const CriteriaManagement = ({ onCriteriaChange }: CriteriaManagementProps
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     
-    const categoryTotal = CATEGORY_TOTALS[formData.category as keyof typeof CATEGORY_TOTALS];
+    const categoryTotal = categoryTargets[formData.category];
     if (!categoryTotal) {
       toast({
         title: "Error",
@@ -234,15 +270,61 @@ export const CriteriaManagement = ({ onCriteriaChange }: CriteriaManagementProps
       return;
     }
 
+    const code = formData.code.trim().toUpperCase();
+    if (!code) {
+      toast({
+        title: "Error",
+        description: "Kode kriteria wajib diisi",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    if (criteria.some(c => c.code === code && c.id !== editingCriteria?.id)) {
+      toast({
+        title: "Error",
+        description: `Kode ${code} sudah dipakai kriteria lain`,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    const scaleError = validateScale(formData.scale);
+    if (scaleError) {
+      toast({
+        title: "Error",
+        description: scaleError,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    if (formData.normalization === 'threshold') {
+      const bandError = validateThresholdBands(formData.thresholdBands);
+      if (bandError) {
+        toast({
+          title: "Error",
+          description: bandError,
+          variant: "destructive",
+        });
+        return;
+      }
+    }
+
     setLoading(true);
 
     try {
       const criterionData = {
+        code,
         name: formData.name,
         type: formData.type,
         weight: formData.weight,
         category: formData.category,
-        scale: formData.scale
+        scale: formData.scale as unknown as Json,
+        normalization: formData.normalization,
+        threshold_bands: formData.normalization === 'threshold'
+          ? formData.thresholdBands as unknown as Json
+          : null
       };
 
       if (editingCriteria) {
@@ -255,18 +337,21 @@ export const CriteriaManagement = ({ onCriteriaChange }: CriteriaManagementProps
         if (error) throw error;
 
         // Then auto-adjust weights for edited criteria
-        const adjustmentSuccess = await autoAdjustWeights({ ...criterionData, id: editingCriteria.id } as Criteria, true);
+        const adjustmentSuccess = await autoAdjustWeights({ ...criterionData, id: editingCriteria.id } as unknown as Criteria, true);
         
         if (!adjustmentSuccess) {
           // Rollback the update if adjustment failed
           await supabase
             .from('criteria')
             .update({
+              code: editingCriteria.code,
               name: editingCriteria.name,
               type: editingCriteria.type,
               weight: editingCriteria.weight,
               category: editingCriteria.category,
-              scale: editingCriteria.scale
+              scale: editingCriteria.scale as unknown as Json,
+              normalization: editingCriteria.normalization,
+              threshold_bands: (editingCriteria.threshold_bands ?? null) as unknown as Json
             })
             .eq('id', editingCriteria.id);
           return;
@@ -280,7 +365,7 @@ export const CriteriaManagement = ({ onCriteriaChange }: CriteriaManagementProps
         // For new criteria, first insert it
         const { data: newCriterion, error } = await supabase
           .from('criteria')
-          .insert([criterionData])
+          .insert([{ ...criterionData, period_id: activePeriod.id, position: Math.max(0, ...criteria.map(c => c.position ?? 0)) + 1 }])
           .select()
           .single();
 
@@ -288,7 +373,7 @@ export const CriteriaManagement = ({ onCriteriaChange }: CriteriaManagementProps
 
         // Then auto-adjust weights for new criteria
         if (newCriterion) {
-          const adjustmentSuccess = await autoAdjustWeights(newCriterion as Criteria);
+          const adjustmentSuccess = await autoAdjustWeights(newCriterion as unknown as Criteria);
           
           if (!adjustmentSuccess) {
             // Delete the new criterion if adjustment failed
@@ -329,11 +414,14 @@ export const CriteriaManagement = ({ onCriteriaChange }: CriteriaManagementProps
   const handleEdit = (criteriaItem: Criteria) => {
     setEditingCriteria(criteriaItem);
     setFormData({
+      code: criteriaItem.code || "",
       name: criteriaItem.name,
       type: criteriaItem.type as "Benefit" | "Cost",
       weight: criteriaItem.weight,
       category: criteriaItem.category,
-      scale: criteriaItem.scale
+      scale: criteriaItem.scale,
+      normalization: criteriaItem.normalization || DEFAULT_NORMALIZATION,
+      thresholdBands: criteriaItem.threshold_bands || DEFAULT_THRESHOLD_BANDS
     });
     setIsDialogOpen(true);
   };
@@ -382,11 +470,14 @@ export const CriteriaManagement = ({ onCriteriaChange }: CriteriaManagementProps
 
   const resetForm = () => {
     setFormData({
+      code: suggestCriterionCode(criteria.map(c => c.code)),
       name: "",
       type: "Benefit",
       weight: 0,
       category: "",
-      scale: ""
+      scale: DEFAULT_SCALES.likert,
+      normalization: DEFAULT_NORMALIZATION,
+      thresholdBands: DEFAULT_THRESHOLD_BANDS
     });
     setEditingCriteria(null);
   };
@@ -398,6 +489,47 @@ export const CriteriaManagement = ({ onCriteriaChange }: CriteriaManagementProps
     }
   };
 
+  const updateScale = (changes: Partial<CriterionScale>) => {
+    setFormData(prev => ({ ...prev, scale: { ...prev.scale, ...changes } }));
+  };
+
+  const updateScaleLabel = (value: number, label: string) => {
+    setFormData(prev => {
+      const labels = { ...(prev.scale.labels || {}) };
+      if (label.trim()) {
+        labels[String(value)] = label;
+      } else {
+        delete labels[String(value)];
+      }
+      return { ...prev, scale: { ...prev.scale, labels: Object.keys(labels).length > 0 ? labels : null } };
+    });
+  };
+
+  const updateThresholdBand = (index: number, band: ThresholdBand) => {
+    setFormData(prev => ({
+      ...prev,
+      thresholdBands: prev.thresholdBands.map((item, i) => i === index ? band : item)
+    }));
+  };
+
+  const addThresholdBand = () => {
+    setFormData(prev => {
+      const bands = [...prev.thresholdBands];
+      const openBand = bands.length > 0 && bands[bands.length - 1].upTo === null ? bands.pop() : undefined;
+      const lastLimit = bands.length > 0 ? bands[bands.length - 1].upTo ?? 0 : 0;
+      bands.push({ upTo: lastLimit + 1, score: 0 });
+      if (openBand) bands.push(openBand);
+      return { ...prev, thresholdBands: bands };
+    });
+  };
+
+  const removeThresholdBand = (index: number) => {
+    setFormData(prev => ({
+      ...prev,
+      thresholdBands: prev.thresholdBands.filter((_, i) => i !== index)
+    }));
+  };
+
   const handleAddNewClick = () => {
     resetForm();
     setIsDialogOpen(true);
@@ -405,9 +537,63 @@ export const CriteriaManagement = ({ onCriteriaChange }: CriteriaManagementProps
 
   // Calculate weight totals for display
   const categoryTotals = calculateCategoryTotals(criteria);
+  const sortedCriteria = sortCriteria(criteria, categoryOrder);
+
+  // Urutan baru hasil drag-and-drop disimpan sebagai position untuk seluruh kriteria
+  const handleReorder = async (targetId: string) => {
+    const dragged = sortedCriteria.find(c => c.id === draggedId);
+    const target = sortedCriteria.find(c => c.id === targetId);
+    setDraggedId(null);
+    if (!dragged || !target || dragged.id === target.id) return;
+
+    if (dragged.category !== target.category) {
+      toast({
+        title: "Error",
+        description: "Urutan hanya dapat diubah di dalam kategori yang sama; ubah kategori melalui Edit Kriteria",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    const fromIndex = sortedCriteria.indexOf(dragged);
+    const toIndex = sortedCriteria.indexOf(target);
+    const reordered = sortedCriteria.filter(c => c.id !== dragged.id);
+    reordered.splice(reordered.indexOf(target) + (fromIndex < toIndex ? 1 : 0), 0, dragged);
+
+    const changed = reordered
+      .map((criterion, index) => ({ ...criterion, position: index + 1 }))
+      .filter(criterion => criteria.find(c => c.id === criterion.id)?.position !== criterion.position);
+    setCriteria(reordered.map((criterion, index) => ({ ...criterion, position: index + 1 })));
+
+    try {
+      for (const criterion of changed) {
+        const { error } = await supabase
+          .from('criteria')
+          .update({ position: criterion.position })
+          .eq('id', criterion.id);
+
+        if (error) throw error;
+      }
+
+      if (onCriteriaChange) {
+        onCriteriaChange();
+      }
+    } catch (error) {
+      console.error('Error saving criteria order:', error);
+      toast({
+        title: "Error",
+        description: "Gagal menyimpan urutan kriteria",
+        variant: "destructive",
+      });
+      await fetchCriteria();
+    }
+  };
 
   return (
     <div className="space-y-6">
+      {/* Kategori berlaku untuk semua periode, tetapi penyesuaian bobotnya mengubah kriteria periode aktif */}
+      {!isClosed && <CategoryManagement categories={categories} criteria={criteria} onSaved={handleWeightingApplied} />}
+
       <Card>
         <CardHeader>
           <div className="flex justify-between items-center">
@@ -415,111 +601,248 @@ export const CriteriaManagement = ({ onCriteriaChange }: CriteriaManagementProps
               <Settings className="w-5 h-5" />
               Manajemen Kriteria ({criteria.length})
             </CardTitle>
-            <Dialog open={isDialogOpen} onOpenChange={handleDialogOpenChange}>
-              <DialogTrigger asChild>
-                <Button onClick={handleAddNewClick}>
-                  <Plus className="w-4 h-4 mr-2" />
-                  Tambah Kriteria
-                </Button>
-              </DialogTrigger>
-              <DialogContent>
-                <DialogHeader>
-                  <DialogTitle>
-                    {editingCriteria ? 'Edit Kriteria' : 'Tambah Kriteria Baru'}
-                  </DialogTitle>
-                </DialogHeader>
-                <form onSubmit={handleSubmit} className="space-y-4">
-                  <div>
-                    <Label htmlFor="name">Nama Kriteria</Label>
-                    <Input
-                      id="name"
-                      value={formData.name}
-                      onChange={(e) => setFormData(prev => ({ ...prev, name: e.target.value }))}
-                      required
-                    />
-                  </div>
-                  <div>
-                    <Label htmlFor="category">Kategori</Label>
-                    <Select value={formData.category} onValueChange={(value) => setFormData(prev => ({ ...prev, category: value }))}>
-                      <SelectTrigger>
-                        <SelectValue placeholder="Pilih kategori" />
-                      </SelectTrigger>
-                      <SelectContent>
-                        <SelectItem value="A. Kinerja Inti">Kinerja Inti (Max: 60%)</SelectItem>
-                        <SelectItem value="B. Kedisiplinan">Kedisiplinan (Max: 25%)</SelectItem>
-                        <SelectItem value="C. Faktor Tambahan">Faktor Tambahan (Max: 15%)</SelectItem>
-                      </SelectContent>
-                    </Select>
-                  </div>
-                  <div>
-                    <Label htmlFor="type">Jenis Kriteria</Label>
-                    <Select value={formData.type} onValueChange={(value: "Benefit" | "Cost") => setFormData(prev => ({ ...prev, type: value }))}>
-                      <SelectTrigger>
-                        <SelectValue />
-                      </SelectTrigger>
-                      <SelectContent>
-                        <SelectItem value="Benefit">Benefit (Lebih tinggi lebih baik)</SelectItem>
-                        <SelectItem value="Cost">Cost (Lebih rendah lebih baik)</SelectItem>
-                      </SelectContent>
-                    </Select>
-                  </div>
-                  <div>
-                    <Label htmlFor="weight">Bobot (%)</Label>
-                    <Input
-                      id="weight"
-                      type="number"
-                      step="0.01"
-                      min="0"
-                      max={formData.category ? CATEGORY_TOTALS[formData.category as keyof typeof CATEGORY_TOTALS] : 100}
-                      value={formData.weight}
-                      onChange={(e) => setFormData(prev => ({ ...prev, weight: parseFloat(e.target.value) || 0 }))}
-                      required
-                    />
-                    {formData.category && (
-                      <div className="text-sm mt-1">
-                        <p className="text-gray-600">
-                          Total saat ini {formData.category}: {categoryTotals[formData.category] || 0}%
-                        </p>
-                        <p className="text-green-600">
-                          Target kategori: {CATEGORY_TOTALS[formData.category as keyof typeof CATEGORY_TOTALS]}%
-                        </p>
+            <div className="flex gap-2">
+              {!isClosed && (
+                <>
+                  <AHPWizard criteria={criteria} categoryTotals={categoryTargets} onApplied={handleWeightingApplied} />
+                  <ObjectiveWeightingDialog criteria={criteria} categoryTotals={categoryTargets} onApplied={handleWeightingApplied} />
+                </>
+              )}
+              <Dialog open={isDialogOpen} onOpenChange={handleDialogOpenChange}>
+                <DialogTrigger asChild>
+                  <Button onClick={handleAddNewClick} disabled={isClosed}>
+                    <Plus className="w-4 h-4 mr-2" />
+                    Tambah Kriteria
+                  </Button>
+                </DialogTrigger>
+                <DialogContent>
+                  <DialogHeader>
+                    <DialogTitle>
+                      {editingCriteria ? 'Edit Kriteria' : 'Tambah Kriteria Baru'}
+                    </DialogTitle>
+                  </DialogHeader>
+                  <form onSubmit={handleSubmit} className="space-y-4">
+                    <div>
+                      <Label htmlFor="code">Kode Kriteria</Label>
+                      <Input
+                        id="code"
+                        value={formData.code}
+                        onChange={(e) => setFormData(prev => ({ ...prev, code: e.target.value }))}
+                        placeholder="contoh: C14"
+                        required
+                      />
+                      <p className="text-xs text-gray-500 mt-1">
+                        Kode tetap dipakai pada hasil perhitungan tersimpan dan tidak bergeser saat kriteria lain ditambahkan
+                      </p>
+                    </div>
+                    <div>
+                      <Label htmlFor="name">Nama Kriteria</Label>
+                      <Input
+                        id="name"
+                        value={formData.name}
+                        onChange={(e) => setFormData(prev => ({ ...prev, name: e.target.value }))}
+                        required
+                      />
+                    </div>
+                    <div>
+                      <Label htmlFor="category">Kategori</Label>
+                      <Select value={formData.category} onValueChange={(value) => setFormData(prev => ({ ...prev, category: value }))}>
+                        <SelectTrigger>
+                          <SelectValue placeholder="Pilih kategori" />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {Object.entries(categoryTargets).map(([category, total]) => (
+                            <SelectItem key={category} value={category}>
+                              {category.replace(/^[A-Z]\.\s/, '')} (Max: {total}%)
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                    <div>
+                      <Label htmlFor="type">Jenis Kriteria</Label>
+                      <Select value={formData.type} onValueChange={(value: "Benefit" | "Cost") => setFormData(prev => ({ ...prev, type: value }))}>
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="Benefit">Benefit (Lebih tinggi lebih baik)</SelectItem>
+                          <SelectItem value="Cost">Cost (Lebih rendah lebih baik)</SelectItem>
+                        </SelectContent>
+                      </Select>
+                    </div>
+                    <div>
+                      <Label htmlFor="weight">Bobot (%)</Label>
+                      <Input
+                        id="weight"
+                        type="number"
+                        step="0.01"
+                        min="0"
+                        max={formData.category ? categoryTargets[formData.category] : 100}
+                        value={formData.weight}
+                        onChange={(e) => setFormData(prev => ({ ...prev, weight: parseFloat(e.target.value) || 0 }))}
+                        required
+                      />
+                      {formData.category && (
+                        <div className="text-sm mt-1">
+                          <p className="text-gray-600">
+                            Total saat ini {formData.category}: {categoryTotals[formData.category] || 0}%
+                          </p>
+                          <p className="text-green-600">
+                            Target kategori: {categoryTargets[formData.category]}%
+                          </p>
+                        </div>
+                      )}
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="scale">Skala Penilaian</Label>
+                      <Select value={formData.scale.kind} onValueChange={(value: ScaleKind) => setFormData(prev => ({ ...prev, scale: DEFAULT_SCALES[value] }))}>
+                        <SelectTrigger id="scale">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {SCALE_KINDS.map(kind => (
+                            <SelectItem key={kind.value} value={kind.value}>
+                              {kind.label}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <div className="grid grid-cols-3 gap-2">
+                        <div>
+                          <Label htmlFor="scale-min" className="text-xs">Minimum</Label>
+                          <Input
+                            id="scale-min"
+                            type="number"
+                            step="any"
+                            value={formData.scale.min}
+                            onChange={(e) => updateScale({ min: parseFloat(e.target.value) || 0 })}
+                            disabled={formData.scale.kind === 'binary'}
+                          />
+                        </div>
+                        <div>
+                          <Label htmlFor="scale-max" className="text-xs">Maksimum</Label>
+                          <Input
+                            id="scale-max"
+                            type="number"
+                            step="any"
+                            placeholder="tanpa batas"
+                            value={formData.scale.max ?? ""}
+                            onChange={(e) => updateScale({ max: e.target.value === "" ? null : parseFloat(e.target.value) })}
+                            disabled={formData.scale.kind === 'binary'}
+                          />
+                        </div>
+                        <div>
+                          <Label htmlFor="scale-step" className="text-xs">Langkah</Label>
+                          <Input
+                            id="scale-step"
+                            type="number"
+                            step="any"
+                            min="0"
+                            value={formData.scale.step}
+                            onChange={(e) => updateScale({ step: parseFloat(e.target.value) || 0 })}
+                            disabled={formData.scale.kind === 'binary'}
+                          />
+                        </div>
+                      </div>
+                      {(formData.scale.kind === 'likert' || formData.scale.kind === 'binary') && getScaleValues(formData.scale).length > 0 && (
+                        <div className="space-y-1">
+                          <Label className="text-xs">Label per Nilai (opsional)</Label>
+                          {getScaleValues(formData.scale).map(value => (
+                            <div key={value} className="flex items-center gap-2">
+                              <span className="w-10 text-sm text-gray-600 text-right">{value}</span>
+                              <Input
+                                value={formData.scale.labels?.[String(value)] ?? ""}
+                                onChange={(e) => updateScaleLabel(value, e.target.value)}
+                                placeholder="contoh: Baik"
+                              />
+                            </div>
+                          ))}
+                        </div>
+                      )}
+                    </div>
+                    <div>
+                      <Label htmlFor="normalization">Strategi Normalisasi</Label>
+                      <Select value={formData.normalization} onValueChange={(value: NormalizationStrategy) => setFormData(prev => ({ ...prev, normalization: value }))}>
+                        <SelectTrigger id="normalization">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {NORMALIZATION_STRATEGIES.map(strategy => (
+                            <SelectItem key={strategy.value} value={strategy.value}>
+                              {strategy.label}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <p className="text-sm text-gray-600 mt-1">
+                        {NORMALIZATION_STRATEGIES.find(strategy => strategy.value === formData.normalization)?.description}
+                      </p>
+                    </div>
+                    {formData.normalization === 'threshold' && (
+                      <div className="space-y-2">
+                        <Label>Pita Nilai</Label>
+                        <p className="text-xs text-gray-600">Nilai mentah ≤ batas atas mendapat skor pita pertama yang cocok. Kosongkan batas atas pita terakhir untuk "selebihnya".</p>
+                        {formData.thresholdBands.map((band, index) => (
+                          <div key={index} className="flex items-center gap-2">
+                            <Input
+                              type="number"
+                              step="0.01"
+                              placeholder="selebihnya"
+                              value={band.upTo ?? ""}
+                              onChange={(e) => updateThresholdBand(index, { ...band, upTo: e.target.value === "" ? null : parseFloat(e.target.value) })}
+                            />
+                            <Input
+                              type="number"
+                              step="0.01"
+                              min="0"
+                              max="1"
+                              value={band.score}
+                              onChange={(e) => updateThresholdBand(index, { ...band, score: parseFloat(e.target.value) || 0 })}
+                            />
+                            <Button type="button" variant="outline" size="sm" onClick={() => removeThresholdBand(index)}>
+                              <Trash2 className="w-4 h-4" />
+                            </Button>
+                          </div>
+                        ))}
+                        <Button type="button" variant="outline" size="sm" onClick={addThresholdBand}>
+                          <Plus className="w-4 h-4 mr-2" />
+                          Tambah Pita
+                        </Button>
                       </div>
                     )}
-                  </div>
-                  <div>
-                    <Label htmlFor="scale">Skala Penilaian</Label>
-                    <Input
-                      id="scale"
-                      value={formData.scale}
-                      onChange={(e) => setFormData(prev => ({ ...prev, scale: e.target.value }))}
-                      placeholder="contoh: 1-5, 0-10, dll"
-                      required
-                    />
-                  </div>
-                  <div className="flex gap-2">
-                    <Button type="submit" disabled={loading}>
-                      {loading ? "Menyimpan..." : (editingCriteria ? "Update" : "Simpan")}
-                    </Button>
-                    <Button type="button" variant="outline" onClick={() => handleDialogOpenChange(false)}>
-                      Batal
-                    </Button>
-                  </div>
-                </form>
-              </DialogContent>
-            </Dialog>
+                    <div className="flex gap-2">
+                      <Button type="submit" disabled={loading}>
+                        {loading ? "Menyimpan..." : (editingCriteria ? "Update" : "Simpan")}
+                      </Button>
+                      <Button type="button" variant="outline" onClick={() => handleDialogOpenChange(false)}>
+                        Batal
+                      </Button>
+                    </div>
+                  </form>
+                </DialogContent>
+              </Dialog>
+            </div>
           </div>
         </CardHeader>
         <CardContent>
+          {isClosed && (
+            <div className="mb-6 p-3 bg-gray-100 rounded-lg text-sm text-gray-700 flex items-start gap-2">
+              <AlertTriangle className="w-4 h-4 mt-0.5 flex-shrink-0" />
+              <span>Periode {activePeriod.name} sudah ditutup; kriteria dan bobot periode ini hanya dapat dilihat.</span>
+            </div>
+          )}
+
           {/* Weight Summary */}
           <div className="mb-6 p-4 bg-blue-50 rounded-lg">
             <h4 className="font-semibold mb-3 text-blue-800">Ringkasan Bobot per Kategori</h4>
             <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
-              {Object.entries(CATEGORY_TOTALS).map(([category, targetTotal]) => {
+              {Object.entries(categoryTargets).map(([category, targetTotal]) => {
                 const currentTotal = categoryTotals[category] || 0;
                 const isComplete = Math.abs(currentTotal - targetTotal) < 0.01;
                 return (
                   <div key={category} className={`p-3 rounded border-2 ${isComplete ? 'border-green-300 bg-green-50' : 'border-yellow-300 bg-yellow-50'}`}>
-                    <div className="font-medium text-sm">{category.replace(/^[A-C]\.\s/, '')}</div>
+                    <div className="font-medium text-sm">{category.replace(/^[A-Z]\.\s/, '')}</div>
                     <div className="flex justify-between items-center mt-1">
                       <span className="text-lg font-bold">{currentTotal.toFixed(1)}%</span>
                       <span className="text-sm text-gray-600">/ {targetTotal}%</span>
@@ -527,7 +850,7 @@ export const CriteriaManagement = ({ onCriteriaChange }: CriteriaManagementProps
                     <div className="w-full bg-gray-200 rounded-full h-2 mt-2">
                       <div 
                         className={`h-2 rounded-full ${isComplete ? 'bg-green-500' : 'bg-yellow-500'}`}
-                        style={{ width: `${Math.min((currentTotal / targetTotal) * 100, 100)}%` }}
+                        style={{ width: `${targetTotal > 0 ? Math.min((currentTotal / targetTotal) * 100, 100) : 0}%` }}
                       ></div>
                     </div>
                   </div>
@@ -550,17 +873,32 @@ export const CriteriaManagement = ({ onCriteriaChange }: CriteriaManagementProps
             <Table>
               <TableHeader>
                 <TableRow>
+                  <TableHead className="w-8"></TableHead>
+                  <TableHead>Kode</TableHead>
                   <TableHead>Nama Kriteria</TableHead>
                   <TableHead>Kategori</TableHead>
                   <TableHead>Jenis</TableHead>
                   <TableHead>Bobot (%)</TableHead>
                   <TableHead>Skala</TableHead>
+                  <TableHead>Normalisasi</TableHead>
                   <TableHead>Aksi</TableHead>
                 </TableRow>
               </TableHeader>
               <TableBody>
-                {criteria.map((criteriaItem) => (
-                  <TableRow key={criteriaItem.id}>
+                {sortedCriteria.map((criteriaItem) => (
+                  <TableRow
+                    key={criteriaItem.id}
+                    draggable={!isClosed}
+                    onDragStart={() => setDraggedId(criteriaItem.id)}
+                    onDragOver={(e) => e.preventDefault()}
+                    onDrop={() => handleReorder(criteriaItem.id)}
+                    onDragEnd={() => setDraggedId(null)}
+                    className={draggedId === criteriaItem.id ? 'opacity-50' : undefined}
+                  >
+                    <TableCell className="cursor-move text-gray-400">
+                      <GripVertical className="w-4 h-4" />
+                    </TableCell>
+                    <TableCell className="font-mono">{criteriaItem.code || '-'}</TableCell>
                     <TableCell className="font-medium">{criteriaItem.name}</TableCell>
                     <TableCell>{criteriaItem.category}</TableCell>
                     <TableCell>
@@ -571,14 +909,15 @@ export const CriteriaManagement = ({ onCriteriaChange }: CriteriaManagementProps
                       </span>
                     </TableCell>
                     <TableCell>{criteriaItem.weight}%</TableCell>
-                    <TableCell>{criteriaItem.scale}</TableCell>
+                    <TableCell>{formatScale(criteriaItem.scale)}</TableCell>
+                    <TableCell>{getNormalizationLabel(criteriaItem.normalization || DEFAULT_NORMALIZATION)}</TableCell>
                     <TableCell>
                       <div className="flex gap-2">
                         <Button
                           variant="outline"
                           size="sm"
                           onClick={() => handleEdit(criteriaItem)}
-                          disabled={loading}
+                          disabled={loading || isClosed}
                         >
                           <Edit className="w-4 h-4" />
                         </Button>
@@ -586,7 +925,7 @@ export const CriteriaManagement = ({ onCriteriaChange }: CriteriaManagementProps
                           variant="destructive"
                           size="sm"
                           onClick={() => handleDelete(criteriaItem.id)}
-                          disabled={loading}
+                          disabled={loading || isClosed}
                         >
                           <Trash2 className="w-4 h-4" />
                         </Button>
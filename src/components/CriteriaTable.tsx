@@ -6,6 +6,9 @@ import { Calculator, RefreshCw } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { supabase } from "@/integrations/supabase/client";
 import { useToast } from "@/hooks/use-toast";
+import { usePeriod } from "@/components/PeriodProvider";
+import { formatScale, parseScale, parseThresholdBands } from "@/lib/saw";
+import type { NormalizationStrategy } from "@/lib/saw";
 import type { Criteria } from "@/types/database";
 
 interface CriteriaTableProps {
@@ -16,6 +19,7 @@ export const CriteriaTable = ({ key }: CriteriaTableProps) => {
   const [criteria, setCriteria] = useState<Criteria[]>([]);
   const [loading, setLoading] = useState(false);
   const { toast } = useToast();
+  const { activePeriod } = usePeriod();
 
   const fetchCriteria = async () => {
     setLoading(true);
@@ -23,6 +27,7 @@ export const CriteriaTable = ({ key }: CriteriaTableProps) => {
       const { data, error } = await supabase
         .from('criteria')
         .select('*')
+        .eq('period_id', activePeriod.id)
         .order('category', { ascending: true });
       
       if (error) {
@@ -33,7 +38,13 @@ export const CriteriaTable = ({ key }: CriteriaTableProps) => {
           variant: "destructive",
         });
       } else {
-        setCriteria((data || []) as Criteria[]);
+        setCriteria((data || []).map(item => ({
+          ...item,
+          type: item.type as 'Benefit' | 'Cost',
+          scale: parseScale(item.scale),
+          normalization: item.normalization as NormalizationStrategy,
+          threshold_bands: parseThresholdBands(item.threshold_bands)
+        })));
         console.log('CriteriaTable: Loaded criteria:', (data || []).length);
       }
     } catch (error) {
@@ -142,7 +153,7 @@ export const CriteriaTable = ({ key }: CriteriaTableProps) => {
                               {criterion.weight}%
                             </td>
                             <td className="border border-gray-300 px-4 py-2 text-center">
-                              {criterion.scale}
+                              {formatScale(criterion.scale)}
                             </td>
                           </tr>
                         ))}
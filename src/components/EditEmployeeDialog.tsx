@@ -5,7 +5,10 @@ import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { supabase } from "@/integrations/supabase/client";
 import { useToast } from "@/hooks/use-toast";
+import { usePeriod } from "@/components/PeriodProvider";
 import type { Employee } from "@/pages/Index";
+import { formatScale, parseScale, parseThresholdBands, validateScaleValue } from "@/lib/saw";
+import type { NormalizationStrategy } from "@/lib/saw";
 import type { Criteria } from "@/types/database";
 
 interface EditEmployeeDialogProps {
@@ -21,6 +24,7 @@ export const EditEmployeeDialog = ({ employee, isOpen, onClose, onUpdate }: Edit
   const [currentScores, setCurrentScores] = useState<{ [criteria_id: string]: number }>({});
   const [loading, setLoading] = useState(false);
   const { toast } = useToast();
+  const { activePeriod, isClosed } = usePeriod();
 
   // Fungsi untuk mengkonversi nama kriteria menjadi field name yang konsisten
   const createFieldName = (criteriaName: string): string => {
@@ -65,6 +69,7 @@ export const EditEmployeeDialog = ({ employee, isOpen, onClose, onUpdate }: Edit
       const { data: criteriaData, error: criteriaError } = await supabase
         .from('criteria')
         .select('*')
+        .eq('period_id', activePeriod.id)
         .order('category', { ascending: true });
       
       if (criteriaError) {
@@ -72,13 +77,20 @@ export const EditEmployeeDialog = ({ employee, isOpen, onClose, onUpdate }: Edit
         return;
       }
 
-      setCriteria(criteriaData || []);
+      setCriteria((criteriaData || []).map(item => ({
+        ...item,
+        type: item.type as 'Benefit' | 'Cost',
+        scale: parseScale(item.scale),
+        normalization: item.normalization as NormalizationStrategy,
+        threshold_bands: parseThresholdBands(item.threshold_bands)
+      })));
 
       // Fetch current evaluation scores for this employee
       const { data: scoresData, error: scoresError } = await supabase
         .from('evaluation_scores')
         .select('criteria_id, score')
-        .eq('employee_id', employee.id);
+        .eq('employee_id', employee.id)
+        .eq('period_id', activePeriod.id);
 
       if (scoresError) {
         console.error('Error fetching evaluation scores:', scoresError);
@@ -146,6 +158,23 @@ export const EditEmployeeDialog = ({ employee, isOpen, onClose, onUpdate }: Edit
     e.preventDefault();
     if (!employee) return;
 
+    // Validasi nilai terhadap skala masing-masing kriteria
+    const invalidScores = criteria
+      .map(criterion => {
+        const scaleError = validateScaleValue(formData[createFieldName(criterion.name)] ?? 0, criterion.scale);
+        return scaleError ? `${criterion.name} ${scaleError}` : null;
+      })
+      .filter(Boolean);
+
+    if (invalidScores.length > 0) {
+      toast({
+        title: "Error",
+        description: `Nilai tidak sesuai skala: ${invalidScores.join(', ')}`,
+        variant: "destructive",
+      });
+      return;
+    }
+
     setLoading(true);
     try {
       // Prepare data for upsert to evaluation_scores table
@@ -221,6 +250,10 @@ export const EditEmployeeDialog = ({ employee, isOpen, onClose, onUpdate }: Edit
       <DialogContent className="max-w-4xl max-h-[90vh] overflow-y-auto">
         <DialogHeader>
           <DialogTitle>Edit Evaluasi Karyawan - {employee.name}</DialogTitle>
+          <p className="text-sm text-gray-600">
+            Mengubah nilai akhir hasil agregasi penilai secara langsung. Nilai ini ditimpa kembali saat ada penilai
+            yang menyimpan penilaian atau agregasi dihitung ulang.
+          </p>
         </DialogHeader>
         
         <form onSubmit={handleSubmit} className="space-y-6">
@@ -233,20 +266,26 @@ export const EditEmployeeDialog = ({ employee, isOpen, onClose, onUpdate }: Edit
                   const fieldName = createFieldName(criterion.name);
                   const currentValue = formData[fieldName] || 0;
                   const dbScore = currentScores[criterion.id];
+                  const scaleError = validateScaleValue(currentValue, criterion.scale);
+                  const valueLabel = criterion.scale.labels?.[String(currentValue)];
                   
                   return (
                     <div key={criterion.id}>
                       <Label htmlFor={fieldName}>
-                        {criterion.name} ({criterion.scale})
+                        {criterion.name} ({formatScale(criterion.scale)})
                       </Label>
                       <Input
                         id={fieldName}
                         type="number"
-                        min={criterion.type === 'Benefit' && criterion.scale.includes('1-5') ? "1" : "0"}
-                        max={criterion.scale.includes('1-5') ? "5" : criterion.scale.includes('0-1') || criterion.scale.includes('0/1') ? "1" : "10"}
+                        min={criterion.scale.min}
+                        max={criterion.scale.max ?? undefined}
+                        step={criterion.scale.step}
                         value={currentValue}
-                        onChange={(e) => handleInputChange(fieldName, parseInt(e.target.value) || 0)}
+                        onChange={(e) => handleInputChange(fieldName, parseFloat(e.target.value) || 0)}
+                        className={scaleError ? "border-red-500" : undefined}
                       />
+                      {scaleError && <p className="text-xs text-red-600 mt-1">Nilai {scaleError}</p>}
+                      {!scaleError && valueLabel && <p className="text-xs text-green-700 mt-1">{valueLabel}</p>}
                       <p className="text-xs text-gray-500 mt-1">
                         Bobot: {criterion.weight}% | Tipe: {criterion.type} | 
                         {dbScore !== undefined && ` DB: ${dbScore} |`} Field: {fieldName}
@@ -270,7 +309,7 @@ export const EditEmployeeDialog = ({ employee, isOpen, onClose, onUpdate }: Edit
             <Button type="button" variant="outline" onClick={onClose}>
               Batal
             </Button>
-            <Button type="submit" disabled={loading} className="bg-green-600 hover:bg-green-700">
+            <Button type="submit" disabled={loading || isClosed} className="bg-green-600 hover:bg-green-700">
               {loading ? "Menyimpan..." : "Simpan Perubahan"}
             </Button>
           </div>
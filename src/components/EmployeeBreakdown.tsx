@@ -0,0 +1,235 @@
+import { Fragment, useState, useEffect } from "react";
+import { Badge } from "@/components/ui/badge";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, ReferenceLine, Cell } from "recharts";
+import { supabase } from "@/integrations/supabase/client";
+import { usePeriod } from "@/components/PeriodProvider";
+import {
+  CATEGORY_ORDER,
+  EXTENSION_THRESHOLD,
+  TERMINATED_RANK,
+  buildWaterfallSteps,
+  getGapToNextRank,
+  getGapToThreshold,
+  getScoreLabel,
+  groupContributionsByCategory,
+  resolveCategoryOrder,
+  sortCriteria,
+  toSAWCriterion,
+} from "@/lib/saw";
+import type { ContributionRow } from "@/lib/saw";
+import type { SAWResult } from "@/pages/Index";
+
+interface EmployeeBreakdownProps {
+  result: SAWResult;
+  results: SAWResult[];
+}
+
+// Warna kategori mengikuti posisinya pada urutan kategori
+const CATEGORY_COLORS = ["#22c55e", "#3b82f6", "#f59e0b", "#ec4899", "#06b6d4", "#84cc16"];
+
+export const EmployeeBreakdown = ({ result, results }: EmployeeBreakdownProps) => {
+  const [rows, setRows] = useState<ContributionRow[]>([]);
+  const [calculationDate, setCalculationDate] = useState<string>('');
+  const [categoryOrder, setCategoryOrder] = useState<string[]>(CATEGORY_ORDER);
+  const [loading, setLoading] = useState(false);
+  const { activePeriod } = usePeriod();
+
+  const fetchBreakdown = async () => {
+    setLoading(true);
+    try {
+      // Matriks ternormalisasi terbaru yang tersimpan untuk karyawan ini pada periode aktif
+      const { data, error } = await supabase
+        .from('saw_normalized_matrix')
+        .select('*')
+        .eq('employee_id', result.employee.id)
+        .eq('period_id', activePeriod.id)
+        .order('calculation_date', { ascending: false });
+
+      if (error) {
+        console.error('Error fetching score breakdown:', error);
+        return;
+      }
+
+      const latestDate = data && data.length > 0 ? data[0].calculation_date : '';
+      const latestRows = data && data.length > 0 ? data.filter(row => row.calculation_id === data[0].calculation_id) : [];
+
+      const { data: categoryData } = await supabase.from('categories').select('*').order('position', { ascending: true });
+      const order = resolveCategoryOrder(categoryData);
+      setCategoryOrder(order);
+
+      const { data: criteriaData } = await supabase.from('criteria').select('*').eq('period_id', activePeriod.id).order('name');
+      const currentCriteria = sortCriteria((criteriaData || []).map(toSAWCriterion), order);
+
+      setCalculationDate(latestDate);
+      setRows(latestRows.map(row => {
+        // Baris baru menyimpan id kriteria; baris lama tanpa nama/kategori dipetakan dari posisi kode pada kriteria saat ini
+        const index = row.criteria_id ? currentCriteria.findIndex(criterion => criterion.id === row.criteria_id) : -1;
+        const fallback = index !== -1
+          ? currentCriteria[index]
+          : row.criteria_name ? undefined : currentCriteria[(parseInt(row.criteria_code.replace(/\D/g, ''), 10) || 0) - 1];
+        return {
+          code: row.criteria_code,
+          order: index !== -1 ? index : undefined,
+          name: row.criteria_name || fallback?.name || row.criteria_code,
+          category: row.category || fallback?.category || 'Lainnya',
+          rawValue: row.raw_value,
+          normalizedValue: row.normalized_value,
+          weight: row.weight,
+          contribution: row.normalized_value * row.weight
+        };
+      }));
+    } catch (error) {
+      console.error('Error fetching score breakdown:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchBreakdown();
+  }, [result.employee.id]);
+
+  if (loading) {
+    return <p className="text-center py-8 text-gray-500">Memuat rincian skor...</p>;
+  }
+
+  if (rows.length === 0) {
+    return <p className="text-center py-8 text-gray-500">Rincian skor belum tersimpan untuk karyawan ini</p>;
+  }
+
+  const groups = groupContributionsByCategory(rows, categoryOrder);
+  const categoryColor = (category: string) => {
+    const index = categoryOrder.indexOf(category);
+    return index === -1 ? "#8b5cf6" : CATEGORY_COLORS[index % CATEGORY_COLORS.length];
+  };
+  const steps = buildWaterfallSteps(groups);
+  const totalContribution = rows.reduce((sum, row) => sum + row.contribution, 0);
+  const nextRankGap = getGapToNextRank(results, result);
+  const thresholdGap = getGapToThreshold(result.finalScore);
+  const isTerminated = result.rank === TERMINATED_RANK;
+  // Untuk TOPSIS/WP skor akhir bukan jumlah kontribusi tertimbang, sehingga rincian hanya pendekatan
+  const isAdditive = Math.abs(totalContribution - result.finalScore) < 0.0005;
+
+  return (
+    <div className="space-y-6">
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-3 text-sm">
+        <div className="p-3 bg-gray-50 rounded-lg">
+          <p className="text-gray-600">Peringkat</p>
+          <p className="text-xl font-bold">{isTerminated ? 'Diberhentikan' : `#${result.rank}`}</p>
+        </div>
+        <div className="p-3 bg-gray-50 rounded-lg">
+          <p className="text-gray-600">Skor Akhir / Konversi</p>
+          <p className="text-xl font-bold">
+            {result.finalScore.toFixed(4)} / {result.convertedScore.toFixed(2)}
+          </p>
+          <p className="text-xs text-gray-500">{getScoreLabel(result.convertedScore)}</p>
+        </div>
+        <div className="p-3 bg-blue-50 rounded-lg">
+          <p className="text-gray-600">Selisih ke peringkat di atasnya</p>
+          {nextRankGap ? (
+            <>
+              <p className="text-xl font-bold text-blue-700">+{nextRankGap.convertedGap.toFixed(2)}</p>
+              <p className="text-xs text-gray-500">
+                Skor akhir +{nextRankGap.finalScoreGap.toFixed(4)} untuk menyamai #{nextRankGap.rank}
+              </p>
+            </>
+          ) : (
+            <p className="text-xl font-bold text-blue-700">-</p>
+          )}
+        </div>
+        <div className={`p-3 rounded-lg ${thresholdGap.finalScoreGap > 0 ? 'bg-red-50' : 'bg-green-50'}`}>
+          <p className="text-gray-600">Selisih ke ambang {EXTENSION_THRESHOLD.toFixed(1)}</p>
+          {thresholdGap.finalScoreGap > 0 ? (
+            <>
+              <p className="text-xl font-bold text-red-700">+{thresholdGap.convertedGap.toFixed(2)}</p>
+              <p className="text-xs text-gray-500">Skor akhir +{thresholdGap.finalScoreGap.toFixed(4)}</p>
+            </>
+          ) : (
+            <p className="text-xl font-bold text-green-700">Tercapai</p>
+          )}
+        </div>
+      </div>
+
+      {result.note && (
+        <p className="text-sm text-gray-700">
+          <strong>Rekomendasi:</strong> {result.recommendation} - {result.note}
+        </p>
+      )}
+
+      <div>
+        <h4 className="font-semibold mb-2">Kontribusi Kriteria terhadap Skor Konversi</h4>
+        <ResponsiveContainer width="100%" height={280}>
+          <BarChart data={steps}>
+            <CartesianGrid strokeDasharray="3 3" />
+            <XAxis dataKey="label" />
+            <YAxis domain={[0, 5]} />
+            <Tooltip
+              formatter={(value, name) => name === 'base' ? null : [Number(value).toFixed(3), 'Kontribusi']}
+              labelFormatter={(label) => rows.find(row => row.code === label)?.name || label}
+            />
+            <ReferenceLine y={EXTENSION_THRESHOLD} stroke="#ef4444" strokeDasharray="4 4" />
+            <Bar dataKey="base" stackId="waterfall" fill="transparent" />
+            <Bar dataKey="value" stackId="waterfall">
+              {steps.map(step => (
+                <Cell key={step.label} fill={step.isTotal ? "#6b7280" : categoryColor(step.category)} />
+              ))}
+            </Bar>
+          </BarChart>
+        </ResponsiveContainer>
+        {!isAdditive && (
+          <p className="text-xs text-amber-700">
+            Jumlah kontribusi ({(totalContribution * 5).toFixed(2)}) berbeda dari skor konversi karena metode
+            perhitungan bukan penjumlahan tertimbang; rincian ditampilkan sebagai nilai normalisasi × bobot.
+          </p>
+        )}
+      </div>
+
+      <div className="overflow-x-auto">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Kode</TableHead>
+              <TableHead>Kriteria</TableHead>
+              <TableHead className="text-center">Nilai Mentah</TableHead>
+              <TableHead className="text-center">Normalisasi</TableHead>
+              <TableHead className="text-center">Bobot</TableHead>
+              <TableHead className="text-center">Kontribusi</TableHead>
+              <TableHead className="text-center">Kontribusi (0-5)</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {groups.map(group => (
+              <Fragment key={group.category}>
+                <TableRow className="bg-gray-50">
+                  <TableCell colSpan={5} className="font-semibold">
+                    <Badge variant="outline" style={{ borderColor: categoryColor(group.category) }}>{group.category}</Badge>
+                  </TableCell>
+                  <TableCell className="text-center font-semibold">{group.subtotal.toFixed(4)}</TableCell>
+                  <TableCell className="text-center font-semibold">{(group.subtotal * 5).toFixed(2)}</TableCell>
+                </TableRow>
+                {group.rows.map(row => (
+                  <TableRow key={`${group.category}-${row.code}`}>
+                    <TableCell>{row.code}</TableCell>
+                    <TableCell>{row.name}</TableCell>
+                    <TableCell className="text-center">{row.rawValue}</TableCell>
+                    <TableCell className="text-center">{row.normalizedValue.toFixed(4)}</TableCell>
+                    <TableCell className="text-center">{(row.weight * 100).toFixed(0)}%</TableCell>
+                    <TableCell className="text-center">{row.contribution.toFixed(4)}</TableCell>
+                    <TableCell className="text-center">{(row.contribution * 5).toFixed(2)}</TableCell>
+                  </TableRow>
+                ))}
+              </Fragment>
+            ))}
+          </TableBody>
+        </Table>
+      </div>
+
+      {calculationDate && (
+        <p className="text-xs text-gray-500">
+          Sumber: matriks ternormalisasi tersimpan {new Date(calculationDate).toLocaleString('id-ID')}
+        </p>
+      )}
+    </div>
+  );
+};
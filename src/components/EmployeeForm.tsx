@@ -6,10 +6,25 @@ import { Label } from "@/components/ui/label";
 import { Badge } from "@/components/ui/badge";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
-import { UserPlus, User, Eye, Edit, Trash2 } from "lucide-react";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { UserPlus, User, Eye, Edit, Trash2, ClipboardCheck } from "lucide-react";
 import { supabase } from "@/integrations/supabase/client";
 import { useToast } from "@/hooks/use-toast";
+import { useEvaluatorScoring } from "@/hooks/use-evaluator-scoring";
+import { useCategories } from "@/hooks/use-categories";
+import { usePeriod } from "@/components/PeriodProvider";
 import { EditEmployeeDialog } from "@/components/EditEmployeeDialog";
+import { EvaluatorSettings } from "@/components/EvaluatorSettings";
+import {
+  compareCategories,
+  formatScale,
+  getAggregationLabel,
+  getScaleDefaultValue,
+  parseScale,
+  parseThresholdBands,
+  validateScaleValue,
+} from "@/lib/saw";
+import type { NormalizationStrategy } from "@/lib/saw";
 import type { Employee as DBEmployee, Criteria, EvaluationScore } from "@/types/database";
 import type { Employee, SAWResult } from "@/pages/Index";
 
@@ -30,6 +45,17 @@ export const EmployeeForm = ({ onAddEmployee, employees, criteriaUpdateTrigger,
   const [isDetailDialogOpen, setIsDetailDialogOpen] = useState(false);
   const [isEditDialogOpen, setIsEditDialogOpen] = useState(false);
   const [loading, setLoading] = useState(false);
+  const [evaluatorTypeId, setEvaluatorTypeId] = useState<string>("");
+  const [evaluatorName, setEvaluatorName] = useState("");
+  const {
+    evaluatorTypes,
+    evaluatorScores,
+    aggregationMethod,
+    refetch: refetchEvaluatorData,
+    syncAggregatedScores
+  } = useEvaluatorScoring();
+  const { categoryOrder } = useCategories();
+  const { activePeriod, isClosed } = usePeriod();
   const { toast } = useToast();
   
   // Dynamic form data - akan diisi berdasarkan kriteria dari database
@@ -40,6 +66,7 @@ export const EmployeeForm = ({ onAddEmployee, employees, criteriaUpdateTrigger,
       const { data: criteriaData, error } = await supabase
         .from('criteria')
         .select('*')
+        .eq('period_id', activePeriod.id)
         .order('category', { ascending: true });
       
       if (error) {
@@ -50,25 +77,22 @@ export const EmployeeForm = ({ onAddEmployee, employees, criteriaUpdateTrigger,
           variant: "destructive",
         });
       } else {
-        setCriteria(criteriaData || []);
-        console.log('EmployeeForm: Criteria loaded:', criteriaData?.length || 0);
+        const typedCriteria: Criteria[] = (criteriaData || []).map(item => ({
+          ...item,
+          type: item.type as 'Benefit' | 'Cost',
+          scale: parseScale(item.scale),
+          normalization: item.normalization as NormalizationStrategy,
+          threshold_bands: parseThresholdBands(item.threshold_bands)
+        }));
+        setCriteria(typedCriteria);
+        console.log('EmployeeForm: Criteria loaded:', typedCriteria.length);
         
         // Initialize form data dengan semua kriteria dari database
         const newFormData: { [criteria_id: string]: number } = {};
         
-        (criteriaData || []).forEach(criterion => {
-          // Set default values berdasarkan tipe dan kategori kriteria
-          if (criterion.type === 'Benefit') {
-            if (criterion.scale.includes('1-5')) {
-              newFormData[criterion.id] = 1; // Default untuk skala 1-5
-            } else if (criterion.scale.includes('0-1') || criterion.scale.includes('0/1')) {
-              newFormData[criterion.id] = 0; // Default untuk binary
-            } else {
-              newFormData[criterion.id] = 1; // Default fallback untuk benefit
-            }
-          } else { // Cost criteria
-            newFormData[criterion.id] = 0; // Default untuk cost criteria
-          }
+        typedCriteria.forEach(criterion => {
+          // Set default values berdasarkan skala dan tipe kriteria
+          newFormData[criterion.id] = getScaleDefaultValue(criterion.scale, criterion.type);
         });
         
         setFormData(newFormData);
@@ -119,7 +143,8 @@ export const EmployeeForm = ({ onAddEmployee, employees, criteriaUpdateTrigger,
           *,
           employees!inner(id, name, position, department, email, hire_date),
           criteria!inner(id, name, type, weight, category, scale)
-        `);
+        `)
+        .eq('period_id', activePeriod.id);
       
       if (error) {
         console.error('Error fetching evaluation scores:', error);
@@ -238,6 +263,15 @@ export const EmployeeForm = ({ onAddEmployee, employees, criteriaUpdateTrigger,
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
+    if (isClosed) {
+      toast({
+        title: "Error",
+        description: `Periode ${activePeriod.name} sudah ditutup; nilai tidak dapat diubah`,
+        variant: "destructive",
+      });
+      return;
+    }
+
     if (!selectedEmployeeId) {
       toast({
         title: "Error",
@@ -257,28 +291,60 @@ export const EmployeeForm = ({ onAddEmployee, employees, criteriaUpdateTrigger,
       return;
     }
 
+    const evaluatorType = evaluatorTypes.find(type => type.id === evaluatorTypeId);
+    // Penilaian diri sendiri selalu atas nama karyawan yang dinilai
+    const submittedBy = evaluatorType?.code === 'self' ? selectedEmployee.name : evaluatorName.trim();
+    if (!evaluatorType || !submittedBy) {
+      toast({
+        title: "Error",
+        description: "Silakan pilih jenis penilai dan isi nama penilai",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    // Validasi nilai terhadap skala masing-masing kriteria
+    const invalidScores = criteria
+      .map(criterion => {
+        const scaleError = validateScaleValue(formData[criterion.id] ?? 0, criterion.scale);
+        return scaleError ? `${criterion.name} ${scaleError}` : null;
+      })
+      .filter(Boolean);
+
+    if (invalidScores.length > 0) {
+      toast({
+        title: "Error",
+        description: `Nilai tidak sesuai skala: ${invalidScores.join(', ')}`,
+        variant: "destructive",
+      });
+      return;
+    }
+
     setLoading(true);
     try {
-      // Prepare evaluation scores data
-      const evaluationScoresData = criteria.map(criterion => ({
+      // Nilai mentah penilai ini; evaluation_scores diisi ulang dari agregasi semua penilai
+      const evaluatorScoresData = criteria.map(criterion => ({
         employee_id: selectedEmployeeId,
         criteria_id: criterion.id,
+        evaluator_type_id: evaluatorType.id,
+        evaluator_name: submittedBy,
         score: formData[criterion.id] || 0
       }));
 
-      console.log('Saving evaluation scores:', evaluationScoresData);
+      console.log('Saving evaluator scores:', evaluatorScoresData);
 
-      // Save to database using the new flexible structure
-      const { data, error } = await supabase
-        .from('evaluation_scores')
-        .upsert(evaluationScoresData, { 
-          onConflict: 'employee_id,criteria_id',
-          ignoreDuplicates: false 
-        })
-        .select();
+      const { error } = await supabase
+        .from('evaluator_scores')
+        .upsert(evaluatorScoresData, {
+          onConflict: 'employee_id,criteria_id,evaluator_type_id,evaluator_name',
+          ignoreDuplicates: false
+        });
 
       if (error) throw error;
 
+      await syncAggregatedScores([selectedEmployeeId]);
+      const wasEvaluated = evaluationScores.some(score => score.employee_id === selectedEmployeeId);
+
       // Convert to old format for compatibility with SAW Calculator
       const newEmployee: Employee = {
         id: selectedEmployee.id,
@@ -306,20 +372,19 @@ export const EmployeeForm = ({ onAddEmployee, employees, criteriaUpdateTrigger,
         }
       });
 
-      onAddEmployee(newEmployee);
+      // Karyawan yang sudah punya nilai dari penilai lain cukup dimuat ulang agar tidak tampil ganda
+      if (wasEvaluated) {
+        if (onEmployeeUpdate) {
+          onEmployeeUpdate();
+        }
+      } else {
+        onAddEmployee(newEmployee);
+      }
       
       // Reset form dengan nilai default
       const defaultFormData: { [criteria_id: string]: number } = {};
       criteria.forEach(criterion => {
-        if (criterion.type === 'Benefit') {
-          if (criterion.scale.includes('1-5')) {
-            defaultFormData[criterion.id] = 1;
-          } else {
-            defaultFormData[criterion.id] = 0;
-          }
-        } else {
-          defaultFormData[criterion.id] = 0;
-        }
+        defaultFormData[criterion.id] = getScaleDefaultValue(criterion.scale, criterion.type);
       });
       
       setFormData(defaultFormData);
@@ -327,10 +392,11 @@ export const EmployeeForm = ({ onAddEmployee, employees, criteriaUpdateTrigger,
 
       toast({
         title: "Berhasil",
-        description: "Data evaluasi karyawan berhasil disimpan dengan struktur fleksibel",
+        description: `Penilaian ${evaluatorType.name} (${submittedBy}) untuk ${selectedEmployee.name} berhasil disimpan`,
       });
 
       fetchEvaluationScores();
+      refetchEvaluatorData();
     } catch (error) {
       console.error('Error saving evaluation:', error);
       toast({
@@ -379,14 +445,23 @@ export const EmployeeForm = ({ onAddEmployee, employees, criteriaUpdateTrigger,
   };
 
   const handleEmployeeDelete = async (employeeId: string) => {
-    if (!confirm('Apakah Anda yakin ingin menghapus data evaluasi karyawan ini?')) return;
+    if (!confirm(`Apakah Anda yakin ingin menghapus data evaluasi karyawan ini pada ${activePeriod.name} beserta nilai dari semua penilai?`)) return;
 
     setLoading(true);
     try {
+      const { error: evaluatorError } = await supabase
+        .from('evaluator_scores')
+        .delete()
+        .eq('employee_id', employeeId)
+        .eq('period_id', activePeriod.id);
+
+      if (evaluatorError) throw evaluatorError;
+
       const { error } = await supabase
         .from('evaluation_scores')
         .delete()
-        .eq('employee_id', employeeId);
+        .eq('employee_id', employeeId)
+        .eq('period_id', activePeriod.id);
 
       if (error) throw error;
 
@@ -397,6 +472,7 @@ export const EmployeeForm = ({ onAddEmployee, employees, criteriaUpdateTrigger,
 
       // Refresh data
       await fetchEvaluationScores();
+      refetchEvaluatorData();
       
       // Notify parent about the update
       if (onEmployeeUpdate) {
@@ -414,9 +490,37 @@ export const EmployeeForm = ({ onAddEmployee, employees, criteriaUpdateTrigger,
     }
   };
 
-  // Get evaluated employee IDs from the new flexible structure
-  const evaluatedEmployeeIds = Array.from(new Set(evaluationScores.map(score => score.employee_id)));
-  const availableEmployees = dbEmployees.filter(emp => !evaluatedEmployeeIds.includes(emp.id));
+  const handleEvaluatorSettingsSaved = async () => {
+    await syncAggregatedScores();
+    await refetchEvaluatorData();
+    await fetchEvaluationScores();
+    if (onEmployeeUpdate) {
+      onEmployeeUpdate();
+    }
+  };
+
+  const selectedEvaluatorType = evaluatorTypes.find(type => type.id === evaluatorTypeId);
+
+  // Karyawan yang sudah dinilai oleh penilai terpilih tidak ditampilkan lagi
+  const hasSubmitted = (employeeId: string, typeId: string, name?: string) =>
+    evaluatorScores.some(score =>
+      score.employee_id === employeeId &&
+      score.evaluator_type_id === typeId &&
+      (name === undefined || score.evaluator_name === name)
+    );
+  const availableEmployees = dbEmployees.filter(emp => {
+    if (!selectedEvaluatorType) return true;
+    const name = selectedEvaluatorType.code === 'self' ? emp.name : evaluatorName.trim();
+    return !name || !hasSubmitted(emp.id, selectedEvaluatorType.id, name);
+  });
+
+  // Nama penilai yang sudah mengirim nilai per karyawan × jenis penilai
+  const getSubmittedEvaluators = (employeeId: string, typeId: string) =>
+    Array.from(new Set(
+      evaluatorScores
+        .filter(score => score.employee_id === employeeId && score.evaluator_type_id === typeId)
+        .map(score => score.evaluator_name)
+    ));
 
   console.log('Available employees for selection:', availableEmployees.length);
   console.log('Total DB employees:', dbEmployees.length);
@@ -466,6 +570,7 @@ export const EmployeeForm = ({ onAddEmployee, employees, criteriaUpdateTrigger,
                         variant="ghost"
                         size="sm"
                         onClick={() => handleEmployeeEditClick(employee)}
+                        disabled={isClosed}
                         className="h-8 w-8 p-0"
                       >
                         <Edit className="h-4 w-4" />
@@ -474,6 +579,7 @@ export const EmployeeForm = ({ onAddEmployee, employees, criteriaUpdateTrigger,
                         variant="ghost"
                         size="sm"
                         onClick={() => handleEmployeeDelete(employee.id)}
+                        disabled={isClosed}
                         className="h-8 w-8 p-0 text-red-600 hover:text-red-700"
                       >
                         <Trash2 className="h-4 w-4" />
@@ -500,6 +606,56 @@ export const EmployeeForm = ({ onAddEmployee, employees, criteriaUpdateTrigger,
         </CardContent>
       </Card>
 
+      {/* Evaluator Submission Status */}
+      {dbEmployees.length > 0 && evaluatorTypes.length > 0 && (
+        <Card className="bg-white shadow-lg">
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2 text-green-700">
+              <ClipboardCheck className="w-5 h-5" />
+              Status Penilai
+            </CardTitle>
+            <p className="text-sm text-gray-600">
+              Nilai akhir per kriteria adalah {getAggregationLabel(aggregationMethod).toLowerCase()} dari penilai yang sudah mengisi
+            </p>
+          </CardHeader>
+          <CardContent className="overflow-x-auto">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Karyawan</TableHead>
+                  {evaluatorTypes.map(type => (
+                    <TableHead key={type.id}>{type.name} ({type.weight})</TableHead>
+                  ))}
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {dbEmployees.map(employee => (
+                  <TableRow key={employee.id}>
+                    <TableCell className="font-medium">{employee.name}</TableCell>
+                    {evaluatorTypes.map(type => {
+                      const submitted = getSubmittedEvaluators(employee.id, type.id);
+                      return (
+                        <TableCell key={type.id}>
+                          {submitted.length > 0 ? (
+                            <div className="flex flex-wrap gap-1">
+                              {submitted.map(name => (
+                                <Badge key={name} variant="default" className="text-xs bg-green-600">{name}</Badge>
+                              ))}
+                            </div>
+                          ) : (
+                            <Badge variant="outline" className="text-xs text-red-600 border-red-300">Belum</Badge>
+                          )}
+                        </TableCell>
+                      );
+                    })}
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </CardContent>
+        </Card>
+      )}
+
       {/* Employee Detail Dialog */}
       <Dialog open={isDetailDialogOpen} onOpenChange={setIsDetailDialogOpen}>
         <DialogContent className="max-w-2xl">
@@ -615,7 +771,7 @@ export const EmployeeForm = ({ onAddEmployee, employees, criteriaUpdateTrigger,
         <CardHeader>
           <CardTitle className="flex items-center gap-2 text-green-700">
             <UserPlus className="w-5 h-5" />
-            Tambah Evaluasi Karyawan Baru
+            Tambah Penilaian Karyawan
             {criteria.length > 0 && (
               <Badge variant="secondary" className="ml-2">
                 {criteria.length} Kriteria Dimuat
@@ -635,6 +791,33 @@ export const EmployeeForm = ({ onAddEmployee, employees, criteriaUpdateTrigger,
           )}
           
           <form onSubmit={handleSubmit} className="space-y-6">
+            {/* Evaluator Selection */}
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div>
+                <Label htmlFor="evaluator-type">Jenis Penilai</Label>
+                <Select value={evaluatorTypeId} onValueChange={setEvaluatorTypeId} disabled={loading}>
+                  <SelectTrigger id="evaluator-type">
+                    <SelectValue placeholder="Pilih jenis penilai" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {evaluatorTypes.map(type => (
+                      <SelectItem key={type.id} value={type.id}>{type.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div>
+                <Label htmlFor="evaluator-name">Nama Penilai</Label>
+                <Input
+                  id="evaluator-name"
+                  value={selectedEvaluatorType?.code === 'self' ? '' : evaluatorName}
+                  onChange={(e) => setEvaluatorName(e.target.value)}
+                  placeholder={selectedEvaluatorType?.code === 'self' ? 'Otomatis: nama karyawan yang dinilai' : 'Nama penilai'}
+                  disabled={loading || selectedEvaluatorType?.code === 'self'}
+                />
+              </div>
+            </div>
+
             {/* Employee Selection */}
             <div>
               <Label htmlFor="employee">Pilih Karyawan</Label>
@@ -645,7 +828,7 @@ export const EmployeeForm = ({ onAddEmployee, employees, criteriaUpdateTrigger,
                 <SelectContent>
                   {availableEmployees.length === 0 ? (
                     <div className="p-2 text-center text-gray-500">
-                      {loading ? "Memuat..." : dbEmployees.length === 0 ? "Tidak ada data karyawan di database" : "Semua karyawan sudah dievaluasi"}
+                      {loading ? "Memuat..." : dbEmployees.length === 0 ? "Tidak ada data karyawan di database" : "Semua karyawan sudah dinilai oleh penilai ini"}
                     </div>
                   ) : (
                     availableEmployees.map((employee) => (
@@ -664,26 +847,34 @@ export const EmployeeForm = ({ onAddEmployee, employees, criteriaUpdateTrigger,
             {selectedEmployeeId && criteria.length > 0 && (
               <>
                 {/* Dynamic form based on criteria from database */}
-                {Object.entries(groupedCriteria).map(([category, criteriaList]) => (
+                {Object.entries(groupedCriteria)
+                  .sort(([a], [b]) => compareCategories(categoryOrder)(a, b))
+                  .map(([category, criteriaList]) => (
                   <div key={category} className="space-y-4">
                     <h3 className="text-lg font-semibold text-gray-800">{category}</h3>
                     <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
                       {criteriaList.map((criterion) => {
                         const currentValue = formData[criterion.id] || 0;
+                        const scaleError = validateScaleValue(currentValue, criterion.scale);
+                        const valueLabel = criterion.scale.labels?.[String(currentValue)];
                         
                         return (
                           <div key={criterion.id}>
                             <Label htmlFor={criterion.id}>
-                              {criterion.name} ({criterion.scale})
+                              {criterion.name} ({formatScale(criterion.scale)})
                             </Label>
                             <Input
                               id={criterion.id}
                               type="number"
-                              min={criterion.type === 'Benefit' && criterion.scale.includes('1-5') ? "1" : "0"}
-                              max={criterion.scale.includes('1-5') ? "5" : criterion.scale.includes('0-1') || criterion.scale.includes('0/1') ? "1" : "10"}
+                              min={criterion.scale.min}
+                              max={criterion.scale.max ?? undefined}
+                              step={criterion.scale.step}
                               value={currentValue}
-                              onChange={(e) => handleInputChange(criterion.id, parseInt(e.target.value) || 0)}
+                              onChange={(e) => handleInputChange(criterion.id, parseFloat(e.target.value) || 0)}
+                              className={scaleError ? "border-red-500" : undefined}
                             />
+                            {scaleError && <p className="text-xs text-red-600 mt-1">Nilai {scaleError}</p>}
+                            {!scaleError && valueLabel && <p className="text-xs text-green-700 mt-1">{valueLabel}</p>}
                             <p className="text-xs text-gray-500 mt-1">
                               Bobot: {criterion.weight}% | Tipe: {criterion.type} | ID: {criterion.id.slice(0, 8)}...
                             </p>
@@ -697,10 +888,10 @@ export const EmployeeForm = ({ onAddEmployee, employees, criteriaUpdateTrigger,
                 <Button 
                   type="submit" 
                   className="w-full bg-green-600 hover:bg-green-700"
-                  disabled={!selectedEmployeeId || loading}
+                  disabled={!selectedEmployeeId || loading || isClosed}
                 >
                   <UserPlus className="w-4 h-4 mr-2" />
-                  {loading ? "Menyimpan..." : "Tambah Evaluasi Karyawan"}
+                  {loading ? "Menyimpan..." : isClosed ? "Periode Ditutup" : "Simpan Penilaian"}
                 </Button>
               </>
             )}
@@ -713,6 +904,15 @@ export const EmployeeForm = ({ onAddEmployee, employees, criteriaUpdateTrigger,
           </form>
         </CardContent>
       </Card>
+
+      {/* Menyimpan pengaturan menghitung ulang nilai agregat periode aktif, jadi tidak tersedia di periode yang ditutup */}
+      {!isClosed && (
+        <EvaluatorSettings
+          evaluatorTypes={evaluatorTypes}
+          aggregationMethod={aggregationMethod}
+          onSaved={handleEvaluatorSettingsSaved}
+        />
+      )}
     </div>
   );
 };
\ No newline at end of file
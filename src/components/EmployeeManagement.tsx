@@ -6,15 +6,17 @@ import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
-import { UserPlus, Edit, Trash2, Users } from "lucide-react";
+import { UserPlus, Edit, Trash2, Users, TrendingUp } from "lucide-react";
 import { supabase } from "@/integrations/supabase/client";
 import { useToast } from "@/hooks/use-toast";
+import { EmployeeTrend } from "@/components/EmployeeTrend";
 import type { Employee } from "@/types/database";
 
 export const EmployeeManagement = () => {
   const [employees, setEmployees] = useState<Employee[]>([]);
   const [isDialogOpen, setIsDialogOpen] = useState(false);
   const [editingEmployee, setEditingEmployee] = useState<Employee | null>(null);
+  const [trendEmployee, setTrendEmployee] = useState<Employee | null>(null);
   const [loading, setLoading] = useState(false);
   const { toast } = useToast();
   
@@ -298,6 +300,14 @@ export const EmployeeManagement = () => {
                     <TableCell>{new Date(employee.hire_date).toLocaleDateString('id-ID')}</TableCell>
                     <TableCell>
                       <div className="flex gap-2">
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => setTrendEmployee(employee)}
+                          title="Tren kinerja"
+                        >
+                          <TrendingUp className="w-4 h-4" />
+                        </Button>
                         <Button
                           variant="outline"
                           size="sm"
@@ -323,6 +333,15 @@ export const EmployeeManagement = () => {
           )}
         </CardContent>
       </Card>
+
+      <Dialog open={trendEmployee !== null} onOpenChange={(open) => !open && setTrendEmployee(null)}>
+        <DialogContent className="max-w-5xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>Tren Kinerja - {trendEmployee?.name}</DialogTitle>
+          </DialogHeader>
+          {trendEmployee && <EmployeeTrend employee={trendEmployee} />}
+        </DialogContent>
+      </Dialog>
     </div>
   );
 };
@@ -0,0 +1,162 @@
+import { useState } from "react";
+import { Badge } from "@/components/ui/badge";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer, ReferenceLine } from "recharts";
+import { useEmployeeTrend } from "@/hooks/use-employee-trend";
+import { useCategories } from "@/hooks/use-categories";
+import { EXTENSION_THRESHOLD, PROMOTION_THRESHOLD, TERMINATED_RANK, buildEmployeeTrend } from "@/lib/saw";
+import type { Employee } from "@/types/database";
+
+interface EmployeeTrendProps {
+  employee: Employee;
+}
+
+// Warna kategori mengikuti posisinya pada urutan kategori
+const CATEGORY_COLORS = ["#22c55e", "#3b82f6", "#f59e0b", "#ec4899", "#06b6d4", "#84cc16"];
+
+const formatRunDate = (date: string) => new Date(date).toLocaleDateString('id-ID');
+
+export const EmployeeTrend = ({ employee }: EmployeeTrendProps) => {
+  const [onePerPeriod, setOnePerPeriod] = useState(false);
+  const { runs, matrix, loading } = useEmployeeTrend(employee.id);
+  const { categoryOrder } = useCategories();
+
+  if (loading) {
+    return <p className="text-center py-8 text-gray-500">Memuat riwayat kinerja...</p>;
+  }
+
+  if (runs.length === 0) {
+    return <p className="text-center py-8 text-gray-500">{employee.name} belum pernah masuk perhitungan tersimpan</p>;
+  }
+
+  const { points, categories, bestRank, scoreChange } = buildEmployeeTrend(runs, matrix, onePerPeriod, categoryOrder);
+  const maxRank = Math.max(1, ...points.map(point => point.totalEmployees), ...points.map(point => point.rank === TERMINATED_RANK ? 0 : point.rank));
+
+  // Perhitungan saat karyawan diberhentikan tidak punya peringkat, sehingga garis peringkat terputus di titik itu
+  const chartData = points.map(point => ({
+    name: formatRunDate(point.calculationDate),
+    detail: `${point.periodName}${point.label ? ` - ${point.label}` : ''} (${point.method})`,
+    converted: point.convertedScore,
+    rank: point.rank === TERMINATED_RANK ? null : point.rank,
+    ...point.categoryScores
+  }));
+
+  const labelFormatter = (_: unknown, payload: ReadonlyArray<{ payload?: { name: string; detail: string } }>) =>
+    payload && payload[0]?.payload ? `${payload[0].payload.name} · ${payload[0].payload.detail}` : '';
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-wrap justify-between items-center gap-3">
+        <div className="flex flex-wrap gap-4 text-sm">
+          <span>Perhitungan: <strong>{points.length}</strong></span>
+          <span>Peringkat terbaik: <strong>{bestRank !== null ? `#${bestRank}` : '-'}</strong></span>
+          <span>
+            Perubahan skor:{' '}
+            <strong className={scoreChange === null || scoreChange === 0 ? '' : scoreChange > 0 ? 'text-green-600' : 'text-red-600'}>
+              {scoreChange === null ? '-' : `${scoreChange > 0 ? '+' : ''}${scoreChange.toFixed(2)}`}
+            </strong>
+          </span>
+        </div>
+        <div className="flex items-center gap-2">
+          <Switch id="trend-one-per-period" checked={onePerPeriod} onCheckedChange={setOnePerPeriod} />
+          <Label htmlFor="trend-one-per-period" className="text-sm">Hanya hasil resmi/terakhir tiap periode</Label>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        <div>
+          <h4 className="font-semibold mb-2">Skor Konversi</h4>
+          <ResponsiveContainer width="100%" height={260}>
+            <LineChart data={chartData}>
+              <CartesianGrid strokeDasharray="3 3" />
+              <XAxis dataKey="name" />
+              <YAxis domain={[0, 5]} />
+              <Tooltip labelFormatter={labelFormatter} formatter={(value) => [typeof value === 'number' ? value.toFixed(2) : value, 'Skor']} />
+              <ReferenceLine y={EXTENSION_THRESHOLD} stroke="#ef4444" strokeDasharray="4 4" />
+              <ReferenceLine y={PROMOTION_THRESHOLD} stroke="#22c55e" strokeDasharray="4 4" />
+              <Line type="monotone" dataKey="converted" stroke="#3b82f6" strokeWidth={2} />
+            </LineChart>
+          </ResponsiveContainer>
+        </div>
+
+        <div>
+          <h4 className="font-semibold mb-2">Peringkat</h4>
+          <ResponsiveContainer width="100%" height={260}>
+            <LineChart data={chartData}>
+              <CartesianGrid strokeDasharray="3 3" />
+              <XAxis dataKey="name" />
+              <YAxis reversed allowDecimals={false} domain={[1, maxRank]} />
+              <Tooltip labelFormatter={labelFormatter} formatter={(value) => [`#${value}`, 'Peringkat']} />
+              <Line type="monotone" dataKey="rank" stroke="#8b5cf6" strokeWidth={2} connectNulls={false} />
+            </LineChart>
+          </ResponsiveContainer>
+        </div>
+      </div>
+
+      {categories.length > 0 && (
+        <div>
+          <h4 className="font-semibold mb-2">Subskor Kategori</h4>
+          <p className="text-xs text-gray-500 mb-2">Kontribusi tertimbang tiap kategori pada skor konversi (0-5), hanya untuk perhitungan SAW</p>
+          <ResponsiveContainer width="100%" height={260}>
+            <LineChart data={chartData}>
+              <CartesianGrid strokeDasharray="3 3" />
+              <XAxis dataKey="name" />
+              <YAxis />
+              <Tooltip labelFormatter={labelFormatter} formatter={(value, name) => [typeof value === 'number' ? value.toFixed(2) : value, name]} />
+              <Legend />
+              {categories.map((category, index) => (
+                <Line
+                  key={category}
+                  type="monotone"
+                  dataKey={category}
+                  stroke={CATEGORY_COLORS[index % CATEGORY_COLORS.length]}
+                />
+              ))}
+            </LineChart>
+          </ResponsiveContainer>
+        </div>
+      )}
+
+      <div>
+        <h4 className="font-semibold mb-2">Riwayat Rekomendasi</h4>
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Tanggal</TableHead>
+              <TableHead>Periode</TableHead>
+              <TableHead>Perhitungan</TableHead>
+              <TableHead className="text-center">Peringkat</TableHead>
+              <TableHead className="text-center">Skor</TableHead>
+              <TableHead>Rekomendasi</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {[...points].reverse().map(point => (
+              <TableRow key={point.calculationId} className={point.recommendationChanged ? 'bg-yellow-50' : undefined}>
+                <TableCell className="whitespace-nowrap">{new Date(point.calculationDate).toLocaleString('id-ID')}</TableCell>
+                <TableCell>{point.periodName}</TableCell>
+                <TableCell>
+                  {point.label || point.method}
+                  {point.isOfficial && <Badge className="ml-2 bg-green-600">Resmi</Badge>}
+                </TableCell>
+                <TableCell className="text-center">
+                  {point.rank === TERMINATED_RANK ? '-' : `#${point.rank}`}
+                  {point.totalEmployees > 0 && <span className="text-xs text-gray-500"> / {point.totalEmployees}</span>}
+                </TableCell>
+                <TableCell className="text-center">{point.convertedScore.toFixed(2)}</TableCell>
+                <TableCell>
+                  <Badge variant={point.recommendation === "Diberhentikan" ? "destructive" : "default"}>
+                    {point.recommendation}
+                  </Badge>
+                  {point.recommendationChanged && <span className="ml-2 text-xs text-yellow-700">berubah</span>}
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,135 @@
+import { useState, useEffect } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Save, Users } from "lucide-react";
+import { supabase } from "@/integrations/supabase/client";
+import { useToast } from "@/hooks/use-toast";
+import { AGGREGATION_METHODS } from "@/lib/saw";
+import type { AggregationMethod } from "@/lib/saw";
+import type { EvaluatorType } from "@/types/database";
+
+interface EvaluatorSettingsProps {
+  evaluatorTypes: EvaluatorType[];
+  aggregationMethod: AggregationMethod;
+  onSaved: () => Promise<void> | void;
+}
+
+export const EvaluatorSettings = ({ evaluatorTypes, aggregationMethod, onSaved }: EvaluatorSettingsProps) => {
+  const [weights, setWeights] = useState<{ [evaluatorTypeId: string]: number }>({});
+  const [method, setMethod] = useState<AggregationMethod>(aggregationMethod);
+  const [saving, setSaving] = useState(false);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    setWeights(Object.fromEntries(evaluatorTypes.map(type => [type.id, type.weight])));
+  }, [evaluatorTypes]);
+
+  useEffect(() => {
+    setMethod(aggregationMethod);
+  }, [aggregationMethod]);
+
+  const totalWeight = evaluatorTypes.reduce((sum, type) => sum + (weights[type.id] || 0), 0);
+
+  const handleSave = async () => {
+    if (totalWeight <= 0) {
+      toast({
+        title: "Error",
+        description: "Minimal satu jenis penilai harus memiliki bobot lebih dari 0",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setSaving(true);
+    try {
+      for (const type of evaluatorTypes) {
+        const { error } = await supabase
+          .from('evaluator_types')
+          .update({ weight: weights[type.id] || 0, updated_at: new Date().toISOString() })
+          .eq('id', type.id);
+
+        if (error) throw error;
+      }
+
+      const { error: settingsError } = await supabase
+        .from('evaluation_settings')
+        .insert({ aggregation_method: method });
+
+      if (settingsError) throw settingsError;
+
+      await onSaved();
+
+      toast({
+        title: "Berhasil",
+        description: "Bobot penilai dan metode agregasi disimpan; nilai evaluasi dihitung ulang",
+      });
+    } catch (error) {
+      console.error('Error saving evaluator settings:', error);
+      toast({
+        title: "Error",
+        description: "Gagal menyimpan pengaturan penilai",
+        variant: "destructive",
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Card className="bg-white shadow-lg">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2 text-green-700">
+          <Users className="w-5 h-5" />
+          Pengaturan Penilai
+        </CardTitle>
+        <p className="text-sm text-gray-600">
+          Nilai dari beberapa penilai digabung menjadi satu nilai per kriteria sebelum perhitungan SAW.
+          Bobot dinormalisasi ulang atas jenis penilai yang sudah mengisi.
+        </p>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          {evaluatorTypes.map(type => (
+            <div key={type.id} className="space-y-1">
+              <Label htmlFor={`evaluator-weight-${type.id}`}>{type.name}</Label>
+              <Input
+                id={`evaluator-weight-${type.id}`}
+                type="number"
+                min={0}
+                step={0.05}
+                value={weights[type.id] ?? 0}
+                onChange={(e) => setWeights(prev => ({ ...prev, [type.id]: parseFloat(e.target.value) || 0 }))}
+              />
+              <p className="text-xs text-gray-500">
+                {totalWeight > 0 ? `${(((weights[type.id] || 0) / totalWeight) * 100).toFixed(0)}% dari total` : '-'}
+              </p>
+            </div>
+          ))}
+        </div>
+
+        <div className="space-y-2">
+          <Label>Metode Agregasi</Label>
+          <Select value={method} onValueChange={(value) => setMethod(value as AggregationMethod)}>
+            <SelectTrigger className="w-full md:w-80">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {AGGREGATION_METHODS.map(item => (
+                <SelectItem key={item.value} value={item.value}>{item.label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <p className="text-xs text-gray-500">{AGGREGATION_METHODS.find(item => item.value === method)?.description}</p>
+        </div>
+
+        <Button onClick={handleSave} disabled={saving || evaluatorTypes.length === 0} className="bg-green-600 hover:bg-green-700">
+          <Save className="w-4 h-4 mr-2" />
+          {saving ? 'Menyimpan...' : 'Simpan & Hitung Ulang Agregasi'}
+        </Button>
+      </CardContent>
+    </Card>
+  );
+};
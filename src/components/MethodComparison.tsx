@@ -0,0 +1,87 @@
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Table, TableBody, TableCaption, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { GitCompare } from "lucide-react";
+import { TERMINATED_RANK, compareRankings } from "@/lib/saw";
+import type { SAWScore } from "@/lib/saw";
+import type { Employee } from "@/pages/Index";
+
+interface MethodComparisonProps {
+  employees: Employee[];
+  sawScores: SAWScore[];
+  wpScores: SAWScore[];
+}
+
+// Interpretasi kekuatan korelasi peringkat
+const describeCorrelation = (rho: number): { label: string; className: string } => {
+  if (rho >= 0.9) return { label: "Sangat kuat - peringkat stabil", className: "bg-green-100 text-green-800" };
+  if (rho >= 0.7) return { label: "Kuat - sedikit sensitif terhadap metode", className: "bg-blue-100 text-blue-800" };
+  if (rho >= 0.4) return { label: "Sedang - peringkat sensitif terhadap metode", className: "bg-yellow-100 text-yellow-800" };
+  return { label: "Lemah - peringkat sangat bergantung pada metode", className: "bg-red-100 text-red-800" };
+};
+
+export const MethodComparison = ({ employees, sawScores, wpScores }: MethodComparisonProps) => {
+  const { rows, spearman } = compareRankings(sawScores, wpScores);
+  const correlation = spearman !== null ? describeCorrelation(spearman) : null;
+  const changedCount = rows.filter(row => row.difference !== 0).length;
+
+  const formatRank = (rank: number) => rank === TERMINATED_RANK ? 'Diberhentikan' : `#${rank}`;
+
+  return (
+    <Card className="bg-white shadow-lg">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <GitCompare className="w-5 h-5" />
+          Perbandingan Peringkat SAW vs WP
+        </CardTitle>
+        <p className="text-sm text-gray-600">
+          Periksa apakah peringkat berubah bila metode diganti sebelum mengambil keputusan kontrak
+        </p>
+      </CardHeader>
+      <CardContent>
+        <div className="flex flex-wrap items-center gap-3 mb-4 text-sm">
+          <span>
+            Korelasi Spearman (ρ): <strong>{spearman !== null ? spearman.toFixed(3) : '-'}</strong>
+          </span>
+          {correlation && (
+            <span className={`px-2 py-1 rounded text-xs ${correlation.className}`}>{correlation.label}</span>
+          )}
+          <span className="text-gray-600">
+            Peringkat berubah: <strong>{changedCount}</strong> dari {rows.length} karyawan
+          </span>
+        </div>
+        <div className="overflow-x-auto">
+          <Table>
+            <TableCaption>Karyawan yang diberhentikan otomatis tidak ikut dalam perhitungan korelasi</TableCaption>
+            <TableHeader>
+              <TableRow>
+                <TableHead className="w-[200px]">Nama</TableHead>
+                <TableHead className="text-center">Peringkat SAW</TableHead>
+                <TableHead className="text-center">Peringkat WP</TableHead>
+                <TableHead className="text-center">Selisih</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {rows.map(row => (
+                <TableRow key={employees[row.index].id} className={row.difference !== 0 ? 'bg-yellow-50' : ''}>
+                  <TableCell className="font-medium">{employees[row.index].name}</TableCell>
+                  <TableCell className="text-center">{formatRank(row.rankA)}</TableCell>
+                  <TableCell className="text-center">{formatRank(row.rankB)}</TableCell>
+                  <TableCell className="text-center">
+                    {row.difference === 0 ? (
+                      <Badge variant="secondary">=</Badge>
+                    ) : (
+                      <Badge variant={row.difference > 0 ? "destructive" : "default"}>
+                        {row.difference > 0 ? `↓ ${row.difference}` : `↑ ${Math.abs(row.difference)}`}
+                      </Badge>
+                    )}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
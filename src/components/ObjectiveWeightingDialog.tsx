@@ -0,0 +1,278 @@
+import { useState, useEffect } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Slider } from "@/components/ui/slider";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import { BarChart3, AlertTriangle } from "lucide-react";
+import { supabase } from "@/integrations/supabase/client";
+import { useToast } from "@/hooks/use-toast";
+import { usePeriod } from "@/components/PeriodProvider";
+import {
+  OBJECTIVE_WEIGHTING_METHODS,
+  blendWeights,
+  calculateCriticWeights,
+  calculateEntropyWeights,
+  getObjectiveWeightingLabel,
+  scoreKey,
+  toPercentWeights,
+} from "@/lib/saw";
+import type { ObjectiveWeightingMethod } from "@/lib/saw";
+import type { Json } from "@/integrations/supabase/types";
+import type { Criteria } from "@/types/database";
+
+interface ObjectiveWeightingDialogProps {
+  criteria: Criteria[];
+  categoryTotals: { [category: string]: number };
+  onApplied?: () => void;
+}
+
+// Porsi bobot subjektif bawaan pada mode gabungan (70% subjektif / 30% objektif)
+const DEFAULT_SUBJECTIVE_SHARE = 70;
+
+export const ObjectiveWeightingDialog = ({ criteria, categoryTotals, onApplied }: ObjectiveWeightingDialogProps) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [matrix, setMatrix] = useState<number[][]>([]);
+  const [method, setMethod] = useState<ObjectiveWeightingMethod>('entropy');
+  const [subjectiveShare, setSubjectiveShare] = useState(DEFAULT_SUBJECTIVE_SHARE);
+  const [preserveCategoryTotals, setPreserveCategoryTotals] = useState(true);
+  const [name, setName] = useState("");
+  const [loading, setLoading] = useState(false);
+  const { toast } = useToast();
+  const { activePeriod } = usePeriod();
+
+  // Decision matrix dari evaluation_scores; hanya karyawan dengan nilai lengkap untuk semua kriteria
+  const fetchScoreMatrix = async () => {
+    setLoading(true);
+    try {
+      const { data, error } = await supabase
+        .from('evaluation_scores')
+        .select('employee_id, criteria_id, score')
+        .eq('period_id', activePeriod.id);
+
+      if (error) throw error;
+
+      const scores = new Map<string, number>();
+      const employeeIds = new Set<string>();
+      (data || []).forEach(row => {
+        scores.set(scoreKey(row.employee_id, row.criteria_id), row.score);
+        employeeIds.add(row.employee_id);
+      });
+
+      const rows = Array.from(employeeIds)
+        .filter(employeeId => criteria.every(criterion => scores.has(scoreKey(employeeId, criterion.id))))
+        .map(employeeId => criteria.map(criterion => scores.get(scoreKey(employeeId, criterion.id)) as number));
+
+      setMatrix(rows);
+    } catch (error) {
+      console.error('Error fetching evaluation scores for objective weighting:', error);
+      toast({
+        title: "Error",
+        description: "Gagal memuat nilai evaluasi untuk pembobotan objektif",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    if (!isOpen) return;
+
+    setName(`Pembobotan ${new Date().toLocaleDateString('id-ID')}`);
+    fetchScoreMatrix();
+  }, [isOpen]);
+
+  const entropy = calculateEntropyWeights(matrix, criteria);
+  const critic = calculateCriticWeights(matrix, criteria);
+  const objective = method === 'critic' ? critic : entropy;
+  const blended = blendWeights(criteria.map(criterion => criterion.weight), objective, subjectiveShare / 100);
+  const newWeights = toPercentWeights(blended, criteria, preserveCategoryTotals ? categoryTotals : undefined);
+
+  const newCategoryTotals: { [category: string]: number } = {};
+  criteria.forEach((criterion, j) => {
+    newCategoryTotals[criterion.category] = Math.round(((newCategoryTotals[criterion.category] || 0) + newWeights[j]) * 100) / 100;
+  });
+
+  const handleApply = async () => {
+    if (!name.trim()) {
+      toast({
+        title: "Error",
+        description: "Nama pembobotan wajib diisi",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setLoading(true);
+    try {
+      for (const [j, criterion] of criteria.entries()) {
+        const { error } = await supabase
+          .from('criteria')
+          .update({ weight: newWeights[j] })
+          .eq('id', criterion.id);
+
+        if (error) throw error;
+      }
+
+      if (!preserveCategoryTotals) {
+        for (const [category, total] of Object.entries(newCategoryTotals)) {
+          const { error } = await supabase
+            .from('categories')
+            .update({ total_weight: total, updated_at: new Date().toISOString() })
+            .eq('name', category);
+
+          if (error) throw error;
+        }
+      }
+
+      const { error: historyError } = await supabase
+        .from('criteria_weightings')
+        .insert({
+          name: name.trim(),
+          method,
+          subjective_share: subjectiveShare / 100,
+          objective_weights: Object.fromEntries(criteria.map((criterion, j) => [criterion.id, objective[j]])) as Json,
+          weights: Object.fromEntries(criteria.map((criterion, j) => [criterion.id, newWeights[j]])) as Json,
+          category_totals: newCategoryTotals,
+          sample_size: matrix.length
+        });
+
+      if (historyError) throw historyError;
+
+      toast({
+        title: "Berhasil",
+        description: `Pembobotan "${name.trim()}" berhasil diterapkan`,
+      });
+
+      setIsOpen(false);
+      if (onApplied) {
+        onApplied();
+      }
+    } catch (error) {
+      console.error('Error applying objective weights:', error);
+      toast({
+        title: "Error",
+        description: "Gagal menerapkan pembobotan objektif",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={setIsOpen}>
+      <DialogTrigger asChild>
+        <Button variant="outline" disabled={criteria.length === 0}>
+          <BarChart3 className="w-4 h-4 mr-2" />
+          Bobot Objektif
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-4xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Pembobotan Objektif (Entropi / CRITIC)</DialogTitle>
+          <p className="text-sm text-gray-600">
+            Bobot dihitung dari sebaran nilai evaluasi {matrix.length} karyawan dengan data lengkap
+          </p>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          {matrix.length < 2 && !loading && (
+            <div className="p-3 bg-red-50 rounded-lg text-sm flex items-start gap-2">
+              <AlertTriangle className="w-4 h-4 text-red-600 mt-0.5 flex-shrink-0" />
+              <p className="text-red-700">
+                Minimal 2 karyawan dengan nilai lengkap diperlukan; bobot objektif dibagi rata sampai data mencukupi.
+              </p>
+            </div>
+          )}
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label>Metode Objektif</Label>
+              <Select value={method} onValueChange={(value) => setMethod(value as ObjectiveWeightingMethod)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {OBJECTIVE_WEIGHTING_METHODS.map(item => (
+                    <SelectItem key={item.value} value={item.value}>{item.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <p className="text-xs text-gray-500">
+                {OBJECTIVE_WEIGHTING_METHODS.find(item => item.value === method)?.description}
+              </p>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="weighting-name">Nama Pembobotan</Label>
+              <Input id="weighting-name" value={name} onChange={(e) => setName(e.target.value)} />
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label>
+              Gabungan: {subjectiveShare}% subjektif / {100 - subjectiveShare}% {getObjectiveWeightingLabel(method)}
+            </Label>
+            <Slider
+              value={[subjectiveShare]}
+              min={0}
+              max={100}
+              step={5}
+              onValueChange={(value) => setSubjectiveShare(value[0])}
+            />
+          </div>
+
+          <div className="flex items-center gap-2">
+            <Switch id="preserve-category-totals" checked={preserveCategoryTotals} onCheckedChange={setPreserveCategoryTotals} />
+            <Label htmlFor="preserve-category-totals">
+              Pertahankan total bobot kategori ({Object.entries(categoryTotals).map(([category, total]) => `${category.replace(/^[A-Z]\.\s/, '')} ${total}%`).join(', ')})
+            </Label>
+          </div>
+
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Kriteria</TableHead>
+                <TableHead>Kategori</TableHead>
+                <TableHead className="text-right">Subjektif (%)</TableHead>
+                <TableHead className="text-right">Entropi</TableHead>
+                <TableHead className="text-right">CRITIC</TableHead>
+                <TableHead className="text-right">Bobot Baru (%)</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {criteria.map((criterion, j) => (
+                <TableRow key={criterion.id}>
+                  <TableCell className="font-medium">{criterion.name}</TableCell>
+                  <TableCell>{criterion.category}</TableCell>
+                  <TableCell className="text-right">{criterion.weight}</TableCell>
+                  <TableCell className={`text-right ${method === 'entropy' ? 'font-semibold' : 'text-gray-500'}`}>
+                    {((entropy[j] ?? 0) * 100).toFixed(2)}
+                  </TableCell>
+                  <TableCell className={`text-right ${method === 'critic' ? 'font-semibold' : 'text-gray-500'}`}>
+                    {((critic[j] ?? 0) * 100).toFixed(2)}
+                  </TableCell>
+                  <TableCell className="text-right font-semibold">{newWeights[j]}</TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+
+          <p className="text-sm text-gray-600">
+            Total kategori baru: {Object.entries(newCategoryTotals).map(([category, total]) => `${category} ${total}%`).join(', ')}
+          </p>
+        </div>
+
+        <div className="flex justify-end pt-4">
+          <Button onClick={handleApply} disabled={loading || matrix.length < 2} className="bg-green-600 hover:bg-green-700">
+            {loading ? "Menyimpan..." : "Simpan & Terapkan Bobot"}
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,122 @@
+import { createContext, useContext, useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import type { EvaluationPeriod, PeriodStatus } from "@/types/database";
+
+interface PeriodContextType {
+  periods: EvaluationPeriod[];
+  activePeriod: EvaluationPeriod;
+  isClosed: boolean;
+  setActivePeriodId: (id: string) => void;
+  refetch: () => Promise<void>;
+}
+
+const PeriodContext = createContext<PeriodContextType | undefined>(undefined);
+
+// Periode terakhir yang dipilih pengguna, agar tetap aktif setelah halaman dimuat ulang
+const ACTIVE_PERIOD_STORAGE_KEY = "activePeriodId";
+
+export const usePeriod = () => {
+  const context = useContext(PeriodContext);
+  if (context === undefined) {
+    throw new Error("usePeriod must be used within a PeriodProvider");
+  }
+  return context;
+};
+
+interface PeriodProviderProps {
+  children: React.ReactNode;
+}
+
+const parsePeriodStatus = (value: string): PeriodStatus => value === 'closed' ? 'closed' : 'open';
+
+const toEvaluationPeriod = (row: Omit<EvaluationPeriod, 'status'> & { status: string }): EvaluationPeriod => ({
+  ...row,
+  status: parsePeriodStatus(row.status)
+});
+
+// Periode bawaan: periode terbuka dengan tanggal mulai paling akhir, jika tidak ada maka periode terbaru
+const pickDefaultPeriod = (periods: EvaluationPeriod[]): EvaluationPeriod | undefined =>
+  periods.find(period => period.status === 'open') || periods[0];
+
+export const PeriodProvider = ({ children }: PeriodProviderProps) => {
+  const [periods, setPeriods] = useState<EvaluationPeriod[]>([]);
+  const [activePeriodId, setActivePeriodIdState] = useState<string | null>(() => localStorage.getItem(ACTIVE_PERIOD_STORAGE_KEY));
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchPeriods = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('evaluation_periods')
+        .select('*')
+        .order('start_date', { ascending: false });
+
+      if (error) throw error;
+
+      let rows = (data || []).map(toEvaluationPeriod);
+
+      // Semua data terikat ke periode, jadi harus selalu ada minimal satu periode
+      if (rows.length === 0) {
+        const year = new Date().getFullYear();
+        const { data: created, error: createError } = await supabase
+          .from('evaluation_periods')
+          .insert({ name: `Periode ${year}`, start_date: `${year}-01-01`, end_date: `${year}-12-31` })
+          .select()
+          .single();
+
+        if (createError) throw createError;
+        rows = [toEvaluationPeriod(created)];
+      }
+
+      setPeriods(rows);
+      setError(null);
+    } catch (err) {
+      console.error('Error fetching evaluation periods:', err);
+      setError(err instanceof Error ? err.message : 'Gagal memuat periode evaluasi');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchPeriods();
+  }, []);
+
+  const setActivePeriodId = (id: string) => {
+    localStorage.setItem(ACTIVE_PERIOD_STORAGE_KEY, id);
+    setActivePeriodIdState(id);
+  };
+
+  const activePeriod = periods.find(period => period.id === activePeriodId) || pickDefaultPeriod(periods);
+
+  if (loading || !activePeriod) {
+    return (
+      <div className="min-h-screen bg-gradient-to-br from-green-50 to-blue-50 flex items-center justify-center">
+        <div className="text-center">
+          {loading || !error ? (
+            <>
+              <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-green-600 mx-auto mb-4"></div>
+              <p className="text-gray-600">Memuat periode evaluasi...</p>
+            </>
+          ) : (
+            <p className="text-red-600">Error: {error}</p>
+          )}
+        </div>
+      </div>
+    );
+  }
+
+  const value = {
+    periods,
+    activePeriod,
+    isClosed: activePeriod.status === 'closed',
+    setActivePeriodId,
+    refetch: fetchPeriods,
+  };
+
+  return (
+    <PeriodContext.Provider value={value}>
+      {children}
+    </PeriodContext.Provider>
+  );
+};
@@ -0,0 +1,273 @@
+import { useState, useEffect } from "react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import { CalendarRange, Lock, LockOpen, Plus } from "lucide-react";
+import { supabase } from "@/integrations/supabase/client";
+import { useToast } from "@/hooks/use-toast";
+import { usePeriod } from "@/components/PeriodProvider";
+import type { EvaluationPeriod } from "@/types/database";
+
+const addDays = (date: string, days: number): string => {
+  const next = new Date(`${date}T00:00:00`);
+  next.setDate(next.getDate() + days);
+  return next.toISOString().slice(0, 10);
+};
+
+// Usulan periode berikutnya: mulai sehari setelah periode aktif berakhir, dengan durasi yang sama
+const suggestNextPeriod = (period: EvaluationPeriod) => {
+  const durationDays = Math.round((new Date(period.end_date).getTime() - new Date(period.start_date).getTime()) / 86400000);
+  const startDate = addDays(period.end_date, 1);
+  return {
+    name: `Periode ${startDate.slice(0, 4)}${durationDays < 200 ? ` Semester ${startDate.slice(5, 7) <= '06' ? 1 : 2}` : ''}`,
+    startDate,
+    endDate: addDays(startDate, durationDays)
+  };
+};
+
+const formatDate = (date: string) => new Date(`${date}T00:00:00`).toLocaleDateString('id-ID');
+
+export const PeriodSwitcher = () => {
+  const { periods, activePeriod, isClosed, setActivePeriodId, refetch } = usePeriod();
+  const [isOpen, setIsOpen] = useState(false);
+  const [name, setName] = useState("");
+  const [startDate, setStartDate] = useState("");
+  const [endDate, setEndDate] = useState("");
+  const [copyCriteria, setCopyCriteria] = useState(true);
+  const [closeCurrent, setCloseCurrent] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    if (!isOpen) return;
+
+    const suggestion = suggestNextPeriod(activePeriod);
+    setName(suggestion.name);
+    setStartDate(suggestion.startDate);
+    setEndDate(suggestion.endDate);
+    setCopyCriteria(true);
+    setCloseCurrent(activePeriod.status === 'open');
+  }, [isOpen]);
+
+  // Salin konfigurasi kriteria (kode, nama, bobot, skala, normalisasi, urutan) ke periode baru
+  const copyCriteriaToPeriod = async (periodId: string): Promise<number> => {
+    const { data, error } = await supabase
+      .from('criteria')
+      .select('*')
+      .eq('period_id', activePeriod.id);
+
+    if (error) throw error;
+    if (!data || data.length === 0) return 0;
+
+    const { error: insertError } = await supabase
+      .from('criteria')
+      .insert(data.map(criterion => ({
+        period_id: periodId,
+        category: criterion.category,
+        code: criterion.code,
+        name: criterion.name,
+        type: criterion.type,
+        weight: criterion.weight,
+        scale: criterion.scale,
+        normalization: criterion.normalization,
+        threshold_bands: criterion.threshold_bands,
+        position: criterion.position
+      })));
+
+    if (insertError) throw insertError;
+    return data.length;
+  };
+
+  const handleCreate = async () => {
+    if (!name.trim() || !startDate || !endDate) {
+      toast({
+        title: "Error",
+        description: "Nama, tanggal mulai, dan tanggal selesai periode wajib diisi",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    if (endDate < startDate) {
+      toast({
+        title: "Error",
+        description: "Tanggal selesai tidak boleh sebelum tanggal mulai",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    if (periods.some(period => period.name.toLowerCase() === name.trim().toLowerCase())) {
+      toast({
+        title: "Error",
+        description: `Periode "${name.trim()}" sudah ada`,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setSaving(true);
+    let createdId: string | null = null;
+    try {
+      const { data: created, error } = await supabase
+        .from('evaluation_periods')
+        .insert({ name: name.trim(), start_date: startDate, end_date: endDate })
+        .select()
+        .single();
+
+      if (error) throw error;
+      createdId = created.id;
+
+      const copied = copyCriteria ? await copyCriteriaToPeriod(created.id) : 0;
+
+      if (closeCurrent && activePeriod.status === 'open') {
+        const { error: closeError } = await supabase
+          .from('evaluation_periods')
+          .update({ status: 'closed', updated_at: new Date().toISOString() })
+          .eq('id', activePeriod.id);
+
+        if (closeError) throw closeError;
+      }
+
+      await refetch();
+      setActivePeriodId(created.id);
+      setIsOpen(false);
+
+      toast({
+        title: "Berhasil",
+        description: copyCriteria
+          ? `Periode "${created.name}" dibuat dengan ${copied} kriteria dari ${activePeriod.name}`
+          : `Periode "${created.name}" dibuat tanpa kriteria`,
+      });
+    } catch (error) {
+      console.error('Error creating evaluation period:', error);
+
+      // Periode setengah jadi (tanpa salinan kriteria) dihapus agar bisa dicoba lagi
+      if (createdId) {
+        await supabase.from('evaluation_periods').delete().eq('id', createdId);
+      }
+
+      toast({
+        title: "Error",
+        description: "Gagal membuat periode evaluasi",
+        variant: "destructive",
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleToggleStatus = async () => {
+    const nextStatus = isClosed ? 'open' : 'closed';
+    const message = isClosed
+      ? `Buka kembali periode ${activePeriod.name}? Nilai dan kriteria periode ini dapat diubah lagi.`
+      : `Tutup periode ${activePeriod.name}? Nilai dan kriteria periode ini tidak dapat diubah lagi.`;
+    if (!confirm(message)) return;
+
+    try {
+      const { error } = await supabase
+        .from('evaluation_periods')
+        .update({ status: nextStatus, updated_at: new Date().toISOString() })
+        .eq('id', activePeriod.id);
+
+      if (error) throw error;
+
+      await refetch();
+      toast({
+        title: "Berhasil",
+        description: `Periode ${activePeriod.name} ${nextStatus === 'closed' ? 'ditutup' : 'dibuka kembali'}`,
+      });
+    } catch (error) {
+      console.error('Error updating period status:', error);
+      toast({
+        title: "Error",
+        description: "Gagal mengubah status periode",
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <div className="flex flex-wrap justify-center items-center gap-2">
+      <CalendarRange className="w-4 h-4 text-gray-600" />
+      <Select value={activePeriod.id} onValueChange={setActivePeriodId}>
+        <SelectTrigger className="w-[240px] h-8 bg-white">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {periods.map(period => (
+            <SelectItem key={period.id} value={period.id}>
+              {period.name}{period.status === 'closed' ? ' (ditutup)' : ''}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      <span className="text-sm text-gray-600">
+        {formatDate(activePeriod.start_date)} - {formatDate(activePeriod.end_date)}
+      </span>
+      <Badge variant={isClosed ? "secondary" : "default"}>
+        {isClosed ? 'Ditutup' : 'Terbuka'}
+      </Badge>
+      <Button variant="ghost" size="sm" onClick={handleToggleStatus}>
+        {isClosed ? <LockOpen className="w-4 h-4 mr-1" /> : <Lock className="w-4 h-4 mr-1" />}
+        {isClosed ? 'Buka Kembali' : 'Tutup Periode'}
+      </Button>
+
+      <Dialog open={isOpen} onOpenChange={setIsOpen}>
+        <DialogTrigger asChild>
+          <Button variant="outline" size="sm">
+            <Plus className="w-4 h-4 mr-1" />
+            Periode Baru
+          </Button>
+        </DialogTrigger>
+        <DialogContent className="max-w-lg">
+          <DialogHeader>
+            <DialogTitle>Mulai Periode Evaluasi Baru</DialogTitle>
+          </DialogHeader>
+
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="period-name">Nama Periode</Label>
+              <Input id="period-name" value={name} onChange={(e) => setName(e.target.value)} />
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="period-start">Tanggal Mulai</Label>
+                <Input id="period-start" type="date" value={startDate} onChange={(e) => setStartDate(e.target.value)} />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="period-end">Tanggal Selesai</Label>
+                <Input id="period-end" type="date" value={endDate} onChange={(e) => setEndDate(e.target.value)} />
+              </div>
+            </div>
+            <div className="flex items-center gap-2">
+              <Switch id="period-copy-criteria" checked={copyCriteria} onCheckedChange={setCopyCriteria} />
+              <Label htmlFor="period-copy-criteria">
+                Salin konfigurasi kriteria dari {activePeriod.name}
+              </Label>
+            </div>
+            {activePeriod.status === 'open' && (
+              <div className="flex items-center gap-2">
+                <Switch id="period-close-current" checked={closeCurrent} onCheckedChange={setCloseCurrent} />
+                <Label htmlFor="period-close-current">Tutup {activePeriod.name}</Label>
+              </div>
+            )}
+            <p className="text-xs text-gray-500">
+              Nilai evaluasi dan hasil perhitungan periode baru dimulai dari kosong; data periode lain tidak berubah.
+            </p>
+          </div>
+
+          <div className="flex justify-end pt-4">
+            <Button onClick={handleCreate} disabled={saving} className="bg-green-600 hover:bg-green-700">
+              {saving ? "Menyimpan..." : "Buat Periode"}
+            </Button>
+          </div>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
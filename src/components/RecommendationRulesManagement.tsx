@@ -0,0 +1,585 @@
+import { useState, useEffect } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import { Plus, Edit, Trash2, ArrowUp, ArrowDown, ListChecks, RotateCcw } from "lucide-react";
+import { supabase } from "@/integrations/supabase/client";
+import { useToast } from "@/hooks/use-toast";
+import { usePeriod } from "@/components/PeriodProvider";
+import {
+  DEFAULT_RECOMMENDATION_RULES,
+  RECOMMENDATION_EXTEND,
+  RECOMMENDATION_TERMINATE,
+  RULE_OPERATORS,
+  describeCondition,
+  resolveCategoryOrder,
+  sortCriteria,
+  toRecommendationRule,
+  toSAWCriterion,
+  validateRule,
+} from "@/lib/saw";
+import type { RecommendationRule, RuleCondition, RuleOperator, SAWCriterion } from "@/lib/saw";
+import type { Json } from "@/integrations/supabase/types";
+
+interface RuleRow extends RecommendationRule {
+  position: number;
+  isActive: boolean;
+}
+
+const SCORE_SUBJECT = "__score__";
+
+const emptyRule = (): RecommendationRule => ({
+  id: "",
+  name: "",
+  appliesTo: null,
+  conditions: [{ subject: 'score', operator: '>=', value: 3 }],
+  recommendation: RECOMMENDATION_EXTEND,
+  note: null,
+  terminates: false
+});
+
+export const RecommendationRulesManagement = () => {
+  const [rules, setRules] = useState<RuleRow[]>([]);
+  const [criteria, setCriteria] = useState<SAWCriterion[]>([]);
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [editingRule, setEditingRule] = useState<RuleRow | null>(null);
+  const [formData, setFormData] = useState<RecommendationRule>(emptyRule());
+  const [loading, setLoading] = useState(false);
+  const { toast } = useToast();
+  const { activePeriod } = usePeriod();
+
+  const fetchRules = async () => {
+    setLoading(true);
+    try {
+      const { data, error } = await supabase
+        .from('recommendation_rules')
+        .select('*')
+        .order('position', { ascending: true });
+
+      if (error) {
+        console.error('Error fetching recommendation rules:', error);
+        toast({
+          title: "Error",
+          description: "Gagal mengambil aturan rekomendasi",
+          variant: "destructive",
+        });
+        return;
+      }
+
+      setRules((data || []).map(row => ({
+        ...toRecommendationRule(row),
+        position: row.position,
+        isActive: row.is_active
+      })));
+      console.log('Recommendation rules loaded:', data?.length || 0);
+    } catch (error) {
+      console.error('Network error:', error);
+      toast({
+        title: "Error",
+        description: "Gagal terhubung ke database",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const fetchCriteria = async () => {
+    try {
+      const [criteriaResponse, categoriesResponse] = await Promise.all([
+        supabase.from('criteria').select('*').eq('period_id', activePeriod.id),
+        supabase.from('categories').select('*').order('position', { ascending: true })
+      ]);
+
+      if (criteriaResponse.error) {
+        console.error('Error fetching criteria for rules:', criteriaResponse.error);
+        return;
+      }
+
+      setCriteria(sortCriteria((criteriaResponse.data || []).map(toSAWCriterion), resolveCategoryOrder(categoriesResponse.data)));
+    } catch (error) {
+      console.error('Error fetching criteria for rules:', error);
+    }
+  };
+
+  useEffect(() => {
+    fetchRules();
+    fetchCriteria();
+  }, []);
+
+  const toRowData = (rule: RecommendationRule) => ({
+    name: rule.name.trim(),
+    applies_to: rule.appliesTo && rule.appliesTo.trim() ? rule.appliesTo.trim() : null,
+    conditions: rule.conditions as unknown as Json,
+    recommendation: rule.recommendation.trim(),
+    note: rule.note && rule.note.trim() ? rule.note.trim() : null,
+    terminates: rule.terminates
+  });
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const ruleError = validateRule(formData);
+    if (ruleError) {
+      toast({
+        title: "Error",
+        description: ruleError,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setLoading(true);
+    try {
+      if (editingRule) {
+        const { error } = await supabase
+          .from('recommendation_rules')
+          .update({ ...toRowData(formData), updated_at: new Date().toISOString() })
+          .eq('id', editingRule.id);
+
+        if (error) throw error;
+
+        toast({
+          title: "Berhasil",
+          description: "Aturan berhasil diperbarui",
+        });
+      } else {
+        const nextPosition = rules.length > 0 ? Math.max(...rules.map(rule => rule.position)) + 1 : 1;
+        const { error } = await supabase
+          .from('recommendation_rules')
+          .insert({ ...toRowData(formData), position: nextPosition });
+
+        if (error) throw error;
+
+        toast({
+          title: "Berhasil",
+          description: "Aturan baru berhasil ditambahkan di urutan terakhir",
+        });
+      }
+
+      setIsDialogOpen(false);
+      resetForm();
+      await fetchRules();
+    } catch (error) {
+      console.error('Error saving recommendation rule:', error);
+      toast({
+        title: "Error",
+        description: "Gagal menyimpan aturan",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // Tukar posisi aturan dengan tetangganya (atas/bawah)
+  const handleMove = async (index: number, direction: -1 | 1) => {
+    const target = index + direction;
+    if (target < 0 || target >= rules.length) return;
+
+    const current = rules[index];
+    const neighbour = rules[target];
+
+    setLoading(true);
+    try {
+      const results = await Promise.all([
+        supabase.from('recommendation_rules').update({ position: neighbour.position }).eq('id', current.id),
+        supabase.from('recommendation_rules').update({ position: current.position }).eq('id', neighbour.id)
+      ]);
+      const failed = results.find(result => result.error);
+      if (failed) throw failed.error;
+
+      await fetchRules();
+    } catch (error) {
+      console.error('Error reordering recommendation rules:', error);
+      toast({
+        title: "Error",
+        description: "Gagal mengubah urutan aturan",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleToggleActive = async (rule: RuleRow, isActive: boolean) => {
+    const { error } = await supabase
+      .from('recommendation_rules')
+      .update({ is_active: isActive })
+      .eq('id', rule.id);
+
+    if (error) {
+      console.error('Error toggling recommendation rule:', error);
+      toast({
+        title: "Error",
+        description: "Gagal mengubah status aturan",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    await fetchRules();
+  };
+
+  const handleDelete = async (id: string) => {
+    if (!confirm('Apakah Anda yakin ingin menghapus aturan ini?')) return;
+
+    setLoading(true);
+    try {
+      const { error } = await supabase
+        .from('recommendation_rules')
+        .delete()
+        .eq('id', id);
+
+      if (error) throw error;
+
+      toast({
+        title: "Berhasil",
+        description: "Aturan berhasil dihapus",
+      });
+      await fetchRules();
+    } catch (error) {
+      console.error('Error deleting recommendation rule:', error);
+      toast({
+        title: "Error",
+        description: "Gagal menghapus aturan",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // Ganti semua aturan dengan aturan bawaan (kebijakan awal aplikasi)
+  const handleRestoreDefaults = async () => {
+    if (!confirm('Semua aturan saat ini akan diganti dengan aturan bawaan. Lanjutkan?')) return;
+
+    setLoading(true);
+    try {
+      const { error: deleteError } = await supabase
+        .from('recommendation_rules')
+        .delete()
+        .not('id', 'is', null);
+
+      if (deleteError) throw deleteError;
+
+      const { error: insertError } = await supabase
+        .from('recommendation_rules')
+        .insert(DEFAULT_RECOMMENDATION_RULES.map((rule, index) => ({ ...toRowData(rule), position: index + 1 })));
+
+      if (insertError) throw insertError;
+
+      toast({
+        title: "Berhasil",
+        description: "Aturan bawaan berhasil dipulihkan",
+      });
+      await fetchRules();
+    } catch (error) {
+      console.error('Error restoring default rules:', error);
+      toast({
+        title: "Error",
+        description: "Gagal memulihkan aturan bawaan",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const updateCondition = (index: number, condition: RuleCondition) => {
+    setFormData(prev => ({
+      ...prev,
+      conditions: prev.conditions.map((item, i) => i === index ? condition : item)
+    }));
+  };
+
+  const addCondition = () => {
+    setFormData(prev => ({
+      ...prev,
+      conditions: [...prev.conditions, { subject: 'score', operator: '>=', value: 0 }]
+    }));
+  };
+
+  const removeCondition = (index: number) => {
+    setFormData(prev => ({
+      ...prev,
+      conditions: prev.conditions.filter((_, i) => i !== index)
+    }));
+  };
+
+  const resetForm = () => {
+    setFormData(emptyRule());
+    setEditingRule(null);
+  };
+
+  const handleEdit = (rule: RuleRow) => {
+    setEditingRule(rule);
+    setFormData({
+      id: rule.id,
+      name: rule.name,
+      appliesTo: rule.appliesTo,
+      conditions: rule.conditions,
+      recommendation: rule.recommendation,
+      note: rule.note,
+      terminates: rule.terminates
+    });
+    setIsDialogOpen(true);
+  };
+
+  const handleDialogOpenChange = (open: boolean) => {
+    setIsDialogOpen(open);
+    if (!open) {
+      resetForm();
+    }
+  };
+
+  const activeRules = rules.filter(rule => rule.isActive);
+  const hasCatchAll = activeRules.some(rule => !rule.appliesTo && rule.conditions.length === 0);
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <div className="flex justify-between items-center">
+            <CardTitle className="flex items-center gap-2">
+              <ListChecks className="w-5 h-5" />
+              Aturan Rekomendasi ({rules.length})
+            </CardTitle>
+            <div className="flex gap-2">
+              <Button variant="outline" onClick={handleRestoreDefaults} disabled={loading}>
+                <RotateCcw className="w-4 h-4 mr-2" />
+                Pulihkan Bawaan
+              </Button>
+              <Dialog open={isDialogOpen} onOpenChange={handleDialogOpenChange}>
+                <DialogTrigger asChild>
+                  <Button onClick={() => { resetForm(); setIsDialogOpen(true); }}>
+                    <Plus className="w-4 h-4 mr-2" />
+                    Tambah Aturan
+                  </Button>
+                </DialogTrigger>
+                <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+                  <DialogHeader>
+                    <DialogTitle>
+                      {editingRule ? 'Edit Aturan' : 'Tambah Aturan Baru'}
+                    </DialogTitle>
+                  </DialogHeader>
+                  <form onSubmit={handleSubmit} className="space-y-4">
+                    <div>
+                      <Label htmlFor="rule-name">Nama Aturan</Label>
+                      <Input
+                        id="rule-name"
+                        value={formData.name}
+                        onChange={(e) => setFormData(prev => ({ ...prev, name: e.target.value }))}
+                        required
+                      />
+                    </div>
+                    <div>
+                      <Label htmlFor="rule-applies-to">Berlaku untuk Jabatan/Departemen</Label>
+                      <Input
+                        id="rule-applies-to"
+                        value={formData.appliesTo || ""}
+                        onChange={(e) => setFormData(prev => ({ ...prev, appliesTo: e.target.value || null }))}
+                        placeholder="Kosongkan untuk semua karyawan, contoh: Guru"
+                      />
+                    </div>
+                    <div className="space-y-2">
+                      <Label>Syarat (semua harus terpenuhi)</Label>
+                      {formData.conditions.length === 0 && (
+                        <p className="text-xs text-gray-600">Tanpa syarat: aturan selalu cocok untuk karyawan dalam cakupannya</p>
+                      )}
+                      {formData.conditions.map((condition, index) => (
+                        <div key={index} className="flex items-center gap-2">
+                          <Select
+                            value={condition.subject === 'score' ? SCORE_SUBJECT : condition.criterionName || ""}
+                            onValueChange={(value) => updateCondition(index, value === SCORE_SUBJECT
+                              ? { subject: 'score', operator: condition.operator, value: condition.value }
+                              : { subject: 'criterion', criterionName: value, operator: condition.operator, value: condition.value })}
+                          >
+                            <SelectTrigger className="w-[220px]">
+                              <SelectValue placeholder="Pilih kriteria" />
+                            </SelectTrigger>
+                            <SelectContent>
+                              <SelectItem value={SCORE_SUBJECT}>Skor konversi (0-5)</SelectItem>
+                              {criteria.map(criterion => (
+                                <SelectItem key={criterion.id} value={criterion.name}>{criterion.name}</SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                          <Select
+                            value={condition.operator}
+                            onValueChange={(value: RuleOperator) => updateCondition(index, { ...condition, operator: value })}
+                          >
+                            <SelectTrigger className="w-[160px]">
+                              <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                              {RULE_OPERATORS.map(operator => (
+                                <SelectItem key={operator.value} value={operator.value}>{operator.label}</SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                          <Input
+                            type="number"
+                            step="any"
+                            value={condition.value}
+                            onChange={(e) => updateCondition(index, { ...condition, value: parseFloat(e.target.value) || 0 })}
+                          />
+                          <Button type="button" variant="outline" size="sm" onClick={() => removeCondition(index)}>
+                            <Trash2 className="w-4 h-4" />
+                          </Button>
+                        </div>
+                      ))}
+                      <Button type="button" variant="outline" size="sm" onClick={addCondition}>
+                        <Plus className="w-4 h-4 mr-2" />
+                        Tambah Syarat
+                      </Button>
+                    </div>
+                    <div>
+                      <Label htmlFor="rule-recommendation">Rekomendasi</Label>
+                      <Select
+                        value={formData.recommendation}
+                        onValueChange={(value) => setFormData(prev => ({ ...prev, recommendation: value }))}
+                      >
+                        <SelectTrigger id="rule-recommendation">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value={RECOMMENDATION_EXTEND}>{RECOMMENDATION_EXTEND}</SelectItem>
+                          <SelectItem value={RECOMMENDATION_TERMINATE}>{RECOMMENDATION_TERMINATE}</SelectItem>
+                        </SelectContent>
+                      </Select>
+                    </div>
+                    <div>
+                      <Label htmlFor="rule-note">Catatan</Label>
+                      <Input
+                        id="rule-note"
+                        value={formData.note || ""}
+                        onChange={(e) => setFormData(prev => ({ ...prev, note: e.target.value || null }))}
+                        placeholder="Opsional, contoh: Kandidat promosi. Gunakan {skor} atau {nilai}"
+                      />
+                    </div>
+                    <div className="flex items-center gap-2">
+                      <Switch
+                        id="rule-terminates"
+                        checked={formData.terminates}
+                        onCheckedChange={(checked) => setFormData(prev => ({
+                          ...prev,
+                          terminates: checked,
+                          recommendation: checked ? RECOMMENDATION_TERMINATE : prev.recommendation
+                        }))}
+                      />
+                      <Label htmlFor="rule-terminates">Pemberhentian otomatis (dikeluarkan dari perangkingan)</Label>
+                    </div>
+                    <div className="flex gap-2">
+                      <Button type="submit" disabled={loading}>
+                        {loading ? "Menyimpan..." : (editingRule ? "Update" : "Simpan")}
+                      </Button>
+                      <Button type="button" variant="outline" onClick={() => handleDialogOpenChange(false)}>
+                        Batal
+                      </Button>
+                    </div>
+                  </form>
+                </DialogContent>
+              </Dialog>
+            </div>
+          </div>
+        </CardHeader>
+        <CardContent>
+          <div className="mb-6 p-4 bg-blue-50 rounded-lg text-sm text-blue-700">
+            <p>
+              Aturan dievaluasi berurutan dari atas ke bawah untuk setiap karyawan. Aturan pertama yang cakupan
+              dan semua syaratnya terpenuhi menentukan rekomendasi dan catatan.
+            </p>
+            {!hasCatchAll && (
+              <p className="mt-2 text-yellow-700">
+                <strong>Peringatan:</strong> Tidak ada aturan aktif tanpa syarat di urutan akhir. Karyawan yang tidak cocok
+                dengan aturan mana pun memakai ambang bawaan (≥4 promosi, ≥3 diperpanjang).
+              </p>
+            )}
+          </div>
+
+          {loading && rules.length === 0 ? (
+            <div className="text-center py-8">
+              <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-green-600 mx-auto mb-2"></div>
+              <p className="text-gray-600">Memuat data...</p>
+            </div>
+          ) : rules.length === 0 ? (
+            <p className="text-center py-8 text-gray-500">Belum ada aturan. Perhitungan memakai aturan bawaan.</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead className="w-[60px]">Urutan</TableHead>
+                  <TableHead>Nama Aturan</TableHead>
+                  <TableHead>Cakupan</TableHead>
+                  <TableHead>Syarat</TableHead>
+                  <TableHead>Rekomendasi</TableHead>
+                  <TableHead>Aktif</TableHead>
+                  <TableHead>Aksi</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {rules.map((rule, index) => (
+                  <TableRow key={rule.id} className={rule.isActive ? undefined : "opacity-50"}>
+                    <TableCell>{index + 1}</TableCell>
+                    <TableCell className="font-medium">{rule.name}</TableCell>
+                    <TableCell>{rule.appliesTo || 'Semua'}</TableCell>
+                    <TableCell className="text-sm">
+                      {rule.conditions.length === 0 ? (
+                        <span className="text-gray-500 italic">Selalu cocok</span>
+                      ) : (
+                        rule.conditions.map((condition, conditionIndex) => (
+                          <div key={conditionIndex}>{describeCondition(condition)}</div>
+                        ))
+                      )}
+                    </TableCell>
+                    <TableCell>
+                      <div className="flex flex-col gap-1">
+                        <span className={`px-2 py-1 rounded text-xs w-fit ${
+                          rule.recommendation === RECOMMENDATION_TERMINATE ? 'bg-red-100 text-red-800' : 'bg-green-100 text-green-800'
+                        }`}>
+                          {rule.recommendation}
+                        </span>
+                        {rule.terminates && <Badge variant="destructive" className="w-fit">Otomatis</Badge>}
+                        {rule.note && <span className="text-xs text-gray-600">{rule.note}</span>}
+                      </div>
+                    </TableCell>
+                    <TableCell>
+                      <Switch
+                        checked={rule.isActive}
+                        onCheckedChange={(checked) => handleToggleActive(rule, checked)}
+                        disabled={loading}
+                      />
+                    </TableCell>
+                    <TableCell>
+                      <div className="flex gap-1">
+                        <Button variant="outline" size="sm" onClick={() => handleMove(index, -1)} disabled={loading || index === 0}>
+                          <ArrowUp className="w-4 h-4" />
+                        </Button>
+                        <Button variant="outline" size="sm" onClick={() => handleMove(index, 1)} disabled={loading || index === rules.length - 1}>
+                          <ArrowDown className="w-4 h-4" />
+                        </Button>
+                        <Button variant="outline" size="sm" onClick={() => handleEdit(rule)} disabled={loading}>
+                          <Edit className="w-4 h-4" />
+                        </Button>
+                        <Button variant="destructive" size="sm" onClick={() => handleDelete(rule.id)} disabled={loading}>
+                          <Trash2 className="w-4 h-4" />
+                        </Button>
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
@@ -1,21 +1,173 @@
 // src/components/ResultsDisplay.tsx
 
+import { useState, useEffect } from "react";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
-import { Trophy, TrendingUp, AlertTriangle, CheckCircle } from "lucide-react";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Trophy, TrendingUp, AlertTriangle, CheckCircle, Search } from "lucide-react";
 import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer, PieChart, Pie, Cell } from "recharts";
-import type { SAWResult } from "@/pages/Index";
+import { SensitivityAnalysis } from "@/components/SensitivityAnalysis";
+import { EmployeeBreakdown } from "@/components/EmployeeBreakdown";
+import { WhatIfSimulator } from "@/components/WhatIfSimulator";
+import { useCalculationConfig } from "@/hooks/use-calculation-config";
+import {
+  describeImprovements,
+  TERMINATED_RANK,
+  describeCriterionChange,
+  findMinimumImprovements,
+  formatWeightPercent,
+  getRecommendationThresholds,
+} from "@/lib/saw";
+import type { CalculationSnapshot, GoalSeekResult, RunComparisonReport } from "@/lib/saw";
+import type { Employee, SAWResult } from "@/pages/Index";
 
 interface ResultsDisplayProps {
   results: SAWResult[];
+  employees?: Employee[];
+  snapshot?: CalculationSnapshot | null; // Masukan perhitungan yang ditampilkan; null untuk perhitungan lama
+  runComparison?: RunComparisonReport | null; // Dicetak sebagai laporan pergeseran peringkat bila ada
 }
 
-export const ResultsDisplay = ({ results }: ResultsDisplayProps) => {
+export const ResultsDisplay = ({ results, employees = [], snapshot = null, runComparison = null }: ResultsDisplayProps) => {
+  const [selectedResult, setSelectedResult] = useState<SAWResult | null>(null);
+  // Target perbaikan yang sudah dibuka, per karyawan; null bila karyawan tidak ada di snapshot
+  const [improvementTargets, setImprovementTargets] = useState<Record<string, GoalSeekResult | null>>({});
+  // Target perbaikan mengikuti ambang skor aturan rekomendasi yang aktif, sama seperti analisis sensitivitas
+  const { rules } = useCalculationConfig();
+  const thresholds = getRecommendationThresholds(rules);
+
+  useEffect(() => {
+    setImprovementTargets({});
+  }, [snapshot, thresholds.extension, thresholds.promotion]);
+
+  // Target perbaikan minimum dari matrix, metode, dan opsi perhitungan yang ditampilkan; null bila karyawan tidak ada di snapshot
+  const computeTarget = (result: SAWResult, source: CalculationSnapshot): GoalSeekResult | null => {
+    const recordIndex = source.employeeIds.indexOf(result.employee.id);
+    const target = result.recommendation === "Diberhentikan" ? thresholds.extension : thresholds.promotion;
+    return recordIndex === -1
+      ? null
+      : findMinimumImprovements(source.criteria, source.matrix, recordIndex, target, source.options, source.method);
+  };
+
+  // Di layar target baru dihitung saat dibuka
+  const openTarget = (result: SAWResult) => {
+    if (!snapshot) return;
+    setImprovementTargets(previous => ({ ...previous, [result.employee.id]: computeTarget(result, snapshot) }));
+  };
+
+  const describeGoal = (goal: GoalSeekResult | null | undefined): string => {
+    if (goal === undefined) return '';
+    if (goal === null) return 'Karyawan tidak termasuk dalam perhitungan ini';
+    if (!goal.reached) return `Target ${goal.target.toFixed(1)} tidak tercapai dalam batas skala kriteria`;
+    if (goal.alreadyMet) return `Target ${goal.target.toFixed(1)} sudah tercapai`;
+    return `Target ${goal.target.toFixed(1)}: ${describeImprovements(goal, snapshot?.criteria || [])} (skor ${goal.convertedScore.toFixed(2)})`;
+  };
+
+  const renderTarget = (result: SAWResult, className: string) => {
+    if (result.employee.id in improvementTargets) {
+      return <p className={`text-xs mt-2 ${className}`}>{describeGoal(improvementTargets[result.employee.id])}</p>;
+    }
+    if (!snapshot) {
+      return <p className="text-xs text-gray-500 mt-2">Perhitungan ini tidak memiliki snapshot sehingga target perbaikan tidak tersedia</p>;
+    }
+    return (
+      <Button variant="link" size="sm" className={`h-auto p-0 mt-2 text-xs ${className}`} onClick={() => openTarget(result)}>
+        Hitung target perbaikan
+      </Button>
+    );
+  };
+
+  const needsImprovement = results.filter(r => r.recommendation === "Diberhentikan");
+  const promotionCandidates = results.filter(r =>
+    r.recommendation === "Dapat diperpanjang" && r.convertedScore < thresholds.promotion
+  );
+
+  const formatRunRank = (rank: number | undefined) =>
+    rank === undefined ? '-' : rank === TERMINATED_RANK ? 'Diberhentikan' : `#${rank}`;
+
+  // Bagian laporan cetak: siapa yang bergeser peringkatnya dan kriteria apa yang berubah di antara dua perhitungan
+  const renderComparisonSection = (report: RunComparisonReport): string => `
+    <div class="comparison">
+      <h3>Pergeseran Peringkat</h3>
+      <p>A: ${report.labelA} &rarr; B: ${report.labelB}</p>
+      <p>
+        Korelasi Spearman (ρ): <strong>${report.comparison.spearman !== null ? report.comparison.spearman.toFixed(3) : '-'}</strong> &middot;
+        Peringkat berubah: <strong>${report.comparison.changedRanks}</strong> &middot;
+        Rekomendasi berubah: <strong>${report.comparison.changedRecommendations}</strong>
+      </p>
+      <table>
+        <thead>
+          <tr>
+            <th>Nama Karyawan</th>
+            <th>Peringkat A</th>
+            <th>Peringkat B</th>
+            <th>Perubahan</th>
+            <th>Skor A</th>
+            <th>Skor B</th>
+            <th>Rekomendasi A</th>
+            <th>Rekomendasi B</th>
+          </tr>
+        </thead>
+        <tbody>
+          ${report.comparison.rows.map(row => `
+            <tr class="${row.recommendationChanged ? 'recommendation-flip' : ''}">
+              <td><strong>${row.b?.employeeName || row.a?.employeeName || row.employeeId}</strong></td>
+              <td>${formatRunRank(row.a?.rank)}</td>
+              <td>${formatRunRank(row.b?.rank)}</td>
+              <td>${row.presence === 'onlyA' ? 'Hanya di A' : row.presence === 'onlyB' ? 'Baru di B' : row.rankChange ? (row.rankChange > 0 ? `▲ ${row.rankChange}` : `▼ ${Math.abs(row.rankChange)}`) : '-'}</td>
+              <td>${row.a ? row.a.convertedScore.toFixed(2) : '-'}</td>
+              <td>${row.b ? row.b.convertedScore.toFixed(2) : '-'}${row.scoreChange ? ` (${row.scoreChange > 0 ? '+' : ''}${row.scoreChange.toFixed(2)})` : ''}</td>
+              <td>${row.a?.recommendation || '-'}</td>
+              <td>${row.b?.recommendation || '-'}</td>
+            </tr>
+          `).join('')}
+        </tbody>
+      </table>
+
+      <h3>Kriteria yang Berubah</h3>
+      ${report.criteriaChanges.length === 0 ? '<p><em>Bobot dan nilai mentah semua kriteria sama di kedua perhitungan</em></p>' : `
+        <table>
+          <thead>
+            <tr>
+              <th>Kode</th>
+              <th>Kriteria</th>
+              <th>Bobot A</th>
+              <th>Bobot B</th>
+              <th>Perubahan</th>
+            </tr>
+          </thead>
+          <tbody>
+            ${report.criteriaChanges.map(change => `
+              <tr>
+                <td>${change.criteriaCode}</td>
+                <td>${change.criteriaName || '-'}</td>
+                <td>${formatWeightPercent(change.weightA)}</td>
+                <td>${formatWeightPercent(change.weightB)}</td>
+                <td>${describeCriterionChange(change)}</td>
+              </tr>
+            `).join('')}
+          </tbody>
+        </table>
+      `}
+    </div>
+  `;
+
   const handlePrint = () => {
     const printContent = document.getElementById('results-content');
     if (!printContent) return;
 
+    // Laporan cetak memuat target semua karyawan yang tercantum, terlepas dari target yang sudah dibuka di layar
+    const printTargets = new Map(
+      snapshot
+        ? [...needsImprovement, ...promotionCandidates].map(result => [result.employee.id, describeGoal(computeTarget(result, snapshot))])
+        : []
+    );
+    const renderPrintTarget = (result: SAWResult) => {
+      const description = printTargets.get(result.employee.id);
+      return description ? `<p class="improvement-target">${description}</p>` : '';
+    };
+
     const printWindow = window.open('', '_blank');
     if (!printWindow) return;
 
@@ -136,7 +288,14 @@ export const ResultsDisplay = ({ results }: ResultsDisplayProps) => {
             .badge-success { background: #22c55e; color: white; }
             .badge-warning { background: #f59e0b; color: white; }
             .badge-danger { background: #ef4444; color: white; }
+            .badge-tie { background: #fde68a; color: #92400e; }
+            .tie-reason { font-size: 9px; color: #92400e; }
+            .improvement-target { font-size: 10px; color: #1d4ed8; margin: -4px 0 6px 12px; }
             .badge-secondary { background: #6b7280; color: white; }
+            .comparison { margin-top: 30px; page-break-before: always; }
+            .comparison h3 { font-size: 14px; }
+            .comparison p { font-size: 12px; margin: 5px 0; }
+            .recommendation-flip { background-color: #fef9c3; }
             .analysis {
               margin-top: 30px;
               background: #f0f9ff;
@@ -204,6 +363,7 @@ export const ResultsDisplay = ({ results }: ResultsDisplayProps) => {
                 <li>Rata-rata skor: <strong>${(results.reduce((sum, r) => sum + r.convertedScore, 0) / results.length).toFixed(2)}</strong></li>
                 <li>Persentase lulus standar minimum (≥3.0): <strong>${((results.filter(r => r.convertedScore >= 3).length / results.length) * 100).toFixed(1)}%</strong></li>
                 <li>Kandidat promosi: <strong>${results.filter(r => r.note === "Kandidat promosi").length} orang</strong></li>
+                ${results.some(r => r.isTied) ? `<li>Karyawan dengan skor seri: <strong>${results.filter(r => r.isTied).length} orang</strong> (urutan ditentukan pemecah seri, lihat kolom Rank)</li>` : ''}
               </ul>
             </div>
 
@@ -217,18 +377,20 @@ export const ResultsDisplay = ({ results }: ResultsDisplayProps) => {
                   <th>Kategori</th>
                   <th>Rekomendasi</th>
                   <th>Catatan</th>
+                  <th>Aturan</th>
                 </tr>
               </thead>
               <tbody>
                 ${results.map((result, index) => `
                   <tr class="${index === 0 ? 'rank-1' : ''}">
-                    <td>#${result.rank}${result.rank === 1 ? ' 🏆' : ''}</td>
+                    <td>#${result.rank}${result.rank === 1 ? ' 🏆' : ''}${result.isTied ? ' <span class="badge badge-tie">Seri</span>' : ''}${result.tieBreakReason ? `<div class="tie-reason">${result.tieBreakReason}</div>` : ''}</td>
                     <td><strong>${result.employee.name}</strong></td>
                     <td>${result.finalScore.toFixed(4)}</td>
                     <td><span class="badge ${result.convertedScore >= 4 ? 'badge-success' : result.convertedScore >= 3 ? 'badge-warning' : 'badge-danger'}">${result.convertedScore.toFixed(1)}</span></td>
                     <td>${result.convertedScore >= 4.5 ? "Sangat Baik" : result.convertedScore >= 3.5 ? "Baik" : result.convertedScore >= 2.5 ? "Cukup" : result.convertedScore >= 1.5 ? "Kurang" : "Sangat Kurang"}</td>
                     <td><span class="badge ${result.recommendation === "Dapat diperpanjang" ? 'badge-success' : 'badge-danger'}">${result.recommendation}</span></td>
                     <td>${result.note ? `<span class="badge ${result.note === "Kandidat promosi" ? 'badge-success' : 'badge-danger'}">${result.note}</span>` : '-'}</td>
+                    <td>${result.ruleName || '-'}</td>
                   </tr>
                 `).join('')}
               </tbody>
@@ -240,13 +402,24 @@ export const ResultsDisplay = ({ results }: ResultsDisplayProps) => {
                 <p><strong>#${result.rank} ${result.employee.name}</strong> - Skor: ${result.convertedScore.toFixed(1)}</p>
               `).join('')}
               
-              ${results.filter(r => r.convertedScore < 3).length > 0 ? `
+              ${needsImprovement.length > 0 ? `
                 <h3>Perlu Perbaikan</h3>
-                ${results.filter(r => r.convertedScore < 3).map((result) => `
+                ${needsImprovement.map((result) => `
                   <p><strong>#${result.rank} ${result.employee.name}</strong> - Skor: ${result.convertedScore.toFixed(1)}</p>
+                  ${renderPrintTarget(result)}
                 `).join('')}
               ` : '<p><em>Semua karyawan memenuhi standar minimum</em></p>'}
+
+              ${promotionCandidates.length > 0 ? `
+                <h3>Menuju Kandidat Promosi</h3>
+                ${promotionCandidates.map((result) => `
+                  <p><strong>#${result.rank} ${result.employee.name}</strong> - Skor: ${result.convertedScore.toFixed(1)}</p>
+                  ${renderPrintTarget(result)}
+                `).join('')}
+              ` : ''}
             </div>
+
+            ${runComparison ? renderComparisonSection(runComparison) : ''}
           </div>
         </body>
       </html>
@@ -396,6 +569,8 @@ export const ResultsDisplay = ({ results }: ResultsDisplayProps) => {
                   <th className="text-center py-4 px-4 font-semibold">Kategori</th>
                   <th className="text-left py-4 px-4 font-semibold">Rekomendasi</th>
                   <th className="text-left py-4 px-4 font-semibold">Catatan</th>
+                  <th className="text-left py-4 px-4 font-semibold">Aturan</th>
+                  <th className="text-center py-4 px-4 font-semibold print:hidden">Rincian</th>
                 </tr>
               </thead>
               <tbody>
@@ -413,7 +588,13 @@ export const ResultsDisplay = ({ results }: ResultsDisplayProps) => {
                           #{result.rank}
                         </Badge>
                         {result.rank === 1 && <Trophy className="w-4 h-4 text-yellow-500" />}
+                        {result.isTied && (
+                          <Badge variant="outline" className="border-amber-400 text-amber-700">Seri</Badge>
+                        )}
                       </div>
+                      {result.tieBreakReason && (
+                        <div className="text-xs text-amber-700 mt-1">{result.tieBreakReason}</div>
+                      )}
                     </td>
                     <td className="py-4 px-4">
                       <div className="font-medium text-gray-900">{result.employee.name}</div>
@@ -459,6 +640,15 @@ export const ResultsDisplay = ({ results }: ResultsDisplayProps) => {
                         </span>
                       )}
                     </td>
+                    <td className="py-4 px-4">
+                      <span className="text-xs text-gray-600">{result.ruleName || '-'}</span>
+                    </td>
+                    <td className="py-4 px-4 text-center print:hidden">
+                      <Button variant="outline" size="sm" onClick={() => setSelectedResult(result)}>
+                        <Search className="w-4 h-4 mr-1" />
+                        Detail
+                      </Button>
+                    </td>
                   </tr>
                 ))}
               </tbody>
@@ -546,20 +736,41 @@ export const ResultsDisplay = ({ results }: ResultsDisplayProps) => {
 
             <div className="space-y-4">
               <h4 className="font-semibold text-red-700">Perlu Perbaikan</h4>
-              {results.filter(r => r.recommendation === "Diberhentikan").map((result) => (
-                <div key={result.employee.id} className="flex items-center justify-between p-3 bg-red-50 rounded-lg">
-                  <div className="flex items-center gap-3">
-                    <Badge variant="destructive">
-                      #{result.rank}
-                    </Badge>
-                    <span className="font-medium">{result.employee.name}</span>
+              {needsImprovement.map((result) => (
+                <div key={result.employee.id} className="p-3 bg-red-50 rounded-lg">
+                  <div className="flex items-center justify-between">
+                    <div className="flex items-center gap-3">
+                      <Badge variant="destructive">
+                        #{result.rank}
+                      </Badge>
+                      <span className="font-medium">{result.employee.name}</span>
+                    </div>
+                    <Badge variant="destructive">{result.convertedScore.toFixed(1)}</Badge>
                   </div>
-                  <Badge variant="destructive">{result.convertedScore.toFixed(1)}</Badge>
+                  {renderTarget(result, "text-red-800")}
                 </div>
               ))}
-              {results.filter(r => r.recommendation === "Diberhentikan").length === 0 && (
+              {needsImprovement.length === 0 && (
                 <p className="text-gray-500 italic">Semua karyawan dapat diperpanjang</p>
               )}
+
+              {promotionCandidates.length > 0 && (
+                <>
+                  <h4 className="font-semibold text-blue-700 pt-2">Menuju Kandidat Promosi</h4>
+                  {promotionCandidates.map((result) => (
+                    <div key={result.employee.id} className="p-3 bg-blue-50 rounded-lg">
+                      <div className="flex items-center justify-between">
+                        <div className="flex items-center gap-3">
+                          <Badge variant="secondary">#{result.rank}</Badge>
+                          <span className="font-medium">{result.employee.name}</span>
+                        </div>
+                        <Badge variant="outline">{result.convertedScore.toFixed(1)}</Badge>
+                      </div>
+                      {renderTarget(result, "text-blue-800")}
+                    </div>
+                  ))}
+                </>
+              )}
             </div>
           </div>
 
@@ -575,6 +786,20 @@ export const ResultsDisplay = ({ results }: ResultsDisplayProps) => {
           </div>
         </CardContent>
       </Card>
+
+      {/* Weight Sensitivity */}
+      <SensitivityAnalysis employees={employees} />
+
+      <WhatIfSimulator results={results} employees={employees} />
+
+      <Dialog open={selectedResult !== null} onOpenChange={(open) => !open && setSelectedResult(null)}>
+        <DialogContent className="max-w-4xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>Rincian Skor - {selectedResult?.employee.name}</DialogTitle>
+          </DialogHeader>
+          {selectedResult && <EmployeeBreakdown result={selectedResult} results={results} />}
+        </DialogContent>
+      </Dialog>
     </div>
   );
 };
@@ -0,0 +1,150 @@
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { GitCompare, X } from "lucide-react";
+import { TERMINATED_RANK, changedCriteriaByEmployee, describeCriterionChange, formatWeightPercent } from "@/lib/saw";
+import type { RunComparisonReport } from "@/lib/saw";
+
+interface RunComparisonProps {
+  report: RunComparisonReport;
+  onClose: () => void;
+}
+
+const formatRank = (rank: number | undefined) =>
+  rank === undefined ? '-' : rank === TERMINATED_RANK ? 'Diberhentikan' : `#${rank}`;
+
+export const RunComparison = ({ report, onClose }: RunComparisonProps) => {
+  const { labelA, labelB, comparison, criteriaChanges } = report;
+  const { rows, spearman, changedRanks, changedRecommendations } = comparison;
+  const changedCriteria = changedCriteriaByEmployee(criteriaChanges);
+
+  return (
+    <Card className="bg-white shadow-lg">
+      <CardHeader>
+        <div className="flex justify-between items-start">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <GitCompare className="w-5 h-5" />
+              Perbandingan Perhitungan
+            </CardTitle>
+            <p className="text-sm text-gray-600">
+              A: {labelA} &rarr; B: {labelB}
+            </p>
+            <p className="text-xs text-gray-500">
+              Perbandingan ini ikut tercetak melalui tombol "Cetak Hasil" di tab Hasil.
+            </p>
+          </div>
+          <Button variant="ghost" size="sm" onClick={onClose}>
+            <X className="w-4 h-4" />
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent>
+        <div className="flex flex-wrap items-center gap-3 mb-4 text-sm">
+          <span>
+            Korelasi Spearman (ρ): <strong>{spearman !== null ? spearman.toFixed(3) : '-'}</strong>
+          </span>
+          <span className="text-gray-600">
+            Peringkat berubah: <strong>{changedRanks}</strong>
+          </span>
+          <span className="text-gray-600">
+            Rekomendasi berubah: <strong>{changedRecommendations}</strong>
+          </span>
+          <span className="text-gray-600">
+            Kriteria berubah: <strong>{criteriaChanges.length}</strong>
+          </span>
+        </div>
+        <div className="overflow-x-auto">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead className="w-[200px]">Nama</TableHead>
+                <TableHead className="text-center">Peringkat A</TableHead>
+                <TableHead className="text-center">Peringkat B</TableHead>
+                <TableHead className="text-center">Perubahan</TableHead>
+                <TableHead className="text-center">Skor A</TableHead>
+                <TableHead className="text-center">Skor B</TableHead>
+                <TableHead>Rekomendasi A</TableHead>
+                <TableHead>Rekomendasi B</TableHead>
+                <TableHead>Nilai Berubah</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {rows.map(row => (
+                <TableRow key={row.employeeId} className={row.recommendationChanged ? 'bg-yellow-50' : undefined}>
+                  <TableCell className="font-medium">
+                    {row.b?.employeeName || row.a?.employeeName || row.employeeId}
+                  </TableCell>
+                  <TableCell className="text-center">{formatRank(row.a?.rank)}</TableCell>
+                  <TableCell className="text-center">{formatRank(row.b?.rank)}</TableCell>
+                  <TableCell className="text-center">
+                    {row.presence === 'onlyA' ? (
+                      <Badge variant="outline">Hanya di A</Badge>
+                    ) : row.presence === 'onlyB' ? (
+                      <Badge variant="outline">Baru di B</Badge>
+                    ) : row.rankChange === null || row.rankChange === 0 ? (
+                      <span className="text-gray-500">-</span>
+                    ) : (
+                      <span className={row.rankChange > 0 ? 'text-green-600 font-semibold' : 'text-red-600 font-semibold'}>
+                        {row.rankChange > 0 ? `▲ ${row.rankChange}` : `▼ ${Math.abs(row.rankChange)}`}
+                      </span>
+                    )}
+                  </TableCell>
+                  <TableCell className="text-center">{row.a ? row.a.convertedScore.toFixed(2) : '-'}</TableCell>
+                  <TableCell className="text-center">
+                    {row.b ? row.b.convertedScore.toFixed(2) : '-'}
+                    {row.scoreChange !== null && row.scoreChange !== 0 && (
+                      <span className={`ml-1 text-xs ${row.scoreChange > 0 ? 'text-green-600' : 'text-red-600'}`}>
+                        ({row.scoreChange > 0 ? '+' : ''}{row.scoreChange.toFixed(2)})
+                      </span>
+                    )}
+                  </TableCell>
+                  <TableCell>{row.a?.recommendation || '-'}</TableCell>
+                  <TableCell>{row.b?.recommendation || '-'}</TableCell>
+                  <TableCell className="text-sm text-gray-600">
+                    {(changedCriteria.get(row.employeeId) || []).join(', ') || '-'}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </div>
+
+        <div className="mt-6">
+          <h4 className="font-semibold mb-2">Kriteria yang Berubah</h4>
+          {criteriaChanges.length === 0 ? (
+            <p className="text-sm text-gray-500">
+              Bobot dan nilai mentah semua kriteria sama; perbedaan hasil berasal dari pengaturan perhitungan (metode, aturan, atau pemecah seri).
+            </p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead className="w-[80px]">Kode</TableHead>
+                  <TableHead>Kriteria</TableHead>
+                  <TableHead className="text-center">Bobot A</TableHead>
+                  <TableHead className="text-center">Bobot B</TableHead>
+                  <TableHead>Perubahan</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {criteriaChanges.map(change => (
+                  <TableRow key={change.criteriaCode}>
+                    <TableCell className="font-mono">{change.criteriaCode}</TableCell>
+                    <TableCell>{change.criteriaName || '-'}</TableCell>
+                    <TableCell className="text-center">{formatWeightPercent(change.weightA)}</TableCell>
+                    <TableCell className={`text-center ${change.weightChanged ? 'font-semibold text-blue-700' : ''}`}>
+                      {formatWeightPercent(change.weightB)}
+                    </TableCell>
+                    <TableCell className="text-sm">{describeCriterionChange(change)}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
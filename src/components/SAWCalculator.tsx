@@ -1,11 +1,74 @@
 import { useState, useEffect } from "react";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
-import { Calculator, Play, RefreshCw, AlertTriangle, Database, Trash2 } from "lucide-react";
+import { Calculator, Play, RefreshCw, AlertTriangle, Database, Trash2, ShieldCheck, Server } from "lucide-react";
 import { Badge } from "@/components/ui/badge";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { useToast } from "@/hooks/use-toast";
 import { supabase } from "@/integrations/supabase/client";
+import { MethodComparison } from "@/components/MethodComparison";
+import { TieBreakSettings } from "@/components/TieBreakSettings";
+import { CompletenessCheck } from "@/components/CompletenessCheck";
+import { usePeriod } from "@/components/PeriodProvider";
+import { useAuth } from "@/components/AuthProvider";
+import { CalculationHistory } from "@/components/CalculationHistory";
+import { fetchDefaultCalculation } from "@/hooks/use-calculation-history";
 import type { Employee, SAWResult } from "@/pages/Index";
+import {
+  CALCULATION_METHODS,
+  CATEGORY_ORDER,
+  DEFAULT_RECOMMENDATION_RULES,
+  DEFAULT_TIE_BREAKERS,
+  NORMALIZATION_STRATEGIES,
+  TERMINATED_RANK,
+  buildCalculationSnapshot,
+  buildDecisionMatrix,
+  buildMissingScoreReport,
+  buildNormalizationConfig,
+  calculateSAW as runSAW,
+  calculateTOPSIS,
+  calculateWP,
+  createFieldName,
+  crossCheckWithServer,
+  describeCondition,
+  describeTieBreaker,
+  findMissingScores,
+  getCriterionCode,
+  getCriterionValue,
+  getDefaultMissingValues,
+  getMethodLabel,
+  getMissingScorePolicyLabel,
+  getNormalizationLabel,
+  getScoreLabel,
+  parseCalculationSnapshot,
+  parseServerCalculation,
+  parseTieBreakers,
+  resolveCategoryOrder,
+  resolveMissingScores,
+  scoreKey,
+  sortCriteria,
+  toRecommendationRule,
+  toSAWCriterion,
+  verifySnapshot,
+} from "@/lib/saw";
+import type {
+  CalculationMethod,
+  CalculationSnapshot,
+  MissingScorePolicy,
+  MissingScoreReport,
+  NormalizationConfigEntry,
+  RecommendationRule,
+  RunComparisonReport,
+  SAWCriterion,
+  SAWOptions,
+  SAWScore,
+  SnapshotVerification,
+  TieBreaker,
+  TOPSISOutput,
+  WPOutput,
+} from "@/lib/saw";
+import type { Json } from "@/integrations/supabase/types";
 import {
   Table,
   TableBody,
@@ -16,55 +79,17 @@ import {
   TableRow,
 } from "@/components/ui/table"
 
-interface Criteria {
-  id: string;
-  name: string;
-  type: 'Benefit' | 'Cost';
-  weight: number;
-  category: string;
-  scale: string;
-}
-
 interface SAWCalculatorProps {
   employees: Employee[];
-  onCalculate: (results: SAWResult[]) => void;
+  onCalculate: (results: SAWResult[], snapshot?: CalculationSnapshot | null) => void;
   criteriaUpdateTrigger?: number;
+  onCompareRuns?: (report: RunComparisonReport | null) => void;
 }
 
-// Konstanta untuk urutan kategori
-const CATEGORY_ORDER = [
-  'A. Kinerja Inti',
-  'B. Kedisiplinan', 
-  'C. Faktor Tambahan'
-];
-
-// Konstanta untuk urutan kriteria kanonis dalam setiap kategori
-const CANONICAL_CRITERIA_ORDER = {
-  'A. Kinerja Inti': [
-    'Kualitas Kerja',
-    'Tanggung Jawab', 
-    'Kuantitas Kerja',
-    'Pemahaman Tugas',
-    'Inisiatif',
-    'Kerjasama'
-  ],
-  'B. Kedisiplinan': [
-    'Jumlah Hari Alpa',
-    'Jumlah Keterlambatan',
-    'Jumlah Hari Izin',
-    'Jumlah Hari Sakit',
-    'Pulang Cepat'
-  ],
-  'C. Faktor Tambahan': [
-    'Prestasi',
-    'Surat Peringatan'
-  ]
-};
-
-export const SAWCalculator = ({ employees, onCalculate, criteriaUpdateTrigger }: SAWCalculatorProps) => {
+export const SAWCalculator = ({ employees, onCalculate, criteriaUpdateTrigger, onCompareRuns }: SAWCalculatorProps) => {
   const [criteriaWeights, setCriteriaWeights] = useState<{ [key: string]: number }>({});
   const [criteriaTypes, setCriteriaTypes] = useState<{ [key: string]: string }>({});
-  const [criteriaData, setCriteriaData] = useState<Criteria[]>([]);
+  const [criteriaData, setCriteriaData] = useState<SAWCriterion[]>([]);
   const [decisionMatrix, setDecisionMatrix] = useState<number[][]>([]);
   const [normalizedMatrix, setNormalizedMatrix] = useState<number[][]>([]);
   const [finalScores, setFinalScores] = useState<SAWResult[]>([]);
@@ -72,99 +97,46 @@ export const SAWCalculator = ({ employees, onCalculate, criteriaUpdateTrigger }:
   const [loading, setLoading] = useState(false);
   const [hasSavedResults, setHasSavedResults] = useState(false);
   const [lastCalculationDate, setLastCalculationDate] = useState<string>('');
+  const [lastCalculationMethod, setLastCalculationMethod] = useState<string>('');
+  const [method, setMethod] = useState<CalculationMethod>('SAW');
+  const [calculatedMethod, setCalculatedMethod] = useState<CalculationMethod>('SAW');
+  const [topsisDetails, setTopsisDetails] = useState<TOPSISOutput | null>(null);
+  const [wpDetails, setWpDetails] = useState<WPOutput | null>(null);
+  const [methodComparison, setMethodComparison] = useState<{ saw: SAWScore[]; wp: SAWScore[] } | null>(null);
+  const [runNormalization, setRunNormalization] = useState<NormalizationConfigEntry[] | null>(null);
+  const [recommendationRules, setRecommendationRules] = useState<RecommendationRule[]>(DEFAULT_RECOMMENDATION_RULES);
+  const [tieBreakers, setTieBreakers] = useState<TieBreaker[]>(DEFAULT_TIE_BREAKERS);
+  // Aturan atau pemecah seri bawaan dipakai karena belum ada yang tersimpan di database
+  const [usesDefaultRules, setUsesDefaultRules] = useState(false);
+  const [usesDefaultTieBreakers, setUsesDefaultTieBreakers] = useState(false);
+  const [scoredKeys, setScoredKeys] = useState<Set<string> | null>(null);
+  const [missingPolicy, setMissingPolicy] = useState<MissingScorePolicy | null>(null);
+  const [missingDefaults, setMissingDefaults] = useState<{ [criterionId: string]: number }>({});
+  const [calculatedEmployees, setCalculatedEmployees] = useState<Employee[]>([]);
+  const [runMissingReport, setRunMissingReport] = useState<MissingScoreReport | null>(null);
+  const [activeWeightingName, setActiveWeightingName] = useState<string | null>(null);
+  const [categoryOrder, setCategoryOrder] = useState<string[]>(CATEGORY_ORDER);
+  const [snapshotCheck, setSnapshotCheck] = useState<(SnapshotVerification & { appVersion: string; calculationDate: string }) | null>(null);
+  const [serverCheck, setServerCheck] = useState<SnapshotVerification | null>(null);
+  const [openedCalculationId, setOpenedCalculationId] = useState<string>('');
+  const [savedCalculationId, setSavedCalculationId] = useState<string>('');
+  const { activePeriod, isClosed } = usePeriod();
+  const { user } = useAuth();
   const { toast } = useToast();
 
-  // Fungsi untuk mengurutkan kriteria berdasarkan kategori dan urutan kanonis
-  const sortCriteria = (criteria: Criteria[]): Criteria[] => {
-    return criteria.sort((a, b) => {
-      // Pertama, urutkan berdasarkan kategori
-      const categoryIndexA = CATEGORY_ORDER.indexOf(a.category);
-      const categoryIndexB = CATEGORY_ORDER.indexOf(b.category);
-      
-      // Jika kategori berbeda, urutkan berdasarkan urutan kategori
-      if (categoryIndexA !== categoryIndexB) {
-        // Kategori yang tidak ada dalam CATEGORY_ORDER akan diletakkan di akhir
-        if (categoryIndexA === -1) return 1;
-        if (categoryIndexB === -1) return -1;
-        return categoryIndexA - categoryIndexB;
-      }
-      
-      // Jika kategori sama, urutkan berdasarkan urutan kriteria kanonis
-      const canonicalOrder = CANONICAL_CRITERIA_ORDER[a.category as keyof typeof CANONICAL_CRITERIA_ORDER];
-      if (canonicalOrder) {
-        const indexA = canonicalOrder.indexOf(a.name);
-        const indexB = canonicalOrder.indexOf(b.name);
-        
-        // Jika kedua kriteria ada dalam urutan kanonis
-        if (indexA !== -1 && indexB !== -1) {
-          return indexA - indexB;
-        }
-        
-        // Jika hanya satu yang ada dalam urutan kanonis
-        if (indexA !== -1) return -1;
-        if (indexB !== -1) return 1;
-      }
-      
-      // Jika tidak ada dalam urutan kanonis, urutkan berdasarkan nama
-      return a.name.localeCompare(b.name);
-    });
-  };
-
-  // Fungsi untuk mengkonversi nama kriteria menjadi field name yang konsisten
-  const createFieldName = (criteriaName: string): string => {
-    return criteriaName
-      .toLowerCase()
-      .replace(/[^a-z0-9\s]/g, '') // Hapus karakter khusus
-      .replace(/\s+/g, '_') // Ganti spasi dengan underscore
-      .replace(/^_+|_+$/g, '') // Hapus underscore di awal/akhir
-      .replace(/_+/g, '_'); // Ganti multiple underscore dengan single
-  };
-
-  // Mapping dinamis dari nama kriteria ke field Employee interface
-  const createEmployeeFieldMapping = (criteriaName: string): string => {
-    const fieldName = createFieldName(criteriaName);
-    
-    // Mapping khusus untuk kriteria yang sudah ada di Employee interface
-    const specialMappings: { [key: string]: string } = {
-      'kualitas_kerja': 'kualitasKerja',
-      'tanggung_jawab': 'tanggungJawab',
-      'kuantitas_kerja': 'kuantitasKerja',
-      'pemahaman_tugas': 'pemahamanTugas',
-      'inisiatif': 'inisiatif',
-      'kerjasama': 'kerjasama',
-      'jumlah_hari_alpa': 'hariAlpa',
-      'jumlah_keterlambatan': 'keterlambatan',
-      'jumlah_hari_izin': 'hariIzin',
-      'jumlah_hari_sakit': 'hariSakit',
-      'pulang_cepat': 'pulangCepat',
-      'prestasi': 'prestasi',
-      'surat_peringatan': 'suratPeringatan'
-    };
-
-    return specialMappings[fieldName] || criteriaName; // Use original name for dynamic criteria
-  };
-
   // Mapping untuk kode kriteria C1-C13+ dengan urutan yang benar
   const criteriaCodeMapping: { [key: string]: string } = {};
 
-  // Check if there are saved SAW results in database
+  // Check if there are saved SAW results in database (official run first, otherwise the latest)
   const checkSavedResults = async () => {
     try {
-      const { data, error } = await supabase
-        .from('saw_results')
-        .select('calculation_date')
-        .order('calculation_date', { ascending: false })
-        .limit(1);
-
-      if (error) {
-        console.error('Error checking saved results:', error);
-        return;
-      }
+      const calculation = await fetchDefaultCalculation(activePeriod.id);
 
-      if (data && data.length > 0) {
+      if (calculation) {
         setHasSavedResults(true);
-        setLastCalculationDate(new Date(data[0].calculation_date).toLocaleString('id-ID'));
-        console.log('Found saved SAW results from:', data[0].calculation_date);
+        setLastCalculationDate(new Date(calculation.calculationDate).toLocaleString('id-ID'));
+        setLastCalculationMethod(calculation.method);
+        console.log('Found saved SAW results from:', calculation.calculationDate);
       } else {
         setHasSavedResults(false);
         console.log('No saved SAW results found');
@@ -174,8 +146,8 @@ export const SAWCalculator = ({ employees, onCalculate, criteriaUpdateTrigger }:
     }
   };
 
-  // Load saved SAW results from database
-  const loadSavedResults = async () => {
+  // Load saved SAW results from database; without an id the official (or latest) run is loaded
+  const loadSavedResults = async (requestedId?: string) => {
     if (employees.length === 0) {
       toast({
         title: "Error",
@@ -189,14 +161,9 @@ export const SAWCalculator = ({ employees, onCalculate, criteriaUpdateTrigger }:
     try {
       console.log('Loading saved SAW results from database...');
 
-      // Get the latest calculation date
-      const { data: latestCalc, error: calcError } = await supabase
-        .from('saw_results')
-        .select('calculation_date')
-        .order('calculation_date', { ascending: false })
-        .limit(1);
+      const calculationId = requestedId || (await fetchDefaultCalculation(activePeriod.id))?.id;
 
-      if (calcError || !latestCalc || latestCalc.length === 0) {
+      if (!calculationId) {
         toast({
           title: "Error",
           description: "Tidak ada hasil perhitungan tersimpan",
@@ -205,23 +172,21 @@ export const SAWCalculator = ({ employees, onCalculate, criteriaUpdateTrigger }:
         return;
       }
 
-      const calculationDate = latestCalc[0].calculation_date;
-
       // Load SAW results
       const { data: savedResults, error: resultsError } = await supabase
         .from('saw_results')
         .select(`
           *,
-          employees!inner(id, name, position, department)
+          employees!inner(id, name, position, department, hire_date)
         `)
-        .eq('calculation_date', calculationDate)
+        .eq('calculation_id', calculationId)
         .order('rank');
 
       // Load normalized matrix data
       const { data: normalizedData, error: normalizedError } = await supabase
         .from('saw_normalized_matrix')
         .select('*')
-        .eq('calculation_date', calculationDate)
+        .eq('calculation_id', calculationId)
         .order('employee_id');
 
       if (resultsError || normalizedError) {
@@ -243,10 +208,14 @@ export const SAWCalculator = ({ employees, onCalculate, criteriaUpdateTrigger }:
           return null;
         }
 
-        // Get normalized scores for this employee
+        // Get normalized scores for this employee, ordered like the current criteria columns
+        const columnIndex = (norm: { criteria_id: string | null; criteria_code: string }) => {
+          const index = norm.criteria_id ? criteriaData.findIndex(criterion => criterion.id === norm.criteria_id) : -1;
+          return index !== -1 ? index : (parseInt(norm.criteria_code.replace(/\D/g, ''), 10) || 0) - 1;
+        };
         const employeeNormalizedData = (normalizedData || [])
           .filter(norm => norm.employee_id === result.employee_id)
-          .sort((a, b) => a.criteria_code.localeCompare(b.criteria_code));
+          .sort((a, b) => columnIndex(a) - columnIndex(b));
 
         return {
           employee,
@@ -255,19 +224,41 @@ export const SAWCalculator = ({ employees, onCalculate, criteriaUpdateTrigger }:
           convertedScore: result.converted_score,
           rank: result.rank,
           recommendation: result.recommendation,
-          note: result.note || undefined
+          note: result.note || undefined,
+          ruleName: result.rule_name || undefined,
+          isTied: result.is_tied,
+          tieBreakReason: result.tie_break_reason || undefined
         };
       }).filter(Boolean) as SAWResult[];
 
+      // Load the run's timestamp and the normalization strategies recorded with it
+      const { data: calcData } = await supabase
+        .from('saw_calculations')
+        .select('calculation_date, normalization_config, missing_score_policy, snapshot')
+        .eq('id', calculationId)
+        .limit(1);
+      setRunNormalization(calcData && calcData.length > 0
+        ? calcData[0].normalization_config as unknown as NormalizationConfigEntry[] | null
+        : null);
+      setRunMissingReport(calcData && calcData.length > 0
+        ? calcData[0].missing_score_policy as unknown as MissingScoreReport | null
+        : null);
+
       console.log('Loaded saved results:', convertedResults.length);
       
       setFinalScores(convertedResults);
       setIsCalculated(true);
-      onCalculate(convertedResults);
+      setOpenedCalculationId(calculationId);
+      setSnapshotCheck(null);
+      setServerCheck(null);
+      onCalculate(convertedResults, calcData && calcData.length > 0 ? parseCalculationSnapshot(calcData[0].snapshot) : null);
 
+      const calculationDate = calcData && calcData.length > 0 ? calcData[0].calculation_date : null;
       toast({
         title: "Berhasil",
-        description: `Berhasil memuat ${convertedResults.length} hasil perhitungan tersimpan`,
+        description: calculationDate
+          ? `Berhasil memuat ${convertedResults.length} hasil perhitungan tersimpan dari ${new Date(calculationDate).toLocaleString('id-ID')}`
+          : `Berhasil memuat ${convertedResults.length} hasil perhitungan tersimpan`,
       });
     } catch (error) {
       console.error('Error loading saved results:', error);
@@ -281,29 +272,40 @@ export const SAWCalculator = ({ employees, onCalculate, criteriaUpdateTrigger }:
     }
   };
 
-  // Save SAW results to database
-  const saveResultsToDatabase = async (results: SAWResult[], normalizedMatrix: number[][]) => {
+  // Save SAW results to database; returns the new calculation id, or null when nothing was saved
+  const saveResultsToDatabase = async (
+    results: SAWResult[],
+    normalizedMatrix: number[][],
+    calculationMethod: CalculationMethod,
+    normalizationConfig: NormalizationConfigEntry[] | null,
+    appliedTieBreakers: TieBreaker[],
+    missingScoreReport: MissingScoreReport | null,
+    decisionRows: { [employeeId: string]: number[] },
+    snapshot: CalculationSnapshot
+  ): Promise<string | null> => {
     try {
       console.log('Saving SAW results to database...');
       
       const calculationDate = new Date().toISOString();
       const activeCriteria = criteriaData.filter(criterion => criteriaWeights[createFieldName(criterion.name)] !== undefined);
 
-      // 1. Save calculation session
-      const { error: calcSessionError } = await supabase
-        .from('saw_calculations')
-        .insert({
-          total_employees: results.length,
-          total_criteria: activeCriteria.length,
-          calculation_date: calculationDate
-        });
-
-      if (calcSessionError) {
-        console.error('Error saving calculation session:', calcSessionError);
-        throw calcSessionError;
-      }
+      // 1. Calculation session
+      const calculationToSave = {
+        period_id: activePeriod.id,
+        total_employees: results.length,
+        total_criteria: activeCriteria.length,
+        calculation_date: calculationDate,
+        method: calculationMethod,
+        normalization_config: normalizationConfig as unknown as Json,
+        tie_breakers: appliedTieBreakers as unknown as Json,
+        missing_score_policy: missingScoreReport as unknown as Json,
+        weighting_name: activeWeightingName,
+        run_by: user?.email || null,
+        snapshot: snapshot as unknown as Json,
+        app_version: snapshot.appVersion
+      };
 
-      // 2. Save SAW results
+      // 2. SAW results
       const resultsToInsert = results.map(result => ({
         employee_id: result.employee.id,
         final_score: result.finalScore,
@@ -311,86 +313,89 @@ export const SAWCalculator = ({ employees, onCalculate, criteriaUpdateTrigger }:
         rank: result.rank,
         recommendation: result.recommendation,
         note: result.note || null,
-        calculation_date: calculationDate
+        rule_name: result.ruleName || null,
+        is_tied: result.isTied || false,
+        tie_break_reason: result.tieBreakReason || null
       }));
 
-      const { error: resultsError } = await supabase
-        .from('saw_results')
-        .insert(resultsToInsert);
-
-      if (resultsError) {
-        console.error('Error saving SAW results:', resultsError);
-        throw resultsError;
-      }
-
-      // 3. Save normalized matrix data
+      // 3. Normalized matrix data
       const matrixDataToInsert: any[] = [];
       
       results.forEach((result, empIndex) => {
         result.normalizedScores.forEach((normalizedValue, criteriaIndex) => {
           const criterion = activeCriteria[criteriaIndex];
-          const criteriaCode = `C${criteriaIndex + 1}`;
-          const employeeFieldName = createEmployeeFieldMapping(criterion.name);
-          const rawValue = (result.employee as any)[employeeFieldName] || 0;
+          const criteriaCode = getCriterionCode(criterion, criteriaIndex);
+          // Nilai dari decision matrix yang dihitung, termasuk nilai pengganti untuk nilai kosong
+          const rawValue = decisionRows[result.employee.id]?.[criteriaIndex] ?? getCriterionValue(result.employee, criterion);
           
           matrixDataToInsert.push({
             employee_id: result.employee.id,
             criteria_code: criteriaCode,
+            criteria_id: criterion.id,
+            criteria_name: criterion.name,
+            category: criterion.category,
             raw_value: rawValue,
             normalized_value: normalizedValue,
-            weight: criteriaWeights[createFieldName(criterion.name)],
-            calculation_date: calculationDate
+            weight: criteriaWeights[createFieldName(criterion.name)]
           });
         });
       });
 
-      const { error: matrixError } = await supabase
-        .from('saw_normalized_matrix')
-        .insert(matrixDataToInsert);
+      // Session, results and matrix are stored in one transaction; a failure leaves nothing half-saved
+      const { data: calculationId, error: saveError } = await supabase.rpc('save_saw_calculation', {
+        p_calculation: calculationToSave as unknown as Json,
+        p_results: resultsToInsert as unknown as Json,
+        p_matrix: matrixDataToInsert as unknown as Json
+      });
 
-      if (matrixError) {
-        console.error('Error saving normalized matrix:', matrixError);
-        throw matrixError;
+      if (saveError) {
+        console.error('Error saving calculation run:', saveError);
+        throw saveError;
       }
 
-      console.log('Successfully saved SAW results to database');
+      console.log('Successfully saved SAW results to database:', calculationId);
       setHasSavedResults(true);
+      setOpenedCalculationId(calculationId);
+      setSavedCalculationId(calculationId);
       setLastCalculationDate(new Date(calculationDate).toLocaleString('id-ID'));
-
-      toast({
-        title: "Berhasil",
-        description: "Hasil perhitungan SAW berhasil disimpan ke database",
-      });
+      setLastCalculationMethod(calculationMethod);
+      return calculationId;
     } catch (error) {
       console.error('Error saving to database:', error);
-      toast({
-        title: "Error",
-        description: "Gagal menyimpan hasil ke database",
-        variant: "destructive",
-      });
+      return null;
     }
   };
 
   // Clear saved results from database
   const clearSavedResults = async () => {
+    if (!confirm(`Hapus semua hasil perhitungan tersimpan ${activePeriod.name}, termasuk hasil resmi? Gunakan Riwayat Perhitungan untuk menghapus satu perhitungan saja.`)) return;
+
     setLoading(true);
     try {
       console.log('Clearing saved SAW results...');
 
-      // Delete in order: normalized matrix, results, calculations
-      await supabase.from('saw_normalized_matrix').delete().not('id', 'is', null);
-      await supabase.from('saw_results').delete().not('id', 'is', null);
-      await supabase.from('saw_calculations').delete().not('id', 'is', null);
+      // Results and normalized matrix rows cascade from their calculation (active period only)
+      const { error } = await supabase.from('saw_calculations').delete().eq('period_id', activePeriod.id);
+      if (error) throw error;
 
       setHasSavedResults(false);
       setLastCalculationDate('');
+      setLastCalculationMethod('');
       setFinalScores([]);
+      setTopsisDetails(null);
+      setWpDetails(null);
+      setMethodComparison(null);
+      setRunNormalization(null);
+      setSnapshotCheck(null);
+      setServerCheck(null);
+      setOpenedCalculationId('');
+      setSavedCalculationId('');
       setIsCalculated(false);
       onCalculate([]);
 
       toast({
         title: "Berhasil",
-        description: "Semua hasil perhitungan tersimpan telah dihapus",
+        description: `Semua hasil perhitungan tersimpan ${activePeriod.name} telah dihapus`,
       });
     } catch (error) {
       console.error('Error clearing saved results:', error);
@@ -404,6 +409,132 @@ export const SAWCalculator = ({ employees, onCalculate, criteriaUpdateTrigger }:
     }
   };
 
+  // Hitung ulang perhitungan yang sedang dibuka (atau bawaan) hanya dari snapshot-nya, lalu cocokkan dengan hasil tersimpan
+  const rerunFromSnapshot = async () => {
+    setLoading(true);
+    try {
+      const targetId = openedCalculationId || (await fetchDefaultCalculation(activePeriod.id))?.id;
+      const { data: calcData, error: calcError } = await supabase
+        .from('saw_calculations')
+        .select('id, calculation_date, snapshot, app_version')
+        .eq('id', targetId || '')
+        .limit(1);
+
+      if (calcError) throw calcError;
+
+      const snapshot = calcData && calcData.length > 0 ? parseCalculationSnapshot(calcData[0].snapshot) : null;
+      if (!calcData || calcData.length === 0 || !snapshot) {
+        toast({
+          title: "Error",
+          description: "Perhitungan tersimpan ini tidak memiliki snapshot sehingga tidak dapat dihitung ulang",
+          variant: "destructive",
+        });
+        return;
+      }
+
+      const calculationDate = calcData[0].calculation_date;
+      const { data: savedResults, error: resultsError } = await supabase
+        .from('saw_results')
+        .select('employee_id, final_score, rank, recommendation')
+        .eq('calculation_id', calcData[0].id);
+
+      if (resultsError) throw resultsError;
+
+      const verification = verifySnapshot(snapshot, (savedResults || []).map(result => ({
+        employeeId: result.employee_id,
+        finalScore: result.final_score,
+        rank: result.rank,
+        recommendation: result.recommendation
+      })), recommendationRules);
+      console.log('Snapshot verification:', verification);
+
+      setSnapshotCheck({
+        ...verification,
+        appVersion: calcData[0].app_version || snapshot.appVersion,
+        calculationDate: new Date(calculationDate).toLocaleString('id-ID')
+      });
+
+      toast({
+        title: verification.matches ? "Berhasil" : "Hasil Berbeda",
+        description: verification.matches
+          ? `${verification.checked} hasil tersimpan identik dengan perhitungan ulang dari snapshot`
+          : `${verification.mismatches.length} perbedaan ditemukan antara hasil tersimpan dan perhitungan ulang`,
+        variant: verification.matches ? "default" : "destructive",
+      });
+    } catch (error) {
+      console.error('Error re-running calculation snapshot:', error);
+      toast({
+        title: "Error",
+        description: "Gagal menghitung ulang dari snapshot",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // Hitung ulang periode aktif dengan fungsi database calculate_saw (tanpa menyimpan) lalu bandingkan dengan hasil di layar
+  const crossCheckServer = async () => {
+    // Server hanya membaca aturan tersimpan, sedangkan browser memakai aturan bawaannya sendiri bila belum ada
+    if (usesDefaultRules || usesDefaultTieBreakers) {
+      setServerCheck(null);
+      toast({
+        title: "Info",
+        description: `Cek silang dilewati: ${usesDefaultRules ? 'belum ada aturan rekomendasi aktif' : 'rantai pemecah seri belum disimpan'}, ` +
+          'sehingga browser memakai aturan bawaan yang tidak dibaca oleh perhitungan server',
+      });
+      return;
+    }
+
+    setLoading(true);
+    try {
+      const { data, error } = await supabase.rpc('calculate_saw', {
+        p_period_id: activePeriod.id,
+        p_save: false,
+        // Nilai pengganti yang dipakai di layar, agar server menghitung matrix yang sama
+        p_missing_score_policy: runMissingReport as unknown as Json
+      });
+
+      // Pesan server menjelaskan konfigurasi yang kurang, mis. belum ada aturan rekomendasi aktif
+      if (error) throw new Error(`Perhitungan di server gagal: ${error.message}`);
+
+      const serverCalculation = parseServerCalculation(data);
+      if (!serverCalculation) {
+        throw new Error('Format hasil perhitungan server tidak dikenali');
+      }
+
+      const verification = crossCheckWithServer(
+        finalScores.map(result => ({
+          employeeId: result.employee.id,
+          finalScore: result.finalScore,
+          rank: result.rank,
+          recommendation: result.recommendation
+        })),
+        serverCalculation,
+        runMissingReport?.excludedEmployeeIds.length ?? 0
+      );
+      console.log('Server cross-check:', verification);
+      setServerCheck(verification);
+
+      toast({
+        title: verification.matches ? "Berhasil" : "Hasil Berbeda",
+        description: verification.matches
+          ? `${verification.checked} hasil identik dengan perhitungan di server`
+          : `${verification.mismatches.length} perbedaan ditemukan antara hasil di layar dan perhitungan di server`,
+        variant: verification.matches ? "default" : "destructive",
+      });
+    } catch (error) {
+      console.error('Error cross-checking with server calculation:', error);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Gagal menjalankan perhitungan di server",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
   const fetchCriteriaWeights = async () => {
     setLoading(true);
     try {
@@ -412,6 +543,7 @@ export const SAWCalculator = ({ employees, onCalculate, criteriaUpdateTrigger }:
       const { data, error } = await supabase
         .from('criteria')
         .select('*')
+        .eq('period_id', activePeriod.id)
         .order('name');
 
       if (error) {
@@ -431,18 +563,23 @@ export const SAWCalculator = ({ employees, onCalculate, criteriaUpdateTrigger }:
 
       console.log('Raw criteria data from Supabase:', data);
 
-      // Convert to Criteria format and sort
-      const rawCriteria: Criteria[] = data.map(item => ({
-        id: item.id,
-        name: item.name,
-        type: item.type as 'Benefit' | 'Cost',
-        weight: item.weight,
-        category: item.category,
-        scale: item.scale
-      }));
+      // Convert to engine criteria (including normalization strategy) and sort
+      const rawCriteria = data.map(toSAWCriterion);
+
+      // Urutan kategori dari tabel categories menentukan urutan kolom decision matrix
+      const { data: categoryData, error: categoryError } = await supabase
+        .from('categories')
+        .select('*')
+        .order('position', { ascending: true });
+
+      if (categoryError) {
+        console.error('Error fetching categories:', categoryError);
+      }
 
-      // Sort criteria using the new sorting function
-      const sortedCriteria = sortCriteria(rawCriteria);
+      const order = resolveCategoryOrder(categoryData);
+      setCategoryOrder(order);
+
+      const sortedCriteria = sortCriteria(rawCriteria, order);
 
       const weights: { [key: string]: number } = {};
       const types: { [key: string]: string } = {};
@@ -453,7 +590,7 @@ export const SAWCalculator = ({ employees, onCalculate, criteriaUpdateTrigger }:
         types[fieldName] = criteria.type;
         
         // Generate criteria code mapping berdasarkan urutan yang sudah disortir
-        criteriaCodeMapping[fieldName] = `C${index + 1}`;
+        criteriaCodeMapping[fieldName] = getCriterionCode(criteria, index);
         
         console.log(`Mapped ${criteria.name} -> ${fieldName} (${criteriaCodeMapping[fieldName]}) - Category: ${criteria.category}`);
       });
@@ -461,6 +598,7 @@ export const SAWCalculator = ({ employees, onCalculate, criteriaUpdateTrigger }:
       setCriteriaWeights(weights);
       setCriteriaTypes(types);
       setCriteriaData(sortedCriteria); // Simpan data yang sudah diurutkan
+      await fetchActiveWeighting(sortedCriteria);
 
       console.log('Processed criteria weights:', weights);
       console.log('Processed criteria types:', types);
@@ -483,8 +621,111 @@ export const SAWCalculator = ({ employees, onCalculate, criteriaUpdateTrigger }:
     }
   };
 
+  // Name of the latest saved weighting, only while the current criteria weights still match it
+  const fetchActiveWeighting = async (criteria: SAWCriterion[]) => {
+    try {
+      const { data, error } = await supabase
+        .from('criteria_weightings')
+        .select('name, weights')
+        .order('created_at', { ascending: false })
+        .limit(1);
+
+      if (error || !data || data.length === 0) {
+        setActiveWeightingName(null);
+        return;
+      }
+
+      const savedWeights = data[0].weights as { [criterionId: string]: number };
+      const matches = criteria.every(criterion => savedWeights[criterion.id] === criterion.weight);
+      setActiveWeightingName(matches ? data[0].name : null);
+    } catch (error) {
+      console.error('Error fetching active weighting:', error);
+      setActiveWeightingName(null);
+    }
+  };
+
+  // Load active recommendation rules in evaluation order; fall back to the built-in policy
+  const fetchRecommendationRules = async (): Promise<RecommendationRule[]> => {
+    try {
+      const { data, error } = await supabase
+        .from('recommendation_rules')
+        .select('*')
+        .eq('is_active', true)
+        .order('position', { ascending: true });
+
+      if (error) {
+        console.error('Error fetching recommendation rules:', error);
+        setUsesDefaultRules(true);
+        return DEFAULT_RECOMMENDATION_RULES;
+      }
+
+      const rules = data && data.length > 0 ? data.map(toRecommendationRule) : DEFAULT_RECOMMENDATION_RULES;
+      setRecommendationRules(rules);
+      setUsesDefaultRules(!(data && data.length > 0));
+      console.log('Recommendation rules loaded:', rules.map(rule => rule.name));
+      return rules;
+    } catch (error) {
+      console.error('Error fetching recommendation rules:', error);
+      setUsesDefaultRules(true);
+      return DEFAULT_RECOMMENDATION_RULES;
+    }
+  };
+
+  // Load the most recently saved tie-break chain; fall back to the built-in order
+  const fetchTieBreakers = async (): Promise<TieBreaker[]> => {
+    try {
+      const { data, error } = await supabase
+        .from('ranking_settings')
+        .select('tie_breakers')
+        .order('updated_at', { ascending: false })
+        .limit(1);
+
+      if (error) {
+        console.error('Error fetching tie-break settings:', error);
+        setUsesDefaultTieBreakers(true);
+        return DEFAULT_TIE_BREAKERS;
+      }
+
+      const chain = data && data.length > 0 ? parseTieBreakers(data[0].tie_breakers) : null;
+      const loaded = chain || DEFAULT_TIE_BREAKERS;
+      setTieBreakers(loaded);
+      setUsesDefaultTieBreakers(!chain);
+      console.log('Tie-break chain loaded:', loaded.map(describeTieBreaker));
+      return loaded;
+    } catch (error) {
+      console.error('Error fetching tie-break settings:', error);
+      setUsesDefaultTieBreakers(true);
+      return DEFAULT_TIE_BREAKERS;
+    }
+  };
+
+  // Load which employee × criterion pairs already have a stored evaluation score
+  const fetchScoredKeys = async (): Promise<Set<string> | null> => {
+    try {
+      const { data, error } = await supabase
+        .from('evaluation_scores')
+        .select('employee_id, criteria_id')
+        .eq('period_id', activePeriod.id);
+
+      if (error) {
+        console.error('Error checking evaluation completeness:', error);
+        return null;
+      }
+
+      const keys = new Set((data || []).map(score => scoreKey(score.employee_id, score.criteria_id)));
+      setScoredKeys(keys);
+      return keys;
+    } catch (error) {
+      console.error('Error checking evaluation completeness:', error);
+      return null;
+    }
+  };
+
   useEffect(() => {
     fetchCriteriaWeights();
+    fetchRecommendationRules();
+    fetchTieBreakers();
+    fetchScoredKeys();
     checkSavedResults();
   }, []);
 
@@ -493,10 +734,20 @@ export const SAWCalculator = ({ employees, onCalculate, criteriaUpdateTrigger }:
     if (criteriaUpdateTrigger !== undefined && criteriaUpdateTrigger > 0) {
       console.log('Criteria update trigger detected, refreshing...');
       fetchCriteriaWeights();
+      fetchScoredKeys();
     }
   }, [criteriaUpdateTrigger]);
 
   const calculateSAW = async () => {
+    if (isClosed) {
+      toast({
+        title: "Error",
+        description: `Periode ${activePeriod.name} sudah ditutup; hasil perhitungannya tidak dapat diganti`,
+        variant: "destructive",
+      });
+      return;
+    }
+
     if (employees.length === 0) {
       toast({
         title: "Error",
@@ -516,7 +767,7 @@ export const SAWCalculator = ({ employees, onCalculate, criteriaUpdateTrigger }:
     }
 
     setLoading(true);
-    console.log("Starting SAW calculation for employees:", employees.length);
+    console.log(`Starting ${method} calculation for employees:`, employees.length);
     console.log("Using criteria weights (decimals):", criteriaWeights);
 
     try {
@@ -536,144 +787,122 @@ export const SAWCalculator = ({ employees, onCalculate, criteriaUpdateTrigger }:
       }
 
       // Step 1: Create decision matrix - use RAW DATA from evaluation_scores
-      const matrix = employees.map(emp => 
-        activeCriteria.map(criterion => {
-          const employeeFieldName = createEmployeeFieldMapping(criterion.name);
-          let rawValue = 0;
-          
-          // Try to get value from employee object (for backward compatibility)
-          if (typeof (emp as any)[employeeFieldName] !== 'undefined') {
-            rawValue = (emp as any)[employeeFieldName] || 0;
-          } else {
-            // For new dynamic criteria, use the criterion name directly
-            rawValue = (emp as any)[criterion.name] || 0;
-          }
-          
-          console.log(`Employee ${emp.name}, criterion ${criterion.name}: field=${employeeFieldName}, value=${rawValue}`);
-          return rawValue;
-        })
-      );
-
-      console.log("Decision Matrix (Raw Data):", matrix);
-      setDecisionMatrix(matrix);
+      const rawMatrix = buildDecisionMatrix(employees, activeCriteria);
 
-      // Step 2: Apply SAW normalization
-      const normalized = matrix.map(() => new Array(activeCriteria.length).fill(0));
+      // Nilai yang belum pernah diisi tidak boleh diam-diam dihitung sebagai 0
+      const keys = await fetchScoredKeys();
+      const employeeIds = employees.map(employee => employee.id);
+      const missing = keys ? findMissingScores(employeeIds, activeCriteria, keys) : [];
 
-      for (let j = 0; j < activeCriteria.length; j++) {
-        const criterion = activeCriteria[j];
-        const columnValues = matrix.map(row => row[j]);
-        const criterionType = criterion.type;
-        
-        console.log(`Normalizing criterion ${criterion.name} (${criterionType}):`, columnValues);
-        
-        if (criterionType === 'Benefit') {
-          if (criterion.scale.includes('1-5')) {
-            // Untuk skala 1-5, normalisasi dengan membagi dengan 5
-            for (let i = 0; i < matrix.length; i++) {
-              const rawValue = matrix[i][j];
-              normalized[i][j] = rawValue / 5;
-            }
-            console.log(`${criterion.name} normalization (1-5 scale): [${normalized.map(row => row[j].toFixed(3)).join(', ')}]`);
-          } else if (criterion.scale.includes('0-1') || criterion.scale.includes('0/1')) {
-            // Untuk skala binary 0/1
-            for (let i = 0; i < matrix.length; i++) {
-              normalized[i][j] = matrix[i][j] === 1 ? 1.000 : 0.000;
-            }
-            console.log(`${criterion.name} normalization (binary): [${normalized.map(row => row[j]).join(', ')}]`);
-          } else {
-            // Fallback untuk benefit criteria lainnya
-            const maxValue = Math.max(...columnValues);
-            for (let i = 0; i < matrix.length; i++) {
-              normalized[i][j] = maxValue > 0 ? matrix[i][j] / maxValue : 0;
-            }
-            console.log(`${criterion.name} normalization (max): [${normalized.map(row => row[j].toFixed(3)).join(', ')}]`);
-          }
-        } else { // Cost criteria
-          if (criterion.scale.includes('0-1') || criterion.scale.includes('0/1')) {
-            // Untuk binary cost criteria (seperti surat peringatan)
-            for (let i = 0; i < matrix.length; i++) {
-              normalized[i][j] = matrix[i][j] === 0 ? 1.000 : 0.000;
-            }
-            console.log(`${criterion.name} normalization (binary cost): [${normalized.map(row => row[j]).join(', ')}]`);
-          } else {
-            // Untuk cost criteria lainnya (seperti hari alpa, keterlambatan, dll)
-            for (let i = 0; i < matrix.length; i++) {
-              normalized[i][j] = matrix[i][j] > 0 ? 0.000 : 1.000;
-            }
-            console.log(`${criterion.name} normalization (cost): [${normalized.map(row => row[j]).join(', ')}]`);
-          }
-        }
+      if (missing.length > 0 && !missingPolicy) {
+        toast({
+          title: "Data Belum Lengkap",
+          description: `Terdapat ${missing.length} nilai evaluasi kosong. Pilih kebijakan nilai kosong terlebih dahulu.`,
+          variant: "destructive",
+        });
+        return;
       }
 
-      console.log("Normalized Matrix:", normalized);
-      setNormalizedMatrix(normalized);
+      const resolution = missing.length > 0 && missingPolicy
+        ? resolveMissingScores(rawMatrix, activeCriteria, missing, missingPolicy, missingDefaults)
+        : { matrix: rawMatrix, includedIndices: employees.map((_, i) => i), imputedValues: [] };
+      const missingScoreReport = missing.length > 0 && missingPolicy
+        ? buildMissingScoreReport(employeeIds, activeCriteria, missing, missingPolicy, resolution)
+        : null;
+      const calcEmployees = resolution.includedIndices.map(i => employees[i]);
+      const matrix = resolution.matrix;
 
-      // Step 3: Calculate weighted scores (SAW method)
-      const results: SAWResult[] = employees.map((employee, index) => {
-        const normalizedScores = normalized[index];
-        
-        const finalScore = normalizedScores.reduce((sum, normalizedScore, j) => {
-          const criterion = activeCriteria[j];
-          const criterionFieldName = createFieldName(criterion.name);
-          const weight = criteriaWeights[criterionFieldName];
-          const weightedScore = normalizedScore * weight;
-          
-          console.log(`Employee ${employee.name}, criterion ${criterion.name}: normalized=${normalizedScore.toFixed(3)}, weight=${weight}, weighted=${weightedScore.toFixed(3)}`);
-          
-          return sum + weightedScore;
-        }, 0);
-
-        console.log(`Final SAW score for ${employee.name}:`, finalScore.toFixed(4));
-
-        // PERBAIKAN: Konversi skor yang lebih akurat
-        const convertedScore = parseFloat((finalScore * 5).toFixed(2));
-        console.log(`Converted score for ${employee.name}: ${finalScore.toFixed(4)} -> ${convertedScore}`);
-        
-        const isAutoTerminated = employee.hariAlpa > 10;
-        
-        const { recommendation, note } = getRecommendation(convertedScore, isAutoTerminated, employee.hariAlpa);
-
-        return {
-          employee,
-          normalizedScores,
-          finalScore,
-          convertedScore,
-          rank: 0,
-          recommendation,
-          note
-        };
-      });
+      if (calcEmployees.length === 0) {
+        toast({
+          title: "Error",
+          description: "Semua karyawan memiliki nilai kosong sehingga tidak ada yang dapat dihitung",
+          variant: "destructive",
+        });
+        return;
+      }
+      if (missingScoreReport) {
+        console.log("Missing score policy applied:", missingScoreReport);
+      }
+      setRunMissingReport(missingScoreReport);
 
-      // Step 4: Rank employees
-      const nonTerminatedResults = results.filter(r => r.employee.hariAlpa <= 10);
-      const terminatedResults = results.filter(r => r.employee.hariAlpa > 10);
-      
-      nonTerminatedResults.sort((a, b) => b.finalScore - a.finalScore);
-      nonTerminatedResults.forEach((result, index) => {
-        result.rank = index + 1;
-      });
-      
-      terminatedResults.forEach(result => {
-        result.rank = 999;
-      });
+      console.log("Decision Matrix (Raw Data):", matrix);
+      setDecisionMatrix(matrix);
+      setCalculatedEmployees(calcEmployees);
+
+      // Step 2-4: Normalisasi, pembobotan, dan perangkingan sesuai metode yang dipilih
+      // SAW dan WP selalu dihitung agar sensitivitas peringkat terhadap metode dapat dibandingkan
+      const rules = await fetchRecommendationRules();
+      // Rantai pemecah seri yang sedang diatur di layar (belum tentu sudah disimpan)
+      const options: SAWOptions = {
+        rules,
+        staffLabels: calcEmployees.map(employee => `${employee.position || ''} ${employee.department || ''}`),
+        tieBreakers,
+        hireDates: calcEmployees.map(employee => employee.hireDate)
+      };
+      const sawOutput = runSAW(activeCriteria, matrix, options);
+      const wpOutput = calculateWP(activeCriteria, matrix, options);
+      const topsisOutput = method === 'TOPSIS' ? calculateTOPSIS(activeCriteria, matrix, options) : null;
+      const { normalizedMatrix: normalized, scores } = topsisOutput || (method === 'WP' ? wpOutput : sawOutput);
 
-      const finalResults = [...nonTerminatedResults, ...terminatedResults];
+      console.log("Normalized Matrix:", normalized);
+      setNormalizedMatrix(normalized);
+      setCalculatedMethod(method);
+      setServerCheck(null);
+      setTopsisDetails(topsisOutput);
+      setWpDetails(method === 'WP' ? wpOutput : null);
+      setMethodComparison({ saw: sawOutput.scores, wp: wpOutput.scores });
+
+      // Strategi normalisasi per kriteria hanya berlaku untuk SAW
+      const normalizationConfig = method === 'SAW' ? buildNormalizationConfig(activeCriteria) : null;
+      setRunNormalization(normalizationConfig);
+
+      const finalResults: SAWResult[] = scores.map(score => ({
+        employee: calcEmployees[score.index],
+        normalizedScores: score.normalizedScores,
+        finalScore: score.finalScore,
+        convertedScore: score.convertedScore,
+        rank: score.rank,
+        recommendation: score.recommendation,
+        note: score.note,
+        ruleName: score.ruleName || undefined,
+        isTied: score.isTied,
+        tieBreakReason: score.tieBreakReason || undefined
+      }));
 
       console.log("Final Results:", finalResults);
       setFinalScores(finalResults);
       setIsCalculated(true);
-      onCalculate(finalResults);
+      const snapshot = buildCalculationSnapshot(method, activeCriteria, calcEmployees.map(employee => employee.id), matrix, options, __APP_VERSION__);
+      onCalculate(finalResults, snapshot);
 
       // Save results to database
-      await saveResultsToDatabase(finalResults, normalized);
+      const savedCalculationId = await saveResultsToDatabase(
+        finalResults,
+        normalized,
+        method,
+        normalizationConfig,
+        tieBreakers,
+        missingScoreReport,
+        Object.fromEntries(calcEmployees.map((employee, i) => [employee.id, matrix[i]])),
+        snapshot
+      );
+
+      if (!savedCalculationId) {
+        toast({
+          title: "Error",
+          description: `Perhitungan ${method} selesai tetapi gagal disimpan ke database; tidak ada bagian perhitungan yang tersimpan`,
+          variant: "destructive",
+        });
+        return;
+      }
 
       toast({
         title: "Berhasil",
-        description: `Perhitungan SAW selesai menggunakan ${activeCriteria.length} kriteria yang diurutkan berdasarkan kategori dan disimpan ke database`,
+        description: `Perhitungan ${method} selesai menggunakan ${activeCriteria.length} kriteria yang diurutkan berdasarkan kategori dan disimpan ke database` +
+          (calcEmployees.length < employees.length ? ` (${employees.length - calcEmployees.length} karyawan dikeluarkan karena nilai kosong)` : ''),
       });
     } catch (error) {
-      console.error('Error in SAW calculation:', error);
+      console.error(`Error in ${method} calculation:`, error);
       toast({
         title: "Error",
         description: "Terjadi kesalahan dalam perhitungan",
@@ -684,37 +913,31 @@ export const SAWCalculator = ({ employees, onCalculate, criteriaUpdateTrigger }:
     }
   };
 
-  const getRecommendation = (convertedScore: number, isAutoTerminated: boolean, alpaDays: number): { recommendation: string, note?: string } => {
-    if (isAutoTerminated) {
-      return {
-        recommendation: "Diberhentikan",
-        note: `Karyawan diberhentikan otomatis karena alpa lebih dari ${alpaDays} hari.`
-      };
-    }
+  const activeCriteria = criteriaData.filter(criterion => criteriaWeights[createFieldName(criterion.name)] !== undefined);
+  const missing = scoredKeys ? findMissingScores(employees.map(employee => employee.id), activeCriteria, scoredKeys) : [];
 
-    if (convertedScore >= 4) {
-      return { 
-        recommendation: "Dapat diperpanjang",
-        note: "Kandidat promosi"
-      };
-    } else if (convertedScore >= 3) {
-      return { recommendation: "Dapat diperpanjang" };
-    } else {
-      return { recommendation: "Diberhentikan" };
+  const handleMissingPolicyChange = (policy: MissingScorePolicy) => {
+    setMissingPolicy(policy);
+    if (policy === 'default') {
+      // Nilai bawaan mengikuti nilai awal form evaluasi; yang sudah diubah admin dipertahankan
+      setMissingDefaults({ ...getDefaultMissingValues(activeCriteria), ...missingDefaults });
     }
   };
 
-  const getScoreLabel = (score: number): string => {
-    if (score >= 4) {
-      return "Sangat Baik";
-    } else if (score >= 3) {
-      return "Baik";
-    } else if (score >= 2) {
-      return "Cukup";
-    } else {
-      return "Kurang";
-    }
-  };
+  // Ringkasan kode kriteria per kategori, mis. "Kinerja Inti (Benefit): C1, C2, C3"
+  const describeCriteriaStructure = () => categoryOrder
+    .map(category => {
+      const indices = criteriaData
+        .map((criterion, index) => criterion.category === category ? index : -1)
+        .filter(index => index !== -1);
+      if (indices.length === 0) return null;
+
+      const types = new Set(indices.map(index => criteriaData[index].type));
+      const codes = indices.map(index => getCriterionCode(criteriaData[index], index)).join(', ');
+      return `${category.replace(/^[A-Z]\.\s/, '')} (${types.size > 1 ? 'Mixed' : Array.from(types)[0]}): ${codes}`;
+    })
+    .filter(Boolean)
+    .join(' | ');
 
   return (
     <div className="space-y-6">
@@ -741,6 +964,9 @@ export const SAWCalculator = ({ employees, onCalculate, criteriaUpdateTrigger }:
                 <p className="text-sm text-gray-600">
                   Total kriteria di database: <span className="font-semibold">{criteriaData.length}</span>
                 </p>
+                <p className="text-sm text-gray-600">
+                  Pembobotan: <span className="font-semibold">{activeWeightingName || 'Manual'}</span>
+                </p>
                 <p className="text-sm text-gray-600">
                   Status: {isCalculated ? (
                     <Badge variant="default" className="ml-1">Sudah dihitung</Badge>
@@ -752,8 +978,24 @@ export const SAWCalculator = ({ employees, onCalculate, criteriaUpdateTrigger }:
                   <p className="text-sm text-gray-600">
                     <Database className="inline w-4 h-4 mr-1" />
                     Data tersimpan: <span className="font-semibold">{lastCalculationDate}</span>
+                    {lastCalculationMethod && (
+                      <Badge variant="outline" className="ml-2">{lastCalculationMethod}</Badge>
+                    )}
                   </p>
                 )}
+                <div className="mt-2 flex items-center gap-2">
+                  <Label htmlFor="calculation-method" className="text-sm text-gray-600">Metode:</Label>
+                  <Select value={method} onValueChange={(value: CalculationMethod) => setMethod(value)} disabled={loading}>
+                    <SelectTrigger id="calculation-method" className="w-[260px] h-8">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {CALCULATION_METHODS.map(item => (
+                        <SelectItem key={item.value} value={item.value}>{item.label}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
               </div>
               <div className="flex gap-2 flex-wrap">
                 <Button 
@@ -768,7 +1010,7 @@ export const SAWCalculator = ({ employees, onCalculate, criteriaUpdateTrigger }:
                 
                 {hasSavedResults && (
                   <Button 
-                    onClick={loadSavedResults}
+                    onClick={() => loadSavedResults()}
                     variant="outline"
                     disabled={loading || employees.length === 0}
                     size="sm"
@@ -778,22 +1020,46 @@ export const SAWCalculator = ({ employees, onCalculate, criteriaUpdateTrigger }:
                     Muat Hasil Tersimpan
                   </Button>
                 )}
+
+                {hasSavedResults && (
+                  <Button
+                    onClick={rerunFromSnapshot}
+                    variant="outline"
+                    disabled={loading}
+                    size="sm"
+                  >
+                    <ShieldCheck className="w-4 h-4 mr-2" />
+                    Jalankan Ulang dari Snapshot
+                  </Button>
+                )}
+
+                {isCalculated && calculatedMethod === 'SAW' && (
+                  <Button
+                    onClick={crossCheckServer}
+                    variant="outline"
+                    disabled={loading}
+                    size="sm"
+                  >
+                    <Server className="w-4 h-4 mr-2" />
+                    Cek Silang dengan Server
+                  </Button>
+                )}
                 
                 <Button 
                   onClick={calculateSAW}
-                  disabled={employees.length === 0 || loading || Object.keys(criteriaWeights).length === 0}
+                  disabled={employees.length === 0 || loading || isClosed || Object.keys(criteriaWeights).length === 0}
                   className="bg-green-600 hover:bg-green-700"
                   size="sm"
                 >
                   <Play className="w-4 h-4 mr-2" />
-                  {loading ? "Menghitung..." : "Hitung SAW"}
+                  {loading ? "Menghitung..." : `Hitung ${method}`}
                 </Button>
 
                 {hasSavedResults && (
                   <Button 
                     onClick={clearSavedResults}
                     variant="destructive"
-                    disabled={loading}
+                    disabled={loading || isClosed}
                     size="sm"
                   >
                     <Trash2 className="w-4 h-4 mr-2" />
@@ -803,6 +1069,72 @@ export const SAWCalculator = ({ employees, onCalculate, criteriaUpdateTrigger }:
               </div>
             </div>
 
+            {snapshotCheck && (
+              <div className={`p-3 rounded-lg text-sm ${snapshotCheck.matches ? 'bg-green-50 text-green-700' : 'bg-red-50 text-red-700'}`}>
+                <p className="font-medium">
+                  <ShieldCheck className="inline w-4 h-4 mr-1" />
+                  Verifikasi snapshot {snapshotCheck.calculationDate} (versi aplikasi {snapshotCheck.appVersion}):{' '}
+                  {snapshotCheck.matches
+                    ? `${snapshotCheck.checked} hasil cocok dengan perhitungan ulang`
+                    : `${snapshotCheck.mismatches.length} perbedaan dari ${snapshotCheck.checked} hasil`}
+                </p>
+                {snapshotCheck.mismatches.length > 0 && (
+                  <ul className="mt-2 list-disc list-inside space-y-1">
+                    {snapshotCheck.mismatches.map((mismatch, index) => (
+                      <li key={`${mismatch.employeeId}-${mismatch.field}-${index}`}>
+                        {employees.find(employee => employee.id === mismatch.employeeId)?.name || mismatch.employeeId}:{' '}
+                        {mismatch.field === 'missing'
+                          ? (mismatch.stored === null ? 'tidak ada di hasil tersimpan' : 'tidak ada di snapshot')
+                          : `${mismatch.field} tersimpan ${mismatch.stored}, hitung ulang ${mismatch.recomputed}`}
+                      </li>
+                    ))}
+                  </ul>
+                )}
+                {snapshotCheck.warnings.map(warning => (
+                  <p key={warning} className="mt-1 text-orange-700">{warning}</p>
+                ))}
+              </div>
+            )}
+
+            {serverCheck && (
+              <div className={`p-3 rounded-lg text-sm ${serverCheck.matches ? 'bg-green-50 text-green-700' : 'bg-red-50 text-red-700'}`}>
+                <p className="font-medium">
+                  <Server className="inline w-4 h-4 mr-1" />
+                  Cek silang dengan perhitungan server:{' '}
+                  {serverCheck.matches
+                    ? `${serverCheck.checked} hasil cocok`
+                    : `${serverCheck.mismatches.length} perbedaan dari ${serverCheck.checked} hasil`}
+                </p>
+                {serverCheck.mismatches.length > 0 && (
+                  <ul className="mt-2 list-disc list-inside space-y-1">
+                    {serverCheck.mismatches.map((mismatch, index) => (
+                      <li key={`${mismatch.employeeId}-${mismatch.field}-${index}`}>
+                        {employees.find(employee => employee.id === mismatch.employeeId)?.name || mismatch.employeeId}:{' '}
+                        {mismatch.field === 'missing'
+                          ? (mismatch.stored === null ? 'hanya dihitung di server' : 'tidak dihitung di server')
+                          : `${mismatch.field} browser ${mismatch.stored}, server ${mismatch.recomputed}`}
+                      </li>
+                    ))}
+                  </ul>
+                )}
+                {serverCheck.warnings.map(warning => (
+                  <p key={warning} className="mt-1 text-orange-700">{warning}</p>
+                ))}
+              </div>
+            )}
+
+            {employees.length > 0 && scoredKeys && (
+              <CompletenessCheck
+                employees={employees}
+                criteria={activeCriteria}
+                missing={missing}
+                policy={missingPolicy}
+                onPolicyChange={handleMissingPolicyChange}
+                defaults={missingDefaults}
+                onDefaultsChange={setMissingDefaults}
+              />
+            )}
+
             {employees.length === 0 && (
               <div className="text-center py-8 text-gray-500">
                 <Calculator className="w-12 h-12 mx-auto mb-2 opacity-50" />
@@ -833,7 +1165,7 @@ export const SAWCalculator = ({ employees, onCalculate, criteriaUpdateTrigger }:
               <div className="mt-4">
                 <h4 className="font-semibold mb-2">Kriteria yang Dimuat dari Database (Terstruktur berdasarkan Kategori):</h4>
                 <div className="space-y-4">
-                  {CATEGORY_ORDER.map(category => {
+                  {categoryOrder.map(category => {
                     const categoryCriteria = criteriaData.filter(c => c.category === category);
                     if (categoryCriteria.length === 0) return null;
                     
@@ -845,7 +1177,7 @@ export const SAWCalculator = ({ employees, onCalculate, criteriaUpdateTrigger }:
                             const fieldName = createFieldName(criteria.name);
                             const isMapped = criteriaWeights[fieldName] !== undefined;
                             const globalIndex = criteriaData.indexOf(criteria);
-                            const criteriaCode = `C${globalIndex + 1}`;
+                            const criteriaCode = getCriterionCode(criteria, globalIndex);
                             return (
                               <div key={criteria.id} className={`flex justify-between p-2 rounded ${isMapped ? 'bg-green-50 border border-green-200' : 'bg-red-50 border border-red-200'}`}>
                                 <span><strong>{criteriaCode}:</strong> {criteria.name}</span>
@@ -863,7 +1195,7 @@ export const SAWCalculator = ({ employees, onCalculate, criteriaUpdateTrigger }:
                   
                   {/* Tampilkan kriteria yang tidak ada dalam kategori standar */}
                   {(() => {
-                    const uncategorizedCriteria = criteriaData.filter(c => !CATEGORY_ORDER.includes(c.category));
+                    const uncategorizedCriteria = criteriaData.filter(c => !categoryOrder.includes(c.category));
                     if (uncategorizedCriteria.length === 0) return null;
                     
                     return (
@@ -874,7 +1206,7 @@ export const SAWCalculator = ({ employees, onCalculate, criteriaUpdateTrigger }:
                             const fieldName = createFieldName(criteria.name);
                             const isMapped = criteriaWeights[fieldName] !== undefined;
                             const globalIndex = criteriaData.indexOf(criteria);
-                            const criteriaCode = `C${globalIndex + 1}`;
+                            const criteriaCode = getCriterionCode(criteria, globalIndex);
                             return (
                               <div key={criteria.id} className={`flex justify-between p-2 rounded ${isMapped ? 'bg-green-50 border border-green-200' : 'bg-red-50 border border-red-200'}`}>
                                 <span><strong>{criteriaCode}:</strong> {criteria.name} ({criteria.category})</span>
@@ -909,10 +1241,29 @@ export const SAWCalculator = ({ employees, onCalculate, criteriaUpdateTrigger }:
                   <p>• Binary 0/1: Rij = 1.000 jika nilai = 0, Rij = 0.000 jika nilai = 1</p>
                   <p>• Lainnya: Rij = 0.000 jika nilai {'>'} 0, Rij = 1.000 jika nilai = 0</p>
                 </div>
+                <div className="mt-2">
+                  <strong>Strategi Normalisasi per Kriteria (diatur di Kelola Kriteria):</strong>
+                  {NORMALIZATION_STRATEGIES.map(strategy => (
+                    <p key={strategy.value}>• {strategy.label}: {strategy.description}</p>
+                  ))}
+                  <p className="text-blue-600">Aturan Benefit/Cost di atas adalah strategi Aturan Awal (0/1)</p>
+                </div>
+                <div className="mt-2">
+                  <strong>TOPSIS:</strong>
+                  <p>• Normalisasi vektor: Rij = nilai / √(Σ nilai²), lalu dikali bobot</p>
+                  <p>• Solusi ideal positif/negatif = nilai terbobot terbaik/terburuk tiap kriteria di antara karyawan</p>
+                  <p>• Skor akhir = koefisien kedekatan D- / (D+ + D-) terhadap solusi ideal positif/negatif</p>
+                </div>
+                <div className="mt-2">
+                  <strong>Weighted Product (WP):</strong>
+                  <p>• Si = Π nilai^wj dengan wj = Wj / ΣW, bernilai negatif untuk Cost; Vi = Si / ΣS</p>
+                  <p>• Kolom yang skalanya memuat 0 digeser +1; nilai preferensi = Vi</p>
+                  <p>• Skor absolut untuk rekomendasi = Si / S ideal (semua kriteria pada batas terbaik skala)</p>
+                </div>
                 <div className="mt-2 text-green-700">
                   <strong>Struktur Kriteria Otomatis:</strong>
-                  <p>• C1-C6: Kinerja Inti (Benefit) | C7-C11: Kedisiplinan (Cost) | C12-C13: Faktor Tambahan (Mixed)</p>
-                  <p>• Kriteria baru akan otomatis diurutkan berdasarkan kategori dan posisi kanonis</p>
+                  <p>• {describeCriteriaStructure() || 'Belum ada kriteria'}</p>
+                  <p>• Kriteria baru akan otomatis diurutkan berdasarkan urutan kategori dan posisi kanonis</p>
                 </div>
               </div>
             </div>
@@ -922,13 +1273,38 @@ export const SAWCalculator = ({ employees, onCalculate, criteriaUpdateTrigger }:
               <AlertTriangle className="w-4 h-4 text-red-600 mt-0.5 flex-shrink-0" />
               <div>
                 <p className="font-semibold text-red-800">Aturan Pemberhentian Otomatis:</p>
-                <p className="text-red-700">Karyawan dengan alpa lebih dari 10 hari akan otomatis diberhentikan</p>
+                {recommendationRules.filter(rule => rule.terminates).length === 0 ? (
+                  <p className="text-red-700">Tidak ada aturan pemberhentian otomatis yang aktif</p>
+                ) : (
+                  recommendationRules.filter(rule => rule.terminates).map(rule => (
+                    <p key={rule.id} className="text-red-700">
+                      {rule.name}: {rule.conditions.map(describeCondition).join(' dan ') || 'selalu'}
+                      {rule.appliesTo && ` (khusus ${rule.appliesTo})`}
+                    </p>
+                  ))
+                )}
+                <p className="text-red-600 text-xs mt-1">Aturan rekomendasi dapat diubah pada tab Aturan Rekomendasi</p>
               </div>
             </div>
           </div>
         </CardContent>
       </Card>
 
+      <CalculationHistory
+        refreshKey={savedCalculationId}
+        openedId={openedCalculationId}
+        onOpen={loadSavedResults}
+        onChanged={checkSavedResults}
+        onComparisonChange={onCompareRuns}
+      />
+
+      <TieBreakSettings
+        criteria={criteriaData}
+        categories={categoryOrder}
+        tieBreakers={tieBreakers}
+        onChange={setTieBreakers}
+      />
+
       {decisionMatrix.length > 0 && (
         <Card className="bg-white shadow-lg">
           <CardHeader>
@@ -944,14 +1320,14 @@ export const SAWCalculator = ({ employees, onCalculate, criteriaUpdateTrigger }:
                     <TableHead className="w-[100px]">Nama</TableHead>
                     {criteriaData.filter(criterion => criteriaWeights[createFieldName(criterion.name)] !== undefined).map((criterion, index) => (
                       <TableHead key={criterion.id} className="text-center">
-                        <div className="text-xs">C{index + 1}</div>
+                        <div className="text-xs">{getCriterionCode(criterion, index)}</div>
                         <div className="text-xs text-gray-500">{criterion.category.replace(/^[A-C]\.\s/, '')}</div>
                       </TableHead>
                     ))}
                   </TableRow>
                 </TableHeader>
                 <TableBody>
-                  {employees.map((employee, index) => (
+                  {calculatedEmployees.map((employee, index) => (
                     <TableRow key={employee.id}>
                       <TableCell className="font-medium">{employee.name}</TableCell>
                       {decisionMatrix[index].map((value, j) => (
@@ -966,12 +1342,38 @@ export const SAWCalculator = ({ employees, onCalculate, criteriaUpdateTrigger }:
         </Card>
       )}
 
+      {isCalculated && runNormalization && runNormalization.length > 0 && (
+        <Card className="bg-white shadow-lg">
+          <CardHeader>
+            <CardTitle>Strategi Normalisasi</CardTitle>
+            <p className="text-sm text-gray-600">Strategi normalisasi per kriteria yang tercatat pada perhitungan ini</p>
+          </CardHeader>
+          <CardContent>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-2 text-sm">
+              {runNormalization.map((entry, index) => (
+                <div key={entry.criterionId} className="flex justify-between p-2 rounded bg-gray-50 border">
+                  <span><strong>{entry.criterionCode || `C${index + 1}`}:</strong> {entry.criterionName} ({entry.type})</span>
+                  <span className="text-gray-600">
+                    {getNormalizationLabel(entry.strategy)}
+                    {entry.thresholdBands && ` [${entry.thresholdBands.map(band => `${band.upTo === null ? 'selebihnya' : `≤${band.upTo}`}: ${band.score}`).join(', ')}]`}
+                  </span>
+                </div>
+              ))}
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
       {normalizedMatrix.length > 0 && (
         <Card className="bg-white shadow-lg">
           <CardHeader>
             <CardTitle>Normalized Matrix</CardTitle>
             <p className="text-sm text-gray-600">
-              Matriks yang sudah dinormalisasi menggunakan metode SAW - Kriteria terstruktur berdasarkan kategori
+              {calculatedMethod === 'TOPSIS'
+                ? 'Matriks yang sudah dinormalisasi vektor untuk metode TOPSIS - Kriteria terstruktur berdasarkan kategori'
+                : calculatedMethod === 'WP'
+                  ? 'Nilai xij^wj (pangkat negatif untuk Cost) untuk metode WP - Kriteria terstruktur berdasarkan kategori'
+                  : 'Matriks yang sudah dinormalisasi menggunakan metode SAW - Kriteria terstruktur berdasarkan kategori'}
             </p>
           </CardHeader>
           <CardContent>
@@ -983,14 +1385,14 @@ export const SAWCalculator = ({ employees, onCalculate, criteriaUpdateTrigger }:
                     <TableHead className="w-[100px]">Nama</TableHead>
                     {criteriaData.filter(criterion => criteriaWeights[createFieldName(criterion.name)] !== undefined).map((criterion, index) => (
                       <TableHead key={criterion.id} className="text-center">
-                        <div className="text-xs">C{index + 1}</div>
+                        <div className="text-xs">{getCriterionCode(criterion, index)}</div>
                         <div className="text-xs text-gray-500">{criterion.category.replace(/^[A-C]\.\s/, '')}</div>
                       </TableHead>
                     ))}
                   </TableRow>
                 </TableHeader>
                 <TableBody>
-                  {employees.map((employee, index) => (
+                  {calculatedEmployees.map((employee, index) => (
                     <TableRow key={employee.id}>
                       <TableCell className="font-medium">{employee.name}</TableCell>
                       {normalizedMatrix[index].map((value, j) => (
@@ -1005,13 +1407,144 @@ export const SAWCalculator = ({ employees, onCalculate, criteriaUpdateTrigger }:
         </Card>
       )}
 
+      {topsisDetails && (
+        <Card className="bg-white shadow-lg">
+          <CardHeader>
+            <CardTitle>Weighted Normalized Matrix (TOPSIS)</CardTitle>
+            <p className="text-sm text-gray-600">
+              Matriks normalisasi terbobot beserta solusi ideal positif (A+) dan solusi ideal negatif (A-)
+            </p>
+          </CardHeader>
+          <CardContent>
+            <div className="overflow-x-auto">
+              <Table>
+                <TableCaption>Nilai terbobot Vij = Wj × Rij</TableCaption>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead className="w-[100px]">Nama</TableHead>
+                    {criteriaData.filter(criterion => criteriaWeights[createFieldName(criterion.name)] !== undefined).map((criterion, index) => (
+                      <TableHead key={criterion.id} className="text-center">
+                        <div className="text-xs">{getCriterionCode(criterion, index)}</div>
+                        <div className="text-xs text-gray-500">{criterion.type}</div>
+                      </TableHead>
+                    ))}
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {calculatedEmployees.map((employee, index) => (
+                    <TableRow key={employee.id}>
+                      <TableCell className="font-medium">{employee.name}</TableCell>
+                      {topsisDetails.weightedMatrix[index].map((value, j) => (
+                        <TableCell key={j} className="text-center">{value.toFixed(4)}</TableCell>
+                      ))}
+                    </TableRow>
+                  ))}
+                  <TableRow className="bg-green-50">
+                    <TableCell className="font-semibold">A+</TableCell>
+                    {topsisDetails.idealSolution.map((value, j) => (
+                      <TableCell key={j} className="text-center font-semibold">{value.toFixed(4)}</TableCell>
+                    ))}
+                  </TableRow>
+                  <TableRow className="bg-red-50">
+                    <TableCell className="font-semibold">A-</TableCell>
+                    {topsisDetails.antiIdealSolution.map((value, j) => (
+                      <TableCell key={j} className="text-center font-semibold">{value.toFixed(4)}</TableCell>
+                    ))}
+                  </TableRow>
+                </TableBody>
+              </Table>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
+      {topsisDetails && (
+        <Card className="bg-white shadow-lg">
+          <CardHeader>
+            <CardTitle>Jarak Solusi Ideal &amp; Koefisien Kedekatan</CardTitle>
+            <p className="text-sm text-gray-600">
+              D+ = jarak ke solusi ideal positif, D- = jarak ke solusi ideal negatif, Ci = D- / (D+ + D-)
+            </p>
+          </CardHeader>
+          <CardContent>
+            <div className="overflow-x-auto">
+              <Table>
+                <TableCaption>Koefisien kedekatan dipakai sebagai nilai akhir TOPSIS</TableCaption>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead className="w-[200px]">Nama</TableHead>
+                    <TableHead className="text-center">D+</TableHead>
+                    <TableHead className="text-center">D-</TableHead>
+                    <TableHead className="text-center">Ci</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {calculatedEmployees.map((employee, index) => (
+                    <TableRow key={employee.id}>
+                      <TableCell className="font-medium">{employee.name}</TableCell>
+                      <TableCell className="text-center">{topsisDetails.distances[index].positive.toFixed(4)}</TableCell>
+                      <TableCell className="text-center">{topsisDetails.distances[index].negative.toFixed(4)}</TableCell>
+                      <TableCell className="text-center font-semibold">{topsisDetails.closeness[index].toFixed(4)}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
+      {wpDetails && (
+        <Card className="bg-white shadow-lg">
+          <CardHeader>
+            <CardTitle>Vektor S dan Vektor V (WP)</CardTitle>
+            <p className="text-sm text-gray-600">
+              Si = hasil kali nilai berpangkat bobot, Vi = Si / ΣS (nilai preferensi WP)
+            </p>
+          </CardHeader>
+          <CardContent>
+            <div className="overflow-x-auto">
+              <Table>
+                <TableCaption>
+                  Skor absolut = Si / S ideal, dengan S ideal = {wpDetails.idealS.toFixed(4)}; dipakai sebagai skor akhir untuk rekomendasi
+                </TableCaption>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead className="w-[200px]">Nama</TableHead>
+                    <TableHead className="text-center">Vektor S</TableHead>
+                    <TableHead className="text-center">Vektor V (Preferensi)</TableHead>
+                    <TableHead className="text-center">Skor Absolut</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {calculatedEmployees.map((employee, index) => (
+                    <TableRow key={employee.id}>
+                      <TableCell className="font-medium">{employee.name}</TableCell>
+                      <TableCell className="text-center">{wpDetails.vectorS[index].toFixed(4)}</TableCell>
+                      <TableCell className="text-center font-semibold">{wpDetails.vectorV[index].toFixed(4)}</TableCell>
+                      <TableCell className="text-center">{wpDetails.absoluteScores[index].toFixed(4)}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
       {finalScores.length > 0 && (
         <Card className="bg-white shadow-lg">
           <CardHeader>
             <CardTitle>Final Scores</CardTitle>
             <p className="text-sm text-gray-600">
-              Hasil akhir perhitungan SAW dan rekomendasi dengan kriteria terstruktur
+              Hasil akhir perhitungan {getMethodLabel(calculatedMethod)} dan rekomendasi dengan kriteria terstruktur
             </p>
+            {runMissingReport && (
+              <p className="text-sm text-amber-700">
+                Kebijakan nilai kosong: <strong>{getMissingScorePolicyLabel(runMissingReport.policy)}</strong> ({runMissingReport.gaps.length} nilai
+                {runMissingReport.excludedEmployeeIds.length > 0 && `, ${runMissingReport.excludedEmployeeIds.length} karyawan dikeluarkan`})
+              </p>
+            )}
           </CardHeader>
           <CardContent>
             <div className="overflow-x-auto">
@@ -1030,11 +1563,21 @@ export const SAWCalculator = ({ employees, onCalculate, criteriaUpdateTrigger }:
                 <TableBody>
                   {finalScores.map((result) => (
                     <TableRow key={result.employee.id}>
-                      <TableCell>{result.rank === 999 ? 'Diberhentikan' : result.rank}</TableCell>
+                      <TableCell>
+                        {result.rank === TERMINATED_RANK ? 'Diberhentikan' : result.rank}
+                        {result.isTied && (
+                          <Badge variant="outline" className="ml-1 text-xs border-amber-400 text-amber-700">Seri</Badge>
+                        )}
+                      </TableCell>
                       <TableCell className="font-medium">{result.employee.name}</TableCell>
-                      <TableCell>{result.finalScore.toFixed(4)}</TableCell>
                       <TableCell>
-                        {result.rank === 999 ? '-' : `${result.convertedScore.toFixed(2)} (${getScoreLabel(result.convertedScore)})`}
+                        {result.finalScore.toFixed(4)}
+                        {result.tieBreakReason && (
+                          <div className="text-xs text-amber-700">{result.tieBreakReason}</div>
+                        )}
+                      </TableCell>
+                      <TableCell>
+                        {result.rank === TERMINATED_RANK ? '-' : `${result.convertedScore.toFixed(2)} (${getScoreLabel(result.convertedScore)})`}
                       </TableCell>
                       <TableCell>{result.recommendation}</TableCell>
                       <TableCell>{result.note || '-'}</TableCell>
@@ -1046,6 +1589,10 @@ export const SAWCalculator = ({ employees, onCalculate, criteriaUpdateTrigger }:
           </CardContent>
         </Card>
       )}
+
+      {methodComparison && (
+        <MethodComparison employees={calculatedEmployees} sawScores={methodComparison.saw} wpScores={methodComparison.wp} />
+      )}
     </div>
   );
 };
\ No newline at end of file
@@ -0,0 +1,202 @@
+import { useState } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Activity } from "lucide-react";
+import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer, ReferenceLine } from "recharts";
+import { useCalculationConfig } from "@/hooks/use-calculation-config";
+import {
+  RECOMMENDATION_TERMINATE,
+  buildDecisionMatrix,
+  calculateSAW,
+  findRankFlips,
+  findRecommendationFlips,
+  getScoreThresholds,
+  sweepCriterionWeight,
+} from "@/lib/saw";
+import type { SAWOptions } from "@/lib/saw";
+import type { Employee } from "@/pages/Index";
+
+interface SensitivityAnalysisProps {
+  employees: Employee[];
+}
+
+const LINE_COLORS = ["#22c55e", "#3b82f6", "#f59e0b", "#ef4444", "#8b5cf6", "#06b6d4", "#ec4899", "#84cc16", "#f97316", "#6366f1"];
+
+// Jumlah titik sapuan bobot dari 0% sampai 2× bobot saat ini
+const SWEEP_STEPS = 10;
+
+const formatChange = (change: number) => `${change > 0 ? '+' : ''}${change.toFixed(2)}`;
+
+export const SensitivityAnalysis = ({ employees }: SensitivityAnalysisProps) => {
+  const { criteria, rules, tieBreakers, loading } = useCalculationConfig();
+  const [selectedCriterion, setSelectedCriterion] = useState<string>("0");
+
+  if (loading || criteria.length === 0 || employees.length === 0) {
+    return null;
+  }
+
+  const matrix = buildDecisionMatrix(employees, criteria);
+  // Aturan rekomendasi aktif yang sama dengan perhitungan, agar batas perubahan rekomendasi sesuai
+  const options: SAWOptions = {
+    rules,
+    staffLabels: employees.map(employee => `${employee.position || ''} ${employee.department || ''}`),
+    tieBreakers,
+    hireDates: employees.map(employee => employee.hireDate)
+  };
+  const { scores } = calculateSAW(criteria, matrix, options);
+  const rankFlips = findRankFlips(criteria, matrix, scores);
+  const recommendationFlips = findRecommendationFlips(criteria, matrix, scores, options);
+  const scoreThresholds = getScoreThresholds(rules);
+
+  const criterionIndex = Math.min(parseInt(selectedCriterion), criteria.length - 1);
+  const totalWeight = criteria.reduce((sum, criterion) => sum + criterion.weight, 0);
+  const maxSweepWeight = Math.min(totalWeight, Math.max(criteria[criterionIndex].weight * 2, 10));
+  const sweepWeights = Array.from({ length: SWEEP_STEPS + 1 }, (_, step) =>
+    parseFloat(((maxSweepWeight * step) / SWEEP_STEPS).toFixed(2))
+  );
+  const chartData = sweepCriterionWeight(criteria, matrix, criterionIndex, sweepWeights).map(point => {
+    const row: { [key: string]: number } = { weight: point.weight };
+    employees.forEach((employee, index) => {
+      row[employee.id] = parseFloat((point.scores[index] * 5).toFixed(2));
+    });
+    return row;
+  });
+
+  return (
+    <Card className="bg-white shadow-lg">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2 text-lg text-gray-800">
+          <Activity className="w-5 h-5" />
+          Analisis Sensitivitas Bobot (SAW)
+        </CardTitle>
+        <p className="text-sm text-gray-600">
+          Setiap bobot kriteria diubah naik/turun sementara bobot kriteria lain disesuaikan proporsional agar total tetap {totalWeight}%
+        </p>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div>
+          <div className="flex items-center gap-2 mb-4">
+            <Label htmlFor="sensitivity-criterion" className="text-sm text-gray-600">Kriteria:</Label>
+            <Select value={String(criterionIndex)} onValueChange={setSelectedCriterion}>
+              <SelectTrigger id="sensitivity-criterion" className="w-[280px] h-8">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {criteria.map((criterion, index) => (
+                  <SelectItem key={criterion.id} value={String(index)}>
+                    {criterion.name} ({criterion.weight}%)
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <ResponsiveContainer width="100%" height={320}>
+            <LineChart data={chartData}>
+              <CartesianGrid strokeDasharray="3 3" />
+              <XAxis dataKey="weight" unit="%" />
+              <YAxis domain={[0, 5]} />
+              <Tooltip
+                labelFormatter={(value) => `Bobot ${criteria[criterionIndex].name}: ${value}%`}
+                formatter={(value, name) => [
+                  typeof value === 'number' ? value.toFixed(2) : value,
+                  employees.find(employee => employee.id === name)?.name || name
+                ]}
+              />
+              <Legend formatter={(value) => employees.find(employee => employee.id === value)?.name || value} />
+              {scoreThresholds.map(threshold => (
+                <ReferenceLine key={threshold} y={threshold} stroke="#ef4444" strokeDasharray="4 4" />
+              ))}
+              <ReferenceLine x={criteria[criterionIndex].weight} stroke="#6b7280" strokeDasharray="2 2" />
+              {employees.map((employee, index) => (
+                <Line
+                  key={employee.id}
+                  type="monotone"
+                  dataKey={employee.id}
+                  stroke={LINE_COLORS[index % LINE_COLORS.length]}
+                  dot={false}
+                />
+              ))}
+            </LineChart>
+          </ResponsiveContainer>
+        </div>
+
+        <div>
+          <h4 className="font-semibold text-gray-800 mb-2">Perubahan Bobot Terkecil yang Membalik Peringkat Berurutan</h4>
+          <div className="overflow-x-auto">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Pasangan Peringkat</TableHead>
+                  <TableHead>Kriteria</TableHead>
+                  <TableHead className="text-right">Perubahan Bobot (poin %)</TableHead>
+                  <TableHead className="text-right">Bobot Baru (%)</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {rankFlips.map((flip, position) => (
+                  <TableRow key={`${flip.upperIndex}-${flip.lowerIndex}`}>
+                    <TableCell>
+                      #{position + 1} {employees[flip.upperIndex].name} ↔ #{position + 2} {employees[flip.lowerIndex].name}
+                    </TableCell>
+                    {flip.criterionIndex === null ? (
+                      <TableCell colSpan={3} className="text-gray-500 italic">Tidak terbalik oleh perubahan satu bobot</TableCell>
+                    ) : (
+                      <>
+                        <TableCell>{criteria[flip.criterionIndex].name}</TableCell>
+                        <TableCell className="text-right">
+                          <Badge variant={Math.abs(flip.weightChange) < 5 ? "destructive" : "secondary"}>
+                            {formatChange(flip.weightChange)}
+                          </Badge>
+                        </TableCell>
+                        <TableCell className="text-right">{flip.newWeight.toFixed(2)}</TableCell>
+                      </>
+                    )}
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        </div>
+
+        <div>
+          <h4 className="font-semibold text-gray-800 mb-2">Perubahan Bobot yang Mengubah Rekomendasi</h4>
+          {recommendationFlips.length === 0 ? (
+            <p className="text-gray-500 italic text-sm">Tidak ada perubahan satu bobot yang mengubah rekomendasi karyawan</p>
+          ) : (
+            <div className="overflow-x-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Karyawan</TableHead>
+                    <TableHead>Perubahan Rekomendasi</TableHead>
+                    <TableHead>Kriteria</TableHead>
+                    <TableHead className="text-right">Perubahan Bobot (poin %)</TableHead>
+                    <TableHead className="text-right">Bobot Baru (%)</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {recommendationFlips.map(flip => (
+                    <TableRow key={flip.index}>
+                      <TableCell className="font-medium">{employees[flip.index].name}</TableCell>
+                      <TableCell>
+                        <span className={`text-xs px-2 py-1 rounded ${flip.toRecommendation === RECOMMENDATION_TERMINATE ? "bg-red-100 text-red-800" : "bg-green-100 text-green-800"}`}>
+                          {`${flip.fromRecommendation} → ${flip.toRecommendation}`}
+                        </span>
+                      </TableCell>
+                      <TableCell>{criteria[flip.criterionIndex].name}</TableCell>
+                      <TableCell className="text-right">{formatChange(flip.weightChange)}</TableCell>
+                      <TableCell className="text-right">{flip.newWeight.toFixed(2)}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
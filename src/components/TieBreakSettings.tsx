@@ -0,0 +1,215 @@
+import { useState } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { ArrowUp, ArrowDown, Trash2, Plus, RotateCcw, Save, Scale } from "lucide-react";
+import { supabase } from "@/integrations/supabase/client";
+import { useToast } from "@/hooks/use-toast";
+import { DEFAULT_TIE_BREAKERS, describeTieBreaker } from "@/lib/saw";
+import type { SAWCriterion, TieBreaker } from "@/lib/saw";
+import type { Json } from "@/integrations/supabase/types";
+
+interface TieBreakSettingsProps {
+  criteria: SAWCriterion[];
+  categories: string[];
+  tieBreakers: TieBreaker[];
+  onChange: (tieBreakers: TieBreaker[]) => void;
+}
+
+type TieBreakerKind = TieBreaker['kind'];
+
+const TIE_BREAKER_KINDS: { value: TieBreakerKind; label: string }[] = [
+  { value: 'category', label: 'Skor kategori' },
+  { value: 'criterion', label: 'Nilai kriteria' },
+  { value: 'hireDate', label: 'Tanggal masuk' }
+];
+
+export const TieBreakSettings = ({ criteria, categories, tieBreakers, onChange }: TieBreakSettingsProps) => {
+  const [saving, setSaving] = useState(false);
+  const { toast } = useToast();
+
+  const createTieBreaker = (kind: TieBreakerKind): TieBreaker => {
+    switch (kind) {
+      case 'category':
+        return { kind: 'category', category: categories[0] || '' };
+      case 'criterion':
+        return {
+          kind: 'criterion',
+          criterionName: criteria[0]?.name || '',
+          direction: criteria[0]?.type === 'Cost' ? 'lower' : 'higher'
+        };
+      default:
+        return { kind: 'hireDate' };
+    }
+  };
+
+  const updateAt = (index: number, tieBreaker: TieBreaker) => {
+    onChange(tieBreakers.map((item, i) => i === index ? tieBreaker : item));
+  };
+
+  const handleMove = (index: number, offset: number) => {
+    const target = index + offset;
+    if (target < 0 || target >= tieBreakers.length) return;
+
+    const reordered = [...tieBreakers];
+    [reordered[index], reordered[target]] = [reordered[target], reordered[index]];
+    onChange(reordered);
+  };
+
+  const handleSave = async () => {
+    setSaving(true);
+    try {
+      const { error } = await supabase
+        .from('ranking_settings')
+        .insert({ tie_breakers: tieBreakers as unknown as Json });
+
+      if (error) throw error;
+
+      toast({
+        title: "Berhasil",
+        description: "Urutan pemecah skor seri berhasil disimpan",
+      });
+    } catch (error) {
+      console.error('Error saving tie-break settings:', error);
+      toast({
+        title: "Error",
+        description: "Gagal menyimpan pengaturan pemecah skor seri",
+        variant: "destructive",
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Card className="bg-white shadow-lg">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Scale className="w-5 h-5" />
+          Pemecah Skor Seri
+        </CardTitle>
+        <p className="text-sm text-gray-600">
+          Karyawan dengan nilai akhir yang sama diurutkan dengan pemecah berikut secara berurutan.
+          Jika semua pemecah tetap sama, karyawan mendapat peringkat bersama.
+        </p>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {tieBreakers.length === 0 && (
+          <p className="text-sm text-gray-500">Tidak ada pemecah seri; semua skor yang sama mendapat peringkat bersama.</p>
+        )}
+
+        {tieBreakers.map((tieBreaker, index) => (
+          <div key={index} className="flex flex-wrap items-end gap-2 p-3 border rounded-lg">
+            <span className="text-sm font-semibold text-gray-500 w-6">{index + 1}.</span>
+            <div className="space-y-1">
+              <Label className="text-xs">Jenis</Label>
+              <Select
+                value={tieBreaker.kind}
+                onValueChange={(value) => updateAt(index, createTieBreaker(value as TieBreakerKind))}
+              >
+                <SelectTrigger className="w-40">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {TIE_BREAKER_KINDS.map(kind => (
+                    <SelectItem key={kind.value} value={kind.value}>{kind.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            {tieBreaker.kind === 'category' && (
+              <div className="space-y-1">
+                <Label className="text-xs">Kategori</Label>
+                <Select
+                  value={tieBreaker.category}
+                  onValueChange={(value) => updateAt(index, { kind: 'category', category: value })}
+                >
+                  <SelectTrigger className="w-56">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {categories.map(category => (
+                      <SelectItem key={category} value={category}>{category}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+
+            {tieBreaker.kind === 'criterion' && (
+              <>
+                <div className="space-y-1">
+                  <Label className="text-xs">Kriteria</Label>
+                  <Select
+                    value={tieBreaker.criterionName}
+                    onValueChange={(value) => updateAt(index, { ...tieBreaker, criterionName: value })}
+                  >
+                    <SelectTrigger className="w-56">
+                      <SelectValue placeholder="Pilih kriteria" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {criteria.map(criterion => (
+                        <SelectItem key={criterion.id} value={criterion.name}>{criterion.name}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-1">
+                  <Label className="text-xs">Lebih baik jika</Label>
+                  <Select
+                    value={tieBreaker.direction}
+                    onValueChange={(value) => updateAt(index, { ...tieBreaker, direction: value as 'higher' | 'lower' })}
+                  >
+                    <SelectTrigger className="w-36">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="higher">Lebih tinggi</SelectItem>
+                      <SelectItem value="lower">Lebih rendah</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+              </>
+            )}
+
+            <span className="text-xs text-gray-500 flex-1 min-w-[150px] pb-2">{describeTieBreaker(tieBreaker)}</span>
+
+            <div className="flex gap-1">
+              <Button variant="outline" size="sm" onClick={() => handleMove(index, -1)} disabled={index === 0}>
+                <ArrowUp className="w-4 h-4" />
+              </Button>
+              <Button variant="outline" size="sm" onClick={() => handleMove(index, 1)} disabled={index === tieBreakers.length - 1}>
+                <ArrowDown className="w-4 h-4" />
+              </Button>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => onChange(tieBreakers.filter((_, i) => i !== index))}
+                className="text-red-600 hover:text-red-700"
+              >
+                <Trash2 className="w-4 h-4" />
+              </Button>
+            </div>
+          </div>
+        ))}
+
+        <div className="flex flex-wrap gap-2">
+          <Button variant="outline" size="sm" onClick={() => onChange([...tieBreakers, createTieBreaker('category')])}>
+            <Plus className="w-4 h-4 mr-1" />
+            Tambah Pemecah
+          </Button>
+          <Button variant="outline" size="sm" onClick={() => onChange(DEFAULT_TIE_BREAKERS)}>
+            <RotateCcw className="w-4 h-4 mr-1" />
+            Kembalikan Bawaan
+          </Button>
+          <Button size="sm" onClick={handleSave} disabled={saving} className="bg-green-600 hover:bg-green-700">
+            <Save className="w-4 h-4 mr-1" />
+            {saving ? 'Menyimpan...' : 'Simpan Urutan'}
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
@@ -0,0 +1,214 @@
+import { useState } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { FlaskConical, RotateCcw } from "lucide-react";
+import { useCalculationConfig } from "@/hooks/use-calculation-config";
+import {
+  TERMINATED_RANK,
+  buildDecisionMatrix,
+  formatScale,
+  getScoreLabel,
+  simulateWhatIf,
+} from "@/lib/saw";
+import type { SAWCriterion, SAWOptions } from "@/lib/saw";
+import type { Employee, SAWResult } from "@/pages/Index";
+
+interface WhatIfSimulatorProps {
+  results: SAWResult[];
+  employees: Employee[];
+}
+
+const formatDelta = (delta: number, digits: number) => `${delta > 0 ? '+' : ''}${delta.toFixed(digits)}`;
+
+const formatRank = (rank: number) => rank === TERMINATED_RANK ? 'Diberhentikan' : `#${rank}`;
+
+export const WhatIfSimulator = ({ results, employees }: WhatIfSimulatorProps) => {
+  const { criteria, rules, tieBreakers } = useCalculationConfig();
+  const [selectedEmployeeId, setSelectedEmployeeId] = useState<string>('');
+  const [valueChanges, setValueChanges] = useState<{ [criterionId: string]: number }>({});
+  const [weightChanges, setWeightChanges] = useState<{ [criterionId: string]: number }>({});
+
+  // Karyawan yang ada pada hasil tersimpan dan memiliki data evaluasi
+  const candidates = results.filter(result => employees.some(employee => employee.id === result.employee.id));
+
+  if (criteria.length === 0 || candidates.length === 0) {
+    return null;
+  }
+
+  const selectedId = selectedEmployeeId || candidates[0].employee.id;
+  const savedResult = candidates.find(result => result.employee.id === selectedId) || candidates[0];
+  const recordIndex = employees.findIndex(employee => employee.id === savedResult.employee.id);
+
+  const matrix = buildDecisionMatrix(employees, criteria);
+  const options: SAWOptions = {
+    rules,
+    staffLabels: employees.map(employee => `${employee.position || ''} ${employee.department || ''}`),
+    tieBreakers,
+    hireDates: employees.map(employee => employee.hireDate)
+  };
+  const simulation = simulateWhatIf(criteria, matrix, recordIndex, { values: valueChanges, weights: weightChanges }, options);
+  const simulated = simulation.score;
+  const hasChanges = Object.keys(valueChanges).length > 0 || Object.keys(weightChanges).length > 0;
+
+  const handleEmployeeChange = (employeeId: string) => {
+    setSelectedEmployeeId(employeeId);
+    setValueChanges({});
+  };
+
+  const handleValueChange = (criterion: SAWCriterion, input: string) => {
+    const value = parseFloat(input);
+    const { [criterion.id]: _removed, ...rest } = valueChanges;
+    setValueChanges(Number.isNaN(value) ? rest : { ...rest, [criterion.id]: value });
+  };
+
+  const handleWeightChange = (criterion: SAWCriterion, input: string) => {
+    const weight = parseFloat(input);
+    const { [criterion.id]: _removed, ...rest } = weightChanges;
+    setWeightChanges(Number.isNaN(weight) ? rest : { ...rest, [criterion.id]: weight });
+  };
+
+  const handleReset = () => {
+    setValueChanges({});
+    setWeightChanges({});
+  };
+
+  return (
+    <Card className="bg-white shadow-lg print:hidden">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2 text-lg text-gray-800">
+          <FlaskConical className="w-5 h-5" />
+          Simulasi What-If
+        </CardTitle>
+        <p className="text-sm text-gray-600">
+          Ubah nilai kriteria seorang karyawan atau bobot kriteria untuk melihat dampaknya. Perubahan hanya berlaku
+          di simulasi ini dan tidak disimpan ke data evaluasi.
+        </p>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="flex flex-wrap items-center gap-2">
+          <Label htmlFor="whatif-employee" className="text-sm text-gray-600">Karyawan:</Label>
+          <Select value={savedResult.employee.id} onValueChange={handleEmployeeChange}>
+            <SelectTrigger id="whatif-employee" className="w-[280px] h-8">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {candidates.map(result => (
+                <SelectItem key={result.employee.id} value={result.employee.id}>
+                  {formatRank(result.rank)} {result.employee.name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button variant="outline" size="sm" onClick={handleReset} disabled={!hasChanges}>
+            <RotateCcw className="w-4 h-4 mr-1" />
+            Reset
+          </Button>
+        </div>
+
+        <div className="grid grid-cols-1 md:grid-cols-4 gap-3 text-sm">
+          {[
+            {
+              label: 'Skor Akhir',
+              saved: savedResult.finalScore.toFixed(4),
+              simulated: simulated.finalScore.toFixed(4),
+              delta: formatDelta(simulated.finalScore - savedResult.finalScore, 4)
+            },
+            {
+              label: 'Skor Konversi',
+              saved: `${savedResult.convertedScore.toFixed(2)} (${getScoreLabel(savedResult.convertedScore)})`,
+              simulated: `${simulated.convertedScore.toFixed(2)} (${getScoreLabel(simulated.convertedScore)})`,
+              delta: formatDelta(simulated.convertedScore - savedResult.convertedScore, 2)
+            },
+            {
+              label: 'Peringkat',
+              saved: formatRank(savedResult.rank),
+              simulated: formatRank(simulated.rank),
+              delta: savedResult.rank === TERMINATED_RANK || simulated.rank === TERMINATED_RANK
+                ? '-'
+                : formatDelta(savedResult.rank - simulated.rank, 0)
+            },
+            {
+              label: 'Rekomendasi',
+              saved: savedResult.recommendation,
+              simulated: simulated.recommendation,
+              delta: savedResult.recommendation === simulated.recommendation ? 'Tetap' : 'Berubah'
+            }
+          ].map(item => (
+            <div key={item.label} className="p-3 bg-gray-50 rounded-lg">
+              <p className="text-gray-600">{item.label}</p>
+              <p className="text-xs text-gray-500">Tersimpan: {item.saved}</p>
+              <p className="font-bold">Simulasi: {item.simulated}</p>
+              <Badge variant="outline" className="mt-1">{item.delta}</Badge>
+            </div>
+          ))}
+        </div>
+
+        {simulated.note && (
+          <p className="text-sm text-gray-700">
+            <strong>Catatan simulasi:</strong> {simulated.note}
+          </p>
+        )}
+
+        {simulation.totalWeight !== 100 && (
+          <p className="text-sm text-amber-700">
+            Total bobot simulasi {simulation.totalWeight}% (bukan 100%), sehingga skor tidak sebanding dengan hasil tersimpan.
+          </p>
+        )}
+
+        <div className="overflow-x-auto">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Kriteria</TableHead>
+                <TableHead>Skala</TableHead>
+                <TableHead className="text-center">Nilai Tersimpan</TableHead>
+                <TableHead className="text-center">Nilai Simulasi</TableHead>
+                <TableHead className="text-center">Bobot (%)</TableHead>
+                <TableHead className="text-center">Bobot Simulasi (%)</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {criteria.map((criterion, j) => (
+                <TableRow key={criterion.id}>
+                  <TableCell className="font-medium">
+                    {criterion.name}
+                    <span className="text-xs text-gray-500 ml-1">({criterion.type})</span>
+                  </TableCell>
+                  <TableCell className="text-xs text-gray-600">{formatScale(criterion.scale)}</TableCell>
+                  <TableCell className="text-center">{matrix[recordIndex][j]}</TableCell>
+                  <TableCell className="text-center">
+                    <Input
+                      type="number"
+                      className={`w-24 h-8 mx-auto ${valueChanges[criterion.id] !== undefined ? 'border-blue-500' : ''}`}
+                      min={criterion.scale.min}
+                      max={criterion.scale.max ?? undefined}
+                      step={criterion.scale.step}
+                      value={valueChanges[criterion.id] ?? matrix[recordIndex][j]}
+                      onChange={(e) => handleValueChange(criterion, e.target.value)}
+                    />
+                  </TableCell>
+                  <TableCell className="text-center">{criterion.weight}</TableCell>
+                  <TableCell className="text-center">
+                    <Input
+                      type="number"
+                      className={`w-20 h-8 mx-auto ${weightChanges[criterion.id] !== undefined ? 'border-blue-500' : ''}`}
+                      min={0}
+                      max={100}
+                      value={weightChanges[criterion.id] ?? criterion.weight}
+                      onChange={(e) => handleWeightChange(criterion, e.target.value)}
+                    />
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
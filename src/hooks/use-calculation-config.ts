@@ -0,0 +1,61 @@
+import { useState, useEffect } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { usePeriod } from "@/components/PeriodProvider";
+import {
+  CATEGORY_ORDER,
+  DEFAULT_RECOMMENDATION_RULES,
+  DEFAULT_TIE_BREAKERS,
+  parseTieBreakers,
+  resolveCategoryOrder,
+  sortCriteria,
+  toRecommendationRule,
+  toSAWCriterion,
+} from "@/lib/saw";
+import type { RecommendationRule, SAWCriterion, TieBreaker } from "@/lib/saw";
+
+// Konfigurasi perhitungan tersimpan periode aktif (kriteria, urutan kategori, aturan rekomendasi aktif, pemecah seri) untuk analisis hasil
+export const useCalculationConfig = () => {
+  const [criteria, setCriteria] = useState<SAWCriterion[]>([]);
+  const [categoryOrder, setCategoryOrder] = useState<string[]>(CATEGORY_ORDER);
+  const [rules, setRules] = useState<RecommendationRule[]>(DEFAULT_RECOMMENDATION_RULES);
+  const [tieBreakers, setTieBreakers] = useState<TieBreaker[]>(DEFAULT_TIE_BREAKERS);
+  const [loading, setLoading] = useState(false);
+  const { activePeriod } = usePeriod();
+
+  const fetchConfiguration = async () => {
+    setLoading(true);
+    try {
+      const [criteriaResponse, categoriesResponse, rulesResponse, settingsResponse] = await Promise.all([
+        supabase.from('criteria').select('*').eq('period_id', activePeriod.id).order('name'),
+        supabase.from('categories').select('*').order('position', { ascending: true }),
+        supabase.from('recommendation_rules').select('*').eq('is_active', true).order('position', { ascending: true }),
+        supabase.from('ranking_settings').select('tie_breakers').order('updated_at', { ascending: false }).limit(1)
+      ]);
+
+      if (criteriaResponse.error) {
+        console.error('Error fetching criteria configuration:', criteriaResponse.error);
+        return;
+      }
+
+      const order = resolveCategoryOrder(categoriesResponse.data);
+      setCategoryOrder(order);
+      setCriteria(sortCriteria((criteriaResponse.data || []).map(toSAWCriterion), order));
+      if (!rulesResponse.error && rulesResponse.data && rulesResponse.data.length > 0) {
+        setRules(rulesResponse.data.map(toRecommendationRule));
+      }
+      if (!settingsResponse.error && settingsResponse.data && settingsResponse.data.length > 0) {
+        setTieBreakers(parseTieBreakers(settingsResponse.data[0].tie_breakers) || DEFAULT_TIE_BREAKERS);
+      }
+    } catch (error) {
+      console.error('Error fetching calculation configuration:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchConfiguration();
+  }, [activePeriod.id]);
+
+  return { criteria, categoryOrder, rules, tieBreakers, loading, refetch: fetchConfiguration };
+};
@@ -0,0 +1,200 @@
+import { useState, useEffect } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { usePeriod } from "@/components/PeriodProvider";
+import { parseCalculationSnapshot } from "@/lib/saw";
+import type { CalculationSnapshot, RunMatrixEntry, RunResult } from "@/lib/saw";
+
+// Ringkasan satu perhitungan tersimpan untuk daftar riwayat
+export interface CalculationRun {
+  id: string;
+  calculationDate: string;
+  method: string;
+  totalEmployees: number;
+  totalCriteria: number;
+  label: string | null;
+  runBy: string | null;
+  isOfficial: boolean;
+  weightingName: string | null;
+}
+
+// Sesi perhitungan yang dirujuk hasil dan matriks tersimpan melalui calculation_id
+export interface CalculationRef {
+  id: string;
+  calculationDate: string;
+  method: string;
+}
+
+/**
+ * Perhitungan yang dimuat secara bawaan untuk sebuah periode: perhitungan resmi bila sudah
+ * dipin, jika belum maka perhitungan terakhir. null bila periode belum pernah dihitung.
+ */
+export const fetchDefaultCalculation = async (periodId: string): Promise<CalculationRef | null> => {
+  const { data, error } = await supabase
+    .from('saw_calculations')
+    .select('id, calculation_date, method, is_official')
+    .eq('period_id', periodId)
+    .order('is_official', { ascending: false })
+    .order('calculation_date', { ascending: false })
+    .limit(1);
+
+  if (error) {
+    console.error('Error fetching default calculation:', error);
+    return null;
+  }
+
+  return data && data.length > 0
+    ? { id: data[0].id, calculationDate: data[0].calculation_date, method: data[0].method }
+    : null;
+};
+
+// Snapshot masukan sebuah perhitungan tersimpan; null untuk perhitungan lama tanpa snapshot
+export const fetchCalculationSnapshot = async (calculationId: string): Promise<CalculationSnapshot | null> => {
+  const { data, error } = await supabase
+    .from('saw_calculations')
+    .select('snapshot')
+    .eq('id', calculationId)
+    .limit(1);
+
+  if (error) {
+    console.error('Error fetching calculation snapshot:', error);
+    return null;
+  }
+
+  return data && data.length > 0 ? parseCalculationSnapshot(data[0].snapshot) : null;
+};
+
+// Hasil per karyawan dari satu perhitungan tersimpan, urut peringkat
+export const fetchRunResults = async (calculationId: string): Promise<RunResult[]> => {
+  const { data, error } = await supabase
+    .from('saw_results')
+    .select('employee_id, final_score, converted_score, rank, recommendation, employees!inner(name)')
+    .eq('calculation_id', calculationId)
+    .order('rank');
+
+  if (error) throw error;
+
+  return (data || []).map(row => ({
+    employeeId: row.employee_id,
+    employeeName: row.employees.name,
+    finalScore: row.final_score,
+    convertedScore: row.converted_score,
+    rank: row.rank,
+    recommendation: row.recommendation
+  }));
+};
+
+// Matriks nilai mentah dan bobot yang dipakai sebuah perhitungan tersimpan
+export const fetchRunMatrix = async (calculationId: string): Promise<RunMatrixEntry[]> => {
+  const { data, error } = await supabase
+    .from('saw_normalized_matrix')
+    .select('employee_id, criteria_code, criteria_name, weight, raw_value, employees!inner(name)')
+    .eq('calculation_id', calculationId);
+
+  if (error) throw error;
+
+  return (data || []).map(row => ({
+    employeeId: row.employee_id,
+    employeeName: row.employees.name,
+    criteriaCode: row.criteria_code,
+    criteriaName: row.criteria_name,
+    weight: row.weight,
+    rawValue: row.raw_value
+  }));
+};
+
+// Riwayat perhitungan periode aktif beserta aksi pin resmi, label, dan hapus per perhitungan
+export const useCalculationHistory = () => {
+  const [runs, setRuns] = useState<CalculationRun[]>([]);
+  const [loading, setLoading] = useState(false);
+  const { activePeriod } = usePeriod();
+
+  const fetchRuns = async () => {
+    setLoading(true);
+    try {
+      const { data, error } = await supabase
+        .from('saw_calculations')
+        .select('id, calculation_date, method, total_employees, total_criteria, label, run_by, is_official, weighting_name')
+        .eq('period_id', activePeriod.id)
+        .order('calculation_date', { ascending: false });
+
+      if (error) {
+        console.error('Error fetching calculation history:', error);
+        return;
+      }
+
+      setRuns((data || []).map(row => ({
+        id: row.id,
+        calculationDate: row.calculation_date,
+        method: row.method,
+        totalEmployees: row.total_employees,
+        totalCriteria: row.total_criteria,
+        label: row.label,
+        runBy: row.run_by,
+        isOfficial: row.is_official,
+        weightingName: row.weighting_name
+      })));
+    } catch (error) {
+      console.error('Error fetching calculation history:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // Hanya satu perhitungan resmi per periode, jadi pin lama dilepas terlebih dahulu
+  const setOfficial = async (run: CalculationRun, official: boolean) => {
+    const { error: clearError } = await supabase
+      .from('saw_calculations')
+      .update({ is_official: false })
+      .eq('period_id', activePeriod.id)
+      .eq('is_official', true);
+
+    if (clearError) throw clearError;
+
+    if (official) {
+      const { error } = await supabase
+        .from('saw_calculations')
+        .update({ is_official: true })
+        .eq('id', run.id);
+
+      if (error) throw error;
+    }
+
+    await fetchRuns();
+  };
+
+  const updateLabel = async (run: CalculationRun, label: string) => {
+    const { error } = await supabase
+      .from('saw_calculations')
+      .update({ label: label.trim() || null })
+      .eq('id', run.id);
+
+    if (error) throw error;
+    await fetchRuns();
+  };
+
+  // Hasil dan matriks perhitungan ikut terhapus melalui cascade calculation_id
+  const deleteRun = async (run: CalculationRun) => {
+    const { error } = await supabase
+      .from('saw_calculations')
+      .delete()
+      .eq('id', run.id);
+
+    if (error) throw error;
+    await fetchRuns();
+  };
+
+  useEffect(() => {
+    fetchRuns();
+  }, [activePeriod.id]);
+
+  return {
+    runs,
+    loading,
+    refetch: fetchRuns,
+    setOfficial,
+    updateLabel,
+    deleteRun,
+    fetchRunResults,
+    fetchRunMatrix
+  };
+};
@@ -0,0 +1,47 @@
+import { useState, useEffect } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { DEFAULT_CATEGORIES, getCategoryOrder, getCategoryTotals, toCategoryDefinition } from "@/lib/saw";
+import type { CategoryDefinition } from "@/lib/saw";
+import type { Category } from "@/types/database";
+
+// Kategori kriteria dari database; kategori bawaan dipakai selama tabel belum berisi data
+export const useCategories = () => {
+  const [categories, setCategories] = useState<Category[]>([]);
+  const [definitions, setDefinitions] = useState<CategoryDefinition[]>(DEFAULT_CATEGORIES);
+  const [loading, setLoading] = useState(false);
+
+  const fetchCategories = async () => {
+    setLoading(true);
+    try {
+      const { data, error } = await supabase
+        .from('categories')
+        .select('*')
+        .order('position', { ascending: true });
+
+      if (error) {
+        console.error('Error fetching categories:', error);
+        return;
+      }
+
+      setCategories(data || []);
+      setDefinitions(data && data.length > 0 ? data.map(toCategoryDefinition) : DEFAULT_CATEGORIES);
+    } catch (error) {
+      console.error('Error fetching categories:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchCategories();
+  }, []);
+
+  return {
+    categories,
+    definitions,
+    categoryOrder: getCategoryOrder(definitions),
+    categoryTotals: getCategoryTotals(definitions),
+    loading,
+    refetch: fetchCategories
+  };
+};
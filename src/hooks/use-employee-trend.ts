@@ -0,0 +1,71 @@
+import { useState, useEffect } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { usePeriod } from "@/components/PeriodProvider";
+import type { TrendMatrixInput, TrendRunInput } from "@/lib/saw";
+
+// Hasil dan matriks tersimpan seorang karyawan dari semua perhitungan di semua periode
+export const useEmployeeTrend = (employeeId: string) => {
+  const [runs, setRuns] = useState<TrendRunInput[]>([]);
+  const [matrix, setMatrix] = useState<TrendMatrixInput[]>([]);
+  const [loading, setLoading] = useState(false);
+  const { periods } = usePeriod();
+
+  const fetchTrend = async () => {
+    setLoading(true);
+    try {
+      const [resultsResponse, matrixResponse] = await Promise.all([
+        supabase
+          .from('saw_results')
+          .select('calculation_id, final_score, converted_score, rank, recommendation, saw_calculations!inner(calculation_date, period_id, method, label, is_official, total_employees)')
+          .eq('employee_id', employeeId),
+        supabase
+          .from('saw_normalized_matrix')
+          .select('calculation_id, category, weight, normalized_value')
+          .eq('employee_id', employeeId)
+      ]);
+
+      const error = resultsResponse.error || matrixResponse.error;
+      if (error) {
+        console.error('Error fetching employee trend:', error);
+        return;
+      }
+
+      setRuns((resultsResponse.data || []).map(result => {
+        const calculation = result.saw_calculations;
+        return {
+          calculationId: result.calculation_id,
+          calculationDate: calculation.calculation_date,
+          periodId: calculation.period_id || '',
+          periodName: periods.find(period => period.id === calculation.period_id)?.name || 'Tanpa periode',
+          label: calculation.label,
+          method: calculation.method,
+          isOfficial: calculation.is_official,
+          totalEmployees: calculation.total_employees,
+          finalScore: result.final_score,
+          convertedScore: result.converted_score,
+          rank: result.rank,
+          recommendation: result.recommendation
+        };
+      }));
+
+      setMatrix((matrixResponse.data || []).map(row => ({
+        calculationId: row.calculation_id,
+        category: row.category,
+        weight: row.weight,
+        normalizedValue: row.normalized_value
+      })));
+    } catch (error) {
+      console.error('Error fetching employee trend:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    if (employeeId) {
+      fetchTrend();
+    }
+  }, [employeeId, periods]);
+
+  return { runs, matrix, loading, refetch: fetchTrend };
+};
@@ -0,0 +1,141 @@
+import { useState, useEffect } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { usePeriod } from "@/components/PeriodProvider";
+import { DEFAULT_AGGREGATION_METHOD, aggregateEvaluatorScores, scoreKey } from "@/lib/saw";
+import type { AggregationMethod, EvaluatorScoreEntry } from "@/lib/saw";
+import type { EvaluatorScore, EvaluatorType } from "@/types/database";
+
+const parseAggregationMethod = (value: string | undefined): AggregationMethod =>
+  value === 'geometric_mean' ? 'geometric_mean' : DEFAULT_AGGREGATION_METHOD;
+
+// Jenis penilai, nilai per penilai, dan metode agregasi yang menghasilkan evaluation_scores
+export const useEvaluatorScoring = () => {
+  const [evaluatorTypes, setEvaluatorTypes] = useState<EvaluatorType[]>([]);
+  const [evaluatorScores, setEvaluatorScores] = useState<EvaluatorScore[]>([]);
+  const [aggregationMethod, setAggregationMethod] = useState<AggregationMethod>(DEFAULT_AGGREGATION_METHOD);
+  const [loading, setLoading] = useState(false);
+  const { activePeriod } = usePeriod();
+
+  const fetchEvaluatorData = async () => {
+    setLoading(true);
+    try {
+      const [typesResponse, scoresResponse, settingsResponse] = await Promise.all([
+        supabase.from('evaluator_types').select('*').order('position', { ascending: true }),
+        supabase.from('evaluator_scores').select('*').eq('period_id', activePeriod.id),
+        supabase.from('evaluation_settings').select('aggregation_method').order('updated_at', { ascending: false }).limit(1)
+      ]);
+
+      if (typesResponse.error) {
+        console.error('Error fetching evaluator types:', typesResponse.error);
+        return;
+      }
+
+      setEvaluatorTypes(typesResponse.data || []);
+      if (!scoresResponse.error) {
+        setEvaluatorScores(scoresResponse.data || []);
+      }
+      if (!settingsResponse.error && settingsResponse.data && settingsResponse.data.length > 0) {
+        setAggregationMethod(parseAggregationMethod(settingsResponse.data[0].aggregation_method));
+      }
+    } catch (error) {
+      console.error('Error fetching evaluator data:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  /**
+   * Menghitung ulang evaluation_scores dari nilai per penilai dengan bobot jenis penilai dan
+   * metode agregasi terbaru di database, hanya untuk periode aktif. Tanpa employeeIds, semua karyawan dihitung ulang.
+   * Nilai agregat yang sebelumnya berasal dari penilai tetapi kini tidak lagi memiliki nilai penilai dihapus
+   * agar tidak ikut dihitung sebagai nilai lama; nilai yang diisi langsung tanpa penilai tetap dipertahankan.
+   * Mengembalikan jumlah nilai agregat yang disimpan.
+   */
+  const syncAggregatedScores = async (employeeIds?: string[]): Promise<number> => {
+    let scoresQuery = supabase
+      .from('evaluator_scores')
+      .select('employee_id, criteria_id, evaluator_type_id, score')
+      .eq('period_id', activePeriod.id);
+    let aggregatedQuery = supabase
+      .from('evaluation_scores')
+      .select('id, employee_id, criteria_id')
+      .eq('period_id', activePeriod.id);
+    if (employeeIds) {
+      scoresQuery = scoresQuery.in('employee_id', employeeIds);
+      aggregatedQuery = aggregatedQuery.in('employee_id', employeeIds);
+    }
+
+    const [typesResponse, scoresResponse, settingsResponse, aggregatedResponse] = await Promise.all([
+      supabase.from('evaluator_types').select('id, weight'),
+      scoresQuery,
+      supabase.from('evaluation_settings').select('aggregation_method').order('updated_at', { ascending: false }).limit(1),
+      aggregatedQuery
+    ]);
+
+    if (typesResponse.error) throw typesResponse.error;
+    if (scoresResponse.error) throw scoresResponse.error;
+    if (aggregatedResponse.error) throw aggregatedResponse.error;
+
+    const typeWeights = Object.fromEntries((typesResponse.data || []).map(type => [type.id, type.weight]));
+    const method = parseAggregationMethod(settingsResponse.data?.[0]?.aggregation_method);
+
+    const groups = new Map<string, { employee_id: string; criteria_id: string; entries: EvaluatorScoreEntry[] }>();
+    (scoresResponse.data || []).forEach(row => {
+      const key = scoreKey(row.employee_id, row.criteria_id);
+      const group = groups.get(key) || { employee_id: row.employee_id, criteria_id: row.criteria_id, entries: [] };
+      group.entries.push({ evaluatorTypeId: row.evaluator_type_id, score: row.score });
+      groups.set(key, group);
+    });
+
+    const aggregatedRows = Array.from(groups.values())
+      .map(group => ({
+        employee_id: group.employee_id,
+        criteria_id: group.criteria_id,
+        score: aggregateEvaluatorScores(group.entries, typeWeights, method)
+      }))
+      .filter((row): row is { employee_id: string; criteria_id: string; score: number } => row.score !== null);
+
+    if (aggregatedRows.length > 0) {
+      const { error } = await supabase
+        .from('evaluation_scores')
+        .upsert(aggregatedRows, { onConflict: 'employee_id,criteria_id', ignoreDuplicates: false });
+
+      if (error) throw error;
+    }
+
+    // Pasangan karyawan × kriteria yang memiliki nilai penilai saat terakhir dimuat, tetapi kini sudah dihapus semua
+    const aggregatedKeys = new Set(aggregatedRows.map(row => scoreKey(row.employee_id, row.criteria_id)));
+    const evaluatedKeys = new Set(evaluatorScores.map(score => scoreKey(score.employee_id, score.criteria_id)));
+    const staleIds = (aggregatedResponse.data || [])
+      .filter(row => {
+        const key = scoreKey(row.employee_id, row.criteria_id);
+        return evaluatedKeys.has(key) && !aggregatedKeys.has(key);
+      })
+      .map(row => row.id);
+
+    if (staleIds.length > 0) {
+      const { error } = await supabase
+        .from('evaluation_scores')
+        .delete()
+        .in('id', staleIds);
+
+      if (error) throw error;
+    }
+
+    console.log('Aggregated evaluation scores synced:', aggregatedRows.length, 'removed:', staleIds.length, 'using', method);
+    return aggregatedRows.length;
+  };
+
+  useEffect(() => {
+    fetchEvaluatorData();
+  }, [activePeriod.id]);
+
+  return {
+    evaluatorTypes,
+    evaluatorScores,
+    aggregationMethod,
+    loading,
+    refetch: fetchEvaluatorData,
+    syncAggregatedScores
+  };
+};
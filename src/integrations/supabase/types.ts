@@ -9,37 +9,157 @@ export type Json =
 export type Database = {
   public: {
     Tables: {
+      ahp_weightings: {
+        Row: {
+          category_comparison: Json | null
+          category_totals: Json
+          created_at: string
+          criteria_comparisons: Json
+          id: string
+        }
+        Insert: {
+          category_comparison?: Json | null
+          category_totals: Json
+          created_at?: string
+          criteria_comparisons: Json
+          id?: string
+        }
+        Update: {
+          category_comparison?: Json | null
+          category_totals?: Json
+          created_at?: string
+          criteria_comparisons?: Json
+          id?: string
+        }
+        Relationships: []
+      }
+      categories: {
+        Row: {
+          created_at: string
+          description: string | null
+          id: string
+          name: string
+          position: number
+          total_weight: number
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          description?: string | null
+          id?: string
+          name: string
+          position?: number
+          total_weight?: number
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          description?: string | null
+          id?: string
+          name?: string
+          position?: number
+          total_weight?: number
+          updated_at?: string
+        }
+        Relationships: []
+      }
       criteria: {
         Row: {
           category: string
+          code: string
           created_at: string
           id: string
           name: string
-          scale: string
+          normalization: string
+          period_id: string
+          position: number | null
+          scale: Json
+          threshold_bands: Json | null
           type: string
           updated_at: string
           weight: number
         }
         Insert: {
           category: string
+          code: string
           created_at?: string
           id?: string
           name: string
-          scale: string
+          normalization?: string
+          period_id: string
+          position?: number | null
+          scale: Json
+          threshold_bands?: Json | null
           type: string
           updated_at?: string
           weight: number
         }
         Update: {
           category?: string
+          code?: string
           created_at?: string
           id?: string
           name?: string
-          scale?: string
+          normalization?: string
+          period_id?: string
+          position?: number | null
+          scale?: Json
+          threshold_bands?: Json | null
           type?: string
           updated_at?: string
           weight?: number
         }
+        Relationships: [
+          {
+            foreignKeyName: "criteria_category_fkey"
+            columns: ["category"]
+            isOneToOne: false
+            referencedRelation: "categories"
+            referencedColumns: ["name"]
+          },
+          {
+            foreignKeyName: "criteria_period_id_fkey"
+            columns: ["period_id"]
+            isOneToOne: false
+            referencedRelation: "evaluation_periods"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      criteria_weightings: {
+        Row: {
+          category_totals: Json
+          created_at: string
+          id: string
+          method: string
+          name: string
+          objective_weights: Json
+          sample_size: number
+          subjective_share: number
+          weights: Json
+        }
+        Insert: {
+          category_totals: Json
+          created_at?: string
+          id?: string
+          method: string
+          name: string
+          objective_weights: Json
+          sample_size?: number
+          subjective_share?: number
+          weights: Json
+        }
+        Update: {
+          category_totals?: Json
+          created_at?: string
+          id?: string
+          method?: string
+          name?: string
+          objective_weights?: Json
+          sample_size?: number
+          subjective_share?: number
+          weights?: Json
+        }
         Relationships: []
       }
       employee_evaluations: {
@@ -143,12 +263,43 @@ export type Database = {
         }
         Relationships: []
       }
+      evaluation_periods: {
+        Row: {
+          created_at: string
+          end_date: string
+          id: string
+          name: string
+          start_date: string
+          status: string
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          end_date: string
+          id?: string
+          name: string
+          start_date: string
+          status?: string
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          end_date?: string
+          id?: string
+          name?: string
+          start_date?: string
+          status?: string
+          updated_at?: string
+        }
+        Relationships: []
+      }
       evaluation_scores: {
         Row: {
           created_at: string
           criteria_id: string
           employee_id: string
           id: string
+          period_id: string
           score: number
           updated_at: string
         }
@@ -157,6 +308,7 @@ export type Database = {
           criteria_id: string
           employee_id: string
           id?: string
+          period_id?: string
           score?: number
           updated_at?: string
         }
@@ -165,6 +317,7 @@ export type Database = {
           criteria_id?: string
           employee_id?: string
           id?: string
+          period_id?: string
           score?: number
           updated_at?: string
         }
@@ -183,64 +336,320 @@ export type Database = {
             referencedRelation: "employees"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "evaluation_scores_period_id_fkey"
+            columns: ["period_id"]
+            isOneToOne: false
+            referencedRelation: "evaluation_periods"
+            referencedColumns: ["id"]
+          },
         ]
       }
+      evaluation_settings: {
+        Row: {
+          aggregation_method: string
+          created_at: string
+          id: string
+          updated_at: string
+        }
+        Insert: {
+          aggregation_method?: string
+          created_at?: string
+          id?: string
+          updated_at?: string
+        }
+        Update: {
+          aggregation_method?: string
+          created_at?: string
+          id?: string
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      evaluator_scores: {
+        Row: {
+          created_at: string
+          criteria_id: string
+          employee_id: string
+          evaluator_name: string
+          evaluator_type_id: string
+          id: string
+          period_id: string
+          score: number
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          criteria_id: string
+          employee_id: string
+          evaluator_name: string
+          evaluator_type_id: string
+          id?: string
+          period_id?: string
+          score?: number
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          criteria_id?: string
+          employee_id?: string
+          evaluator_name?: string
+          evaluator_type_id?: string
+          id?: string
+          period_id?: string
+          score?: number
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "evaluator_scores_criteria_id_fkey"
+            columns: ["criteria_id"]
+            isOneToOne: false
+            referencedRelation: "criteria"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "evaluator_scores_employee_id_fkey"
+            columns: ["employee_id"]
+            isOneToOne: false
+            referencedRelation: "employees"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "evaluator_scores_evaluator_type_id_fkey"
+            columns: ["evaluator_type_id"]
+            isOneToOne: false
+            referencedRelation: "evaluator_types"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "evaluator_scores_period_id_fkey"
+            columns: ["period_id"]
+            isOneToOne: false
+            referencedRelation: "evaluation_periods"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      evaluator_types: {
+        Row: {
+          code: string
+          created_at: string
+          id: string
+          name: string
+          position: number
+          updated_at: string
+          weight: number
+        }
+        Insert: {
+          code: string
+          created_at?: string
+          id?: string
+          name: string
+          position?: number
+          updated_at?: string
+          weight?: number
+        }
+        Update: {
+          code?: string
+          created_at?: string
+          id?: string
+          name?: string
+          position?: number
+          updated_at?: string
+          weight?: number
+        }
+        Relationships: []
+      }
+      ranking_settings: {
+        Row: {
+          created_at: string
+          id: string
+          tie_breakers: Json
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          tie_breakers?: Json
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          tie_breakers?: Json
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      recommendation_rules: {
+        Row: {
+          applies_to: string | null
+          conditions: Json
+          created_at: string
+          id: string
+          is_active: boolean
+          name: string
+          note: string | null
+          position: number
+          recommendation: string
+          terminates: boolean
+          updated_at: string
+        }
+        Insert: {
+          applies_to?: string | null
+          conditions?: Json
+          created_at?: string
+          id?: string
+          is_active?: boolean
+          name: string
+          note?: string | null
+          position?: number
+          recommendation: string
+          terminates?: boolean
+          updated_at?: string
+        }
+        Update: {
+          applies_to?: string | null
+          conditions?: Json
+          created_at?: string
+          id?: string
+          is_active?: boolean
+          name?: string
+          note?: string | null
+          position?: number
+          recommendation?: string
+          terminates?: boolean
+          updated_at?: string
+        }
+        Relationships: []
+      }
       saw_calculations: {
         Row: {
+          app_version: string | null
           calculation_date: string
           created_at: string
           id: string
+          is_official: boolean
+          label: string | null
+          method: string
+          missing_score_policy: Json | null
+          normalization_config: Json | null
+          period_id: string | null
+          run_by: string | null
+          snapshot: Json | null
+          tie_breakers: Json | null
           total_criteria: number
           total_employees: number
+          weighting_name: string | null
         }
         Insert: {
+          app_version?: string | null
           calculation_date?: string
           created_at?: string
           id?: string
+          is_official?: boolean
+          label?: string | null
+          method?: string
+          missing_score_policy?: Json | null
+          normalization_config?: Json | null
+          period_id?: string | null
+          run_by?: string | null
+          snapshot?: Json | null
+          tie_breakers?: Json | null
           total_criteria: number
           total_employees: number
+          weighting_name: string | null
         }
         Update: {
+          app_version?: string | null
           calculation_date?: string
           created_at?: string
           id?: string
+          is_official?: boolean
+          label?: string | null
+          method?: string
+          missing_score_policy?: Json | null
+          normalization_config?: Json | null
+          period_id?: string | null
+          run_by?: string | null
+          snapshot?: Json | null
+          tie_breakers?: Json | null
           total_criteria?: number
           total_employees?: number
+          weighting_name?: string | null
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "saw_calculations_period_id_fkey"
+            columns: ["period_id"]
+            isOneToOne: false
+            referencedRelation: "evaluation_periods"
+            referencedColumns: ["id"]
+          },
+        ]
       }
       saw_normalized_matrix: {
         Row: {
           calculation_date: string
+          calculation_id: string
+          category: string | null
           created_at: string
           criteria_code: string
+          criteria_id: string | null
+          criteria_name: string | null
           employee_id: string
           id: string
           normalized_value: number
+          period_id: string | null
           raw_value: number
           weight: number
         }
         Insert: {
           calculation_date?: string
+          calculation_id: string
+          category?: string | null
           created_at?: string
           criteria_code: string
+          criteria_id: string | null
+          criteria_name: string | null
           employee_id: string
           id?: string
           normalized_value: number
+          period_id?: string | null
           raw_value: number
           weight: number
         }
         Update: {
           calculation_date?: string
+          calculation_id?: string
+          category?: string | null
           created_at?: string
           criteria_code?: string
+          criteria_id?: string | null
+          criteria_name?: string | null
           employee_id?: string
           id?: string
           normalized_value?: number
+          period_id?: string | null
           raw_value?: number
           weight?: number
         }
         Relationships: [
+          {
+            foreignKeyName: "saw_normalized_matrix_calculation_id_fkey"
+            columns: ["calculation_id"]
+            isOneToOne: false
+            referencedRelation: "saw_calculations"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "saw_normalized_matrix_criteria_id_fkey"
+            columns: ["criteria_id"]
+            isOneToOne: false
+            referencedRelation: "criteria"
+            referencedColumns: ["id"]
+          },
           {
             foreignKeyName: "saw_normalized_matrix_employee_id_fkey"
             columns: ["employee_id"]
@@ -248,43 +657,72 @@ export type Database = {
             referencedRelation: "employees"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "saw_normalized_matrix_period_id_fkey"
+            columns: ["period_id"]
+            isOneToOne: false
+            referencedRelation: "evaluation_periods"
+            referencedColumns: ["id"]
+          },
         ]
       }
       saw_results: {
         Row: {
           calculation_date: string
+          calculation_id: string
           converted_score: number
           created_at: string
           employee_id: string
           final_score: number
           id: string
+          is_tied: boolean
           note: string | null
+          period_id: string | null
           rank: number
           recommendation: string
+          rule_name: string | null
+          tie_break_reason: string | null
         }
         Insert: {
           calculation_date?: string
+          calculation_id: string
           converted_score: number
           created_at?: string
           employee_id: string
           final_score: number
           id?: string
+          is_tied?: boolean
           note?: string | null
+          period_id?: string | null
           rank: number
           recommendation: string
+          rule_name?: string | null
+          tie_break_reason?: string | null
         }
         Update: {
           calculation_date?: string
+          calculation_id?: string
           converted_score?: number
           created_at?: string
           employee_id?: string
           final_score?: number
           id?: string
+          is_tied?: boolean
           note?: string | null
+          period_id?: string | null
           rank?: number
           recommendation?: string
+          rule_name?: string | null
+          tie_break_reason?: string | null
         }
         Relationships: [
+          {
+            foreignKeyName: "saw_results_calculation_id_fkey"
+            columns: ["calculation_id"]
+            isOneToOne: false
+            referencedRelation: "saw_calculations"
+            referencedColumns: ["id"]
+          },
           {
             foreignKeyName: "saw_results_employee_id_fkey"
             columns: ["employee_id"]
@@ -292,6 +730,13 @@ export type Database = {
             referencedRelation: "employees"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "saw_results_period_id_fkey"
+            columns: ["period_id"]
+            isOneToOne: false
+            referencedRelation: "evaluation_periods"
+            referencedColumns: ["id"]
+          },
         ]
       }
     }
@@ -299,7 +744,44 @@ export type Database = {
       [_ in never]: never
     }
     Functions: {
-      [_ in never]: never
+      calculate_saw: {
+        Args: {
+          p_missing_score_policy?: Json
+          p_period_id: string
+          p_run_by?: string
+          p_save?: boolean
+        }
+        Returns: Json
+      }
+      save_saw_calculation: {
+        Args: {
+          p_calculation: Json
+          p_matrix: Json
+          p_results: Json
+        }
+        Returns: string
+      }
+      saw_compare: {
+        Args: {
+          p_actual: number
+          p_expected: number
+          p_operator: string
+        }
+        Returns: boolean
+      }
+      saw_describe_tie_breaker: {
+        Args: {
+          p_tie_breaker: Json
+        }
+        Returns: string
+      }
+      saw_first_difference: {
+        Args: {
+          p_keys_a: number[]
+          p_keys_b: number[]
+        }
+        Returns: number
+      }
     }
     Enums: {
       [_ in never]: never
@@ -0,0 +1,62 @@
+export type AggregationMethod = 'weighted_mean' | 'geometric_mean';
+
+export const AGGREGATION_METHODS: { value: AggregationMethod; label: string; description: string }[] = [
+  {
+    value: 'weighted_mean',
+    label: 'Rata-rata Tertimbang',
+    description: 'Σ bobot jenis penilai × rata-rata nilai jenis tersebut / Σ bobot'
+  },
+  {
+    value: 'geometric_mean',
+    label: 'Rata-rata Geometrik Tertimbang',
+    description: 'Π (nilai + 1)^(bobot / Σ bobot) - 1; nilai 0 digeser +1 seperti pada WP agar tetap terdefinisi'
+  }
+];
+
+export const DEFAULT_AGGREGATION_METHOD: AggregationMethod = 'weighted_mean';
+
+export const getAggregationLabel = (method: AggregationMethod): string =>
+  AGGREGATION_METHODS.find(item => item.value === method)?.label || method;
+
+// Satu nilai dari seorang penilai untuk satu karyawan × kriteria
+export interface EvaluatorScoreEntry {
+  evaluatorTypeId: string;
+  score: number;
+}
+
+const arithmeticMean = (values: number[]): number =>
+  values.reduce((sum, value) => sum + value, 0) / values.length;
+
+const shiftedGeometricMean = (values: number[]): number =>
+  Math.exp(values.reduce((sum, value) => sum + Math.log(value + 1), 0) / values.length) - 1;
+
+/**
+ * Menggabungkan nilai beberapa penilai menjadi satu nilai decision matrix.
+ * Nilai penilai dengan jenis yang sama dirata-ratakan dulu, lalu digabung antarjenis memakai
+ * bobot jenis penilai. Jenis tanpa nilai diabaikan dan bobot sisanya dinormalisasi ulang.
+ * Mengembalikan null bila tidak ada nilai dari jenis penilai berbobot positif.
+ */
+export const aggregateEvaluatorScores = (
+  entries: EvaluatorScoreEntry[],
+  typeWeights: { [evaluatorTypeId: string]: number },
+  method: AggregationMethod = DEFAULT_AGGREGATION_METHOD
+): number | null => {
+  const byType = new Map<string, number[]>();
+  entries.forEach(entry => {
+    if (!((typeWeights[entry.evaluatorTypeId] ?? 0) > 0)) return;
+    byType.set(entry.evaluatorTypeId, [...(byType.get(entry.evaluatorTypeId) || []), entry.score]);
+  });
+
+  const groups = Array.from(byType.entries()).map(([typeId, scores]) => ({
+    weight: typeWeights[typeId],
+    value: method === 'geometric_mean' ? shiftedGeometricMean(scores) : arithmeticMean(scores)
+  }));
+  const totalWeight = groups.reduce((sum, group) => sum + group.weight, 0);
+  if (groups.length === 0 || totalWeight <= 0) return null;
+
+  const aggregated = method === 'geometric_mean'
+    ? Math.exp(groups.reduce((sum, group) => sum + (group.weight / totalWeight) * Math.log(group.value + 1), 0)) - 1
+    : groups.reduce((sum, group) => sum + (group.weight / totalWeight) * group.value, 0);
+
+  return parseFloat(aggregated.toFixed(2));
+};
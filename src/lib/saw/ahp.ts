@@ -0,0 +1,85 @@
+// Skala perbandingan Saaty (1-9) beserta kebalikannya
+export const SAATY_SCALE: { value: number; label: string }[] = [
+  { value: 9, label: "9 - Mutlak lebih penting" },
+  { value: 7, label: "7 - Sangat lebih penting" },
+  { value: 5, label: "5 - Lebih penting" },
+  { value: 3, label: "3 - Sedikit lebih penting" },
+  { value: 2, label: "2 - Antara sama dan sedikit" },
+  { value: 1, label: "1 - Sama penting" },
+  { value: 1 / 2, label: "1/2 - Antara sama dan sedikit (kebalikan)" },
+  { value: 1 / 3, label: "1/3 - Sedikit kurang penting" },
+  { value: 1 / 5, label: "1/5 - Kurang penting" },
+  { value: 1 / 7, label: "1/7 - Sangat kurang penting" },
+  { value: 1 / 9, label: "1/9 - Mutlak kurang penting" }
+];
+
+// Random Index (Saaty) untuk ukuran matriks 1..15
+const RANDOM_INDEX = [0, 0, 0, 0.58, 0.9, 1.12, 1.24, 1.32, 1.41, 1.45, 1.49, 1.51, 1.48, 1.56, 1.57, 1.59];
+
+// Batas rasio konsistensi yang masih dapat diterima
+export const MAX_CONSISTENCY_RATIO = 0.1;
+
+export interface AHPResult {
+  priorities: number[]; // Vektor prioritas, berjumlah 1
+  lambdaMax: number;
+  consistencyIndex: number;
+  consistencyRatio: number;
+  isConsistent: boolean;
+}
+
+// Matriks identitas n×n sebagai titik awal perbandingan berpasangan
+export const createComparisonMatrix = (size: number): number[][] => {
+  return Array.from({ length: size }, () => new Array(size).fill(1));
+};
+
+// Mengisi a_ij dan kebalikannya a_ji = 1 / a_ij
+export const setComparison = (matrix: number[][], i: number, j: number, value: number): number[][] => {
+  const next = matrix.map(row => [...row]);
+  next[i][j] = value;
+  next[j][i] = 1 / value;
+  return next;
+};
+
+/**
+ * Menghitung vektor prioritas dengan metode rata-rata geometrik baris,
+ * lalu λmax, Consistency Index (CI), dan Consistency Ratio (CR = CI / RI).
+ */
+export const calculateAHP = (matrix: number[][]): AHPResult => {
+  const n = matrix.length;
+  if (n === 0) {
+    return { priorities: [], lambdaMax: 0, consistencyIndex: 0, consistencyRatio: 0, isConsistent: true };
+  }
+
+  const geometricMeans = matrix.map(row => Math.pow(row.reduce((product, value) => product * value, 1), 1 / n));
+  const total = geometricMeans.reduce((sum, value) => sum + value, 0);
+  const priorities = geometricMeans.map(value => value / total);
+
+  const weightedSums = matrix.map(row => row.reduce((sum, value, j) => sum + value * priorities[j], 0));
+  const lambdaMax = weightedSums.reduce((sum, value, i) => sum + value / priorities[i], 0) / n;
+  const consistencyIndex = n > 1 ? (lambdaMax - n) / (n - 1) : 0;
+  const randomIndex = RANDOM_INDEX[n] ?? RANDOM_INDEX[RANDOM_INDEX.length - 1];
+  const consistencyRatio = randomIndex > 0 ? Math.max(consistencyIndex, 0) / randomIndex : 0;
+
+  return {
+    priorities,
+    lambdaMax,
+    consistencyIndex,
+    consistencyRatio,
+    isConsistent: consistencyRatio <= MAX_CONSISTENCY_RATIO
+  };
+};
+
+/**
+ * Membagi `total` (persen) sesuai vektor prioritas dengan pembulatan 2 desimal.
+ * Selisih pembulatan dibebankan ke prioritas terbesar agar jumlahnya tepat `total`.
+ */
+export const distributeWeights = (total: number, priorities: number[]): number[] => {
+  if (priorities.length === 0) return [];
+
+  const weights = priorities.map(priority => Math.round(total * priority * 100) / 100);
+  const difference = Math.round((total - weights.reduce((sum, value) => sum + value, 0)) * 100) / 100;
+  const largestIndex = priorities.indexOf(Math.max(...priorities));
+  weights[largestIndex] = Math.round((weights[largestIndex] + difference) * 100) / 100;
+
+  return weights;
+};
@@ -0,0 +1,102 @@
+import { compareCategories } from "./categories";
+import { CATEGORY_ORDER } from "./criteria";
+import { TERMINATED_RANK } from "./engine";
+import { EXTENSION_THRESHOLD } from "./recommendation";
+
+// Satu kolom matriks ternormalisasi yang tersimpan untuk seorang karyawan
+export interface ContributionRow {
+  code: string; // Kode kriteria saat perhitungan, mis. C1
+  order?: number; // Urutan tampilan kriteria saat ini; tanpa urutan, baris diurutkan menurut nomor kode
+  name: string;
+  category: string;
+  rawValue: number;
+  normalizedValue: number;
+  weight: number; // Bobot desimal (0-1)
+  contribution: number; // normalizedValue × weight, pada skala skor akhir 0-1
+}
+
+export interface CategoryContribution {
+  category: string;
+  rows: ContributionRow[];
+  subtotal: number;
+}
+
+export interface WaterfallStep {
+  label: string;
+  category: string;
+  base: number; // Skor kumulatif sebelum langkah ini (skala konversi 0-5)
+  value: number; // Kontribusi langkah ini (skala konversi 0-5)
+  isTotal: boolean;
+}
+
+export interface ScoreGap {
+  target: number; // Skor akhir (0-1) yang harus dicapai
+  finalScoreGap: number; // Selisih skor akhir, 0 jika sudah tercapai
+  convertedGap: number; // Selisih pada skala konversi 0-5
+}
+
+const codeNumber = (code: string): number => parseInt(code.replace(/\D/g, ''), 10) || 0;
+
+// Mengelompokkan kontribusi per kategori sesuai urutan kategori, kategori lain di akhir
+export const groupContributionsByCategory = (
+  rows: ContributionRow[],
+  categoryOrder: string[] = CATEGORY_ORDER
+): CategoryContribution[] => {
+  const categories = Array.from(new Set(rows.map(row => row.category))).sort(compareCategories(categoryOrder));
+
+  return categories.map(category => {
+    const categoryRows = rows
+      .filter(row => row.category === category)
+      .sort((a, b) => a.order !== undefined && b.order !== undefined
+        ? a.order - b.order
+        : codeNumber(a.code) - codeNumber(b.code));
+    return {
+      category,
+      rows: categoryRows,
+      subtotal: categoryRows.reduce((sum, row) => sum + row.contribution, 0)
+    };
+  });
+};
+
+// Langkah diagram waterfall: tiap kriteria menambah skor kumulatif, diakhiri batang total
+export const buildWaterfallSteps = (groups: CategoryContribution[], scale: number = 5): WaterfallStep[] => {
+  const steps: WaterfallStep[] = [];
+  let cumulative = 0;
+
+  groups.forEach(group => {
+    group.rows.forEach(row => {
+      const value = row.contribution * scale;
+      steps.push({ label: row.code, category: group.category, base: cumulative, value, isTotal: false });
+      cumulative += value;
+    });
+  });
+
+  steps.push({ label: 'Total', category: '', base: 0, value: cumulative, isTotal: true });
+  return steps;
+};
+
+const toGap = (finalScore: number, target: number): ScoreGap => {
+  const finalScoreGap = Math.max(0, target - finalScore);
+  return { target, finalScoreGap, convertedGap: finalScoreGap * 5 };
+};
+
+/**
+ * Selisih skor akhir terhadap karyawan satu peringkat di atasnya (peringkat terdekat yang lebih baik).
+ * Null untuk peringkat 1 dan karyawan yang diberhentikan otomatis.
+ */
+export const getGapToNextRank = (
+  scores: { rank: number; finalScore: number }[],
+  current: { rank: number; finalScore: number }
+): (ScoreGap & { rank: number }) | null => {
+  if (current.rank === TERMINATED_RANK) return null;
+
+  const higher = scores
+    .filter(score => score.rank !== TERMINATED_RANK && score.rank < current.rank)
+    .sort((a, b) => b.rank - a.rank)[0];
+
+  return higher ? { ...toGap(current.finalScore, higher.finalScore), rank: higher.rank } : null;
+};
+
+// Selisih skor akhir terhadap ambang perpanjangan kontrak (skor konversi 3.0)
+export const getGapToThreshold = (finalScore: number, convertedThreshold: number = EXTENSION_THRESHOLD): ScoreGap =>
+  toGap(finalScore, convertedThreshold / 5);
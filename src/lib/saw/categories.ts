@@ -0,0 +1,73 @@
+// Total bobot seluruh kategori yang harus dicapai (persen)
+export const CATEGORY_TOTAL_TARGET = 100;
+
+// Bentuk baris tabel categories yang dibutuhkan engine
+export interface CategoryRow {
+  name: string;
+  position: number;
+  total_weight: number;
+  description?: string | null;
+}
+
+export interface CategoryDefinition {
+  name: string;
+  position: number;
+  totalWeight: number;
+  description: string | null;
+}
+
+// Kategori bawaan, dipakai bila tabel categories belum tersedia atau kosong
+export const DEFAULT_CATEGORIES: CategoryDefinition[] = [
+  { name: 'A. Kinerja Inti', position: 1, totalWeight: 60, description: 'Kualitas dan hasil kerja utama karyawan' },
+  { name: 'B. Kedisiplinan', position: 2, totalWeight: 25, description: 'Kehadiran dan ketepatan waktu' },
+  { name: 'C. Faktor Tambahan', position: 3, totalWeight: 15, description: 'Prestasi dan surat peringatan' }
+];
+
+export const toCategoryDefinition = (row: CategoryRow): CategoryDefinition => ({
+  name: row.name,
+  position: row.position,
+  totalWeight: Number(row.total_weight) || 0,
+  description: row.description ?? null
+});
+
+// Nama kategori sesuai urutan tampilan (position)
+export const getCategoryOrder = (categories: CategoryDefinition[]): string[] =>
+  [...categories].sort((a, b) => a.position - b.position).map(category => category.name);
+
+// Target total bobot per kategori
+export const getCategoryTotals = (categories: CategoryDefinition[]): { [category: string]: number } =>
+  Object.fromEntries(getCategoryOrder(categories).map(name => [
+    name,
+    categories.find(category => category.name === name)?.totalWeight ?? 0
+  ]));
+
+// Mengembalikan pesan error jika daftar kategori tidak valid, null jika valid
+export const validateCategories = (categories: CategoryDefinition[]): string | null => {
+  if (categories.length === 0) return 'Minimal harus ada satu kategori';
+
+  const names = categories.map(category => category.name.trim());
+  if (names.some(name => !name)) return 'Nama kategori wajib diisi';
+  if (new Set(names).size !== names.length) return 'Nama kategori tidak boleh sama';
+  if (categories.some(category => category.totalWeight < 0)) return 'Total bobot kategori tidak boleh negatif';
+
+  const total = Math.round(categories.reduce((sum, category) => sum + category.totalWeight, 0) * 100) / 100;
+  if (total !== CATEGORY_TOTAL_TARGET) {
+    return `Total bobot semua kategori harus ${CATEGORY_TOTAL_TARGET}% (saat ini ${total}%)`;
+  }
+
+  return null;
+};
+
+// Mengurutkan nama kategori sesuai urutan yang diberikan, kategori lain di akhir secara alfabetis
+export const compareCategories = (categoryOrder: string[]) => (a: string, b: string): number => {
+  const indexA = categoryOrder.indexOf(a);
+  const indexB = categoryOrder.indexOf(b);
+  if (indexA === -1 && indexB === -1) return a.localeCompare(b);
+  if (indexA === -1) return 1;
+  if (indexB === -1) return -1;
+  return indexA - indexB;
+};
+
+// Urutan kategori dari baris tabel categories; kategori bawaan bila tabel kosong atau gagal dimuat
+export const resolveCategoryOrder = (rows: CategoryRow[] | null | undefined): string[] =>
+  getCategoryOrder(rows && rows.length > 0 ? rows.map(toCategoryDefinition) : DEFAULT_CATEGORIES);
@@ -0,0 +1,63 @@
+import { TERMINATED_RANK } from "./engine";
+import type { SAWScore } from "./types";
+
+export interface RankComparisonRow {
+  index: number;
+  rankA: number;
+  rankB: number;
+  difference: number; // rankB - rankA, positif berarti turun peringkat
+}
+
+export interface RankComparison {
+  rows: RankComparisonRow[];
+  spearman: number | null; // null jika kurang dari 2 karyawan yang dapat dibandingkan
+}
+
+const pearson = (a: number[], b: number[]): number => {
+  const n = a.length;
+  const meanA = a.reduce((sum, value) => sum + value, 0) / n;
+  const meanB = b.reduce((sum, value) => sum + value, 0) / n;
+  let covariance = 0;
+  let varianceA = 0;
+  let varianceB = 0;
+  for (let i = 0; i < n; i++) {
+    covariance += (a[i] - meanA) * (b[i] - meanB);
+    varianceA += (a[i] - meanA) ** 2;
+    varianceB += (b[i] - meanB) ** 2;
+  }
+  if (varianceA === 0 || varianceB === 0) return varianceA === varianceB ? 1 : 0;
+  return covariance / Math.sqrt(varianceA * varianceB);
+};
+
+/**
+ * Korelasi peringkat Spearman, dihitung sebagai korelasi Pearson antar peringkat
+ * sehingga peringkat kembar tetap ditangani dengan benar.
+ */
+export const spearmanCorrelation = (ranksA: number[], ranksB: number[]): number | null => {
+  if (ranksA.length < 2 || ranksA.length !== ranksB.length) return null;
+  return pearson(ranksA, ranksB);
+};
+
+/**
+ * Membandingkan peringkat dua hasil perhitungan atas decision matrix yang sama.
+ * Karyawan yang diberhentikan otomatis tidak ikut dalam korelasi.
+ */
+export const compareRankings = (scoresA: SAWScore[], scoresB: SAWScore[]): RankComparison => {
+  const rankBByIndex = new Map(scoresB.map(score => [score.index, score.rank]));
+
+  const rows: RankComparisonRow[] = scoresA.map(score => {
+    const rankB = rankBByIndex.get(score.index) ?? TERMINATED_RANK;
+    return {
+      index: score.index,
+      rankA: score.rank,
+      rankB,
+      difference: rankB - score.rank
+    };
+  });
+
+  const ranked = rows.filter(row => row.rankA !== TERMINATED_RANK && row.rankB !== TERMINATED_RANK);
+  return {
+    rows,
+    spearman: spearmanCorrelation(ranked.map(row => row.rankA), ranked.map(row => row.rankB))
+  };
+};
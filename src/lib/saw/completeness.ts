@@ -0,0 +1,150 @@
+import type { MissingScore, MissingScorePolicy, MissingScoreReport, SAWCriterion } from "./types";
+import { getScaleDefaultValue } from "./scale";
+
+export const MISSING_SCORE_POLICIES: { value: MissingScorePolicy; label: string; description: string }[] = [
+  {
+    value: 'exclude',
+    label: 'Keluarkan dari perhitungan',
+    description: 'Karyawan dengan nilai kosong tidak ikut dinormalisasi maupun diranking'
+  },
+  {
+    value: 'categoryMean',
+    label: 'Isi rata-rata kategori',
+    description: 'Nilai kosong diisi rata-rata nilai karyawan tersebut pada kriteria lain dalam kategori yang sama'
+  },
+  {
+    value: 'default',
+    label: 'Isi nilai bawaan per kriteria',
+    description: 'Nilai kosong diisi nilai bawaan yang ditentukan untuk setiap kriteria'
+  }
+];
+
+export const getMissingScorePolicyLabel = (policy: MissingScorePolicy): string =>
+  MISSING_SCORE_POLICIES.find(item => item.value === policy)?.label || policy;
+
+export const scoreKey = (recordId: string, criterionId: string): string => `${recordId}:${criterionId}`;
+
+// Semua pasangan karyawan × kriteria yang belum memiliki nilai evaluasi tersimpan
+export const findMissingScores = (
+  recordIds: string[],
+  criteria: Pick<SAWCriterion, 'id'>[],
+  scoredKeys: Set<string>
+): MissingScore[] => {
+  const missing: MissingScore[] = [];
+  recordIds.forEach((recordId, recordIndex) => {
+    criteria.forEach((criterion, criterionIndex) => {
+      if (!scoredKeys.has(scoreKey(recordId, criterion.id))) {
+        missing.push({ recordIndex, criterionIndex });
+      }
+    });
+  });
+  return missing;
+};
+
+// Nilai bawaan awal per kriteria: nilai awal form evaluasi sesuai skala dan jenis kriteria
+export const getDefaultMissingValues = (criteria: SAWCriterion[]): { [criterionId: string]: number } =>
+  Object.fromEntries(criteria.map(criterion => [criterion.id, getScaleDefaultValue(criterion.scale, criterion.type)]));
+
+const clampToScale = (value: number, criterion: SAWCriterion): number => {
+  const { min, max } = criterion.scale;
+  const clamped = Math.max(min, max === null ? value : Math.min(max, value));
+  return parseFloat(clamped.toFixed(4));
+};
+
+/**
+ * Rata-rata nilai terisi karyawan pada kriteria lain dalam kategori yang sama.
+ * Jika tidak ada, dipakai rata-rata kriteria itu pada karyawan lain yang sudah dinilai,
+ * lalu nilai bawaan skala bila kolom sama sekali kosong.
+ */
+const imputeCategoryMean = (
+  matrix: number[][],
+  criteria: SAWCriterion[],
+  isMissing: (i: number, j: number) => boolean,
+  i: number,
+  j: number
+): number => {
+  const criterion = criteria[j];
+  const sameCategory = criteria
+    .map((item, index) => ({ item, index }))
+    .filter(({ item, index }) => index !== j && item.category === criterion.category && !isMissing(i, index))
+    .map(({ index }) => matrix[i][index]);
+
+  if (sameCategory.length > 0) {
+    return clampToScale(sameCategory.reduce((sum, value) => sum + value, 0) / sameCategory.length, criterion);
+  }
+
+  const column = matrix.map((row, index) => ({ value: row[j], index })).filter(({ index }) => !isMissing(index, j));
+  if (column.length > 0) {
+    return clampToScale(column.reduce((sum, { value }) => sum + value, 0) / column.length, criterion);
+  }
+
+  return getScaleDefaultValue(criterion.scale, criterion.type);
+};
+
+export interface MissingScoreResolution {
+  matrix: number[][]; // Decision matrix setelah kebijakan diterapkan
+  includedIndices: number[]; // Indeks baris asal yang tetap ikut dihitung
+  imputedValues: (number | null)[]; // Nilai pengganti per entri `missing`, null jika dikeluarkan
+}
+
+// Menerapkan kebijakan nilai kosong pada decision matrix sebelum normalisasi
+export const resolveMissingScores = (
+  matrix: number[][],
+  criteria: SAWCriterion[],
+  missing: MissingScore[],
+  policy: MissingScorePolicy,
+  defaults: { [criterionId: string]: number } = {}
+): MissingScoreResolution => {
+  const missingKeys = new Set(missing.map(gap => `${gap.recordIndex}:${gap.criterionIndex}`));
+  const isMissing = (i: number, j: number) => missingKeys.has(`${i}:${j}`);
+
+  if (policy === 'exclude') {
+    const includedIndices = matrix.map((_, i) => i).filter(i => !missing.some(gap => gap.recordIndex === i));
+    return {
+      matrix: includedIndices.map(i => [...matrix[i]]),
+      includedIndices,
+      imputedValues: missing.map(() => null)
+    };
+  }
+
+  const imputedValues = missing.map(({ recordIndex, criterionIndex }) => {
+    const criterion = criteria[criterionIndex];
+    return policy === 'default'
+      ? defaults[criterion.id] ?? getScaleDefaultValue(criterion.scale, criterion.type)
+      : imputeCategoryMean(matrix, criteria, isMissing, recordIndex, criterionIndex);
+  });
+
+  // Nilai pengganti dihitung dari matrix asli agar urutan pengisian tidak memengaruhi hasil
+  const resolved = matrix.map(row => [...row]);
+  missing.forEach(({ recordIndex, criterionIndex }, k) => {
+    resolved[recordIndex][criterionIndex] = imputedValues[k] as number;
+  });
+
+  return {
+    matrix: resolved,
+    includedIndices: matrix.map((_, i) => i),
+    imputedValues
+  };
+};
+
+// Catatan kebijakan nilai kosong untuk disimpan bersama hasil perhitungan
+export const buildMissingScoreReport = (
+  recordIds: string[],
+  criteria: SAWCriterion[],
+  missing: MissingScore[],
+  policy: MissingScorePolicy,
+  resolution: MissingScoreResolution
+): MissingScoreReport => ({
+  policy,
+  // Nilai bawaan yang benar-benar dipakai, hanya untuk kriteria yang memiliki nilai kosong
+  defaults: policy === 'default'
+    ? Object.fromEntries(missing.map((gap, k) => [criteria[gap.criterionIndex].id, resolution.imputedValues[k] as number]))
+    : null,
+  gaps: missing.map((gap, k) => ({
+    employeeId: recordIds[gap.recordIndex],
+    criterionId: criteria[gap.criterionIndex].id,
+    criterionName: criteria[gap.criterionIndex].name,
+    value: resolution.imputedValues[k]
+  })),
+  excludedEmployeeIds: recordIds.filter((_, i) => !resolution.includedIndices.includes(i))
+});
@@ -0,0 +1,149 @@
+import { DEFAULT_CATEGORIES, compareCategories, getCategoryOrder } from "./categories";
+import { DEFAULT_NORMALIZATION, NORMALIZATION_STRATEGIES, parseThresholdBands } from "./normalize";
+import { parseScale } from "./scale";
+import type { EvaluatedRecord, NormalizationStrategy, SAWCriterion } from "./types";
+
+// Bentuk baris tabel criteria yang dibutuhkan untuk membangun SAWCriterion
+export interface CriterionRow {
+  id: string;
+  name: string;
+  type: string;
+  weight: number;
+  category: string;
+  scale: unknown;
+  normalization?: string | null;
+  threshold_bands?: unknown;
+  code?: string | null;
+  position?: number | null;
+}
+
+// Urutan kategori bawaan; urutan aktif dibaca dari tabel categories
+export const CATEGORY_ORDER = getCategoryOrder(DEFAULT_CATEGORIES);
+
+// Konstanta untuk urutan kriteria kanonis dalam setiap kategori
+export const CANONICAL_CRITERIA_ORDER: { [category: string]: string[] } = {
+  'A. Kinerja Inti': [
+    'Kualitas Kerja',
+    'Tanggung Jawab',
+    'Kuantitas Kerja',
+    'Pemahaman Tugas',
+    'Inisiatif',
+    'Kerjasama'
+  ],
+  'B. Kedisiplinan': [
+    'Jumlah Hari Alpa',
+    'Jumlah Keterlambatan',
+    'Jumlah Hari Izin',
+    'Jumlah Hari Sakit',
+    'Pulang Cepat'
+  ],
+  'C. Faktor Tambahan': [
+    'Prestasi',
+    'Surat Peringatan'
+  ]
+};
+
+// Mapping khusus untuk kriteria yang sudah ada di Employee interface
+const SPECIAL_FIELD_MAPPINGS: { [fieldName: string]: string } = {
+  'kualitas_kerja': 'kualitasKerja',
+  'tanggung_jawab': 'tanggungJawab',
+  'kuantitas_kerja': 'kuantitasKerja',
+  'pemahaman_tugas': 'pemahamanTugas',
+  'inisiatif': 'inisiatif',
+  'kerjasama': 'kerjasama',
+  'jumlah_hari_alpa': 'hariAlpa',
+  'jumlah_keterlambatan': 'keterlambatan',
+  'jumlah_hari_izin': 'hariIzin',
+  'jumlah_hari_sakit': 'hariSakit',
+  'pulang_cepat': 'pulangCepat',
+  'prestasi': 'prestasi',
+  'surat_peringatan': 'suratPeringatan'
+};
+
+// Mengkonversi nama kriteria menjadi field name yang konsisten
+export const createFieldName = (criteriaName: string): string => {
+  return criteriaName
+    .toLowerCase()
+    .replace(/[^a-z0-9\s]/g, '') // Hapus karakter khusus
+    .replace(/\s+/g, '_') // Ganti spasi dengan underscore
+    .replace(/^_+|_+$/g, '') // Hapus underscore di awal/akhir
+    .replace(/_+/g, '_'); // Ganti multiple underscore dengan single
+};
+
+// Mapping dari nama kriteria ke field Employee interface
+export const createEmployeeFieldMapping = (criteriaName: string): string => {
+  return SPECIAL_FIELD_MAPPINGS[createFieldName(criteriaName)] || criteriaName;
+};
+
+// Mengurutkan kriteria berdasarkan kategori dan urutan kanonis (tidak mengubah array asli)
+export const sortCriteria = <T extends SAWCriterion>(criteria: T[], categoryOrder: string[] = CATEGORY_ORDER): T[] => {
+  const byCategory = compareCategories(categoryOrder);
+  return [...criteria].sort((a, b) => {
+    // Kategori yang tidak ada dalam categoryOrder diletakkan di akhir
+    const categoryComparison = byCategory(a.category, b.category);
+    if (categoryComparison !== 0) return categoryComparison;
+
+    // Urutan tersimpan dari admin didahulukan; kriteria tanpa urutan diletakkan setelahnya
+    const hasPositionA = a.position !== undefined && a.position !== null;
+    const hasPositionB = b.position !== undefined && b.position !== null;
+    if (hasPositionA && hasPositionB && a.position !== b.position) return (a.position as number) - (b.position as number);
+    if (hasPositionA !== hasPositionB) return hasPositionA ? -1 : 1;
+
+    const canonicalOrder = CANONICAL_CRITERIA_ORDER[a.category];
+    if (canonicalOrder) {
+      const indexA = canonicalOrder.indexOf(a.name);
+      const indexB = canonicalOrder.indexOf(b.name);
+
+      if (indexA !== -1 && indexB !== -1) return indexA - indexB;
+      if (indexA !== -1) return -1;
+      if (indexB !== -1) return 1;
+    }
+
+    return a.name.localeCompare(b.name);
+  });
+};
+
+// Kode kriteria untuk tampilan dan penyimpanan; kode posisi (C1, C2, ...) hanya untuk kriteria lama tanpa kode
+export const getCriterionCode = (criterion: Pick<SAWCriterion, 'code'>, index: number): string =>
+  criterion.code || `C${index + 1}`;
+
+// Saran kode berikutnya: nomor terbesar dari kode berpola C<n> ditambah satu
+export const suggestCriterionCode = (codes: (string | null | undefined)[]): string => {
+  const numbers = codes
+    .map(code => /^C(\d+)$/i.exec(code || ''))
+    .filter((match): match is RegExpExecArray => match !== null)
+    .map(match => parseInt(match[1], 10));
+  return `C${numbers.length > 0 ? Math.max(...numbers) + 1 : 1}`;
+};
+
+// Mengambil nilai mentah sebuah kriteria dari data evaluasi karyawan
+export const getCriterionValue = (record: EvaluatedRecord, criterion: Pick<SAWCriterion, 'name'>): number => {
+  const employeeFieldName = createEmployeeFieldMapping(criterion.name);
+  const value = typeof record[employeeFieldName] !== 'undefined'
+    ? record[employeeFieldName]
+    : record[criterion.name]; // Kriteria dinamis memakai nama kriteria langsung
+  return Number(value) || 0;
+};
+
+// Membangun decision matrix (baris = karyawan, kolom = kriteria)
+export const buildDecisionMatrix = (records: EvaluatedRecord[], criteria: SAWCriterion[]): number[][] => {
+  return records.map(record => criteria.map(criterion => getCriterionValue(record, criterion)));
+};
+
+// Mengubah baris tabel criteria menjadi kriteria engine, termasuk strategi normalisasinya
+export const toSAWCriterion = (row: CriterionRow): SAWCriterion => {
+  const isKnownStrategy = NORMALIZATION_STRATEGIES.some(item => item.value === row.normalization);
+
+  return {
+    id: row.id,
+    name: row.name,
+    type: row.type as 'Benefit' | 'Cost',
+    weight: row.weight,
+    category: row.category,
+    scale: parseScale(row.scale),
+    normalization: isKnownStrategy ? row.normalization as NormalizationStrategy : DEFAULT_NORMALIZATION,
+    thresholdBands: parseThresholdBands(row.threshold_bands),
+    code: row.code || undefined,
+    position: row.position ?? null
+  };
+};
@@ -0,0 +1,89 @@
+import { describe, expect, it } from "vitest";
+import { TERMINATED_RANK, calculateSAW, rankScores } from "./engine";
+import { SHARED_RANK_REASON } from "./tiebreak";
+import { DEFAULT_SCALES } from "./scale";
+import { NOTE_PROMOTION, RECOMMENDATION_EXTEND, RECOMMENDATION_TERMINATE } from "./recommendation";
+import type { SAWCriterion } from "./types";
+
+const criteria: SAWCriterion[] = [
+  { id: 'kualitas', name: 'Kualitas Kerja', type: 'Benefit', weight: 60, category: 'A. Kinerja Inti', scale: DEFAULT_SCALES.likert },
+  { id: 'alpa', name: 'Jumlah Hari Alpa', type: 'Cost', weight: 40, category: 'B. Kedisiplinan', scale: DEFAULT_SCALES.count }
+];
+
+describe('calculateSAW', () => {
+  it('computes the weighted sum of normalized values', () => {
+    const { scores, weights } = calculateSAW(criteria, [[5, 0], [4, 2]]);
+
+    expect(weights).toEqual([0.6, 0.4]);
+    expect(scores.find(score => score.index === 0)?.finalScore).toBeCloseTo(1);
+    expect(scores.find(score => score.index === 1)?.finalScore).toBeCloseTo(0.48);
+  });
+
+  it('ranks the highest score first and returns scores in rank order', () => {
+    const { scores } = calculateSAW(criteria, [[3, 0], [5, 0], [4, 0]]);
+
+    expect(scores.map(score => score.index)).toEqual([1, 2, 0]);
+    expect(scores.map(score => score.rank)).toEqual([1, 2, 3]);
+  });
+
+  it('converts scores to the 0-5 scale with two decimals', () => {
+    const { scores } = calculateSAW(criteria, [[4, 2]]);
+    expect(scores[0].convertedScore).toBe(2.4);
+  });
+
+  it('applies the promotion, extension and termination thresholds', () => {
+    // Skor konversi: 5.00, 3.80, 2.60
+    const { scores } = calculateSAW(criteria, [[5, 0], [3, 0], [1, 0]]);
+    const byIndex = (index: number) => scores.find(score => score.index === index);
+
+    expect(byIndex(0)).toMatchObject({ convertedScore: 5, recommendation: RECOMMENDATION_EXTEND, note: NOTE_PROMOTION });
+    expect(byIndex(1)).toMatchObject({ convertedScore: 3.8, recommendation: RECOMMENDATION_EXTEND });
+    expect(byIndex(1)?.note).toBeUndefined();
+    expect(byIndex(2)).toMatchObject({ convertedScore: 2.6, recommendation: RECOMMENDATION_TERMINATE });
+  });
+
+  it('treats the thresholds as inclusive', () => {
+    const equalWeights = criteria.map(criterion => ({ ...criterion, weight: 50 }));
+    // (0.6 + 1) / 2 × 5 = 4.00 dan (0.2 + 1) / 2 × 5 = 3.00
+    const { scores } = calculateSAW(equalWeights, [[3, 0], [1, 0]]);
+
+    expect(scores[0]).toMatchObject({ convertedScore: 4, note: NOTE_PROMOTION });
+    expect(scores[1]).toMatchObject({ convertedScore: 3, recommendation: RECOMMENDATION_EXTEND });
+  });
+
+  it('auto-terminates more than 10 days of absence and ranks it last', () => {
+    const { scores } = calculateSAW(criteria, [[5, 11], [2, 0]]);
+    const terminated = scores.find(score => score.index === 0);
+
+    expect(terminated).toMatchObject({ isAutoTerminated: true, rank: TERMINATED_RANK, recommendation: RECOMMENDATION_TERMINATE });
+    expect(terminated?.note).toContain('11 hari');
+    expect(scores[scores.length - 1].index).toBe(0);
+    expect(scores[0]).toMatchObject({ index: 1, rank: 1 });
+  });
+});
+
+describe('rankScores', () => {
+  const score = (index: number, finalScore: number) => ({
+    index, finalScore, rank: 0, isAutoTerminated: false, isTied: false, tieBreakReason: null as string | null
+  });
+
+  it('shares a rank when score and all tie-breakers are equal', () => {
+    const ranked = rankScores([score(0, 0.8), score(1, 0.7), score(2, 0.7), score(3, 0.5)]);
+
+    expect(ranked.map(item => item.rank)).toEqual([1, 2, 2, 4]);
+    expect(ranked[1]).toMatchObject({ isTied: true, tieBreakReason: SHARED_RANK_REASON });
+    expect(ranked[0].isTied).toBe(false);
+  });
+
+  it('orders tied scores by the first tie-breaker that differs', () => {
+    const ranked = rankScores(
+      [score(0, 0.7), score(1, 0.7)],
+      [[0.3, -2], [0.3, -1]],
+      [{ kind: 'category', category: 'A. Kinerja Inti' }, { kind: 'criterion', criterionName: 'Jumlah Hari Alpa', direction: 'lower' }]
+    );
+
+    expect(ranked.map(item => item.index)).toEqual([1, 0]);
+    expect(ranked.map(item => item.rank)).toEqual([1, 2]);
+    expect(ranked[0].tieBreakReason).toBe('Jumlah Hari Alpa lebih sedikit');
+  });
+});
@@ -0,0 +1,141 @@
+import { normalizeMatrix } from "./normalize";
+import { convertScore, getRecommendation } from "./recommendation";
+import { DEFAULT_RECOMMENDATION_RULES, applyRule, findMatchingRule } from "./rules";
+import {
+  DEFAULT_TIE_BREAKERS,
+  SCORE_TIE_EPSILON,
+  SHARED_RANK_REASON,
+  buildTieBreakKeys,
+  describeTieBreaker,
+  findDecidingTieBreaker,
+} from "./tiebreak";
+import type { SAWCriterion, SAWOptions, SAWOutput, SAWScore, TieBreaker } from "./types";
+
+// Peringkat khusus untuk karyawan yang diberhentikan otomatis
+export const TERMINATED_RANK = 999;
+
+// Skor akhir SAW: jumlah nilai normalisasi dikali bobot desimal
+export const weightedSum = (normalizedRow: number[], weights: number[]): number => {
+  return normalizedRow.reduce((sum, value, j) => sum + value * weights[j], 0);
+};
+
+type RankableScore = Pick<SAWScore, 'index' | 'finalScore' | 'rank' | 'isAutoTerminated' | 'isTied' | 'tieBreakReason'>;
+
+const isSameScore = (a: RankableScore, b: RankableScore) => Math.abs(a.finalScore - b.finalScore) <= SCORE_TIE_EPSILON;
+
+/**
+ * Memberi peringkat berdasarkan skor (tertinggi di atas). Skor yang seri diurutkan
+ * dengan rantai pemecah seri (`tieKeys[index]`, semakin besar semakin baik); jika
+ * semua pemecah juga sama, karyawan berbagi peringkat (1, 2, 2, 4). Alternatif yang
+ * diberhentikan otomatis mendapat TERMINATED_RANK dan diletakkan di akhir.
+ */
+export const rankScores = <T extends RankableScore>(
+  scores: T[],
+  tieKeys: number[][] = [],
+  tieBreakers: TieBreaker[] = []
+): T[] => {
+  const ranked = scores.filter(score => !score.isAutoTerminated);
+  const terminated = scores.filter(score => score.isAutoTerminated);
+  const keysOf = (score: T) => tieKeys[score.index] || [];
+
+  ranked.sort((a, b) => {
+    if (!isSameScore(a, b)) return b.finalScore - a.finalScore;
+    const k = findDecidingTieBreaker(keysOf(a), keysOf(b));
+    return k === -1 ? a.index - b.index : keysOf(b)[k] - keysOf(a)[k];
+  });
+
+  ranked.forEach((score, position) => {
+    const previous = position > 0 ? ranked[position - 1] : null;
+    const next = position < ranked.length - 1 ? ranked[position + 1] : null;
+    const tiedWithPrevious = previous !== null && isSameScore(previous, score);
+    const tiedWithNext = next !== null && isSameScore(score, next);
+
+    score.isTied = tiedWithPrevious || tiedWithNext;
+    score.rank = position + 1;
+    score.tieBreakReason = null;
+
+    if (!score.isTied) return;
+
+    // Pemecah yang memisahkan dari tetangga seri; -1 berarti berbagi peringkat dengannya
+    const kPrevious = tiedWithPrevious ? findDecidingTieBreaker(keysOf(previous as T), keysOf(score)) : null;
+    const kNext = tiedWithNext ? findDecidingTieBreaker(keysOf(score), keysOf(next as T)) : null;
+
+    if (kPrevious === -1) {
+      score.rank = (previous as T).rank;
+    }
+    if (kPrevious === -1 || kNext === -1) {
+      score.tieBreakReason = SHARED_RANK_REASON;
+    } else {
+      score.tieBreakReason = describeTieBreaker(tieBreakers[(kPrevious ?? kNext) as number]);
+    }
+  });
+  terminated.forEach(score => {
+    score.rank = TERMINATED_RANK;
+    score.isTied = false;
+    score.tieBreakReason = null;
+  });
+
+  return [...ranked, ...terminated];
+};
+
+/**
+ * Melengkapi skor akhir tiap alternatif dengan skor konversi, rekomendasi dari
+ * aturan pertama yang terpenuhi (termasuk pemberhentian otomatis), dan peringkat.
+ * Dipakai bersama oleh semua metode perangkingan agar aturan keputusan selalu identik.
+ * Jika tidak ada aturan yang cocok, ambang bawaan getRecommendation dipakai.
+ */
+export const finalizeScores = (
+  criteria: SAWCriterion[],
+  matrix: number[][],
+  normalizedMatrix: number[][],
+  finalScores: number[],
+  options: SAWOptions = {}
+): SAWScore[] => {
+  const rules = options.rules || DEFAULT_RECOMMENDATION_RULES;
+
+  const scores: SAWScore[] = finalScores.map((finalScore, index) => {
+    const convertedScore = convertScore(finalScore);
+    const values: { [criterionName: string]: number } = {};
+    criteria.forEach((criterion, j) => {
+      values[criterion.name] = matrix[index][j];
+    });
+
+    const context = { convertedScore, values, staffLabel: options.staffLabels?.[index] || '' };
+    const rule = findMatchingRule(rules, context);
+
+    return {
+      index,
+      normalizedScores: normalizedMatrix[index],
+      finalScore,
+      convertedScore,
+      rank: 0,
+      isAutoTerminated: rule ? rule.terminates : false,
+      ruleId: rule ? rule.id : null,
+      ruleName: rule ? rule.name : null,
+      isTied: false,
+      tieBreakReason: null,
+      ...(rule ? applyRule(rule, context) : getRecommendation(convertedScore))
+    };
+  });
+
+  const tieBreakers = options.tieBreakers || DEFAULT_TIE_BREAKERS;
+  const tieKeys = buildTieBreakKeys(tieBreakers, criteria, matrix, normalizedMatrix, options.hireDates);
+
+  return rankScores(scores, tieKeys, tieBreakers);
+};
+
+/**
+ * Perhitungan Simple Additive Weighting tanpa ketergantungan ke React/Supabase.
+ * `matrix` berisi nilai mentah dengan urutan kolom sama dengan `criteria`.
+ */
+export const calculateSAW = (criteria: SAWCriterion[], matrix: number[][], options: SAWOptions = {}): SAWOutput => {
+  const weights = criteria.map(criterion => criterion.weight / 100);
+  const normalizedMatrix = normalizeMatrix(matrix, criteria);
+  const finalScores = normalizedMatrix.map(row => weightedSum(row, weights));
+
+  return {
+    normalizedMatrix,
+    weights,
+    scores: finalizeScores(criteria, matrix, normalizedMatrix, finalScores, options)
+  };
+};
@@ -0,0 +1,32 @@
+import { describe, expect, it } from "vitest";
+import { findMinimumImprovements } from "./goalseek";
+import { calculateWP } from "./wp";
+import { DEFAULT_SCALES } from "./scale";
+import type { SAWCriterion } from "./types";
+
+const criteria: SAWCriterion[] = [
+  { id: 'kualitas', name: 'Kualitas Kerja', type: 'Benefit', weight: 60, category: 'A. Kinerja Inti', scale: DEFAULT_SCALES.likert },
+  { id: 'alpa', name: 'Jumlah Hari Alpa', type: 'Cost', weight: 40, category: 'B. Kedisiplinan', scale: DEFAULT_SCALES.count }
+];
+
+const matrix = [[2, 3], [4, 0]];
+
+describe('findMinimumImprovements', () => {
+  it('reports a target that is already met without changes', () => {
+    const goal = findMinimumImprovements(criteria, matrix, 1, 3);
+
+    expect(goal).toMatchObject({ reached: true, alreadyMet: true, changes: [] });
+  });
+
+  it('reaches the target under the method of the run', () => {
+    const goal = findMinimumImprovements(criteria, matrix, 0, 4, {}, 'WP');
+    expect(goal.reached).toBe(true);
+
+    const row = [...matrix[0]];
+    goal.changes.forEach(change => { row[change.criterionIndex] = change.to; });
+    const score = calculateWP(criteria, [row, matrix[1]]).scores.find(item => item.index === 0);
+
+    expect(score?.convertedScore).toBe(goal.convertedScore);
+    expect(score?.convertedScore).toBeGreaterThanOrEqual(4);
+  });
+});
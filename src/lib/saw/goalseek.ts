@@ -0,0 +1,156 @@
+import { calculateWithMethod } from "./snapshot";
+import type { CalculationMethod } from "./methods";
+import type { SAWCriterion, SAWOptions } from "./types";
+
+// Jumlah nilai kandidat maksimum per kriteria pada setiap langkah pencarian
+const MAX_CANDIDATES = 12;
+const MAX_ITERATIONS = 100;
+
+export interface GoalSeekChange {
+  criterionIndex: number;
+  from: number;
+  to: number;
+}
+
+export interface GoalSeekResult {
+  target: number; // Target skor konversi (0-5)
+  reached: boolean;
+  alreadyMet: boolean;
+  changes: GoalSeekChange[];
+  finalScore: number; // Skor setelah semua perubahan diterapkan
+  convertedScore: number;
+  effort: number; // Jumlah perubahan relatif terhadap rentang skala tiap kriteria
+}
+
+const round = (value: number) => parseFloat(value.toFixed(4));
+
+// Batas terbaik kriteria: maks skala untuk Benefit (atau nilai tertinggi di kolom bila tak terbatas), min skala untuk Cost
+const getBestValue = (criterion: SAWCriterion, column: number[]): number =>
+  criterion.type === 'Cost'
+    ? criterion.scale.min
+    : criterion.scale.max ?? Math.max(criterion.scale.min, ...column);
+
+const getSpan = (criterion: SAWCriterion, column: number[]): number => {
+  const max = criterion.scale.max ?? Math.max(criterion.scale.min, ...column);
+  return max - criterion.scale.min || 1;
+};
+
+// Nilai pada kelipatan langkah skala antara `from` (tidak termasuk) dan `to`, dijarangkan bila terlalu banyak
+const getCandidates = (criterion: SAWCriterion, from: number, to: number): number[] => {
+  const direction = to > from ? 1 : -1;
+  const totalSteps = Math.floor(Math.abs(to - from) / criterion.scale.step + 1e-9);
+  if (totalSteps === 0) return [];
+
+  const stride = Math.max(1, Math.ceil(totalSteps / MAX_CANDIDATES));
+  const candidates: number[] = [];
+  for (let k = stride; k < totalSteps; k += stride) {
+    candidates.push(round(from + direction * k * criterion.scale.step));
+  }
+  candidates.push(round(from + direction * totalSteps * criterion.scale.step));
+  return candidates;
+};
+
+/**
+ * Mencari perbaikan nilai kriteria termurah agar skor konversi karyawan mencapai `target`
+ * tanpa terkena aturan pemberhentian otomatis. Pencarian greedy memilih perubahan dengan
+ * kenaikan skor terbesar per usaha (perubahan relatif terhadap rentang skala), lalu setiap
+ * perubahan dikurangi kembali selama target tetap tercapai. Nilai selalu dalam batas skala.
+ * Skor dihitung dengan `method` yang sama dengan perhitungan asal matrix.
+ */
+export const findMinimumImprovements = (
+  criteria: SAWCriterion[],
+  matrix: number[][],
+  recordIndex: number,
+  target: number,
+  options: SAWOptions = {},
+  method: CalculationMethod = 'SAW'
+): GoalSeekResult => {
+  const columns = criteria.map((_, j) => matrix.map(row => row[j]));
+  const original = [...matrix[recordIndex]];
+
+  const evaluate = (row: number[]) => {
+    const simulated = matrix.map((values, i) => i === recordIndex ? row : values);
+    const { scores } = calculateWithMethod(method, criteria, simulated, options);
+    const score = scores.find(item => item.index === recordIndex)!;
+    return {
+      finalScore: score.finalScore,
+      convertedScore: score.convertedScore,
+      meets: score.convertedScore >= target && !score.isAutoTerminated,
+      // Lolos dari pemberhentian otomatis lebih berharga dari kenaikan skor mana pun
+      objective: score.finalScore + (score.isAutoTerminated ? 0 : 1)
+    };
+  };
+
+  const effortOf = (row: number[]) =>
+    row.reduce((sum, value, j) => sum + Math.abs(value - original[j]) / getSpan(criteria[j], columns[j]), 0);
+
+  const buildResult = (row: number[], reached: boolean, alreadyMet: boolean): GoalSeekResult => {
+    const outcome = evaluate(row);
+    return {
+      target,
+      reached,
+      alreadyMet,
+      changes: row
+        .map((to, criterionIndex) => ({ criterionIndex, from: original[criterionIndex], to }))
+        .filter(change => change.to !== change.from),
+      finalScore: outcome.finalScore,
+      convertedScore: outcome.convertedScore,
+      effort: effortOf(row)
+    };
+  };
+
+  let current = [...original];
+  let state = evaluate(current);
+  if (state.meets) {
+    return buildResult(current, true, true);
+  }
+
+  for (let iteration = 0; iteration < MAX_ITERATIONS && !state.meets; iteration++) {
+    let best: { row: number[]; ratio: number } | null = null;
+
+    criteria.forEach((criterion, j) => {
+      const bound = getBestValue(criterion, columns[j]);
+      getCandidates(criterion, current[j], bound).forEach(candidate => {
+        const row = [...current];
+        row[j] = candidate;
+        const gain = evaluate(row).objective - state.objective;
+        const effort = Math.abs(candidate - current[j]) / getSpan(criterion, columns[j]);
+        const ratio = gain / effort;
+        if (gain > 1e-12 && (!best || ratio > best.ratio)) {
+          best = { row, ratio };
+        }
+      });
+    });
+
+    if (!best) {
+      // Semua kriteria sudah di batas terbaik atau tidak ada perubahan yang menaikkan skor
+      return buildResult(current, false, false);
+    }
+    current = (best as { row: number[] }).row;
+    state = evaluate(current);
+  }
+
+  if (!state.meets) {
+    return buildResult(current, false, false);
+  }
+
+  // Kurangi setiap perubahan sejauh mungkin ke nilai awal selama target tetap tercapai
+  current.forEach((value, j) => {
+    if (value === original[j]) return;
+    const reductions = [original[j], ...getCandidates(criteria[j], original[j], value).slice(0, -1)];
+    const reduced = reductions.find(candidate => {
+      const row = [...current];
+      row[j] = candidate;
+      return evaluate(row).meets;
+    });
+    if (reduced !== undefined) {
+      current[j] = reduced;
+    }
+  });
+
+  return buildResult(current, true, false);
+};
+
+// Ringkasan target perbaikan, mis. "Kualitas Kerja 3→4, Keterlambatan 5→0"
+export const describeImprovements = (result: GoalSeekResult, criteria: Pick<SAWCriterion, 'name'>[]): string =>
+  result.changes.map(change => `${criteria[change.criterionIndex].name} ${change.from}→${change.to}`).join(', ');
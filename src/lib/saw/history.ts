@@ -0,0 +1,206 @@
+import { TERMINATED_RANK } from "./engine";
+import { spearmanCorrelation } from "./comparison";
+
+// Hasil satu karyawan pada sebuah perhitungan tersimpan
+export interface RunResult {
+  employeeId: string;
+  employeeName?: string;
+  finalScore: number;
+  convertedScore: number;
+  rank: number;
+  recommendation: string;
+}
+
+export type RunPresence = 'both' | 'onlyA' | 'onlyB';
+
+export interface RunComparisonRow {
+  employeeId: string;
+  presence: RunPresence;
+  a: RunResult | null;
+  b: RunResult | null;
+  rankChange: number | null; // rankA - rankB, positif berarti naik peringkat pada perhitungan B
+  scoreChange: number | null; // convertedScore B - A
+  recommendationChanged: boolean;
+}
+
+export interface RunComparison {
+  rows: RunComparisonRow[];
+  spearman: number | null; // Hanya karyawan yang diperingkat pada kedua perhitungan
+  changedRanks: number;
+  changedRecommendations: number;
+}
+
+/**
+ * Membandingkan dua perhitungan tersimpan per karyawan. Berbeda dengan compareRankings,
+ * kedua perhitungan boleh berisi karyawan yang berbeda sehingga dicocokkan berdasarkan id.
+ * Baris diurutkan mengikuti peringkat pada perhitungan B, lalu karyawan yang hanya ada di A.
+ */
+export const compareRuns = (runA: RunResult[], runB: RunResult[]): RunComparison => {
+  const byIdA = new Map(runA.map(result => [result.employeeId, result]));
+  const byIdB = new Map(runB.map(result => [result.employeeId, result]));
+  const employeeIds = [...runB.map(result => result.employeeId), ...runA.map(result => result.employeeId).filter(id => !byIdB.has(id))];
+
+  const rows: RunComparisonRow[] = employeeIds
+    .map(employeeId => {
+      const a = byIdA.get(employeeId) || null;
+      const b = byIdB.get(employeeId) || null;
+      const ranked = a && b && a.rank !== TERMINATED_RANK && b.rank !== TERMINATED_RANK;
+      return {
+        employeeId,
+        presence: a && b ? 'both' : a ? 'onlyA' : 'onlyB',
+        a,
+        b,
+        rankChange: ranked ? a.rank - b.rank : null,
+        scoreChange: a && b ? Math.round((b.convertedScore - a.convertedScore) * 100) / 100 : null,
+        recommendationChanged: !!a && !!b && a.recommendation !== b.recommendation
+      } as RunComparisonRow;
+    })
+    .sort((x, y) => (x.b?.rank ?? Infinity) - (y.b?.rank ?? Infinity) || (x.a?.rank ?? Infinity) - (y.a?.rank ?? Infinity));
+
+  const ranked = rows.filter(row => row.rankChange !== null);
+  return {
+    rows,
+    spearman: spearmanCorrelation(
+      ranked.map(row => (row.a as RunResult).rank),
+      ranked.map(row => (row.b as RunResult).rank)
+    ),
+    changedRanks: rows.filter(row => row.presence === 'both' && row.a?.rank !== row.b?.rank).length,
+    changedRecommendations: rows.filter(row => row.recommendationChanged).length
+  };
+};
+
+// Satu sel matriks tersimpan (saw_normalized_matrix) dari sebuah perhitungan
+export interface RunMatrixEntry {
+  employeeId: string;
+  employeeName?: string;
+  criteriaCode: string;
+  criteriaName: string | null;
+  weight: number;
+  rawValue: number;
+}
+
+export interface RawValueChange {
+  employeeId: string;
+  employeeName?: string;
+  valueA: number | null; // null bila karyawan tidak dinilai pada perhitungan tersebut
+  valueB: number | null;
+}
+
+export interface CriterionChange {
+  criteriaCode: string;
+  criteriaName: string | null;
+  presence: RunPresence;
+  weightA: number | null;
+  weightB: number | null;
+  weightChanged: boolean;
+  rawValueChanges: RawValueChange[];
+}
+
+const VALUE_TOLERANCE = 1e-9;
+
+/**
+ * Mencari kriteria yang bobot atau nilai mentahnya berbeda antara dua perhitungan, sebagai
+ * penjelasan mengapa peringkat bergeser. Kriteria dicocokkan berdasarkan kode yang stabil;
+ * karyawan yang hanya ada di salah satu perhitungan tidak dihitung sebagai perubahan nilai.
+ */
+export const compareRunInputs = (matrixA: RunMatrixEntry[], matrixB: RunMatrixEntry[]): CriterionChange[] => {
+  const groupByCode = (matrix: RunMatrixEntry[]) => {
+    const groups = new Map<string, RunMatrixEntry[]>();
+    matrix.forEach(entry => groups.set(entry.criteriaCode, [...(groups.get(entry.criteriaCode) || []), entry]));
+    return groups;
+  };
+  const groupsA = groupByCode(matrixA);
+  const groupsB = groupByCode(matrixB);
+  const employeesA = new Set(matrixA.map(entry => entry.employeeId));
+  const employeesB = new Set(matrixB.map(entry => entry.employeeId));
+  const codes = [...groupsB.keys(), ...[...groupsA.keys()].filter(code => !groupsB.has(code))];
+
+  return codes
+    .map(criteriaCode => {
+      const entriesA = groupsA.get(criteriaCode) || [];
+      const entriesB = groupsB.get(criteriaCode) || [];
+      const weightA = entriesA.length > 0 ? entriesA[0].weight : null;
+      const weightB = entriesB.length > 0 ? entriesB[0].weight : null;
+      const valuesA = new Map(entriesA.map(entry => [entry.employeeId, entry]));
+      const valuesB = new Map(entriesB.map(entry => [entry.employeeId, entry]));
+
+      const rawValueChanges: RawValueChange[] = [];
+      if (entriesA.length > 0 && entriesB.length > 0) {
+        [...new Set([...valuesB.keys(), ...valuesA.keys()])]
+          .filter(employeeId => employeesA.has(employeeId) && employeesB.has(employeeId))
+          .forEach(employeeId => {
+            const a = valuesA.get(employeeId);
+            const b = valuesB.get(employeeId);
+            if (a && b && Math.abs(a.rawValue - b.rawValue) <= VALUE_TOLERANCE) return;
+            rawValueChanges.push({
+              employeeId,
+              employeeName: b?.employeeName || a?.employeeName,
+              valueA: a ? a.rawValue : null,
+              valueB: b ? b.rawValue : null
+            });
+          });
+      }
+
+      return {
+        criteriaCode,
+        criteriaName: entriesB[0]?.criteriaName ?? entriesA[0]?.criteriaName ?? null,
+        presence: entriesA.length > 0 && entriesB.length > 0 ? 'both' : entriesA.length > 0 ? 'onlyA' : 'onlyB',
+        weightA,
+        weightB,
+        weightChanged: weightA !== null && weightB !== null && Math.abs(weightA - weightB) > VALUE_TOLERANCE,
+        rawValueChanges
+      } as CriterionChange;
+    })
+    .filter(change => change.presence !== 'both' || change.weightChanged || change.rawValueChanges.length > 0);
+};
+
+// Kode kriteria yang nilai mentahnya berubah untuk tiap karyawan
+export const changedCriteriaByEmployee = (changes: CriterionChange[]): Map<string, string[]> => {
+  const byEmployee = new Map<string, string[]>();
+  changes.forEach(change => change.rawValueChanges.forEach(valueChange =>
+    byEmployee.set(valueChange.employeeId, [...(byEmployee.get(valueChange.employeeId) || []), change.criteriaCode])
+  ));
+  return byEmployee;
+};
+
+export const formatWeightPercent = (weight: number | null): string =>
+  weight === null ? '-' : `${(weight * 100).toFixed(1)}%`;
+
+// Ringkasan satu kriteria yang berubah, dipakai di layar maupun laporan cetak
+export const describeCriterionChange = (change: CriterionChange): string => {
+  if (change.presence === 'onlyA') return 'Tidak dipakai lagi pada B';
+  if (change.presence === 'onlyB') return 'Kriteria baru pada B';
+
+  const parts: string[] = [];
+  if (change.weightChanged) {
+    parts.push(`Bobot ${formatWeightPercent(change.weightA)} → ${formatWeightPercent(change.weightB)}`);
+  }
+  if (change.rawValueChanges.length > 0) {
+    parts.push(`Nilai berubah: ${change.rawValueChanges
+      .map(valueChange => `${valueChange.employeeName || valueChange.employeeId} (${valueChange.valueA ?? '-'} → ${valueChange.valueB ?? '-'})`)
+      .join(', ')}`);
+  }
+  return parts.join('; ');
+};
+
+// Laporan perbandingan dua perhitungan, siap ditampilkan maupun dicetak
+export interface RunComparisonReport {
+  labelA: string;
+  labelB: string;
+  comparison: RunComparison;
+  criteriaChanges: CriterionChange[];
+}
+
+export const buildRunComparisonReport = (
+  labelA: string,
+  labelB: string,
+  resultsA: RunResult[],
+  resultsB: RunResult[],
+  matrixA: RunMatrixEntry[],
+  matrixB: RunMatrixEntry[]
+): RunComparisonReport => ({
+  labelA,
+  labelB,
+  comparison: compareRuns(resultsA, resultsB),
+  criteriaChanges: compareRunInputs(matrixA, matrixB)
+});
@@ -0,0 +1,25 @@
+export * from "./types";
+export * from "./categories";
+export * from "./criteria";
+export * from "./normalize";
+export * from "./scale";
+export * from "./recommendation";
+export * from "./rules";
+export * from "./tiebreak";
+export * from "./completeness";
+export * from "./aggregation";
+export * from "./engine";
+export * from "./topsis";
+export * from "./methods";
+export * from "./ahp";
+export * from "./objective";
+export * from "./wp";
+export * from "./comparison";
+export * from "./sensitivity";
+export * from "./breakdown";
+export * from "./whatif";
+export * from "./goalseek";
+export * from "./snapshot";
+export * from "./history";
+export * from "./trend";
+export * from "./server";
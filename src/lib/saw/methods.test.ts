@@ -0,0 +1,58 @@
+import { describe, expect, it } from "vitest";
+import { calculateTOPSIS } from "./topsis";
+import { calculateWP } from "./wp";
+import { DEFAULT_SCALES } from "./scale";
+import { NOTE_PROMOTION } from "./recommendation";
+import type { SAWCriterion } from "./types";
+
+const criteria: SAWCriterion[] = [
+  { id: 'kualitas', name: 'Kualitas Kerja', type: 'Benefit', weight: 60, category: 'A. Kinerja Inti', scale: DEFAULT_SCALES.likert },
+  { id: 'alpa', name: 'Jumlah Hari Alpa', type: 'Cost', weight: 40, category: 'B. Kedisiplinan', scale: DEFAULT_SCALES.count }
+];
+
+// Karyawan teratas hanya bernilai sedang: 3 dari 5 dan 2 hari alpa
+const mediocre = [[3, 2], [2, 4], [1, 6]];
+
+describe('calculateTOPSIS', () => {
+  it('takes the ideal and anti-ideal solutions from the best and worst employees of the run', () => {
+    const { idealSolution, antiIdealSolution, weightedMatrix, scores } = calculateTOPSIS(criteria, mediocre);
+
+    expect(idealSolution).toEqual(weightedMatrix[0]);
+    expect(antiIdealSolution).toEqual(weightedMatrix[2]);
+    expect(scores[0]).toMatchObject({ index: 0, finalScore: 1 });
+    expect(scores[2]).toMatchObject({ index: 2, finalScore: 0 });
+  });
+});
+
+describe('calculateWP', () => {
+  it('does not give the best employee of the run a perfect score', () => {
+    const { scores } = calculateWP(criteria, mediocre);
+
+    expect(scores[0].index).toBe(0);
+    expect(scores[0].finalScore).toBeLessThan(1);
+    expect(scores[0].note).not.toBe(NOTE_PROMOTION);
+  });
+
+  it('gives 1 to an employee at the best bound of every scale', () => {
+    const { scores } = calculateWP(criteria, [[5, 0], ...mediocre]);
+
+    expect(scores[0].index).toBe(0);
+    expect(scores[0].finalScore).toBeCloseTo(1);
+  });
+
+  it('keeps an employee\'s score when the rest of the run changes', () => {
+    const alone = calculateWP(criteria, [[3, 2]]).scores[0];
+    const withOthers = calculateWP(criteria, [[3, 2], [5, 0], [1, 8]]).scores.find(score => score.index === 0);
+
+    expect(withOthers?.finalScore).toBeCloseTo(alone.finalScore);
+  });
+
+  it('reports the preference value V = Si / ΣS next to the absolute score', () => {
+    const { vectorS, vectorV, absoluteScores, scores } = calculateWP(criteria, mediocre);
+    const totalS = vectorS.reduce((sum, value) => sum + value, 0);
+
+    vectorV.forEach((value, i) => expect(value).toBeCloseTo(vectorS[i] / totalS));
+    expect(vectorV.reduce((sum, value) => sum + value, 0)).toBeCloseTo(1);
+    scores.forEach(score => expect(score.finalScore).toBeCloseTo(absoluteScores[score.index]));
+  });
+});
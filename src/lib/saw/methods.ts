@@ -0,0 +1,11 @@
+export type CalculationMethod = 'SAW' | 'TOPSIS' | 'WP';
+
+export const CALCULATION_METHODS: { value: CalculationMethod; label: string }[] = [
+  { value: 'SAW', label: 'Simple Additive Weighting (SAW)' },
+  { value: 'TOPSIS', label: 'TOPSIS' },
+  { value: 'WP', label: 'Weighted Product (WP)' }
+];
+
+export const getMethodLabel = (method: string): string => {
+  return CALCULATION_METHODS.find(item => item.value === method)?.label || method;
+};
@@ -0,0 +1,77 @@
+import { describe, expect, it } from "vitest";
+import { normalizeColumn, normalizeMatrix } from "./normalize";
+import { DEFAULT_SCALES } from "./scale";
+import type { SAWCriterion } from "./types";
+
+const criterion = (overrides: Partial<SAWCriterion>): SAWCriterion => ({
+  id: 'c',
+  name: 'Kriteria',
+  type: 'Benefit',
+  weight: 10,
+  category: 'A. Kinerja Inti',
+  scale: DEFAULT_SCALES.likert,
+  ...overrides
+});
+
+describe('normalizeColumn (aturan awal)', () => {
+  it('divides Likert 1-5 benefit values by the scale maximum, not the column maximum', () => {
+    expect(normalizeColumn([1, 3, 4], criterion({}))).toEqual([0.2, 0.6, 0.8]);
+  });
+
+  it('divides percentage benefit values by the scale maximum', () => {
+    expect(normalizeColumn([50, 100], criterion({ scale: DEFAULT_SCALES.percentage }))).toEqual([0.5, 1]);
+  });
+
+  it('maps binary benefit criteria to 1 only for a yes answer', () => {
+    expect(normalizeColumn([0, 1, 1], criterion({ scale: DEFAULT_SCALES.binary }))).toEqual([0, 1, 1]);
+  });
+
+  it('maps binary cost criteria to 1 only when the value is 0', () => {
+    expect(normalizeColumn([0, 1], criterion({ type: 'Cost', scale: DEFAULT_SCALES.binary }))).toEqual([1, 0]);
+  });
+
+  it('max-normalizes benefit counts against the column maximum', () => {
+    expect(normalizeColumn([2, 4, 8], criterion({ scale: DEFAULT_SCALES.count }))).toEqual([0.25, 0.5, 1]);
+  });
+
+  it('scores count cost criteria 1 at zero and 0 otherwise', () => {
+    expect(normalizeColumn([0, 1, 12], criterion({ type: 'Cost', scale: DEFAULT_SCALES.count }))).toEqual([1, 0, 0]);
+  });
+
+  it('returns 0 for an all-zero benefit count column instead of dividing by zero', () => {
+    expect(normalizeColumn([0, 0], criterion({ scale: DEFAULT_SCALES.count }))).toEqual([0, 0]);
+  });
+});
+
+describe('normalizeColumn (strategi lain)', () => {
+  it('classic: benefit is value/max and cost is min/value', () => {
+    expect(normalizeColumn([2, 4], criterion({ normalization: 'classic' }))).toEqual([0.5, 1]);
+    expect(normalizeColumn([2, 4], criterion({ type: 'Cost', normalization: 'classic' }))).toEqual([1, 0.5]);
+  });
+
+  it('classic: shifts a cost column containing 0 by +1', () => {
+    expect(normalizeColumn([0, 1, 3], criterion({ type: 'Cost', normalization: 'classic', scale: DEFAULT_SCALES.count })))
+      .toEqual([1, 0.5, 0.25]);
+  });
+
+  it('linear: min-max scales both directions and gives 1 to a constant column', () => {
+    expect(normalizeColumn([1, 3, 5], criterion({ normalization: 'linear' }))).toEqual([0, 0.5, 1]);
+    expect(normalizeColumn([1, 3, 5], criterion({ type: 'Cost', normalization: 'linear' }))).toEqual([1, 0.5, 0]);
+    expect(normalizeColumn([4, 4], criterion({ normalization: 'linear' }))).toEqual([1, 1]);
+  });
+
+  it('threshold: uses the first band containing the value', () => {
+    expect(normalizeColumn([0, 2, 3, 11], criterion({ type: 'Cost', normalization: 'threshold', scale: DEFAULT_SCALES.count })))
+      .toEqual([1, 0.75, 0.5, 0]);
+  });
+});
+
+describe('normalizeMatrix', () => {
+  it('normalizes each column with its own criterion', () => {
+    const criteria = [
+      criterion({ id: 'a' }),
+      criterion({ id: 'b', type: 'Cost', scale: DEFAULT_SCALES.count })
+    ];
+    expect(normalizeMatrix([[5, 0], [3, 2]], criteria)).toEqual([[1, 1], [0.6, 0]]);
+  });
+});
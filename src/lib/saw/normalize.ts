@@ -0,0 +1,181 @@
+import type { NormalizationConfigEntry, NormalizationStrategy, SAWCriterion, ThresholdBand } from "./types";
+
+type NormalizableCriterion = Pick<SAWCriterion, 'type' | 'scale' | 'normalization' | 'thresholdBands'>;
+
+export const DEFAULT_NORMALIZATION: NormalizationStrategy = 'binary';
+
+export const NORMALIZATION_STRATEGIES: { value: NormalizationStrategy; label: string; description: string }[] = [
+  {
+    value: 'binary',
+    label: 'Aturan Awal (0/1)',
+    description: 'Benefit Likert/persen: nilai/maks skala, lainnya nilai/maks kolom. Cost: 1 jika nilai = 0, selain itu 0'
+  },
+  {
+    value: 'classic',
+    label: 'SAW Klasik (min/x)',
+    description: 'Benefit: nilai/maks. Cost: min/nilai, kolom yang memuat 0 digeser +1'
+  },
+  {
+    value: 'linear',
+    label: 'Linear (maks-min)',
+    description: 'Benefit: (nilai-min)/(maks-min). Cost: (maks-nilai)/(maks-min)'
+  },
+  {
+    value: 'threshold',
+    label: 'Pita Ambang (threshold)',
+    description: 'Skor tetap per rentang nilai sesuai pita yang ditentukan'
+  }
+];
+
+// Pita bawaan untuk kriteria hitungan hari (Cost)
+export const DEFAULT_THRESHOLD_BANDS: ThresholdBand[] = [
+  { upTo: 0, score: 1 },
+  { upTo: 2, score: 0.75 },
+  { upTo: 5, score: 0.5 },
+  { upTo: 10, score: 0.25 },
+  { upTo: null, score: 0 }
+];
+
+export const getNormalizationLabel = (strategy: NormalizationStrategy): string =>
+  NORMALIZATION_STRATEGIES.find(item => item.value === strategy)?.label || strategy;
+
+// Membaca pita threshold dari kolom JSON, mengabaikan entri yang tidak valid
+export const parseThresholdBands = (value: unknown): ThresholdBand[] | null => {
+  if (!Array.isArray(value)) return null;
+
+  const bands = value
+    .filter((band): band is { upTo: unknown; score: unknown } => typeof band === 'object' && band !== null)
+    .filter(band => (band.upTo === null || typeof band.upTo === 'number') && typeof band.score === 'number')
+    .map(band => ({ upTo: band.upTo as number | null, score: band.score as number }));
+
+  return bands.length > 0 ? bands : null;
+};
+
+// Mengembalikan pesan kesalahan pertama pada pita threshold, atau null jika valid
+export const validateThresholdBands = (bands: ThresholdBand[]): string | null => {
+  if (bands.length === 0) return 'Minimal satu pita nilai diperlukan';
+
+  for (let i = 0; i < bands.length; i++) {
+    const band = bands[i];
+    if (band.score < 0 || band.score > 1) {
+      return 'Skor pita harus antara 0 dan 1';
+    }
+    if (band.upTo === null && i !== bands.length - 1) {
+      return 'Pita tanpa batas atas hanya boleh di posisi terakhir';
+    }
+    const previous = i > 0 ? bands[i - 1].upTo : null;
+    if (band.upTo !== null && previous !== null && band.upTo <= previous) {
+      return 'Batas atas pita harus berurutan naik';
+    }
+  }
+
+  return null;
+};
+
+const normalizeBinary = (values: number[], criterion: NormalizableCriterion): number[] => {
+  const { kind, max } = criterion.scale;
+
+  if (criterion.type === 'Benefit') {
+    if ((kind === 'likert' || kind === 'percentage') && max !== null && max > 0) {
+      return values.map(value => value / max);
+    }
+    if (kind === 'binary') {
+      return values.map(value => value === 1 ? 1 : 0);
+    }
+    const maxValue = Math.max(...values);
+    return values.map(value => maxValue > 0 ? value / maxValue : 0);
+  }
+
+  if (kind === 'binary') {
+    return values.map(value => value === 0 ? 1 : 0);
+  }
+  return values.map(value => value > 0 ? 0 : 1);
+};
+
+const normalizeClassic = (values: number[], criterion: NormalizableCriterion): number[] => {
+  if (criterion.type === 'Benefit') {
+    const maxValue = Math.max(...values);
+    return values.map(value => maxValue > 0 ? value / maxValue : 0);
+  }
+
+  // min/x tidak terdefinisi untuk nilai 0, sehingga kolom digeser agar minimumnya 1
+  const minValue = Math.min(...values);
+  const offset = minValue > 0 ? 0 : 1 - minValue;
+  return values.map(value => (minValue + offset) / (value + offset));
+};
+
+const normalizeLinear = (values: number[], criterion: NormalizableCriterion): number[] => {
+  const minValue = Math.min(...values);
+  const maxValue = Math.max(...values);
+  const range = maxValue - minValue;
+
+  if (range === 0) {
+    return values.map(() => 1);
+  }
+  if (criterion.type === 'Benefit') {
+    return values.map(value => (value - minValue) / range);
+  }
+  return values.map(value => (maxValue - value) / range);
+};
+
+const normalizeThreshold = (values: number[], criterion: NormalizableCriterion): number[] => {
+  const bands = criterion.thresholdBands && criterion.thresholdBands.length > 0
+    ? criterion.thresholdBands
+    : DEFAULT_THRESHOLD_BANDS;
+
+  return values.map(value => {
+    const band = bands.find(item => item.upTo === null || value <= item.upTo);
+    return band ? band.score : 0;
+  });
+};
+
+/**
+ * Normalisasi satu kolom decision matrix sesuai strategi normalisasi kriteria:
+ * - binary (aturan awal): Benefit Likert/persentase → nilai/maks skala, Benefit biner → 1 jika
+ *   nilai = 1, Benefit hitungan → nilai/maks kolom, Cost → 1 jika nilai = 0, selain itu 0
+ * - classic: Benefit → nilai/maks, Cost → min/nilai (digeser +1 bila ada nilai 0)
+ * - linear: (nilai-min)/(maks-min) untuk Benefit, kebalikannya untuk Cost
+ * - threshold: skor tetap dari pita nilai pertama yang memuat nilai
+ */
+export const normalizeColumn = (values: number[], criterion: NormalizableCriterion): number[] => {
+  switch (criterion.normalization || DEFAULT_NORMALIZATION) {
+    case 'classic':
+      return normalizeClassic(values, criterion);
+    case 'linear':
+      return normalizeLinear(values, criterion);
+    case 'threshold':
+      return normalizeThreshold(values, criterion);
+    default:
+      return normalizeBinary(values, criterion);
+  }
+};
+
+// Normalisasi seluruh decision matrix, kolom demi kolom
+export const normalizeMatrix = (matrix: number[][], criteria: NormalizableCriterion[]): number[][] => {
+  const normalized = matrix.map(() => new Array(criteria.length).fill(0));
+
+  criteria.forEach((criterion, j) => {
+    const column = normalizeColumn(matrix.map(row => row[j]), criterion);
+    column.forEach((value, i) => {
+      normalized[i][j] = value;
+    });
+  });
+
+  return normalized;
+};
+
+// Ringkasan strategi normalisasi per kriteria untuk disimpan bersama hasil perhitungan
+export const buildNormalizationConfig = (criteria: SAWCriterion[]): NormalizationConfigEntry[] =>
+  criteria.map(criterion => {
+    const strategy = criterion.normalization || DEFAULT_NORMALIZATION;
+    return {
+      criterionId: criterion.id,
+      criterionCode: criterion.code,
+      criterionName: criterion.name,
+      type: criterion.type,
+      strategy,
+      thresholdBands: strategy === 'threshold'
+        ? (criterion.thresholdBands && criterion.thresholdBands.length > 0 ? criterion.thresholdBands : DEFAULT_THRESHOLD_BANDS)
+        : null
+    };
+  });
@@ -0,0 +1,141 @@
+import { distributeWeights } from "./ahp";
+import type { SAWCriterion } from "./types";
+
+export type ObjectiveWeightingMethod = 'entropy' | 'critic';
+
+export const OBJECTIVE_WEIGHTING_METHODS: { value: ObjectiveWeightingMethod; label: string; description: string }[] = [
+  {
+    value: 'entropy',
+    label: 'Entropi Shannon',
+    description: 'Kriteria dengan sebaran nilai paling beragam antar karyawan mendapat bobot terbesar'
+  },
+  {
+    value: 'critic',
+    label: 'CRITIC',
+    description: 'Menggabungkan simpangan baku kriteria dan konflik (korelasi rendah) dengan kriteria lain'
+  }
+];
+
+export const getObjectiveWeightingLabel = (method: ObjectiveWeightingMethod): string =>
+  OBJECTIVE_WEIGHTING_METHODS.find(item => item.value === method)?.label || method;
+
+const equalWeights = (count: number): number[] => Array.from({ length: count }, () => 1 / count);
+
+// Normalisasi maks-min berorientasi "semakin besar semakin baik" (Cost dibalik); kolom konstan bernilai 0
+const orientColumns = (matrix: number[][], criteria: Pick<SAWCriterion, 'type'>[]): number[][] => {
+  const oriented = matrix.map(() => new Array(criteria.length).fill(0));
+  criteria.forEach((criterion, j) => {
+    const column = matrix.map(row => row[j]);
+    const min = Math.min(...column);
+    const range = Math.max(...column) - min;
+    column.forEach((value, i) => {
+      if (range === 0) return;
+      oriented[i][j] = criterion.type === 'Cost' ? (Math.max(...column) - value) / range : (value - min) / range;
+    });
+  });
+  return oriented;
+};
+
+const toDistribution = (values: number[]): number[] => {
+  const total = values.reduce((sum, value) => sum + value, 0);
+  return total > 0 ? values.map(value => value / total) : equalWeights(values.length);
+};
+
+/**
+ * Bobot entropi Shannon (jumlah 1). p_ij = r_ij / Σ r_ij, e_j = -Σ p ln p / ln m,
+ * bobot sebanding dengan derajat keragaman d_j = 1 - e_j. Kolom konstan tidak membedakan
+ * karyawan sehingga bobotnya 0.
+ */
+export const calculateEntropyWeights = (matrix: number[][], criteria: Pick<SAWCriterion, 'type'>[]): number[] => {
+  if (criteria.length === 0) return [];
+  if (matrix.length < 2) return equalWeights(criteria.length);
+
+  const oriented = orientColumns(matrix, criteria);
+  const k = 1 / Math.log(matrix.length);
+
+  const diversity = criteria.map((_, j) => {
+    const column = oriented.map(row => row[j]);
+    const total = column.reduce((sum, value) => sum + value, 0);
+    if (total === 0) return 0;
+    const entropy = -k * column.reduce((sum, value) => {
+      const p = value / total;
+      return p > 0 ? sum + p * Math.log(p) : sum;
+    }, 0);
+    return Math.max(0, 1 - entropy);
+  });
+
+  return toDistribution(diversity);
+};
+
+const standardDeviation = (values: number[]): number => {
+  const mean = values.reduce((sum, value) => sum + value, 0) / values.length;
+  return Math.sqrt(values.reduce((sum, value) => sum + (value - mean) ** 2, 0) / values.length);
+};
+
+const correlation = (a: number[], b: number[]): number => {
+  const meanA = a.reduce((sum, value) => sum + value, 0) / a.length;
+  const meanB = b.reduce((sum, value) => sum + value, 0) / b.length;
+  let covariance = 0;
+  let varianceA = 0;
+  let varianceB = 0;
+  a.forEach((value, i) => {
+    covariance += (value - meanA) * (b[i] - meanB);
+    varianceA += (value - meanA) ** 2;
+    varianceB += (b[i] - meanB) ** 2;
+  });
+  return varianceA > 0 && varianceB > 0 ? covariance / Math.sqrt(varianceA * varianceB) : 0;
+};
+
+/**
+ * Bobot CRITIC (jumlah 1). C_j = σ_j × Σ_k (1 - r_jk) dengan σ simpangan baku kolom
+ * ternormalisasi dan r korelasi Pearson antar kriteria.
+ */
+export const calculateCriticWeights = (matrix: number[][], criteria: Pick<SAWCriterion, 'type'>[]): number[] => {
+  if (criteria.length === 0) return [];
+  if (matrix.length < 2) return equalWeights(criteria.length);
+
+  const oriented = orientColumns(matrix, criteria);
+  const columns = criteria.map((_, j) => oriented.map(row => row[j]));
+
+  const information = columns.map((column, j) =>
+    standardDeviation(column) * columns.reduce((sum, other, k) => k === j ? sum : sum + (1 - correlation(column, other)), 0)
+  );
+
+  return toDistribution(information);
+};
+
+export const calculateObjectiveWeights = (
+  method: ObjectiveWeightingMethod,
+  matrix: number[][],
+  criteria: Pick<SAWCriterion, 'type'>[]
+): number[] => method === 'critic' ? calculateCriticWeights(matrix, criteria) : calculateEntropyWeights(matrix, criteria);
+
+// Gabungan bobot subjektif (persen) dan objektif (jumlah 1); `subjectiveShare` 0-1, hasil berjumlah 1
+export const blendWeights = (subjectiveWeights: number[], objectiveWeights: number[], subjectiveShare: number): number[] => {
+  const subjective = toDistribution(subjectiveWeights);
+  return objectiveWeights.map((objective, j) => subjectiveShare * subjective[j] + (1 - subjectiveShare) * objective);
+};
+
+/**
+ * Mengubah prioritas (jumlah 1) menjadi bobot persen dua desimal. Bila `categoryTotals` diberikan,
+ * total bobot setiap kategori dipertahankan dan prioritas hanya menentukan pembagian di dalam kategori.
+ */
+export const toPercentWeights = (
+  priorities: number[],
+  criteria: Pick<SAWCriterion, 'category'>[],
+  categoryTotals?: { [category: string]: number }
+): number[] => {
+  if (!categoryTotals) {
+    return distributeWeights(100, priorities);
+  }
+
+  const weights = new Array(priorities.length).fill(0);
+  Array.from(new Set(criteria.map(criterion => criterion.category))).forEach(category => {
+    const indices = criteria.map((criterion, j) => criterion.category === category ? j : -1).filter(j => j !== -1);
+    const distributed = distributeWeights(categoryTotals[category] ?? 0, toDistribution(indices.map(j => priorities[j])));
+    indices.forEach((j, k) => {
+      weights[j] = distributed[k];
+    });
+  });
+  return weights;
+};
@@ -0,0 +1,40 @@
+import type { Recommendation } from "./types";
+
+// Ambang batas skor konversi (skala 0-5)
+export const PROMOTION_THRESHOLD = 4;
+export const EXTENSION_THRESHOLD = 3;
+
+export const RECOMMENDATION_EXTEND = "Dapat diperpanjang";
+export const RECOMMENDATION_TERMINATE = "Diberhentikan";
+export const NOTE_PROMOTION = "Kandidat promosi";
+
+// Konversi skor SAW (0-1) ke skala 0-5 dengan pembulatan 2 desimal
+export const convertScore = (finalScore: number): number => {
+  return parseFloat((finalScore * 5).toFixed(2));
+};
+
+// Ambang bawaan, dipakai bila tidak ada aturan rekomendasi yang terpenuhi
+export const getRecommendation = (convertedScore: number): Recommendation => {
+  if (convertedScore >= PROMOTION_THRESHOLD) {
+    return {
+      recommendation: RECOMMENDATION_EXTEND,
+      note: NOTE_PROMOTION
+    };
+  } else if (convertedScore >= EXTENSION_THRESHOLD) {
+    return { recommendation: RECOMMENDATION_EXTEND };
+  } else {
+    return { recommendation: RECOMMENDATION_TERMINATE };
+  }
+};
+
+export const getScoreLabel = (score: number): string => {
+  if (score >= 4) {
+    return "Sangat Baik";
+  } else if (score >= 3) {
+    return "Baik";
+  } else if (score >= 2) {
+    return "Cukup";
+  } else {
+    return "Kurang";
+  }
+};
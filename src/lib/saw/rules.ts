@@ -0,0 +1,152 @@
+import {
+  EXTENSION_THRESHOLD,
+  NOTE_PROMOTION,
+  PROMOTION_THRESHOLD,
+  RECOMMENDATION_EXTEND,
+  RECOMMENDATION_TERMINATE,
+} from "./recommendation";
+import type { Recommendation, RecommendationRule, RuleCondition, RuleOperator } from "./types";
+
+export const RULE_OPERATORS: { value: RuleOperator; label: string }[] = [
+  { value: '>', label: 'lebih dari' },
+  { value: '>=', label: 'minimal' },
+  { value: '<', label: 'kurang dari' },
+  { value: '<=', label: 'maksimal' },
+  { value: '=', label: 'sama dengan' },
+  { value: '!=', label: 'tidak sama dengan' }
+];
+
+// Aturan bawaan yang setara dengan kebijakan awal aplikasi
+export const DEFAULT_RECOMMENDATION_RULES: RecommendationRule[] = [
+  {
+    id: 'default-alpa',
+    name: 'Alpa lebih dari 10 hari',
+    appliesTo: null,
+    conditions: [{ subject: 'criterion', criterionName: 'Jumlah Hari Alpa', operator: '>', value: 10 }],
+    recommendation: RECOMMENDATION_TERMINATE,
+    note: 'Karyawan diberhentikan otomatis karena alpa {nilai} hari (lebih dari 10 hari).',
+    terminates: true
+  },
+  {
+    id: 'default-promotion',
+    name: 'Kandidat promosi',
+    appliesTo: null,
+    conditions: [{ subject: 'score', operator: '>=', value: PROMOTION_THRESHOLD }],
+    recommendation: RECOMMENDATION_EXTEND,
+    note: NOTE_PROMOTION,
+    terminates: false
+  },
+  {
+    id: 'default-extend',
+    name: 'Memenuhi standar minimum',
+    appliesTo: null,
+    conditions: [{ subject: 'score', operator: '>=', value: EXTENSION_THRESHOLD }],
+    recommendation: RECOMMENDATION_EXTEND,
+    note: null,
+    terminates: false
+  },
+  {
+    id: 'default-terminate',
+    name: 'Di bawah standar minimum',
+    appliesTo: null,
+    conditions: [],
+    recommendation: RECOMMENDATION_TERMINATE,
+    note: null,
+    terminates: false
+  }
+];
+
+// Data satu karyawan yang dibutuhkan untuk mengevaluasi aturan
+export interface RuleContext {
+  convertedScore: number;
+  values: { [criterionName: string]: number };
+  staffLabel: string;
+}
+
+const compare = (actual: number, operator: RuleOperator, expected: number): boolean => {
+  switch (operator) {
+    case '>': return actual > expected;
+    case '>=': return actual >= expected;
+    case '<': return actual < expected;
+    case '<=': return actual <= expected;
+    case '=': return actual === expected;
+    case '!=': return actual !== expected;
+    default: return false;
+  }
+};
+
+const getSubjectValue = (condition: RuleCondition, context: RuleContext): number | undefined =>
+  condition.subject === 'score'
+    ? context.convertedScore
+    : context.values[condition.criterionName || ''];
+
+// Syarat terhadap kriteria yang tidak ada pada perhitungan dianggap tidak terpenuhi
+export const evaluateCondition = (condition: RuleCondition, context: RuleContext): boolean => {
+  const actual = getSubjectValue(condition, context);
+  return actual !== undefined && compare(actual, condition.operator, condition.value);
+};
+
+export const ruleAppliesTo = (rule: RecommendationRule, staffLabel: string): boolean =>
+  !rule.appliesTo || staffLabel.toLowerCase().includes(rule.appliesTo.trim().toLowerCase());
+
+// Aturan pertama (sesuai urutan) yang cakupan dan semua syaratnya terpenuhi
+export const findMatchingRule = (rules: RecommendationRule[], context: RuleContext): RecommendationRule | null =>
+  rules.find(rule =>
+    ruleAppliesTo(rule, context.staffLabel) &&
+    rule.conditions.every(condition => evaluateCondition(condition, context))
+  ) || null;
+
+// Rekomendasi dari aturan yang terpicu; {skor} dan {nilai} pada catatan diganti nilai karyawan
+export const applyRule = (rule: RecommendationRule, context: RuleContext): Recommendation => {
+  const firstCriterion = rule.conditions.find(condition => condition.subject === 'criterion');
+  const subjectValue = firstCriterion ? getSubjectValue(firstCriterion, context) : undefined;
+  const note = rule.note
+    ? rule.note
+      .replace(/\{skor\}/g, context.convertedScore.toFixed(2))
+      .replace(/\{nilai\}/g, subjectValue !== undefined ? String(subjectValue) : '-')
+    : undefined;
+
+  return note ? { recommendation: rule.recommendation, note } : { recommendation: rule.recommendation };
+};
+
+export const describeCondition = (condition: RuleCondition): string => {
+  const subject = condition.subject === 'score' ? 'Skor konversi' : condition.criterionName || '?';
+  const operator = RULE_OPERATORS.find(item => item.value === condition.operator)?.label || condition.operator;
+  return `${subject} ${operator} ${condition.value}`;
+};
+
+// Mengembalikan pesan kesalahan pertama pada aturan, atau null jika valid
+export const validateRule = (rule: RecommendationRule): string | null => {
+  if (!rule.name.trim()) return 'Nama aturan wajib diisi';
+  if (!rule.recommendation.trim()) return 'Rekomendasi wajib diisi';
+
+  for (const condition of rule.conditions) {
+    if (condition.subject === 'criterion' && !condition.criterionName) {
+      return 'Pilih kriteria untuk setiap syarat kriteria';
+    }
+    if (!Number.isFinite(condition.value)) {
+      return 'Nilai syarat harus berupa angka';
+    }
+  }
+
+  return null;
+};
+
+// Mengubah baris tabel recommendation_rules menjadi aturan engine
+export const toRecommendationRule = (row: {
+  id: string;
+  name: string;
+  applies_to: string | null;
+  conditions: unknown;
+  recommendation: string;
+  note: string | null;
+  terminates: boolean;
+}): RecommendationRule => ({
+  id: row.id,
+  name: row.name,
+  appliesTo: row.applies_to,
+  conditions: Array.isArray(row.conditions) ? row.conditions as RuleCondition[] : [],
+  recommendation: row.recommendation,
+  note: row.note,
+  terminates: row.terminates
+});
@@ -0,0 +1,136 @@
+import type { CriterionScale, CriterionType, ScaleKind } from "./types";
+
+export const SCALE_KINDS: { value: ScaleKind; label: string }[] = [
+  { value: 'likert', label: 'Likert' },
+  { value: 'binary', label: 'Biner (Ya/Tidak)' },
+  { value: 'count', label: 'Jumlah (hitungan)' },
+  { value: 'percentage', label: 'Persentase' }
+];
+
+// Skala bawaan untuk setiap jenis, dipakai saat membuat kriteria baru atau mengganti jenis skala
+export const DEFAULT_SCALES: { [kind in ScaleKind]: CriterionScale } = {
+  likert: { kind: 'likert', min: 1, max: 5, step: 1, labels: null },
+  binary: { kind: 'binary', min: 0, max: 1, step: 1, labels: { '0': 'Tidak', '1': 'Ya' } },
+  count: { kind: 'count', min: 0, max: null, step: 1, labels: null },
+  percentage: { kind: 'percentage', min: 0, max: 100, step: 1, labels: null }
+};
+
+const isScaleKind = (value: unknown): value is ScaleKind =>
+  SCALE_KINDS.some(item => item.value === value);
+
+/**
+ * Membaca skala terstruktur dari kolom JSON criteria.scale.
+ * Teks skala lama (sebelum migrasi) tetap dikenali agar data lama tidak rusak.
+ */
+export const parseScale = (value: unknown): CriterionScale => {
+  if (typeof value === 'string') {
+    return parseLegacyScale(value);
+  }
+  if (typeof value !== 'object' || value === null || !isScaleKind((value as CriterionScale).kind)) {
+    return DEFAULT_SCALES.count;
+  }
+
+  const scale = value as Partial<CriterionScale> & { kind: ScaleKind };
+  const defaults = DEFAULT_SCALES[scale.kind];
+  const labels = typeof scale.labels === 'object' && scale.labels !== null ? scale.labels : null;
+
+  return {
+    kind: scale.kind,
+    min: typeof scale.min === 'number' ? scale.min : defaults.min,
+    max: typeof scale.max === 'number' ? scale.max : scale.max === null ? null : defaults.max,
+    step: typeof scale.step === 'number' && scale.step > 0 ? scale.step : defaults.step,
+    labels: labels && Object.keys(labels).length > 0 ? labels : null
+  };
+};
+
+// Konversi teks skala bebas (mis. "1-5", "1 s/d 4", "0/1", "0-100%") menjadi skala terstruktur
+export const parseLegacyScale = (text: string): CriterionScale => {
+  const range = text.match(/(\d+(?:[.,]\d+)?)\s*(?:-|–|\/|s\.?\/?d\.?|sampai)\s*(\d+(?:[.,]\d+)?)/i);
+
+  if (text.includes('%')) {
+    return { ...DEFAULT_SCALES.percentage, max: range ? parseFloat(range[2].replace(',', '.')) : 100 };
+  }
+  if (!range) {
+    return DEFAULT_SCALES.count;
+  }
+
+  const min = parseFloat(range[1].replace(',', '.'));
+  const max = parseFloat(range[2].replace(',', '.'));
+
+  if (min === 0 && max === 1) {
+    return DEFAULT_SCALES.binary;
+  }
+  if (min >= 1) {
+    return { kind: 'likert', min, max, step: 1, labels: null };
+  }
+  return { kind: 'count', min, max, step: 1, labels: null };
+};
+
+// Teks ringkas skala untuk label form dan tabel, mis. "Likert 1-5" atau "Jumlah ≥ 0"
+export const formatScale = (scale: CriterionScale): string => {
+  const kindLabel = SCALE_KINDS.find(item => item.value === scale.kind)?.label || scale.kind;
+  if (scale.kind === 'binary') {
+    return `${kindLabel} ${scale.min}/${scale.max}`;
+  }
+  if (scale.max === null) {
+    return `${kindLabel} ≥ ${scale.min}`;
+  }
+  return `${kindLabel} ${scale.min}-${scale.max}${scale.kind === 'percentage' ? '%' : ''}`;
+};
+
+// Nilai awal form evaluasi: Benefit mulai dari nilai minimum skala, Cost dari 0 bila diizinkan
+export const getScaleDefaultValue = (scale: CriterionScale, type: CriterionType): number => {
+  if (type === 'Cost' && scale.min <= 0 && (scale.max === null || scale.max >= 0)) {
+    return 0;
+  }
+  return scale.min;
+};
+
+/**
+ * Nilai terbaik dan terburuk yang mungkin pada skala kriteria, sebagai titik acuan mutlak
+ * metode WP dan TOPSIS. Skala tanpa batas atas memakai nilai terbesar kolom, dan nilai di
+ * luar skala ikut memperlebar batas agar skor tidak melewati rentang 0-1.
+ */
+export const getScaleBounds = (
+  criterion: { type: CriterionType; scale: CriterionScale },
+  column: number[]
+): { best: number; worst: number } => {
+  const lowest = Math.min(criterion.scale.min, ...column);
+  const highest = Math.max(criterion.scale.max ?? -Infinity, ...column);
+  return criterion.type === 'Benefit'
+    ? { best: highest, worst: lowest }
+    : { best: lowest, worst: highest };
+};
+
+// Validasi definisi skala saat kriteria disimpan; mengembalikan pesan kesalahan atau null
+export const validateScale = (scale: CriterionScale): string | null => {
+  if (!Number.isFinite(scale.min)) return 'Nilai minimum skala wajib diisi';
+  if (scale.max === null && scale.kind !== 'count') return 'Nilai maksimum skala wajib diisi';
+  if (scale.max !== null && scale.max <= scale.min) return 'Nilai maksimum skala harus lebih besar dari minimum';
+  if (!(scale.step > 0)) return 'Langkah skala harus lebih besar dari 0';
+  if (scale.kind === 'binary' && (scale.min !== 0 || scale.max !== 1)) return 'Skala biner harus bernilai 0 sampai 1';
+  return null;
+};
+
+// Validasi satu nilai evaluasi terhadap skala kriteria; mengembalikan pesan kesalahan atau null
+export const validateScaleValue = (value: number, scale: CriterionScale): string | null => {
+  if (!Number.isFinite(value)) return 'harus berupa angka';
+  if (value < scale.min) return `minimal ${scale.min}`;
+  if (scale.max !== null && value > scale.max) return `maksimal ${scale.max}`;
+
+  // Toleransi pembulatan untuk langkah desimal seperti 0.5
+  const steps = (value - scale.min) / scale.step;
+  if (Math.abs(steps - Math.round(steps)) > 1e-9) return `harus kelipatan ${scale.step} dari ${scale.min}`;
+
+  return null;
+};
+
+// Daftar nilai yang mungkin pada skala berhingga yang kecil (untuk label per nilai), selain itu kosong
+export const getScaleValues = (scale: CriterionScale, maxCount: number = 11): number[] => {
+  if (scale.max === null || !(scale.step > 0)) return [];
+
+  const count = Math.floor((scale.max - scale.min) / scale.step + 1e-9) + 1;
+  if (count < 1 || count > maxCount) return [];
+
+  return Array.from({ length: count }, (_, i) => parseFloat((scale.min + i * scale.step).toFixed(4)));
+};
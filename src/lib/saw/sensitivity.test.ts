@@ -0,0 +1,52 @@
+import { describe, expect, it } from "vitest";
+import { calculateSAW } from "./engine";
+import { findRecommendationFlips, getScoreThresholds, reweightCriteria } from "./sensitivity";
+import { DEFAULT_SCALES } from "./scale";
+import { RECOMMENDATION_EXTEND, RECOMMENDATION_TERMINATE } from "./recommendation";
+import { DEFAULT_RECOMMENDATION_RULES } from "./rules";
+import type { RecommendationRule, SAWCriterion } from "./types";
+
+const criteria: SAWCriterion[] = [
+  { id: 'kualitas', name: 'Kualitas Kerja', type: 'Benefit', weight: 50, category: 'A. Kinerja Inti', scale: DEFAULT_SCALES.likert },
+  { id: 'inisiatif', name: 'Inisiatif', type: 'Benefit', weight: 50, category: 'A. Kinerja Inti', scale: DEFAULT_SCALES.likert }
+];
+
+// Skor konversi 3.50: tepat di atas ambang bawaan 3.0
+const matrix = [[5, 2]];
+
+const strictRules: RecommendationRule[] = [
+  { id: 'extend', name: 'Perpanjang', appliesTo: null, conditions: [{ subject: 'score', operator: '>=', value: 3.6 }], recommendation: RECOMMENDATION_EXTEND, note: null, terminates: false },
+  { id: 'terminate', name: 'Berhenti', appliesTo: null, conditions: [], recommendation: RECOMMENDATION_TERMINATE, note: null, terminates: false }
+];
+
+describe('getScoreThresholds', () => {
+  it('collects the score thresholds of the rules in ascending order', () => {
+    expect(getScoreThresholds(DEFAULT_RECOMMENDATION_RULES)).toEqual([3, 4]);
+    expect(getScoreThresholds(strictRules)).toEqual([3.6]);
+  });
+});
+
+describe('findRecommendationFlips', () => {
+  it('uses the thresholds of the active rules, not the default 3.0', () => {
+    const options = { rules: strictRules };
+    const { scores } = calculateSAW(criteria, matrix, options);
+    expect(scores[0].recommendation).toBe(RECOMMENDATION_TERMINATE);
+
+    const [flip] = findRecommendationFlips(criteria, matrix, scores, options);
+    expect(flip).toMatchObject({ fromRecommendation: RECOMMENDATION_TERMINATE, toRecommendation: RECOMMENDATION_EXTEND });
+
+    // Bobot baru benar-benar menaikkan skor konversi tepat ke ambang aturan
+    const reweighted = calculateSAW(reweightCriteria(criteria, flip.criterionIndex, flip.newWeight), matrix, options).scores[0];
+    expect(reweighted.convertedScore).toBe(3.6);
+    expect(reweighted.recommendation).toBe(RECOMMENDATION_EXTEND);
+  });
+
+  it('finds the downward flip at the default extension threshold', () => {
+    const { scores } = calculateSAW(criteria, matrix);
+    const [flip] = findRecommendationFlips(criteria, matrix, scores);
+
+    expect(flip).toMatchObject({ fromRecommendation: RECOMMENDATION_EXTEND, toRecommendation: RECOMMENDATION_TERMINATE });
+    const reweighted = calculateSAW(reweightCriteria(criteria, flip.criterionIndex, flip.newWeight), matrix).scores[0];
+    expect(reweighted.convertedScore).toBe(2.99);
+  });
+});
@@ -0,0 +1,195 @@
+import { calculateSAW, weightedSum } from "./engine";
+import { normalizeMatrix } from "./normalize";
+import { EXTENSION_THRESHOLD, PROMOTION_THRESHOLD, convertScore, getRecommendation } from "./recommendation";
+import { DEFAULT_RECOMMENDATION_RULES, applyRule, findMatchingRule } from "./rules";
+import type { RecommendationRule, SAWCriterion, SAWOptions, SAWScore } from "./types";
+
+export interface RankFlip {
+  upperIndex: number; // Alternatif dengan peringkat lebih tinggi saat ini
+  lowerIndex: number;
+  criterionIndex: number | null; // null jika tidak ada perubahan bobot yang membalik urutan
+  weightChange: number; // Perubahan bobot kriteria dalam poin persen
+  newWeight: number;
+}
+
+export interface RecommendationFlip {
+  index: number;
+  criterionIndex: number;
+  weightChange: number;
+  newWeight: number;
+  fromRecommendation: string;
+  toRecommendation: string;
+}
+
+export interface WeightSweepPoint {
+  weight: number;
+  scores: number[]; // Skor akhir per alternatif (urutan baris decision matrix)
+}
+
+/**
+ * Mengubah bobot kriteria ke-j menjadi `newWeight` dan menskalakan bobot kriteria
+ * lain secara proporsional sehingga total bobot tetap sama.
+ */
+export const reweightCriteria = <T extends SAWCriterion>(criteria: T[], j: number, newWeight: number): T[] => {
+  const total = criteria.reduce((sum, criterion) => sum + criterion.weight, 0);
+  const othersTotal = total - criteria[j].weight;
+  const factor = othersTotal > 0 ? (total - newWeight) / othersTotal : 0;
+
+  return criteria.map((criterion, k) => ({
+    ...criterion,
+    weight: k === j ? newWeight : criterion.weight * factor
+  }));
+};
+
+/**
+ * Dengan penskalaan proporsional, skor SAW tiap alternatif linear terhadap perubahan
+ * bobot kriteria ke-j: s(d) = s + d × g. Fungsi ini mengembalikan gradien g per alternatif.
+ */
+const scoreGradients = (criteria: SAWCriterion[], normalizedMatrix: number[][], j: number): number[] | null => {
+  const total = criteria.reduce((sum, criterion) => sum + criterion.weight, 0);
+  const othersTotal = total - criteria[j].weight;
+  if (othersTotal <= 0) return null;
+
+  const weights = criteria.map(criterion => criterion.weight / 100);
+  return normalizedMatrix.map(row => {
+    const rest = weightedSum(row, weights) - row[j] * weights[j];
+    return row[j] / 100 - rest / othersTotal;
+  });
+};
+
+// Perubahan bobot yang masih menghasilkan bobot valid (0..total)
+const isFeasibleChange = (criteria: SAWCriterion[], j: number, change: number): boolean => {
+  const total = criteria.reduce((sum, criterion) => sum + criterion.weight, 0);
+  const newWeight = criteria[j].weight + change;
+  return Number.isFinite(change) && newWeight >= 0 && newWeight <= total;
+};
+
+/**
+ * Untuk setiap pasangan peringkat berurutan, cari perubahan bobot terkecil
+ * (pada satu kriteria) yang membuat urutan keduanya terbalik.
+ */
+export const findRankFlips = (criteria: SAWCriterion[], matrix: number[][], scores: SAWScore[]): RankFlip[] => {
+  const normalizedMatrix = normalizeMatrix(matrix, criteria);
+  const gradients = criteria.map((_, j) => scoreGradients(criteria, normalizedMatrix, j));
+  const ranked = scores.filter(score => !score.isAutoTerminated);
+  const flips: RankFlip[] = [];
+
+  for (let position = 0; position < ranked.length - 1; position++) {
+    const upper = ranked[position];
+    const lower = ranked[position + 1];
+    const flip: RankFlip = {
+      upperIndex: upper.index,
+      lowerIndex: lower.index,
+      criterionIndex: null,
+      weightChange: Infinity,
+      newWeight: 0
+    };
+
+    gradients.forEach((gradient, j) => {
+      if (!gradient) return;
+      const slope = gradient[upper.index] - gradient[lower.index];
+      if (slope === 0) return;
+
+      const change = -(upper.finalScore - lower.finalScore) / slope;
+      if (isFeasibleChange(criteria, j, change) && Math.abs(change) < Math.abs(flip.weightChange)) {
+        flip.criterionIndex = j;
+        flip.weightChange = change;
+        flip.newWeight = criteria[j].weight + change;
+      }
+    });
+
+    flips.push(flip);
+  }
+
+  return flips;
+};
+
+// Ambang skor konversi (0-5) pada syarat skor aturan rekomendasi; ambang bawaan bila tidak ada
+export const getScoreThresholds = (rules: RecommendationRule[]): number[] => {
+  const thresholds = rules.flatMap(rule =>
+    rule.conditions.filter(condition => condition.subject === 'score').map(condition => condition.value)
+  );
+  return Array.from(new Set(thresholds.length > 0 ? thresholds : [EXTENSION_THRESHOLD, PROMOTION_THRESHOLD]))
+    .sort((a, b) => a - b);
+};
+
+// Ambang perpanjangan (ambang skor terendah) dan promosi (ambang skor tertinggi) dari aturan rekomendasi
+export const getRecommendationThresholds = (rules: RecommendationRule[]): { extension: number; promotion: number } => {
+  const thresholds = getScoreThresholds(rules);
+  return { extension: thresholds[0], promotion: thresholds[thresholds.length - 1] };
+};
+
+/**
+ * Untuk setiap karyawan, cari perubahan bobot terkecil yang memindahkan skornya melewati
+ * salah satu ambang skor aturan rekomendasi aktif sehingga rekomendasinya berubah. Skor
+ * konversi dibulatkan 2 desimal, jadi batas skor akhir diambil di kedua sisi pembulatan
+ * ambang dan rekomendasi baru dicek ulang dengan aturan yang sama seperti perhitungan.
+ */
+export const findRecommendationFlips = (
+  criteria: SAWCriterion[],
+  matrix: number[][],
+  scores: SAWScore[],
+  options: SAWOptions = {}
+): RecommendationFlip[] => {
+  const rules = options.rules || DEFAULT_RECOMMENDATION_RULES;
+  const normalizedMatrix = normalizeMatrix(matrix, criteria);
+  const gradients = criteria.map((_, j) => scoreGradients(criteria, normalizedMatrix, j));
+  const boundaries = [...getScoreThresholds(rules), EXTENSION_THRESHOLD, PROMOTION_THRESHOLD]
+    .flatMap(threshold => [(threshold - 0.005) / 5, (threshold + 0.005) / 5]);
+  const flips: RecommendationFlip[] = [];
+
+  scores.filter(score => !score.isAutoTerminated).forEach(score => {
+    const values: { [criterionName: string]: number } = {};
+    criteria.forEach((criterion, j) => {
+      values[criterion.name] = matrix[score.index][j];
+    });
+    const staffLabel = options.staffLabels?.[score.index] || '';
+    const recommendationAt = (finalScore: number): string => {
+      const context = { convertedScore: convertScore(finalScore), values, staffLabel };
+      const rule = findMatchingRule(rules, context);
+      return (rule ? applyRule(rule, context) : getRecommendation(context.convertedScore)).recommendation;
+    };
+
+    let best: RecommendationFlip | null = null;
+
+    boundaries.forEach(boundary => {
+      // Sedikit melewati batas agar pembulatan skor konversi jatuh di sisi seberang
+      const target = boundary + (boundary > score.finalScore ? 1e-9 : -1e-9);
+      const toRecommendation = recommendationAt(target);
+      if (toRecommendation === score.recommendation) return;
+
+      for (let j = 0; j < criteria.length; j++) {
+        const gradient = gradients[j];
+        if (!gradient || gradient[score.index] === 0) continue;
+
+        const change = (target - score.finalScore) / gradient[score.index];
+        if (isFeasibleChange(criteria, j, change) && (!best || Math.abs(change) < Math.abs(best.weightChange))) {
+          best = {
+            index: score.index,
+            criterionIndex: j,
+            weightChange: change,
+            newWeight: criteria[j].weight + change,
+            fromRecommendation: score.recommendation,
+            toRecommendation
+          };
+        }
+      }
+    });
+
+    if (best) flips.push(best);
+  });
+
+  return flips.sort((a, b) => Math.abs(a.weightChange) - Math.abs(b.weightChange));
+};
+
+// Menjalankan ulang SAW untuk beberapa nilai bobot kriteria ke-j
+export const sweepCriterionWeight = (criteria: SAWCriterion[], matrix: number[][], j: number, weights: number[]): WeightSweepPoint[] => {
+  return weights.map(weight => {
+    const { scores } = calculateSAW(reweightCriteria(criteria, j, weight), matrix, { rules: [] });
+    const byIndex = new Array(matrix.length).fill(0);
+    scores.forEach(score => {
+      byIndex[score.index] = score.finalScore;
+    });
+    return { weight, scores: byIndex };
+  });
+};
@@ -0,0 +1,69 @@
+import { SNAPSHOT_SCORE_TOLERANCE, compareResultSets } from "./snapshot";
+import type { SnapshotResult, SnapshotVerification } from "./snapshot";
+
+// Satu baris hasil fungsi database calculate_saw (kolom mengikuti saw_results)
+export interface ServerCalculationResult {
+  employee_id: string;
+  final_score: number;
+  converted_score: number;
+  rank: number;
+  recommendation: string;
+  note: string | null;
+  rule_name: string | null;
+  is_tied: boolean;
+  tie_break_reason: string | null;
+}
+
+export interface ServerCalculation {
+  calculationId: string | null; // Terisi hanya bila hasil server ikut disimpan
+  results: ServerCalculationResult[];
+  excludedEmployeeIds: string[];
+}
+
+// Membaca nilai balik calculate_saw; null bila bentuknya tidak dikenali
+export const parseServerCalculation = (value: unknown): ServerCalculation | null => {
+  if (!value || typeof value !== 'object') return null;
+
+  const response = value as { calculation_id?: unknown; results?: unknown; excluded_employee_ids?: unknown };
+  if (!Array.isArray(response.results)) return null;
+
+  return {
+    calculationId: typeof response.calculation_id === 'string' ? response.calculation_id : null,
+    results: response.results as ServerCalculationResult[],
+    excludedEmployeeIds: Array.isArray(response.excluded_employee_ids) ? response.excluded_employee_ids as string[] : []
+  };
+};
+
+/**
+ * Cek silang hasil kalkulator browser dengan hasil fungsi database pada periode yang sama.
+ * `stored` pada selisih adalah nilai browser, `recomputed` nilai server. Server memakai nilai pengganti
+ * dari catatan kebijakan nilai kosong browser; jumlah karyawan yang dikeluarkan tetap dicocokkan.
+ */
+export const crossCheckWithServer = (
+  local: SnapshotResult[],
+  server: ServerCalculation,
+  localExcludedCount: number,
+  tolerance: number = SNAPSHOT_SCORE_TOLERANCE
+): SnapshotVerification => {
+  const mismatches = compareResultSets(local, server.results.map(result => ({
+    employeeId: result.employee_id,
+    finalScore: result.final_score,
+    rank: result.rank,
+    recommendation: result.recommendation
+  })), tolerance);
+
+  const warnings: string[] = [];
+  if (server.excludedEmployeeIds.length !== localExcludedCount) {
+    warnings.push(
+      `Server mengeluarkan ${server.excludedEmployeeIds.length} karyawan dengan nilai kosong, ` +
+      `browser mengeluarkan ${localExcludedCount}; nilai evaluasi mungkin berubah sejak perhitungan di layar`
+    );
+  }
+
+  return {
+    matches: mismatches.length === 0,
+    checked: local.length,
+    mismatches,
+    warnings
+  };
+};
@@ -0,0 +1,59 @@
+import { describe, expect, it } from "vitest";
+import { buildCalculationSnapshot, rerunSnapshot, verifySnapshot } from "./snapshot";
+import { DEFAULT_RECOMMENDATION_RULES } from "./rules";
+import { DEFAULT_SCALES } from "./scale";
+import type { RecommendationRule, SAWCriterion } from "./types";
+
+const criteria: SAWCriterion[] = [
+  { id: 'kualitas', name: 'Kualitas Kerja', type: 'Benefit', weight: 60, category: 'A. Kinerja Inti', scale: DEFAULT_SCALES.likert },
+  { id: 'alpa', name: 'Jumlah Hari Alpa', type: 'Cost', weight: 40, category: 'B. Kedisiplinan', scale: DEFAULT_SCALES.count }
+];
+
+const matrix = [[2, 3], [4, 0]];
+
+// Aturan bawaan dengan ambang promosi dinaikkan dari 4 ke 4.5
+const stricterRules: RecommendationRule[] = DEFAULT_RECOMMENDATION_RULES.map(rule =>
+  rule.id === 'default-promotion'
+    ? { ...rule, conditions: [{ subject: 'score', operator: '>=', value: 4.5 }] }
+    : rule
+);
+
+const storedResults = (rules: RecommendationRule[]) => {
+  const snapshot = buildCalculationSnapshot('SAW', criteria, ['a', 'b'], matrix, { rules }, 'test');
+  return {
+    snapshot,
+    stored: rerunSnapshot(snapshot).scores.map(score => ({
+      employeeId: snapshot.employeeIds[score.index],
+      finalScore: score.finalScore,
+      rank: score.rank,
+      recommendation: score.recommendation
+    }))
+  };
+};
+
+describe('buildCalculationSnapshot', () => {
+  it('takes the thresholds from the score conditions of the rules', () => {
+    expect(storedResults(DEFAULT_RECOMMENDATION_RULES).snapshot.thresholds).toEqual({ extension: 3, promotion: 4 });
+    expect(storedResults(stricterRules).snapshot.thresholds).toEqual({ extension: 3, promotion: 4.5 });
+  });
+});
+
+describe('verifySnapshot', () => {
+  it('matches without warnings while the rules are unchanged', () => {
+    const { snapshot, stored } = storedResults(DEFAULT_RECOMMENDATION_RULES);
+    const verification = verifySnapshot(snapshot, stored, DEFAULT_RECOMMENDATION_RULES);
+
+    expect(verification.matches).toBe(true);
+    expect(verification.warnings).toEqual([]);
+  });
+
+  it('warns when a rule threshold changed after the calculation', () => {
+    const { snapshot, stored } = storedResults(DEFAULT_RECOMMENDATION_RULES);
+    const verification = verifySnapshot(snapshot, stored, stricterRules);
+
+    expect(verification.matches).toBe(true);
+    expect(verification.warnings).toHaveLength(1);
+    expect(verification.warnings[0]).toContain('Ambang rekomendasi berubah');
+    expect(verification.warnings[0]).toContain('promosi 4 → 4.5');
+  });
+});
@@ -0,0 +1,189 @@
+import { calculateSAW } from "./engine";
+import { calculateTOPSIS } from "./topsis";
+import { calculateWP } from "./wp";
+import { DEFAULT_RECOMMENDATION_RULES } from "./rules";
+import { getRecommendationThresholds } from "./sensitivity";
+import { DEFAULT_TIE_BREAKERS } from "./tiebreak";
+import type { CalculationMethod } from "./methods";
+import type { RecommendationRule, SAWCriterion, SAWOptions, SAWOutput } from "./types";
+
+// Naikkan bila struktur snapshot berubah sehingga snapshot lama perlu dibaca berbeda
+export const SNAPSHOT_VERSION = 1;
+
+// Selisih skor akhir (0-1) yang masih dianggap sama saat verifikasi ulang
+export const SNAPSHOT_SCORE_TOLERANCE = 1e-4;
+
+/**
+ * Semua masukan sebuah perhitungan, disimpan bersama hasilnya agar hasil lama dapat
+ * dihitung ulang dan dijelaskan walaupun kriteria, bobot, atau aturan sudah berubah.
+ */
+export interface CalculationSnapshot {
+  version: number;
+  appVersion: string;
+  method: CalculationMethod;
+  criteria: SAWCriterion[]; // Nama, tipe, bobot, skala, dan strategi normalisasi sesuai urutan kolom
+  employeeIds: string[]; // Sesuai urutan baris matrix
+  matrix: number[][]; // Decision matrix mentah yang dihitung, termasuk nilai pengganti nilai kosong
+  options: Required<SAWOptions>;
+  thresholds: { extension: number; promotion: number }; // Dari syarat skor aturan rekomendasi yang dipakai
+}
+
+export interface SnapshotResult {
+  employeeId: string;
+  finalScore: number;
+  rank: number;
+  recommendation: string;
+}
+
+export interface SnapshotMismatch {
+  employeeId: string;
+  field: 'missing' | 'finalScore' | 'rank' | 'recommendation';
+  stored: string | number | null;
+  recomputed: string | number | null;
+}
+
+export interface SnapshotVerification {
+  matches: boolean;
+  checked: number;
+  mismatches: SnapshotMismatch[];
+  warnings: string[]; // Perbedaan lingkungan yang dapat menjelaskan selisih hasil
+}
+
+export const buildCalculationSnapshot = (
+  method: CalculationMethod,
+  criteria: SAWCriterion[],
+  employeeIds: string[],
+  matrix: number[][],
+  options: SAWOptions,
+  appVersion: string
+): CalculationSnapshot => {
+  const rules = options.rules || DEFAULT_RECOMMENDATION_RULES;
+
+  return {
+    version: SNAPSHOT_VERSION,
+    appVersion,
+    method,
+    criteria: criteria.map(criterion => ({ ...criterion })),
+    employeeIds: [...employeeIds],
+    matrix: matrix.map(row => [...row]),
+    options: {
+      // Bawaan engine ikut dibekukan agar perubahan bawaan di kemudian hari tidak mengubah hasil ulang
+      rules,
+      staffLabels: options.staffLabels || [],
+      tieBreakers: options.tieBreakers || DEFAULT_TIE_BREAKERS,
+      hireDates: options.hireDates || []
+    },
+    thresholds: getRecommendationThresholds(rules)
+  };
+};
+
+// Membaca snapshot dari kolom JSON; null bila kosong (perhitungan lama) atau tidak dikenali
+export const parseCalculationSnapshot = (value: unknown): CalculationSnapshot | null => {
+  if (!value || typeof value !== 'object') return null;
+
+  const snapshot = value as Partial<CalculationSnapshot>;
+  if (typeof snapshot.version !== 'number' || snapshot.version > SNAPSHOT_VERSION) return null;
+  if (!Array.isArray(snapshot.criteria) || !Array.isArray(snapshot.matrix) || !Array.isArray(snapshot.employeeIds)) return null;
+  if (snapshot.matrix.length !== snapshot.employeeIds.length) return null;
+  if (snapshot.matrix.some(row => !Array.isArray(row) || row.length !== snapshot.criteria?.length)) return null;
+
+  return snapshot as CalculationSnapshot;
+};
+
+// Menjalankan engine metode yang diminta; SAW untuk metode yang tidak dikenali
+export const calculateWithMethod = (
+  method: CalculationMethod,
+  criteria: SAWCriterion[],
+  matrix: number[][],
+  options: SAWOptions = {}
+): SAWOutput => {
+  switch (method) {
+    case 'TOPSIS':
+      return calculateTOPSIS(criteria, matrix, options);
+    case 'WP':
+      return calculateWP(criteria, matrix, options);
+    default:
+      return calculateSAW(criteria, matrix, options);
+  }
+};
+
+// Menghitung ulang perhitungan hanya dari isi snapshot, dengan metode yang sama
+export const rerunSnapshot = (snapshot: CalculationSnapshot): SAWOutput =>
+  calculateWithMethod(snapshot.method, snapshot.criteria, snapshot.matrix, snapshot.options);
+
+/**
+ * Membandingkan dua kumpulan hasil per karyawan: skor akhir (dengan toleransi), peringkat,
+ * dan rekomendasi. Karyawan yang hanya ada di salah satu sisi dicatat sebagai 'missing'.
+ */
+export const compareResultSets = (
+  stored: SnapshotResult[],
+  recomputed: SnapshotResult[],
+  tolerance: number = SNAPSHOT_SCORE_TOLERANCE
+): SnapshotMismatch[] => {
+  const recomputedById = new Map(recomputed.map(result => [result.employeeId, result]));
+  const mismatches: SnapshotMismatch[] = [];
+
+  stored.forEach(result => {
+    const score = recomputedById.get(result.employeeId);
+    if (!score) {
+      mismatches.push({ employeeId: result.employeeId, field: 'missing', stored: result.rank, recomputed: null });
+      return;
+    }
+
+    if (Math.abs(score.finalScore - result.finalScore) > tolerance) {
+      mismatches.push({ employeeId: result.employeeId, field: 'finalScore', stored: result.finalScore, recomputed: score.finalScore });
+    }
+    if (score.rank !== result.rank) {
+      mismatches.push({ employeeId: result.employeeId, field: 'rank', stored: result.rank, recomputed: score.rank });
+    }
+    if (score.recommendation !== result.recommendation) {
+      mismatches.push({ employeeId: result.employeeId, field: 'recommendation', stored: result.recommendation, recomputed: score.recommendation });
+    }
+  });
+
+  const storedIds = new Set(stored.map(result => result.employeeId));
+  recomputed
+    .filter(result => !storedIds.has(result.employeeId))
+    .forEach(result => {
+      mismatches.push({ employeeId: result.employeeId, field: 'missing', stored: null, recomputed: result.rank });
+    });
+
+  return mismatches;
+};
+
+/**
+ * Membandingkan hasil tersimpan dengan hasil hitung ulang dari snapshot: skor akhir
+ * (dengan toleransi), peringkat, dan rekomendasi per karyawan. Ambang snapshot juga
+ * dibandingkan dengan ambang aturan rekomendasi yang aktif sekarang.
+ */
+export const verifySnapshot = (
+  snapshot: CalculationSnapshot,
+  stored: SnapshotResult[],
+  currentRules: RecommendationRule[] = DEFAULT_RECOMMENDATION_RULES,
+  tolerance: number = SNAPSHOT_SCORE_TOLERANCE
+): SnapshotVerification => {
+  const { scores } = rerunSnapshot(snapshot);
+  const recomputed = scores.map(score => ({
+    employeeId: snapshot.employeeIds[score.index],
+    finalScore: score.finalScore,
+    rank: score.rank,
+    recommendation: score.recommendation
+  }));
+  const mismatches = compareResultSets(stored, recomputed, tolerance);
+
+  const warnings: string[] = [];
+  const current = getRecommendationThresholds(currentRules);
+  if (snapshot.thresholds.extension !== current.extension || snapshot.thresholds.promotion !== current.promotion) {
+    warnings.push(
+      `Ambang rekomendasi berubah sejak perhitungan (perpanjangan ${snapshot.thresholds.extension} → ${current.extension}, ` +
+      `promosi ${snapshot.thresholds.promotion} → ${current.promotion})`
+    );
+  }
+
+  return {
+    matches: mismatches.length === 0,
+    checked: stored.length,
+    mismatches,
+    warnings
+  };
+};
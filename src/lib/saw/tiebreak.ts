@@ -0,0 +1,88 @@
+import type { SAWCriterion, TieBreaker } from "./types";
+
+// Selisih skor akhir di bawah batas ini dianggap seri (menghindari galat floating point)
+export const SCORE_TIE_EPSILON = 1e-9;
+
+export const SHARED_RANK_REASON = 'Peringkat bersama';
+
+// Urutan pemecah seri bawaan: Kinerja Inti, lalu Hari Alpa paling sedikit, lalu masa kerja terlama
+export const DEFAULT_TIE_BREAKERS: TieBreaker[] = [
+  { kind: 'category', category: 'A. Kinerja Inti' },
+  { kind: 'criterion', criterionName: 'Jumlah Hari Alpa', direction: 'lower' },
+  { kind: 'hireDate' }
+];
+
+export const describeTieBreaker = (tieBreaker: TieBreaker): string => {
+  switch (tieBreaker.kind) {
+    case 'category':
+      return `Skor ${tieBreaker.category} lebih tinggi`;
+    case 'criterion':
+      return `${tieBreaker.criterionName} lebih ${tieBreaker.direction === 'lower' ? 'sedikit' : 'banyak'}`;
+    case 'hireDate':
+      return 'Tanggal masuk lebih awal';
+    default:
+      return '';
+  }
+};
+
+/**
+ * Menghitung kunci pemecah seri per baris (semakin besar semakin baik) sesuai
+ * urutan `tieBreakers`. Data yang tidak tersedia diberi -Infinity agar kalah,
+ * dan pemecah yang merujuk kriteria/kategori yang tidak ada bernilai 0 untuk semua.
+ */
+export const buildTieBreakKeys = (
+  tieBreakers: TieBreaker[],
+  criteria: SAWCriterion[],
+  matrix: number[][],
+  normalizedMatrix: number[][],
+  hireDates: (string | undefined)[] = []
+): number[][] => {
+  return matrix.map((row, i) => tieBreakers.map(tieBreaker => {
+    switch (tieBreaker.kind) {
+      case 'category':
+        // Kontribusi kategori terhadap skor akhir: Σ nilai normalisasi × bobot desimal
+        return criteria.reduce((sum, criterion, j) =>
+          criterion.category === tieBreaker.category ? sum + normalizedMatrix[i][j] * (criterion.weight / 100) : sum, 0);
+      case 'criterion': {
+        const j = criteria.findIndex(criterion => criterion.name === tieBreaker.criterionName);
+        if (j === -1) return 0;
+        return tieBreaker.direction === 'lower' ? -row[j] : row[j];
+      }
+      case 'hireDate': {
+        const time = hireDates[i] ? new Date(hireDates[i] as string).getTime() : NaN;
+        return Number.isNaN(time) ? -Infinity : -time;
+      }
+      default:
+        return 0;
+    }
+  }));
+};
+
+// Indeks pemecah pertama yang membedakan dua kunci, atau -1 jika semuanya sama
+export const findDecidingTieBreaker = (keysA: number[], keysB: number[]): number => {
+  for (let k = 0; k < keysA.length; k++) {
+    if (Math.abs(keysA[k] - keysB[k]) > SCORE_TIE_EPSILON) {
+      return k;
+    }
+  }
+  return -1;
+};
+
+// Membaca rantai pemecah seri dari kolom JSON, mengabaikan entri yang tidak valid
+export const parseTieBreakers = (value: unknown): TieBreaker[] | null => {
+  if (!Array.isArray(value)) return null;
+
+  return value.filter((item): item is TieBreaker => {
+    if (typeof item !== 'object' || item === null) return false;
+    switch ((item as TieBreaker).kind) {
+      case 'category':
+        return typeof (item as { category?: unknown }).category === 'string';
+      case 'criterion':
+        return typeof (item as { criterionName?: unknown }).criterionName === 'string';
+      case 'hireDate':
+        return true;
+      default:
+        return false;
+    }
+  });
+};
@@ -0,0 +1,68 @@
+import { finalizeScores } from "./engine";
+import type { SAWCriterion, SAWOptions, SAWOutput } from "./types";
+
+export interface TOPSISDistance {
+  positive: number; // Jarak ke solusi ideal positif (D+)
+  negative: number; // Jarak ke solusi ideal negatif (D-)
+}
+
+export interface TOPSISOutput extends SAWOutput {
+  weightedMatrix: number[][];
+  idealSolution: number[];
+  antiIdealSolution: number[];
+  distances: TOPSISDistance[];
+  closeness: number[];
+}
+
+// Normalisasi vektor: r_ij = x_ij / sqrt(sum_i x_ij^2)
+export const vectorNormalize = (matrix: number[][], criteriaCount: number): number[][] => {
+  const divisors = Array.from({ length: criteriaCount }, (_, j) =>
+    Math.sqrt(matrix.reduce((sum, row) => sum + row[j] * row[j], 0))
+  );
+  return matrix.map(row => row.map((value, j) => divisors[j] > 0 ? value / divisors[j] : 0));
+};
+
+const euclideanDistance = (a: number[], b: number[]): number => {
+  return Math.sqrt(a.reduce((sum, value, j) => sum + (value - b[j]) ** 2, 0));
+};
+
+/**
+ * Perangkingan dengan metode TOPSIS menggunakan bobot kriteria yang sama dengan SAW.
+ * Koefisien kedekatan (0-1) dipakai sebagai skor akhir sehingga skor konversi,
+ * rekomendasi, dan aturan pemberhentian otomatis tetap sama dengan SAW.
+ */
+export const calculateTOPSIS = (criteria: SAWCriterion[], matrix: number[][], options: SAWOptions = {}): TOPSISOutput => {
+  const weights = criteria.map(criterion => criterion.weight / 100);
+  const normalizedMatrix = vectorNormalize(matrix, criteria.length);
+  const weightedMatrix = normalizedMatrix.map(row => row.map((value, j) => value * weights[j]));
+
+  const idealSolution = criteria.map((criterion, j) => {
+    const column = weightedMatrix.map(row => row[j]);
+    return criterion.type === 'Benefit' ? Math.max(...column) : Math.min(...column);
+  });
+  const antiIdealSolution = criteria.map((criterion, j) => {
+    const column = weightedMatrix.map(row => row[j]);
+    return criterion.type === 'Benefit' ? Math.min(...column) : Math.max(...column);
+  });
+
+  const distances: TOPSISDistance[] = weightedMatrix.map(row => ({
+    positive: euclideanDistance(row, idealSolution),
+    negative: euclideanDistance(row, antiIdealSolution)
+  }));
+
+  // Alternatif yang berimpit dengan solusi ideal mendapat kedekatan 1
+  const closeness = distances.map(({ positive, negative }) =>
+    positive + negative > 0 ? negative / (positive + negative) : 1
+  );
+
+  return {
+    normalizedMatrix,
+    weights,
+    weightedMatrix,
+    idealSolution,
+    antiIdealSolution,
+    distances,
+    closeness,
+    scores: finalizeScores(criteria, matrix, normalizedMatrix, closeness, options)
+  };
+};
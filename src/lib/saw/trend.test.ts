@@ -0,0 +1,37 @@
+import { describe, expect, it } from "vitest";
+import { buildEmployeeTrend } from "./trend";
+import type { TrendMatrixInput, TrendRunInput } from "./trend";
+
+const run = (calculationId: string, calculationDate: string, method: string): TrendRunInput => ({
+  calculationId,
+  calculationDate,
+  periodId: 'p1',
+  periodName: '2026',
+  label: null,
+  method,
+  isOfficial: false,
+  totalEmployees: 3,
+  finalScore: 0.8,
+  convertedScore: 4,
+  rank: 1,
+  recommendation: 'Dapat diperpanjang'
+});
+
+const cells = (calculationId: string): TrendMatrixInput[] => [
+  { calculationId, category: 'A. Kinerja Inti', weight: 0.6, normalizedValue: 1 },
+  { calculationId, category: 'B. Kedisiplinan', weight: 0.4, normalizedValue: 0.5 }
+];
+
+describe('buildEmployeeTrend', () => {
+  it('computes category subscores only for SAW runs', () => {
+    const { points, categories } = buildEmployeeTrend(
+      [run('saw', '2026-01-01', 'SAW'), run('wp', '2026-02-01', 'WP'), run('topsis', '2026-03-01', 'TOPSIS')],
+      [...cells('saw'), ...cells('wp'), ...cells('topsis')]
+    );
+
+    expect(points[0].categoryScores).toEqual({ 'A. Kinerja Inti': 3, 'B. Kedisiplinan': 1 });
+    expect(points[1].categoryScores).toEqual({});
+    expect(points[2].categoryScores).toEqual({});
+    expect(categories).toEqual(['A. Kinerja Inti', 'B. Kedisiplinan']);
+  });
+});
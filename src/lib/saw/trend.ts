@@ -0,0 +1,96 @@
+import { compareCategories } from "./categories";
+import { CATEGORY_ORDER } from "./criteria";
+import { TERMINATED_RANK } from "./engine";
+import { convertScore } from "./recommendation";
+
+// Hasil seorang karyawan pada satu perhitungan tersimpan, dari periode mana pun
+export interface TrendRunInput {
+  calculationId: string;
+  calculationDate: string;
+  periodId: string;
+  periodName: string;
+  label: string | null;
+  method: string;
+  isOfficial: boolean;
+  totalEmployees: number;
+  finalScore: number;
+  convertedScore: number;
+  rank: number;
+  recommendation: string;
+}
+
+// Satu sel matriks tersimpan karyawan tersebut; dikelompokkan per kategori untuk subskor
+export interface TrendMatrixInput {
+  calculationId: string;
+  category: string | null;
+  weight: number;
+  normalizedValue: number;
+}
+
+export interface TrendPoint extends TrendRunInput {
+  categoryScores: { [category: string]: number }; // Kontribusi kategori pada skala konversi 0-5; kosong untuk selain SAW
+  recommendationChanged: boolean; // Berbeda dari rekomendasi titik sebelumnya
+}
+
+export interface EmployeeTrend {
+  points: TrendPoint[];
+  categories: string[];
+  bestRank: number | null; // Tidak termasuk perhitungan saat karyawan diberhentikan
+  scoreChange: number | null; // Skor konversi titik terakhir dikurangi titik pertama
+}
+
+/**
+ * Menyusun riwayat seorang karyawan dari seluruh perhitungan tersimpan, urut dari yang terlama.
+ * Dengan onePerPeriod hanya perhitungan bawaan tiap periode (resmi, atau terakhir) yang dipakai
+ * sehingga tren antarperiode tidak didominasi periode yang sering dihitung ulang.
+ */
+export const buildEmployeeTrend = (
+  runs: TrendRunInput[],
+  matrix: TrendMatrixInput[],
+  onePerPeriod = false,
+  categoryOrder: string[] = CATEGORY_ORDER
+): EmployeeTrend => {
+  const sorted = [...runs].sort((a, b) => a.calculationDate.localeCompare(b.calculationDate));
+  const selected = onePerPeriod
+    ? sorted.filter(run => {
+      const periodRuns = sorted.filter(other => other.periodId === run.periodId);
+      const official = periodRuns.find(other => other.isOfficial);
+      return run === (official || periodRuns[periodRuns.length - 1]);
+    })
+    : sorted;
+
+  const subtotals = new Map<string, { [category: string]: number }>();
+  matrix.forEach(cell => {
+    const scores = subtotals.get(cell.calculationId) || {};
+    const category = cell.category || 'Lainnya';
+    scores[category] = (scores[category] || 0) + cell.normalizedValue * cell.weight;
+    subtotals.set(cell.calculationId, scores);
+  });
+
+  const points: TrendPoint[] = selected.map((run, index) => {
+    // Skor akhir hanya berupa jumlah nilai normalisasi × bobot pada SAW; TOPSIS dan WP tidak terurai per kategori
+    const categoryScores = run.method === 'SAW'
+      ? Object.fromEntries(
+        Object.entries(subtotals.get(run.calculationId) || {}).map(([category, subtotal]) => [category, convertScore(subtotal)])
+      )
+      : {};
+    return {
+      ...run,
+      categoryScores,
+      recommendationChanged: index > 0 && selected[index - 1].recommendation !== run.recommendation
+    };
+  });
+
+  const categories = Array.from(new Set(points.flatMap(point => Object.keys(point.categoryScores))))
+    .sort(compareCategories(categoryOrder));
+  const ranks = points.map(point => point.rank).filter(rank => rank !== TERMINATED_RANK);
+
+  return {
+    points,
+    categories,
+    bestRank: ranks.length > 0 ? Math.min(...ranks) : null,
+    scoreChange: points.length > 1
+      ? Math.round((points[points.length - 1].convertedScore - points[0].convertedScore) * 100) / 100
+      : null
+  };
+};
@@ -0,0 +1,133 @@
+export type CriterionType = 'Benefit' | 'Cost';
+
+export type ScaleKind = 'likert' | 'binary' | 'count' | 'percentage';
+
+// Definisi skala penilaian kriteria; max null berarti tanpa batas atas (hanya untuk hitungan)
+export interface CriterionScale {
+  kind: ScaleKind;
+  min: number;
+  max: number | null;
+  step: number;
+  labels?: { [value: string]: string } | null; // Label opsional per nilai, mis. { "1": "Sangat Kurang" }
+}
+
+// Strategi normalisasi SAW yang dapat dipilih per kriteria
+export type NormalizationStrategy = 'binary' | 'classic' | 'linear' | 'threshold';
+
+// Pita nilai untuk strategi threshold: nilai <= upTo mendapat skor (0-1), upTo null = selebihnya
+export interface ThresholdBand {
+  upTo: number | null;
+  score: number;
+}
+
+// Kriteria minimal yang dibutuhkan oleh engine perhitungan
+export interface SAWCriterion {
+  id: string;
+  name: string;
+  type: CriterionType;
+  weight: number; // Bobot dalam persen (0-100)
+  category: string;
+  scale: CriterionScale;
+  normalization?: NormalizationStrategy; // Default: 'binary' (aturan awal aplikasi)
+  thresholdBands?: ThresholdBand[] | null;
+  code?: string; // Kode tetap yang diberikan admin (mis. C5); tidak berubah saat kriteria lain ditambahkan
+  position?: number | null; // Urutan tampilan tersimpan; urutan kolom decision matrix dalam kategori
+}
+
+// Strategi normalisasi yang dipakai sebuah perhitungan, disimpan bersama hasilnya
+export interface NormalizationConfigEntry {
+  criterionId: string;
+  criterionCode?: string;
+  criterionName: string;
+  type: CriterionType;
+  strategy: NormalizationStrategy;
+  thresholdBands: ThresholdBand[] | null;
+}
+
+// Data evaluasi per alternatif (karyawan) yang diindeks berdasarkan nama field
+export interface EvaluatedRecord {
+  [key: string]: number | string | undefined;
+}
+
+export interface Recommendation {
+  recommendation: string;
+  note?: string;
+}
+
+export type RuleSubject = 'score' | 'criterion';
+export type RuleOperator = '>' | '>=' | '<' | '<=' | '=' | '!=';
+
+// Satu syarat aturan: skor konversi (0-5) atau nilai mentah kriteria dibandingkan dengan angka
+export interface RuleCondition {
+  subject: RuleSubject;
+  criterionName?: string; // Wajib jika subject = 'criterion'
+  operator: RuleOperator;
+  value: number;
+}
+
+/**
+ * Aturan rekomendasi yang dievaluasi berurutan; aturan pertama yang semua
+ * syaratnya terpenuhi menentukan rekomendasi dan catatan karyawan.
+ */
+export interface RecommendationRule {
+  id: string;
+  name: string;
+  appliesTo: string | null; // Cakupan jabatan/departemen (teks), null = semua karyawan
+  conditions: RuleCondition[]; // Semua syarat harus terpenuhi; kosong = selalu cocok
+  recommendation: string;
+  note: string | null; // Mendukung placeholder {skor} dan {nilai}
+  terminates: boolean; // Pemberhentian otomatis: dikeluarkan dari perangkingan
+}
+
+// Satu langkah pemecah skor seri, dievaluasi berurutan sebelum peringkat dibagi bersama
+export type TieBreaker =
+  | { kind: 'category'; category: string } // Skor kategori tertinggi menang
+  | { kind: 'criterion'; criterionName: string; direction: 'higher' | 'lower' } // Nilai mentah lebih tinggi/rendah menang
+  | { kind: 'hireDate' }; // Tanggal masuk lebih awal menang
+
+// Kebijakan untuk nilai evaluasi yang belum diisi (karyawan × kriteria tanpa baris evaluation_scores)
+export type MissingScorePolicy = 'exclude' | 'categoryMean' | 'default';
+
+export interface MissingScore {
+  recordIndex: number; // Indeks baris (karyawan) pada decision matrix
+  criterionIndex: number; // Indeks kolom (kriteria) pada decision matrix
+}
+
+// Ringkasan penanganan nilai kosong yang disimpan bersama hasil perhitungan
+export interface MissingScoreReport {
+  policy: MissingScorePolicy;
+  defaults: { [criterionId: string]: number } | null; // Hanya untuk kebijakan 'default'
+  gaps: {
+    employeeId: string;
+    criterionId: string;
+    criterionName: string;
+    value: number | null; // Nilai pengganti, null jika karyawan dikeluarkan
+  }[];
+  excludedEmployeeIds: string[];
+}
+
+export interface SAWOptions {
+  rules?: RecommendationRule[]; // Default: DEFAULT_RECOMMENDATION_RULES
+  staffLabels?: string[]; // Jabatan & departemen per baris matrix untuk mencocokkan cakupan aturan
+  tieBreakers?: TieBreaker[]; // Default: DEFAULT_TIE_BREAKERS
+  hireDates?: (string | undefined)[]; // Tanggal masuk per baris matrix (ISO), untuk pemecah seri hireDate
+}
+
+export interface SAWScore extends Recommendation {
+  index: number; // Indeks baris pada decision matrix
+  normalizedScores: number[];
+  finalScore: number;
+  convertedScore: number;
+  rank: number;
+  isAutoTerminated: boolean;
+  ruleId: string | null; // Aturan rekomendasi yang terpicu, null jika memakai ambang bawaan
+  ruleName: string | null;
+  isTied: boolean; // Skor akhir sama dengan karyawan lain
+  tieBreakReason: string | null; // Pemecah seri yang menentukan posisi, atau 'Peringkat bersama'
+}
+
+export interface SAWOutput {
+  normalizedMatrix: number[][];
+  weights: number[]; // Bobot dalam bentuk desimal, sesuai urutan kriteria
+  scores: SAWScore[]; // Sudah diurutkan berdasarkan peringkat
+}
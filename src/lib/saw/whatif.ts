@@ -0,0 +1,44 @@
+import { calculateSAW } from "./engine";
+import type { SAWCriterion, SAWOptions, SAWScore } from "./types";
+
+// Perubahan sementara pada simulasi; kunci adalah id kriteria
+export interface WhatIfChanges {
+  values: { [criterionId: string]: number }; // Nilai baru untuk karyawan yang disimulasikan
+  weights: { [criterionId: string]: number }; // Bobot baru (persen) yang berlaku untuk semua karyawan
+}
+
+export interface WhatIfOutput {
+  score: SAWScore; // Hasil karyawan yang disimulasikan
+  scores: SAWScore[]; // Hasil semua karyawan setelah perubahan (untuk peringkat)
+  totalWeight: number;
+}
+
+/**
+ * Menghitung ulang SAW dengan perubahan nilai satu karyawan dan/atau bobot kriteria.
+ * Matriks dan kriteria asli tidak diubah; seluruh kolom dinormalisasi ulang karena
+ * nilai maks/min kolom dapat bergeser oleh perubahan nilai karyawan tersebut.
+ */
+export const simulateWhatIf = (
+  criteria: SAWCriterion[],
+  matrix: number[][],
+  recordIndex: number,
+  changes: WhatIfChanges,
+  options: SAWOptions = {}
+): WhatIfOutput => {
+  const simulatedCriteria = criteria.map(criterion => ({
+    ...criterion,
+    weight: changes.weights[criterion.id] ?? criterion.weight
+  }));
+  const simulatedMatrix = matrix.map((row, i) => i !== recordIndex
+    ? row
+    : row.map((value, j) => changes.values[criteria[j].id] ?? value)
+  );
+
+  const { scores } = calculateSAW(simulatedCriteria, simulatedMatrix, options);
+
+  return {
+    score: scores.find(score => score.index === recordIndex) as SAWScore,
+    scores,
+    totalWeight: simulatedCriteria.reduce((sum, criterion) => sum + criterion.weight, 0)
+  };
+};
@@ -0,0 +1,53 @@
+import { finalizeScores } from "./engine";
+import { getScaleBounds } from "./scale";
+import type { SAWCriterion, SAWOptions, SAWOutput } from "./types";
+
+export interface WPOutput extends SAWOutput {
+  exponents: number[]; // Bobot ternormalisasi, negatif untuk kriteria Cost
+  offsets: number[]; // Pergeseran kolom yang skalanya memuat nilai 0
+  vectorS: number[];
+  vectorV: number[]; // Nilai preferensi WP, Vi = Si / ΣS
+  idealS: number; // S dari alternatif ideal: setiap kriteria bernilai batas terbaik skalanya
+  absoluteScores: number[]; // Skor absolut Si / S ideal (0-1), dipakai sebagai skor akhir untuk aturan rekomendasi
+}
+
+/**
+ * Perangkingan dengan metode Weighted Product (WP).
+ * - Bobot dinormalisasi menjadi Wj / ΣW dan dipakai sebagai pangkat, negatif untuk Cost
+ * - Si = Π xij^wj, nilai preferensi Vi = Si / ΣS
+ * Kolom yang skalanya memuat nilai 0 digeser +1 karena 0 tidak dapat dipangkatkan negatif
+ * (misalnya 0 hari alpa). Vi bergantung pada karyawan lain dalam perhitungan, sehingga skor
+ * akhir untuk aturan rekomendasi memakai skor absolut Si / S ideal, dengan alternatif ideal
+ * bernilai batas terbaik skala pada setiap kriteria. Urutannya sama dengan Vi, tetapi karyawan
+ * teratas tidak otomatis bernilai 1 dan ambang rekomendasi bermakna sama seperti pada SAW.
+ */
+export const calculateWP = (criteria: SAWCriterion[], matrix: number[][], options: SAWOptions = {}): WPOutput => {
+  const totalWeight = criteria.reduce((sum, criterion) => sum + criterion.weight, 0);
+  const weights = criteria.map(criterion => criterion.weight / 100);
+  const exponents = criteria.map(criterion => {
+    const normalizedWeight = totalWeight > 0 ? criterion.weight / totalWeight : 0;
+    return criterion.type === 'Cost' ? -normalizedWeight : normalizedWeight;
+  });
+  const bounds = criteria.map((criterion, j) => getScaleBounds(criterion, matrix.map(row => row[j])));
+  const offsets = bounds.map(bound => Math.min(bound.best, bound.worst) <= 0 ? 1 : 0);
+  const power = (value: number, j: number) => Math.pow(Math.max(value, 0) + offsets[j], exponents[j]);
+
+  const normalizedMatrix = matrix.map(row => row.map(power));
+  const vectorS = normalizedMatrix.map(row => row.reduce((product, value) => product * value, 1));
+  const totalS = vectorS.reduce((sum, value) => sum + value, 0);
+  const vectorV = vectorS.map(value => totalS > 0 ? value / totalS : 0);
+  const idealS = bounds.reduce((product, bound, j) => product * power(bound.best, j), 1);
+  const absoluteScores = vectorS.map(value => idealS > 0 ? value / idealS : 0);
+
+  return {
+    normalizedMatrix,
+    weights,
+    exponents,
+    offsets,
+    vectorS,
+    vectorV,
+    idealS,
+    absoluteScores,
+    scores: finalizeScores(criteria, matrix, normalizedMatrix, absoluteScores, options)
+  };
+};
@@ -12,9 +12,14 @@ import { ResultsDisplay } from "@/components/ResultsDisplay";
 import { CriteriaTable } from "@/components/CriteriaTable";
 import { CriteriaManagement } from "@/components/CriteriaManagement";
 import { EmployeeManagement } from "@/components/EmployeeManagement";
+import { RecommendationRulesManagement } from "@/components/RecommendationRulesManagement";
 import { Navbar } from "@/components/Navbar";
+import { PeriodSwitcher } from "@/components/PeriodSwitcher";
+import { usePeriod } from "@/components/PeriodProvider";
 import { supabase } from "@/integrations/supabase/client";
 import { useToast } from "@/hooks/use-toast";
+import { fetchCalculationSnapshot, fetchDefaultCalculation } from "@/hooks/use-calculation-history";
+import type { CalculationSnapshot, RunComparisonReport } from "@/lib/saw";
 
 // Enhanced Employee interface with better typing
 export interface Employee {
@@ -22,6 +27,7 @@ export interface Employee {
   name: string;
   position?: string;
   department?: string;
+  hireDate?: string; // Dipakai sebagai pemecah skor seri
   // Core evaluation criteria
   kualitasKerja: number;
   tanggungJawab: number;
@@ -48,6 +54,9 @@ export interface SAWResult {
   rank: number;
   recommendation: string;
   note?: string;
+  ruleName?: string; // Aturan rekomendasi yang terpicu
+  isTied?: boolean; // Skor akhir sama dengan karyawan lain
+  tieBreakReason?: string; // Pemecah seri yang menentukan posisi
 }
 
 interface StatisticsData {
@@ -65,7 +74,7 @@ interface LoadingState {
 }
 
 // Custom hook for managing employee data
-const useEmployeeData = () => {
+const useEmployeeData = (periodId: string) => {
   const [employees, setEmployees] = useState<Employee[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
@@ -80,9 +89,10 @@ const useEmployeeData = () => {
         .from('evaluation_scores')
         .select(`
           *,
-          employees!inner(id, name, position, department),
+          employees!inner(id, name, position, department, hire_date),
           criteria!inner(id, name, type, weight, category, scale)
-        `);
+        `)
+        .eq('period_id', periodId);
 
       if (evalError) {
         throw new Error(`Failed to load evaluation scores: ${evalError.message}`);
@@ -99,6 +109,7 @@ const useEmployeeData = () => {
             name: score.employees.name,
             position: score.employees.position,
             department: score.employees.department,
+            hireDate: score.employees.hire_date,
             // Initialize with default values
             kualitasKerja: 1,
             tanggungJawab: 1,
@@ -161,7 +172,7 @@ const useEmployeeData = () => {
     } finally {
       setLoading(false);
     }
-  }, [toast]);
+  }, [toast, periodId]);
 
   const addEmployee = useCallback((employee: Employee) => {
     setEmployees(prev => [...prev, employee]);
@@ -175,7 +186,7 @@ const useEmployeeData = () => {
 };
 
 // Custom hook for managing statistics
-const useStatistics = (employees: Employee[], results: SAWResult[]) => {
+const useStatistics = (periodId: string, employees: Employee[], results: SAWResult[]) => {
   const [stats, setStats] = useState<StatisticsData>({
     totalEmployees: 0,
     evaluatedEmployees: 0,
@@ -190,7 +201,7 @@ const useStatistics = (employees: Employee[], results: SAWResult[]) => {
     
     try {
       const [criteriaResult, employeesResult] = await Promise.all([
-        supabase.from('criteria').select('*', { count: 'exact', head: true }),
+        supabase.from('criteria').select('*', { count: 'exact', head: true }).eq('period_id', periodId),
         supabase.from('employees').select('*', { count: 'exact', head: true })
       ]);
 
@@ -206,7 +217,7 @@ const useStatistics = (employees: Employee[], results: SAWResult[]) => {
     } finally {
       setLoading(false);
     }
-  }, [employees.length, results]);
+  }, [periodId, employees.length, results]);
 
   useEffect(() => {
     loadStatistics();
@@ -216,8 +227,10 @@ const useStatistics = (employees: Employee[], results: SAWResult[]) => {
 };
 
 // Custom hook for managing SAW results
-const useSAWResults = () => {
+const useSAWResults = (periodId: string) => {
   const [results, setResults] = useState<SAWResult[]>([]);
+  // Masukan perhitungan yang sedang ditampilkan, dipakai untuk target perbaikan
+  const [snapshot, setSnapshot] = useState<CalculationSnapshot | null>(null);
   const [loading, setLoading] = useState(false);
   const { toast } = useToast();
 
@@ -227,29 +240,26 @@ const useSAWResults = () => {
     try {
       console.log('Checking for saved SAW results...');
       
-      // Get the latest calculation date
-      const { data: latestCalc, error: calcError } = await supabase
-        .from('saw_results')
-        .select('calculation_date')
-        .order('calculation_date', { ascending: false })
-        .limit(1);
+      // Official run of the period if pinned, otherwise the latest calculation
+      const calculation = await fetchDefaultCalculation(periodId);
 
-      if (calcError || !latestCalc || latestCalc.length === 0) {
+      if (!calculation) {
         console.log('No saved SAW results found');
+        setResults([]);
+        setSnapshot(null);
         return;
       }
 
-      const calculationDate = latestCalc[0].calculation_date;
-      console.log('Found saved SAW results from:', calculationDate);
+      console.log('Found saved SAW results from:', calculation.calculationDate);
 
       // Load SAW results with employee data
       const { data: savedResults, error: resultsError } = await supabase
         .from('saw_results')
         .select(`
           *,
-          employees!inner(id, name, position, department)
+          employees!inner(id, name, position, department, hire_date)
         `)
-        .eq('calculation_date', calculationDate)
+        .eq('calculation_id', calculation.id)
         .order('rank');
 
       if (resultsError) {
@@ -265,6 +275,7 @@ const useSAWResults = () => {
             name: result.employees.name,
             position: result.employees.position,
             department: result.employees.department,
+            hireDate: result.employees.hire_date,
             // Initialize with default values - will be loaded separately
             kualitasKerja: 0,
             tanggungJawab: 0,
@@ -288,12 +299,16 @@ const useSAWResults = () => {
             convertedScore: result.converted_score,
             rank: result.rank,
             recommendation: result.recommendation,
-            note: result.note || undefined
+            note: result.note || undefined,
+            ruleName: result.rule_name || undefined,
+            isTied: result.is_tied,
+            tieBreakReason: result.tie_break_reason || undefined
           };
         });
 
         console.log('Auto-loaded saved SAW results:', convertedResults.length);
         setResults(convertedResults);
+        setSnapshot(await fetchCalculationSnapshot(calculation.id));
         
         toast({
           title: "Info",
@@ -310,13 +325,14 @@ const useSAWResults = () => {
     } finally {
       setLoading(false);
     }
-  }, [toast]);
+  }, [toast, periodId]);
 
-  const calculateResults = useCallback((sawResults: SAWResult[]) => {
+  const calculateResults = useCallback((sawResults: SAWResult[], runSnapshot: CalculationSnapshot | null = null) => {
     setResults(sawResults);
+    setSnapshot(runSnapshot);
   }, []);
 
-  return { results, loading, loadSavedResults, calculateResults };
+  return { results, snapshot, loading, loadSavedResults, calculateResults };
 };
 
 // Statistics Card Component
@@ -357,14 +373,17 @@ const StatisticsCard = ({
 const Index = () => {
   const [criteriaUpdateTrigger, setCriteriaUpdateTrigger] = useState(0);
   const [activeTab, setActiveTab] = useState("criteria");
+  const [runComparison, setRunComparison] = useState<RunComparisonReport | null>(null);
   
-  const { employees, loading: employeesLoading, error: employeesError, loadEmployees, addEmployee } = useEmployeeData();
-  const { results, loading: resultsLoading, loadSavedResults, calculateResults } = useSAWResults();
-  const { stats, loading: statsLoading, refresh: refreshStats } = useStatistics(employees, results);
+  const { activePeriod } = usePeriod();
+  const { employees, loading: employeesLoading, error: employeesError, loadEmployees, addEmployee } = useEmployeeData(activePeriod.id);
+  const { results, snapshot, loading: resultsLoading, loadSavedResults, calculateResults } = useSAWResults(activePeriod.id);
+  const { stats, loading: statsLoading, refresh: refreshStats } = useStatistics(activePeriod.id, employees, results);
 
   // Load data on component mount
   useEffect(() => {
     const initializeData = async () => {
+      setRunComparison(null); // Perbandingan perhitungan hanya berlaku di periode asalnya
       await loadEmployees();
       await loadSavedResults();
     };
@@ -479,6 +498,9 @@ const Index = () => {
               <RefreshCw className={`h-4 w-4 ${employeesLoading || resultsLoading ? 'animate-spin' : ''}`} />
             </Button>
           </div>
+          <div className="mt-4">
+            <PeriodSwitcher />
+          </div>
         </div>
 
         <div className="grid grid-cols-1 md:grid-cols-4 gap-4 mb-8">
@@ -495,10 +517,12 @@ const Index = () => {
           ))}
         </div>
 
-        <Tabs value={activeTab} onValueChange={setActiveTab} className="w-full">
-          <TabsList className="grid w-full grid-cols-6 mb-6">
+        {/* Semua tab dimuat ulang saat periode berganti agar data periode lama tidak tertinggal */}
+        <Tabs key={activePeriod.id} value={activeTab} onValueChange={setActiveTab} className="w-full">
+          <TabsList className="grid w-full grid-cols-7 mb-6">
             <TabsTrigger value="criteria">Kriteria & Bobot</TabsTrigger>
             <TabsTrigger value="criteria-crud">Kelola Kriteria</TabsTrigger>
+            <TabsTrigger value="rules">Aturan Rekomendasi</TabsTrigger>
             <TabsTrigger value="employees">Kelola Karyawan</TabsTrigger>
             <TabsTrigger value="input">Input Data</TabsTrigger>
             <TabsTrigger value="calculate">Perhitungan SAW</TabsTrigger>
@@ -513,6 +537,10 @@ const Index = () => {
             <CriteriaManagement onCriteriaChange={handleCriteriaChange} />
           </TabsContent>
 
+          <TabsContent value="rules">
+            <RecommendationRulesManagement />
+          </TabsContent>
+
           <TabsContent value="employees">
             <EmployeeManagement onEmployeeUpdate={handleEmployeeUpdate} />
           </TabsContent>
@@ -531,11 +559,12 @@ const Index = () => {
               employees={employees} 
               onCalculate={calculateResults}
               criteriaUpdateTrigger={criteriaUpdateTrigger}
+              onCompareRuns={setRunComparison}
             />
           </TabsContent>
 
           <TabsContent value="results">
-            <ResultsDisplay results={results} />
+            <ResultsDisplay results={results} employees={employees} snapshot={snapshot} runComparison={runComparison} />
           </TabsContent>
         </Tabs>
       </div>
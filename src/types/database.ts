@@ -1,3 +1,5 @@
+import type { CriterionScale, NormalizationStrategy, ThresholdBand } from "@/lib/saw";
+
 export interface Employee {
   id: string;
   name: string;
@@ -15,7 +17,23 @@ export interface Criteria {
   type: 'Benefit' | 'Cost';
   weight: number;
   category: string;
-  scale: string;
+  scale: CriterionScale;
+  normalization?: NormalizationStrategy;
+  threshold_bands?: ThresholdBand[] | null;
+  code?: string;
+  position?: number | null;
+  period_id?: string;
+  created_at?: string;
+  updated_at?: string;
+}
+
+// Kategori kriteria; urutan dan target total bobot dibaca dari tabel categories
+export interface Category {
+  id: string;
+  name: string;
+  position: number;
+  total_weight: number;
+  description: string | null;
   created_at?: string;
   updated_at?: string;
 }
@@ -48,18 +66,56 @@ export interface EmployeeEvaluation {
   };
 }
 
+export type PeriodStatus = 'open' | 'closed';
+
+// Periode evaluasi (semester/tahun); kriteria, nilai, dan hasil perhitungan terikat ke satu periode
+export interface EvaluationPeriod {
+  id: string;
+  name: string;
+  start_date: string;
+  end_date: string;
+  status: PeriodStatus;
+  created_at?: string;
+  updated_at?: string;
+}
+
 // Tabel baru untuk sistem evaluasi yang fleksibel
 export interface EvaluationScore {
   id: string;
   employee_id: string;
   criteria_id: string;
   score: number;
+  period_id?: string;
   created_at?: string;
   updated_at?: string;
   criteria?: Criteria;
   employees?: Employee;
 }
 
+// Jenis penilai (atasan, rekan kerja, diri sendiri) beserta bobot agregasinya
+export interface EvaluatorType {
+  id: string;
+  code: string;
+  name: string;
+  weight: number;
+  position: number;
+  created_at?: string;
+  updated_at?: string;
+}
+
+// Nilai mentah dari satu penilai; evaluation_scores berisi hasil agregasinya
+export interface EvaluatorScore {
+  id: string;
+  employee_id: string;
+  criteria_id: string;
+  evaluator_type_id: string;
+  evaluator_name: string;
+  score: number;
+  period_id?: string;
+  created_at?: string;
+  updated_at?: string;
+}
+
 // Interface untuk data evaluasi yang sudah di-join
 export interface EmployeeEvaluationData {
   employee_id: string;
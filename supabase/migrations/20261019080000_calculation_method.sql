@@ -0,0 +1,12 @@
+/*
+  # Metode Perhitungan pada Riwayat Perhitungan
+
+  1. Perubahan
+    - Kolom `method` pada `saw_calculations` untuk mencatat metode yang
+      menghasilkan setiap perhitungan tersimpan (SAW atau TOPSIS)
+    - Perhitungan lama otomatis tercatat sebagai SAW
+*/
+
+ALTER TABLE public.saw_calculations
+  ADD COLUMN IF NOT EXISTS method TEXT NOT NULL DEFAULT 'SAW'
+  CHECK (method IN ('SAW', 'TOPSIS'));
@@ -0,0 +1,31 @@
+/*
+  # Riwayat Pembobotan AHP
+
+  1. Tabel Baru
+    - `ahp_weightings` - Menyimpan setiap penerapan wizard AHP beserta matriks
+      perbandingan berpasangan, vektor prioritas, dan rasio konsistensi
+  
+  2. Struktur JSON
+    - `category_comparison`: { items, matrix, priorities, consistency_ratio } atau null
+      jika total kategori tidak diturunkan dari AHP
+    - `category_totals`: { [kategori]: bobot_persen }
+    - `criteria_comparisons`: { [kategori]: { items, matrix, priorities, consistency_ratio } }
+      dengan `items` berisi id kriteria sesuai urutan baris/kolom matriks
+
+  3. Keamanan
+    - Enable RLS dan policy akses yang sama dengan tabel lain
+*/
+
+CREATE TABLE IF NOT EXISTS public.ahp_weightings (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  category_comparison JSONB,
+  category_totals JSONB NOT NULL,
+  criteria_comparisons JSONB NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.ahp_weightings ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Allow all operations on ahp_weightings" ON public.ahp_weightings FOR ALL USING (true);
+
+CREATE INDEX IF NOT EXISTS idx_ahp_weightings_created_at ON public.ahp_weightings(created_at DESC);
@@ -0,0 +1,11 @@
+/*
+  # Metode Weighted Product
+
+  1. Perubahan
+    - Izinkan nilai 'WP' pada kolom `saw_calculations.method`
+*/
+
+ALTER TABLE public.saw_calculations DROP CONSTRAINT IF EXISTS saw_calculations_method_check;
+
+ALTER TABLE public.saw_calculations
+  ADD CONSTRAINT saw_calculations_method_check CHECK (method IN ('SAW', 'TOPSIS', 'WP'));
@@ -0,0 +1,22 @@
+/*
+  # Strategi Normalisasi per Kriteria
+
+  1. Perubahan Tabel
+    - `criteria.normalization` - Strategi normalisasi SAW: 'binary' (aturan awal 0/1),
+      'classic' (min/x), 'linear' (maks-min), atau 'threshold' (pita nilai)
+    - `criteria.threshold_bands` - Pita nilai untuk strategi threshold:
+      [{ upTo: number | null, score: number }] diurutkan naik, upTo null = selebihnya
+    - `saw_calculations.normalization_config` - Salinan strategi normalisasi setiap
+      kriteria saat perhitungan dijalankan, agar hasil lama tetap dapat dijelaskan
+
+  2. Data Lama
+    - Semua kriteria yang sudah ada memakai 'binary' sehingga hasilnya tidak berubah
+*/
+
+ALTER TABLE public.criteria
+  ADD COLUMN IF NOT EXISTS normalization TEXT NOT NULL DEFAULT 'binary'
+    CHECK (normalization IN ('binary', 'classic', 'linear', 'threshold')),
+  ADD COLUMN IF NOT EXISTS threshold_bands JSONB;
+
+ALTER TABLE public.saw_calculations
+  ADD COLUMN IF NOT EXISTS normalization_config JSONB;
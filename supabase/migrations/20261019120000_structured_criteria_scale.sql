@@ -0,0 +1,72 @@
+/*
+  # Skala Kriteria Terstruktur
+
+  1. Perubahan Tabel
+    - `criteria.scale` diubah dari teks bebas menjadi JSONB:
+      { kind: 'likert' | 'binary' | 'count' | 'percentage', min, max, step, labels }
+      `max` null berarti tanpa batas atas (untuk hitungan hari), `labels` opsional
+      berupa { "nilai": "label" }
+
+  2. Migrasi Data
+    - Teks yang memuat '%' → percentage (0 sampai angka kedua, default 100)
+    - Rentang "a-b", "a/b", "a s/d b", "a sampai b":
+      0-1 → binary, a >= 1 → likert a..b, selainnya → count a..b
+    - Teks tanpa rentang angka (mis. "Jumlah hari") → count mulai 0 tanpa batas atas
+*/
+
+CREATE OR REPLACE FUNCTION pg_temp.legacy_scale_to_jsonb(scale_text TEXT)
+RETURNS JSONB AS $$
+DECLARE
+  range_match TEXT[];
+  range_min NUMERIC;
+  range_max NUMERIC;
+BEGIN
+  range_match := regexp_match(
+    scale_text,
+    '(\d+(?:[.,]\d+)?)\s*(?:-|–|/|s\.?/?d\.?|sampai)\s*(\d+(?:[.,]\d+)?)',
+    'i'
+  );
+
+  IF scale_text LIKE '%\%%' THEN
+    RETURN jsonb_build_object(
+      'kind', 'percentage',
+      'min', 0,
+      'max', COALESCE(replace(range_match[2], ',', '.')::NUMERIC, 100),
+      'step', 1,
+      'labels', NULL
+    );
+  END IF;
+
+  IF range_match IS NULL THEN
+    RETURN jsonb_build_object('kind', 'count', 'min', 0, 'max', NULL, 'step', 1, 'labels', NULL);
+  END IF;
+
+  range_min := replace(range_match[1], ',', '.')::NUMERIC;
+  range_max := replace(range_match[2], ',', '.')::NUMERIC;
+
+  IF range_min = 0 AND range_max = 1 THEN
+    RETURN jsonb_build_object(
+      'kind', 'binary',
+      'min', 0,
+      'max', 1,
+      'step', 1,
+      'labels', jsonb_build_object('0', 'Tidak', '1', 'Ya')
+    );
+  END IF;
+
+  RETURN jsonb_build_object(
+    'kind', CASE WHEN range_min >= 1 THEN 'likert' ELSE 'count' END,
+    'min', range_min,
+    'max', range_max,
+    'step', 1,
+    'labels', NULL
+  );
+END;
+$$ LANGUAGE plpgsql;
+
+ALTER TABLE public.criteria
+  ALTER COLUMN scale TYPE JSONB USING pg_temp.legacy_scale_to_jsonb(scale);
+
+ALTER TABLE public.criteria
+  ADD CONSTRAINT criteria_scale_kind_check
+    CHECK (scale->>'kind' IN ('likert', 'binary', 'count', 'percentage'));
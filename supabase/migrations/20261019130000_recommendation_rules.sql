@@ -0,0 +1,58 @@
+/*
+  # Aturan Rekomendasi yang Dapat Dikonfigurasi
+
+  1. Tabel Baru
+    - `recommendation_rules` - Aturan rekomendasi dan pemberhentian otomatis yang
+      dievaluasi berurutan (`position` menaik); aturan pertama yang cocok dipakai
+      - `applies_to`: teks cakupan jabatan/departemen (mis. 'Guru'), NULL = semua karyawan
+      - `conditions`: [{ subject: 'score' | 'criterion', criterionName?, operator, value }]
+        semua syarat harus terpenuhi, array kosong = selalu cocok
+      - `terminates`: true = pemberhentian otomatis (dikeluarkan dari perangkingan)
+
+  2. Perubahan Tabel
+    - `saw_results.rule_name` - Nama aturan yang terpicu untuk setiap karyawan
+
+  3. Data Awal
+    - Aturan bawaan setara kebijakan sebelumnya: alpa > 10 hari diberhentikan,
+      skor >= 4 kandidat promosi, skor >= 3 diperpanjang, selainnya diberhentikan
+
+  4. Keamanan
+    - Enable RLS dan policy akses yang sama dengan tabel lain
+*/
+
+CREATE TABLE IF NOT EXISTS public.recommendation_rules (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  position INTEGER NOT NULL DEFAULT 0,
+  name TEXT NOT NULL,
+  applies_to TEXT,
+  conditions JSONB NOT NULL DEFAULT '[]'::jsonb,
+  recommendation TEXT NOT NULL,
+  note TEXT,
+  terminates BOOLEAN NOT NULL DEFAULT false,
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.recommendation_rules ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Allow all operations on recommendation_rules" ON public.recommendation_rules FOR ALL USING (true);
+
+CREATE INDEX IF NOT EXISTS idx_recommendation_rules_position ON public.recommendation_rules(position);
+
+ALTER TABLE public.saw_results
+  ADD COLUMN IF NOT EXISTS rule_name TEXT;
+
+INSERT INTO public.recommendation_rules (position, name, conditions, recommendation, note, terminates) VALUES
+  (1, 'Alpa lebih dari 10 hari',
+    '[{"subject": "criterion", "criterionName": "Jumlah Hari Alpa", "operator": ">", "value": 10}]'::jsonb,
+    'Diberhentikan', 'Karyawan diberhentikan otomatis karena alpa {nilai} hari (lebih dari 10 hari).', true),
+  (2, 'Kandidat promosi',
+    '[{"subject": "score", "operator": ">=", "value": 4}]'::jsonb,
+    'Dapat diperpanjang', 'Kandidat promosi', false),
+  (3, 'Memenuhi standar minimum',
+    '[{"subject": "score", "operator": ">=", "value": 3}]'::jsonb,
+    'Dapat diperpanjang', NULL, false),
+  (4, 'Di bawah standar minimum',
+    '[]'::jsonb,
+    'Diberhentikan', NULL, false);
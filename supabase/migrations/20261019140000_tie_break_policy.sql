@@ -0,0 +1,43 @@
+/*
+  # Kebijakan Pemecah Skor Seri
+
+  1. Tabel Baru
+    - `ranking_settings` - Pengaturan perangkingan; baris terbaru (updated_at) yang dipakai
+      - `tie_breakers`: rantai pemecah seri berurutan, mis.
+        [{ kind: 'category', category: 'A. Kinerja Inti' },
+         { kind: 'criterion', criterionName: 'Jumlah Hari Alpa', direction: 'lower' },
+         { kind: 'hireDate' }]
+        Jika semua pemecah sama, karyawan berbagi peringkat
+
+  2. Perubahan Tabel
+    - `saw_calculations.tie_breakers` - Salinan rantai pemecah seri saat perhitungan
+    - `saw_results.is_tied` - Skor akhir karyawan sama dengan karyawan lain
+    - `saw_results.tie_break_reason` - Pemecah seri yang menentukan posisi / 'Peringkat bersama'
+
+  3. Keamanan
+    - Enable RLS dan policy akses yang sama dengan tabel lain
+*/
+
+CREATE TABLE IF NOT EXISTS public.ranking_settings (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  tie_breakers JSONB NOT NULL DEFAULT '[]'::jsonb,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.ranking_settings ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Allow all operations on ranking_settings" ON public.ranking_settings FOR ALL USING (true);
+
+INSERT INTO public.ranking_settings (tie_breakers) VALUES (
+  '[{"kind": "category", "category": "A. Kinerja Inti"},
+    {"kind": "criterion", "criterionName": "Jumlah Hari Alpa", "direction": "lower"},
+    {"kind": "hireDate"}]'::jsonb
+);
+
+ALTER TABLE public.saw_calculations
+  ADD COLUMN IF NOT EXISTS tie_breakers JSONB;
+
+ALTER TABLE public.saw_results
+  ADD COLUMN IF NOT EXISTS is_tied BOOLEAN NOT NULL DEFAULT false,
+  ADD COLUMN IF NOT EXISTS tie_break_reason TEXT;
@@ -0,0 +1,11 @@
+/*
+  # Kebijakan Nilai Evaluasi Kosong
+
+  1. Perubahan Tabel
+    - `saw_calculations.missing_score_policy` - Catatan penanganan nilai kosong saat perhitungan:
+      { policy: 'exclude' | 'categoryMean' | 'default', defaults, gaps: [{ employeeId, criterionId, criterionName, value }], excludedEmployeeIds }
+      NULL berarti semua karyawan memiliki nilai untuk setiap kriteria aktif
+*/
+
+ALTER TABLE public.saw_calculations
+  ADD COLUMN IF NOT EXISTS missing_score_policy JSONB;
@@ -0,0 +1,14 @@
+/*
+  # Label Kriteria pada Matriks Ternormalisasi
+
+  1. Perubahan Tabel
+    - `saw_normalized_matrix.criteria_name` - Nama kriteria saat perhitungan
+    - `saw_normalized_matrix.category` - Kategori kriteria saat perhitungan
+
+  Kode kriteria (C1, C2, ...) hanya menunjukkan posisi kolom, sehingga nama dan kategori
+  disimpan agar rincian skor per karyawan tetap benar walaupun kriteria berubah setelahnya.
+*/
+
+ALTER TABLE public.saw_normalized_matrix
+  ADD COLUMN IF NOT EXISTS criteria_name TEXT,
+  ADD COLUMN IF NOT EXISTS category TEXT;
@@ -0,0 +1,41 @@
+/*
+  # Pembobotan Objektif Bernama
+
+  1. Tabel Baru
+    - `criteria_weightings` - Menyimpan setiap pembobotan objektif (entropi / CRITIC) yang diterapkan
+      - `name`: nama pembobotan, mis. "Periode 2026 - 70/30 Entropi"
+      - `method`: 'entropy' atau 'critic'
+      - `subjective_share`: porsi bobot subjektif pada mode gabungan (0-1), 0 berarti murni objektif
+      - `objective_weights`: { [id_kriteria]: bobot_objektif } berjumlah 1
+      - `weights`: { [id_kriteria]: bobot_persen } yang diterapkan ke tabel criteria
+      - `category_totals`: { [kategori]: bobot_persen } hasil pembobotan
+      - `sample_size`: jumlah karyawan dengan nilai lengkap yang dipakai
+
+  2. Perubahan Tabel
+    - `saw_calculations.weighting_name` - Nama pembobotan yang dipakai perhitungan
+
+  3. Keamanan
+    - Enable RLS dan policy akses yang sama dengan tabel lain
+*/
+
+CREATE TABLE IF NOT EXISTS public.criteria_weightings (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  name TEXT NOT NULL,
+  method TEXT NOT NULL CHECK (method IN ('entropy', 'critic')),
+  subjective_share NUMERIC NOT NULL DEFAULT 0 CHECK (subjective_share >= 0 AND subjective_share <= 1),
+  objective_weights JSONB NOT NULL,
+  weights JSONB NOT NULL,
+  category_totals JSONB NOT NULL,
+  sample_size INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.criteria_weightings ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Allow all operations on criteria_weightings" ON public.criteria_weightings FOR ALL USING (true);
+
+CREATE INDEX IF NOT EXISTS idx_criteria_weightings_created_at ON public.criteria_weightings(created_at DESC);
+
+-- Nama pembobotan yang berlaku saat perhitungan (NULL jika bobot diatur manual)
+ALTER TABLE public.saw_calculations
+  ADD COLUMN IF NOT EXISTS weighting_name TEXT;
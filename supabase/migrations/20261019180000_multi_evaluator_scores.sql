@@ -0,0 +1,76 @@
+/*
+  # Penilaian Multi-Penilai dengan Agregasi
+
+  1. Tabel Baru
+    - `evaluator_types` - Jenis penilai (atasan, rekan kerja, diri sendiri) beserta bobotnya
+      - `code`: kode tetap jenis penilai ('supervisor', 'peer', 'self')
+      - `weight`: bobot relatif jenis penilai pada agregasi; dinormalisasi ulang atas jenis yang sudah mengisi
+    - `evaluator_scores` - Nilai mentah per penilai untuk setiap karyawan × kriteria
+      - Unik per (employee_id, criteria_id, evaluator_type_id, evaluator_name) sehingga
+        beberapa rekan kerja dapat menilai karyawan yang sama
+    - `evaluation_settings` - Pengaturan agregasi; baris terbaru (updated_at) yang dipakai
+      - `aggregation_method`: 'weighted_mean' atau 'geometric_mean'
+
+  2. Perubahan Data
+    - `evaluation_scores` tetap menjadi decision matrix untuk perhitungan SAW dan kini berisi
+      hasil agregasi `evaluator_scores`
+    - Nilai yang sudah ada disalin ke `evaluator_scores` sebagai penilaian atasan
+
+  3. Keamanan
+    - Enable RLS dan policy akses yang sama dengan tabel lain
+*/
+
+CREATE TABLE IF NOT EXISTS public.evaluator_types (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  code TEXT NOT NULL UNIQUE,
+  name TEXT NOT NULL,
+  weight NUMERIC NOT NULL DEFAULT 0 CHECK (weight >= 0),
+  position INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS public.evaluator_scores (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  employee_id UUID NOT NULL REFERENCES public.employees(id) ON DELETE CASCADE,
+  criteria_id UUID NOT NULL REFERENCES public.criteria(id) ON DELETE CASCADE,
+  evaluator_type_id UUID NOT NULL REFERENCES public.evaluator_types(id) ON DELETE CASCADE,
+  evaluator_name TEXT NOT NULL,
+  score NUMERIC NOT NULL DEFAULT 0,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (employee_id, criteria_id, evaluator_type_id, evaluator_name)
+);
+
+CREATE TABLE IF NOT EXISTS public.evaluation_settings (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  aggregation_method TEXT NOT NULL DEFAULT 'weighted_mean'
+    CHECK (aggregation_method IN ('weighted_mean', 'geometric_mean')),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.evaluator_types ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.evaluator_scores ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.evaluation_settings ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Allow all operations on evaluator_types" ON public.evaluator_types FOR ALL USING (true);
+CREATE POLICY "Allow all operations on evaluator_scores" ON public.evaluator_scores FOR ALL USING (true);
+CREATE POLICY "Allow all operations on evaluation_settings" ON public.evaluation_settings FOR ALL USING (true);
+
+CREATE INDEX IF NOT EXISTS idx_evaluator_scores_employee ON public.evaluator_scores(employee_id);
+
+INSERT INTO public.evaluator_types (code, name, weight, position) VALUES
+  ('supervisor', 'Atasan', 0.6, 1),
+  ('peer', 'Rekan Kerja', 0.25, 2),
+  ('self', 'Diri Sendiri', 0.15, 3)
+ON CONFLICT (code) DO NOTHING;
+
+INSERT INTO public.evaluation_settings (aggregation_method) VALUES ('weighted_mean');
+
+INSERT INTO public.evaluator_scores (employee_id, criteria_id, evaluator_type_id, evaluator_name, score)
+SELECT es.employee_id, es.criteria_id, et.id, 'Atasan Langsung', es.score
+FROM public.evaluation_scores es
+CROSS JOIN public.evaluator_types et
+WHERE et.code = 'supervisor'
+ON CONFLICT (employee_id, criteria_id, evaluator_type_id, evaluator_name) DO NOTHING;
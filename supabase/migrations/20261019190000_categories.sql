@@ -0,0 +1,47 @@
+/*
+  # Kategori Evaluasi yang Dapat Dikonfigurasi
+
+  1. Tabel Baru
+    - `categories` - Kategori kriteria beserta urutan dan total bobotnya
+      - `name`: nama kategori, dirujuk oleh `criteria.category`
+      - `position`: urutan tampilan dan urutan kolom decision matrix
+      - `total_weight`: target total bobot kriteria dalam kategori (persen); total semua kategori 100
+      - `description`: keterangan kategori
+
+  2. Perubahan Tabel
+    - `criteria.category` menjadi foreign key ke `categories.name` (ON UPDATE CASCADE) sehingga
+      penggantian nama kategori ikut mengubah kriteria dan kategori yang masih dipakai tidak dapat dihapus
+
+  3. Keamanan
+    - Enable RLS dan policy akses yang sama dengan tabel lain
+*/
+
+CREATE TABLE IF NOT EXISTS public.categories (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  name TEXT NOT NULL UNIQUE,
+  position INTEGER NOT NULL DEFAULT 0,
+  total_weight NUMERIC NOT NULL DEFAULT 0 CHECK (total_weight >= 0),
+  description TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.categories ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Allow all operations on categories" ON public.categories FOR ALL USING (true);
+
+INSERT INTO public.categories (name, position, total_weight, description) VALUES
+  ('A. Kinerja Inti', 1, 60, 'Kualitas dan hasil kerja utama karyawan'),
+  ('B. Kedisiplinan', 2, 25, 'Kehadiran dan ketepatan waktu'),
+  ('C. Faktor Tambahan', 3, 15, 'Prestasi dan surat peringatan')
+ON CONFLICT (name) DO NOTHING;
+
+-- Kategori lain yang sudah dipakai kriteria ikut didaftarkan (bobot 0, perlu diatur ulang)
+INSERT INTO public.categories (name, position, total_weight)
+SELECT DISTINCT c.category, 100, 0
+FROM public.criteria c
+ON CONFLICT (name) DO NOTHING;
+
+ALTER TABLE public.criteria
+  ADD CONSTRAINT criteria_category_fkey
+  FOREIGN KEY (category) REFERENCES public.categories(name) ON UPDATE CASCADE;
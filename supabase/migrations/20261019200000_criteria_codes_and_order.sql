@@ -0,0 +1,64 @@
+/*
+  # Kode Kriteria Tetap dan Urutan Tersimpan
+
+  1. Perubahan Tabel
+    - `criteria.code` - Kode kriteria yang diberikan admin (mis. C5), unik dan tidak berubah saat kriteria lain
+      ditambahkan atau dihapus
+    - `criteria.position` - Urutan tampilan kriteria (diatur lewat drag-and-drop), sekaligus urutan kolom
+      decision matrix di dalam kategori
+    - `saw_normalized_matrix.criteria_id` - Id kriteria setiap kolom matriks tersimpan, sehingga hasil lama
+      tetap merujuk ke kriteria yang benar walaupun kode posisi bergeser
+
+  2. Migrasi Data
+    - Kode dan urutan awal diisi dari urutan kanonis yang selama ini dipakai (C1-C13), kriteria lain menyusul
+      sesuai urutan kategori lalu nama
+    - `criteria_id` matriks lama diisi dari `criteria_name` bila tersedia; baris yang lebih lama tanpa nama
+      kriteria tidak dapat dipetakan dengan pasti dan dibiarkan kosong
+*/
+
+ALTER TABLE public.criteria
+  ADD COLUMN IF NOT EXISTS code TEXT,
+  ADD COLUMN IF NOT EXISTS position INTEGER;
+
+WITH ordered AS (
+  SELECT
+    c.id,
+    row_number() OVER (
+      ORDER BY
+        cat.position NULLS LAST,
+        CASE c.name
+          WHEN 'Kualitas Kerja' THEN 1
+          WHEN 'Tanggung Jawab' THEN 2
+          WHEN 'Kuantitas Kerja' THEN 3
+          WHEN 'Pemahaman Tugas' THEN 4
+          WHEN 'Inisiatif' THEN 5
+          WHEN 'Kerjasama' THEN 6
+          WHEN 'Jumlah Hari Alpa' THEN 7
+          WHEN 'Jumlah Keterlambatan' THEN 8
+          WHEN 'Jumlah Hari Izin' THEN 9
+          WHEN 'Jumlah Hari Sakit' THEN 10
+          WHEN 'Pulang Cepat' THEN 11
+          WHEN 'Prestasi' THEN 12
+          WHEN 'Surat Peringatan' THEN 13
+        END NULLS LAST,
+        c.name
+    ) AS rn
+  FROM public.criteria c
+  LEFT JOIN public.categories cat ON cat.name = c.category
+)
+UPDATE public.criteria
+SET code = 'C' || ordered.rn, position = ordered.rn
+FROM ordered
+WHERE public.criteria.id = ordered.id AND public.criteria.code IS NULL;
+
+ALTER TABLE public.criteria
+  ALTER COLUMN code SET NOT NULL,
+  ADD CONSTRAINT criteria_code_key UNIQUE (code);
+
+ALTER TABLE public.saw_normalized_matrix
+  ADD COLUMN IF NOT EXISTS criteria_id UUID REFERENCES public.criteria(id) ON DELETE SET NULL;
+
+UPDATE public.saw_normalized_matrix m
+SET criteria_id = c.id
+FROM public.criteria c
+WHERE m.criteria_id IS NULL AND m.criteria_name = c.name;
@@ -0,0 +1,15 @@
+/*
+  # Snapshot Perhitungan yang Dapat Direproduksi
+
+  1. Perubahan Tabel
+    - `saw_calculations.snapshot` - Seluruh masukan perhitungan: kriteria (nama, tipe, bobot, skala, strategi
+      normalisasi), decision matrix mentah, aturan rekomendasi, pemecah seri, dan ambang rekomendasi
+    - `saw_calculations.app_version` - Versi aplikasi yang menjalankan perhitungan
+
+  2. Catatan
+    - Perhitungan lama tidak memiliki snapshot dan tidak dapat dihitung ulang; kolom dibiarkan kosong
+*/
+
+ALTER TABLE public.saw_calculations
+  ADD COLUMN IF NOT EXISTS snapshot JSONB,
+  ADD COLUMN IF NOT EXISTS app_version TEXT;
@@ -0,0 +1,130 @@
+/*
+  # Periode Evaluasi
+
+  1. Tabel Baru
+    - `evaluation_periods` - Periode evaluasi (semester/tahun)
+      - `name`, `start_date`, `end_date`
+      - `status`: 'open' (nilai dan kriteria masih dapat diubah) atau 'closed' (periode dikunci)
+
+  2. Perubahan Tabel
+    - `criteria.period_id` - Setiap periode memiliki set kriteria sendiri (nama, bobot, skala, normalisasi),
+      sehingga perubahan bobot di periode baru tidak mengubah periode lama
+    - `evaluation_scores.period_id` dan `evaluator_scores.period_id` - Diisi otomatis oleh trigger dari
+      periode kriteria yang dinilai
+    - `saw_calculations.period_id`, `saw_results.period_id`, `saw_normalized_matrix.period_id` - Periode
+      yang dihitung oleh setiap perhitungan
+    - Kode kriteria kini unik per periode, bukan global
+
+  3. Migrasi Data
+    - Semua data yang sudah ada dimasukkan ke periode awal yang berstatus 'open'
+
+  4. Keamanan
+    - Enable RLS dan policy akses yang sama dengan tabel lain
+*/
+
+CREATE TABLE IF NOT EXISTS public.evaluation_periods (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  name TEXT NOT NULL UNIQUE,
+  start_date DATE NOT NULL,
+  end_date DATE NOT NULL,
+  status TEXT NOT NULL DEFAULT 'open' CHECK (status IN ('open', 'closed')),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CHECK (end_date >= start_date)
+);
+
+ALTER TABLE public.evaluation_periods ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Allow all operations on evaluation_periods" ON public.evaluation_periods FOR ALL USING (true);
+
+-- Periode awal mencakup seluruh data yang sudah ada; dilewati bila sudah ada periode
+-- (agregat tanpa GROUP BY selalu menghasilkan satu baris, sehingga syaratnya diletakkan di luar agregat)
+INSERT INTO public.evaluation_periods (name, start_date, end_date, status)
+SELECT
+  'Periode ' || EXTRACT(YEAR FROM s.first_score)::TEXT,
+  date_trunc('year', s.first_score)::DATE,
+  (date_trunc('year', s.first_score) + INTERVAL '1 year' - INTERVAL '1 day')::DATE,
+  'open'
+FROM (SELECT COALESCE(MIN(created_at), now()) AS first_score FROM public.evaluation_scores) s
+WHERE NOT EXISTS (SELECT 1 FROM public.evaluation_periods);
+
+-- Kriteria
+ALTER TABLE public.criteria
+  ADD COLUMN IF NOT EXISTS period_id UUID REFERENCES public.evaluation_periods(id) ON DELETE CASCADE;
+
+UPDATE public.criteria
+SET period_id = (SELECT id FROM public.evaluation_periods ORDER BY start_date LIMIT 1)
+WHERE period_id IS NULL;
+
+ALTER TABLE public.criteria
+  ALTER COLUMN period_id SET NOT NULL,
+  DROP CONSTRAINT IF EXISTS criteria_code_key,
+  ADD CONSTRAINT criteria_period_code_key UNIQUE (period_id, code);
+
+CREATE INDEX IF NOT EXISTS idx_criteria_period ON public.criteria(period_id);
+
+-- Nilai evaluasi mengikuti periode kriterianya
+ALTER TABLE public.evaluation_scores
+  ADD COLUMN IF NOT EXISTS period_id UUID REFERENCES public.evaluation_periods(id) ON DELETE CASCADE;
+
+ALTER TABLE public.evaluator_scores
+  ADD COLUMN IF NOT EXISTS period_id UUID REFERENCES public.evaluation_periods(id) ON DELETE CASCADE;
+
+UPDATE public.evaluation_scores es
+SET period_id = c.period_id
+FROM public.criteria c
+WHERE es.criteria_id = c.id AND es.period_id IS NULL;
+
+UPDATE public.evaluator_scores es
+SET period_id = c.period_id
+FROM public.criteria c
+WHERE es.criteria_id = c.id AND es.period_id IS NULL;
+
+ALTER TABLE public.evaluation_scores ALTER COLUMN period_id SET NOT NULL;
+ALTER TABLE public.evaluator_scores ALTER COLUMN period_id SET NOT NULL;
+
+CREATE OR REPLACE FUNCTION public.set_score_period()
+RETURNS TRIGGER AS $$
+BEGIN
+  SELECT period_id INTO NEW.period_id FROM public.criteria WHERE id = NEW.criteria_id;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS set_evaluation_scores_period ON public.evaluation_scores;
+CREATE TRIGGER set_evaluation_scores_period
+  BEFORE INSERT OR UPDATE OF criteria_id ON public.evaluation_scores
+  FOR EACH ROW EXECUTE FUNCTION public.set_score_period();
+
+DROP TRIGGER IF EXISTS set_evaluator_scores_period ON public.evaluator_scores;
+CREATE TRIGGER set_evaluator_scores_period
+  BEFORE INSERT OR UPDATE OF criteria_id ON public.evaluator_scores
+  FOR EACH ROW EXECUTE FUNCTION public.set_score_period();
+
+CREATE INDEX IF NOT EXISTS idx_evaluation_scores_period ON public.evaluation_scores(period_id);
+CREATE INDEX IF NOT EXISTS idx_evaluator_scores_period ON public.evaluator_scores(period_id);
+
+-- Hasil perhitungan
+ALTER TABLE public.saw_calculations
+  ADD COLUMN IF NOT EXISTS period_id UUID REFERENCES public.evaluation_periods(id) ON DELETE CASCADE;
+
+ALTER TABLE public.saw_results
+  ADD COLUMN IF NOT EXISTS period_id UUID REFERENCES public.evaluation_periods(id) ON DELETE CASCADE;
+
+ALTER TABLE public.saw_normalized_matrix
+  ADD COLUMN IF NOT EXISTS period_id UUID REFERENCES public.evaluation_periods(id) ON DELETE CASCADE;
+
+UPDATE public.saw_calculations
+SET period_id = (SELECT id FROM public.evaluation_periods ORDER BY start_date LIMIT 1)
+WHERE period_id IS NULL;
+
+UPDATE public.saw_results
+SET period_id = (SELECT id FROM public.evaluation_periods ORDER BY start_date LIMIT 1)
+WHERE period_id IS NULL;
+
+UPDATE public.saw_normalized_matrix
+SET period_id = (SELECT id FROM public.evaluation_periods ORDER BY start_date LIMIT 1)
+WHERE period_id IS NULL;
+
+CREATE INDEX IF NOT EXISTS idx_saw_results_period ON public.saw_results(period_id, calculation_date);
+CREATE INDEX IF NOT EXISTS idx_saw_normalized_matrix_period ON public.saw_normalized_matrix(period_id, calculation_date);
@@ -0,0 +1,24 @@
+/*
+  # Riwayat Perhitungan
+
+  1. Perubahan Tabel
+    - `saw_calculations.label` - Label opsional untuk membedakan perhitungan (mis. "Simulasi bobot baru")
+    - `saw_calculations.run_by` - Email pengguna yang menjalankan perhitungan
+    - `saw_calculations.is_official` - Perhitungan yang dipin sebagai hasil resmi periode; hasil resmi yang
+      dimuat otomatis di halaman utama, bukan sekadar perhitungan terakhir
+
+  2. Batasan
+    - Maksimal satu perhitungan resmi per periode
+*/
+
+ALTER TABLE public.saw_calculations
+  ADD COLUMN IF NOT EXISTS label TEXT,
+  ADD COLUMN IF NOT EXISTS run_by TEXT,
+  ADD COLUMN IF NOT EXISTS is_official BOOLEAN NOT NULL DEFAULT false;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_saw_calculations_official_period
+  ON public.saw_calculations(period_id)
+  WHERE is_official;
+
+CREATE INDEX IF NOT EXISTS idx_saw_calculations_period_date
+  ON public.saw_calculations(period_id, calculation_date DESC);
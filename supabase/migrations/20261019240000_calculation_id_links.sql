@@ -0,0 +1,87 @@
+/*
+  # Relasi Hasil ke Sesi Perhitungan
+
+  1. Perubahan Tabel
+    - `saw_results.calculation_id` - Sesi perhitungan pemilik hasil (FK ke saw_calculations, cascade)
+    - `saw_normalized_matrix.calculation_id` - Sesi perhitungan pemilik matriks (FK ke saw_calculations, cascade)
+
+  2. Migrasi Data
+    - Hasil dan matriks lama dihubungkan ke sesi dengan periode dan `calculation_date` yang sama
+    - Hasil atau matriks tanpa sesi dibuatkan sesi pengganti agar tidak menjadi data yatim
+    - Jika ada beberapa sesi dengan timestamp yang sama, sesi yang paling awal dibuat yang dipakai
+
+  3. Catatan
+    - `calculation_date` tetap disimpan sebagai waktu perhitungan, tetapi tidak lagi dipakai untuk
+      menghubungkan baris; menghapus sesi kini otomatis menghapus hasil dan matriksnya
+*/
+
+ALTER TABLE public.saw_results
+  ADD COLUMN IF NOT EXISTS calculation_id UUID REFERENCES public.saw_calculations(id) ON DELETE CASCADE;
+
+ALTER TABLE public.saw_normalized_matrix
+  ADD COLUMN IF NOT EXISTS calculation_id UUID REFERENCES public.saw_calculations(id) ON DELETE CASCADE;
+
+-- Sesi pengganti untuk hasil/matriks lama yang tidak memiliki baris saw_calculations
+INSERT INTO public.saw_calculations (calculation_date, period_id, total_employees, total_criteria, method, weighting_name, label)
+SELECT
+  orphan.calculation_date,
+  orphan.period_id,
+  COALESCE((
+    SELECT COUNT(DISTINCT r.employee_id)
+    FROM public.saw_results r
+    WHERE r.calculation_date = orphan.calculation_date
+      AND r.period_id IS NOT DISTINCT FROM orphan.period_id
+  ), 0),
+  COALESCE((
+    SELECT COUNT(DISTINCT m.criteria_code)
+    FROM public.saw_normalized_matrix m
+    WHERE m.calculation_date = orphan.calculation_date
+      AND m.period_id IS NOT DISTINCT FROM orphan.period_id
+  ), 0),
+  'SAW',
+  NULL,
+  'Dipulihkan dari data tanpa sesi'
+FROM (
+  SELECT calculation_date, period_id FROM public.saw_results
+  UNION
+  SELECT calculation_date, period_id FROM public.saw_normalized_matrix
+) orphan
+WHERE NOT EXISTS (
+  SELECT 1
+  FROM public.saw_calculations c
+  WHERE c.calculation_date = orphan.calculation_date
+    AND c.period_id IS NOT DISTINCT FROM orphan.period_id
+);
+
+WITH sessions AS (
+  SELECT DISTINCT ON (period_id, calculation_date) id, period_id, calculation_date
+  FROM public.saw_calculations
+  ORDER BY period_id, calculation_date, created_at, id
+)
+UPDATE public.saw_results r
+SET calculation_id = sessions.id
+FROM sessions
+WHERE r.calculation_id IS NULL
+  AND r.calculation_date = sessions.calculation_date
+  AND r.period_id IS NOT DISTINCT FROM sessions.period_id;
+
+WITH sessions AS (
+  SELECT DISTINCT ON (period_id, calculation_date) id, period_id, calculation_date
+  FROM public.saw_calculations
+  ORDER BY period_id, calculation_date, created_at, id
+)
+UPDATE public.saw_normalized_matrix m
+SET calculation_id = sessions.id
+FROM sessions
+WHERE m.calculation_id IS NULL
+  AND m.calculation_date = sessions.calculation_date
+  AND m.period_id IS NOT DISTINCT FROM sessions.period_id;
+
+ALTER TABLE public.saw_results ALTER COLUMN calculation_id SET NOT NULL;
+ALTER TABLE public.saw_normalized_matrix ALTER COLUMN calculation_id SET NOT NULL;
+
+CREATE INDEX IF NOT EXISTS idx_saw_results_calculation_id
+  ON public.saw_results(calculation_id);
+
+CREATE INDEX IF NOT EXISTS idx_saw_normalized_matrix_calculation_id
+  ON public.saw_normalized_matrix(calculation_id);
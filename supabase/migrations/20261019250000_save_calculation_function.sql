@@ -0,0 +1,84 @@
+/*
+  # Simpan Perhitungan secara Atomik
+
+  1. Fungsi Baru
+    - `save_saw_calculation(p_calculation, p_results, p_matrix)` - Menyimpan sesi perhitungan, hasil per
+      karyawan, dan matriks ternormalisasi dalam satu transaksi lalu mengembalikan id sesi
+    - Jika salah satu insert gagal, seluruh perhitungan dibatalkan sehingga tidak ada perhitungan
+      setengah tersimpan yang ikut dimuat
+
+  2. Format Parameter
+    - `p_calculation` - Objek JSON dengan kolom saw_calculations (period_id, method, total_employees, ...)
+    - `p_results` - Array JSON dengan kolom saw_results (employee_id, final_score, rank, ...)
+    - `p_matrix` - Array JSON dengan kolom saw_normalized_matrix (employee_id, criteria_code, ...)
+    - `calculation_id`, `calculation_date`, dan `period_id` pada hasil dan matriks diisi dari sesi
+
+  3. Validasi
+    - Perhitungan tidak dapat disimpan ke periode yang sudah ditutup
+    - Hasil perhitungan tidak boleh kosong
+*/
+
+CREATE OR REPLACE FUNCTION public.save_saw_calculation(
+  p_calculation JSONB,
+  p_results JSONB,
+  p_matrix JSONB
+)
+RETURNS UUID AS $$
+DECLARE
+  v_calculation public.saw_calculations%ROWTYPE;
+BEGIN
+  v_calculation := jsonb_populate_record(NULL::public.saw_calculations, p_calculation);
+
+  IF v_calculation.period_id IS NOT NULL AND EXISTS (
+    SELECT 1 FROM public.evaluation_periods
+    WHERE id = v_calculation.period_id AND status = 'closed'
+  ) THEN
+    RAISE EXCEPTION 'Periode evaluasi sudah ditutup';
+  END IF;
+
+  IF p_results IS NULL OR jsonb_array_length(p_results) = 0 THEN
+    RAISE EXCEPTION 'Hasil perhitungan kosong';
+  END IF;
+
+  INSERT INTO public.saw_calculations (
+    period_id, calculation_date, total_employees, total_criteria, method, normalization_config,
+    tie_breakers, missing_score_policy, weighting_name, run_by, label, snapshot, app_version
+  )
+  VALUES (
+    v_calculation.period_id,
+    COALESCE(v_calculation.calculation_date, now()),
+    v_calculation.total_employees,
+    v_calculation.total_criteria,
+    COALESCE(v_calculation.method, 'SAW'),
+    v_calculation.normalization_config,
+    v_calculation.tie_breakers,
+    v_calculation.missing_score_policy,
+    v_calculation.weighting_name,
+    v_calculation.run_by,
+    v_calculation.label,
+    v_calculation.snapshot,
+    v_calculation.app_version
+  )
+  RETURNING * INTO v_calculation;
+
+  INSERT INTO public.saw_results (
+    calculation_id, calculation_date, period_id, employee_id, final_score, converted_score, rank,
+    recommendation, note, rule_name, is_tied, tie_break_reason
+  )
+  SELECT
+    v_calculation.id, v_calculation.calculation_date, v_calculation.period_id, r.employee_id, r.final_score,
+    r.converted_score, r.rank, r.recommendation, r.note, r.rule_name, COALESCE(r.is_tied, false), r.tie_break_reason
+  FROM jsonb_populate_recordset(NULL::public.saw_results, p_results) r;
+
+  INSERT INTO public.saw_normalized_matrix (
+    calculation_id, calculation_date, period_id, employee_id, criteria_id, criteria_code, criteria_name,
+    category, raw_value, normalized_value, weight
+  )
+  SELECT
+    v_calculation.id, v_calculation.calculation_date, v_calculation.period_id, m.employee_id, m.criteria_id,
+    m.criteria_code, m.criteria_name, m.category, m.raw_value, m.normalized_value, m.weight
+  FROM jsonb_populate_recordset(NULL::public.saw_normalized_matrix, COALESCE(p_matrix, '[]'::jsonb)) m;
+
+  RETURN v_calculation.id;
+END;
+$$ LANGUAGE plpgsql;
@@ -0,0 +1,412 @@
+/*
+  # Perhitungan SAW di Database
+
+  1. Fungsi Baru
+    - `calculate_saw(p_period_id, p_save, p_run_by)` - Menghitung SAW langsung dari tabel `criteria` dan
+      `evaluation_scores` suatu periode: normalisasi per strategi kriteria, jumlah tertimbang, rekomendasi
+      dari `recommendation_rules`, serta perangkingan dengan rantai pemecah seri dari `ranking_settings`
+    - Jika `p_save` true, hasil disimpan sebagai satu perhitungan melalui `save_saw_calculation`
+      (label 'Perhitungan server', app_version 'database')
+    - Mengembalikan JSON { calculation_id, results: [...], excluded_employee_ids: [...] } sehingga dapat
+      dipanggil dari alat lain maupun dicek silang oleh kalkulator di browser
+    - `saw_compare`, `saw_first_difference`, dan `saw_describe_tie_breaker` - Fungsi bantu
+      perbandingan syarat aturan dan alasan pemecah seri
+
+  2. Kesetaraan dengan Kalkulator Browser
+    - Rumus normalisasi, pembulatan skor konversi (2 desimal), aturan bawaan, dan pemecah seri bawaan
+      mengikuti engine di `src/lib/saw`; perubahan salah satunya harus diikuti yang lain
+    - Karyawan yang nilainya belum lengkap selalu dikeluarkan (kebijakan nilai kosong 'exclude')
+    - Semua kriteria periode dipakai; bobot yang belum disimpan di layar tidak ikut terbaca
+*/
+
+CREATE OR REPLACE FUNCTION public.saw_compare(
+  p_actual DOUBLE PRECISION,
+  p_operator TEXT,
+  p_expected DOUBLE PRECISION
+)
+RETURNS BOOLEAN AS $$
+  SELECT CASE p_operator
+    WHEN '>' THEN p_actual > p_expected
+    WHEN '>=' THEN p_actual >= p_expected
+    WHEN '<' THEN p_actual < p_expected
+    WHEN '<=' THEN p_actual <= p_expected
+    WHEN '=' THEN p_actual = p_expected
+    WHEN '!=' THEN p_actual <> p_expected
+    ELSE false
+  END;
+$$ LANGUAGE sql IMMUTABLE;
+
+-- Posisi (mulai 1) pemecah seri pertama yang membedakan dua kunci, atau NULL jika semuanya sama
+CREATE OR REPLACE FUNCTION public.saw_first_difference(
+  p_keys_a DOUBLE PRECISION[],
+  p_keys_b DOUBLE PRECISION[]
+)
+RETURNS INTEGER AS $$
+  SELECT MIN(k)
+  FROM generate_subscripts(p_keys_a, 1) AS k
+  WHERE p_keys_a[k] IS DISTINCT FROM p_keys_b[k]
+    AND NOT (abs(p_keys_a[k] - p_keys_b[k]) <= 1e-9);
+$$ LANGUAGE sql IMMUTABLE;
+
+CREATE OR REPLACE FUNCTION public.saw_describe_tie_breaker(p_tie_breaker JSONB)
+RETURNS TEXT AS $$
+  SELECT CASE p_tie_breaker->>'kind'
+    WHEN 'category' THEN 'Skor ' || (p_tie_breaker->>'category') || ' lebih tinggi'
+    WHEN 'criterion' THEN (p_tie_breaker->>'criterionName') ||
+      CASE WHEN p_tie_breaker->>'direction' = 'lower' THEN ' lebih sedikit' ELSE ' lebih banyak' END
+    WHEN 'hireDate' THEN 'Tanggal masuk lebih awal'
+  END;
+$$ LANGUAGE sql IMMUTABLE;
+
+CREATE OR REPLACE FUNCTION public.calculate_saw(
+  p_period_id UUID,
+  p_save BOOLEAN DEFAULT true,
+  p_run_by TEXT DEFAULT NULL
+)
+RETURNS JSONB AS $$
+DECLARE
+  v_default_bands CONSTANT JSONB := '[{"upTo": 0, "score": 1}, {"upTo": 2, "score": 0.75},
+    {"upTo": 5, "score": 0.5}, {"upTo": 10, "score": 0.25}, {"upTo": null, "score": 0}]';
+  v_criteria_count INTEGER;
+  v_rules JSONB;
+  v_tie_breakers JSONB;
+  v_normalization_config JSONB;
+  v_rows JSONB;
+  v_excluded JSONB;
+  v_gaps JSONB;
+  v_calculation_id UUID;
+BEGIN
+  SELECT COUNT(*) INTO v_criteria_count FROM public.criteria WHERE period_id = p_period_id;
+  IF v_criteria_count = 0 THEN
+    RAISE EXCEPTION 'Belum ada kriteria pada periode ini';
+  END IF;
+
+  -- Aturan aktif sesuai urutan; tanpa aturan aktif dipakai aturan bawaan engine
+  SELECT jsonb_agg(jsonb_build_object(
+      'name', name, 'applies_to', applies_to, 'conditions', conditions,
+      'recommendation', recommendation, 'note', note, 'terminates', terminates
+    ) ORDER BY position)
+  INTO v_rules
+  FROM public.recommendation_rules
+  WHERE is_active;
+
+  v_rules := COALESCE(v_rules, '[
+    {"name": "Alpa lebih dari 10 hari", "applies_to": null,
+     "conditions": [{"subject": "criterion", "criterionName": "Jumlah Hari Alpa", "operator": ">", "value": 10}],
+     "recommendation": "Diberhentikan",
+     "note": "Karyawan diberhentikan otomatis karena alpa {nilai} hari (lebih dari 10 hari).", "terminates": true},
+    {"name": "Kandidat promosi", "applies_to": null,
+     "conditions": [{"subject": "score", "operator": ">=", "value": 4}],
+     "recommendation": "Dapat diperpanjang", "note": "Kandidat promosi", "terminates": false},
+    {"name": "Memenuhi standar minimum", "applies_to": null,
+     "conditions": [{"subject": "score", "operator": ">=", "value": 3}],
+     "recommendation": "Dapat diperpanjang", "note": null, "terminates": false},
+    {"name": "Di bawah standar minimum", "applies_to": null, "conditions": [],
+     "recommendation": "Diberhentikan", "note": null, "terminates": false}
+  ]'::jsonb);
+
+  -- Pengaturan perangkingan terbaru; pemecah yang tidak dikenali diabaikan
+  SELECT CASE WHEN jsonb_typeof(s.tie_breakers) = 'array' THEN COALESCE((
+      SELECT jsonb_agg(item ORDER BY ord)
+      FROM jsonb_array_elements(s.tie_breakers) WITH ORDINALITY AS t(item, ord)
+      WHERE (item->>'kind' = 'category' AND jsonb_typeof(item->'category') = 'string')
+         OR (item->>'kind' = 'criterion' AND jsonb_typeof(item->'criterionName') = 'string')
+         OR item->>'kind' = 'hireDate'
+    ), '[]'::jsonb) END
+  INTO v_tie_breakers
+  FROM public.ranking_settings s
+  ORDER BY s.updated_at DESC
+  LIMIT 1;
+
+  v_tie_breakers := COALESCE(v_tie_breakers, '[
+    {"kind": "category", "category": "A. Kinerja Inti"},
+    {"kind": "criterion", "criterionName": "Jumlah Hari Alpa", "direction": "lower"},
+    {"kind": "hireDate"}
+  ]'::jsonb);
+
+  -- Karyawan yang belum memiliki nilai untuk semua kriteria periode dikeluarkan dari perhitungan
+  SELECT
+    COALESCE(jsonb_agg(DISTINCT e.id), '[]'::jsonb),
+    COALESCE(jsonb_agg(jsonb_build_object(
+        'employeeId', e.id, 'criterionId', c.id, 'criterionName', c.name, 'value', NULL
+      )) FILTER (WHERE s.id IS NULL), '[]'::jsonb)
+  INTO v_excluded, v_gaps
+  FROM public.employees e
+  CROSS JOIN public.criteria c
+  LEFT JOIN public.evaluation_scores s
+    ON s.period_id = p_period_id AND s.employee_id = e.id AND s.criteria_id = c.id
+  WHERE c.period_id = p_period_id
+    AND e.id IN (
+      SELECT e2.id
+      FROM public.employees e2
+      CROSS JOIN public.criteria c2
+      WHERE c2.period_id = p_period_id
+        AND NOT EXISTS (
+          SELECT 1 FROM public.evaluation_scores s2
+          WHERE s2.period_id = p_period_id AND s2.employee_id = e2.id AND s2.criteria_id = c2.id
+        )
+    );
+
+  WITH criteria_config AS (
+    SELECT
+      c.id,
+      c.code,
+      c.name,
+      c.category,
+      c.type,
+      c.position,
+      c.weight::double precision / 100 AS weight,
+      c.normalization AS strategy,
+      COALESCE(c.scale->>'kind', 'count') AS scale_kind,
+      CASE
+        WHEN jsonb_typeof(c.scale->'max') = 'number' THEN (c.scale->>'max')::double precision
+        WHEN jsonb_typeof(c.scale->'max') = 'null' THEN NULL
+        WHEN c.scale->>'kind' = 'likert' THEN 5
+        WHEN c.scale->>'kind' = 'binary' THEN 1
+        WHEN c.scale->>'kind' = 'percentage' THEN 100
+      END AS scale_max,
+      CASE
+        WHEN jsonb_typeof(c.threshold_bands) = 'array' AND jsonb_array_length(c.threshold_bands) > 0 THEN c.threshold_bands
+        ELSE v_default_bands
+      END AS bands
+    FROM public.criteria c
+    WHERE c.period_id = p_period_id
+  ),
+  complete_employees AS (
+    SELECT s.employee_id
+    FROM public.evaluation_scores s
+    JOIN criteria_config c ON c.id = s.criteria_id
+    WHERE s.period_id = p_period_id
+    GROUP BY s.employee_id
+    HAVING COUNT(DISTINCT s.criteria_id) = v_criteria_count
+  ),
+  cells AS (
+    SELECT s.employee_id, c.*, s.score::double precision AS raw_value
+    FROM public.evaluation_scores s
+    JOIN criteria_config c ON c.id = s.criteria_id
+    JOIN complete_employees ce ON ce.employee_id = s.employee_id
+    WHERE s.period_id = p_period_id
+  ),
+  column_bounds AS (
+    SELECT id AS criteria_id, MIN(raw_value) AS min_value, MAX(raw_value) AS max_value
+    FROM cells
+    GROUP BY id
+  ),
+  normalized AS (
+    SELECT
+      cells.*,
+      CASE cells.strategy
+        WHEN 'classic' THEN
+          CASE
+            WHEN cells.type = 'Benefit' THEN CASE WHEN b.max_value > 0 THEN cells.raw_value / b.max_value ELSE 0 END
+            -- Cost: min/nilai, kolom yang memuat 0 digeser +1
+            ELSE (b.min_value + CASE WHEN b.min_value > 0 THEN 0 ELSE 1 - b.min_value END)
+              / (cells.raw_value + CASE WHEN b.min_value > 0 THEN 0 ELSE 1 - b.min_value END)
+          END
+        WHEN 'linear' THEN
+          CASE
+            WHEN b.max_value = b.min_value THEN 1
+            WHEN cells.type = 'Benefit' THEN (cells.raw_value - b.min_value) / (b.max_value - b.min_value)
+            ELSE (b.max_value - cells.raw_value) / (b.max_value - b.min_value)
+          END
+        WHEN 'threshold' THEN COALESCE((
+          SELECT (band->>'score')::double precision
+          FROM jsonb_array_elements(cells.bands) WITH ORDINALITY AS t(band, ord)
+          WHERE band->'upTo' = 'null'::jsonb OR cells.raw_value <= (band->>'upTo')::double precision
+          ORDER BY ord
+          LIMIT 1
+        ), 0)
+        -- binary (aturan awal)
+        ELSE
+          CASE
+            WHEN cells.type = 'Benefit' THEN
+              CASE
+                WHEN cells.scale_kind IN ('likert', 'percentage') AND cells.scale_max > 0 THEN cells.raw_value / cells.scale_max
+                WHEN cells.scale_kind = 'binary' THEN CASE WHEN cells.raw_value = 1 THEN 1 ELSE 0 END
+                WHEN b.max_value > 0 THEN cells.raw_value / b.max_value
+                ELSE 0
+              END
+            WHEN cells.scale_kind = 'binary' THEN CASE WHEN cells.raw_value = 0 THEN 1 ELSE 0 END
+            ELSE CASE WHEN cells.raw_value > 0 THEN 0 ELSE 1 END
+          END
+      END::double precision AS normalized_value
+    FROM cells
+    JOIN column_bounds b ON b.criteria_id = cells.id
+  ),
+  scores AS (
+    SELECT
+      n.employee_id,
+      SUM(n.normalized_value * n.weight) AS final_score,
+      jsonb_object_agg(n.name, n.raw_value) AS criterion_values,
+      jsonb_agg(jsonb_build_object(
+        'criteria_id', n.id, 'criteria_code', n.code, 'criteria_name', n.name, 'category', n.category,
+        'raw_value', n.raw_value, 'normalized_value', n.normalized_value, 'weight', n.weight
+      ) ORDER BY n.position, n.name) AS matrix
+    FROM normalized n
+    GROUP BY n.employee_id
+  ),
+  converted AS (
+    SELECT
+      sc.*,
+      e.hire_date,
+      COALESCE(e.position, '') || ' ' || COALESCE(e.department, '') AS staff_label,
+      round((sc.final_score * 5)::numeric, 2)::double precision AS converted_score
+    FROM scores sc
+    JOIN public.employees e ON e.id = sc.employee_id
+  ),
+  -- Aturan pertama yang cakupannya memuat karyawan dan semua syaratnya terpenuhi
+  decided AS (
+    SELECT cv.*, matched.rule
+    FROM converted cv
+    LEFT JOIN LATERAL (
+      SELECT r.rule
+      FROM jsonb_array_elements(v_rules) WITH ORDINALITY AS r(rule, ord)
+      WHERE (r.rule->>'applies_to' IS NULL
+          OR strpos(lower(cv.staff_label), lower(btrim(r.rule->>'applies_to'))) > 0)
+        AND NOT EXISTS (
+          SELECT 1
+          FROM jsonb_array_elements(COALESCE(r.rule->'conditions', '[]'::jsonb)) AS t(item)
+          WHERE NOT COALESCE(public.saw_compare(
+            CASE
+              WHEN item->>'subject' = 'score' THEN cv.converted_score
+              ELSE (cv.criterion_values->>(item->>'criterionName'))::double precision
+            END,
+            item->>'operator',
+            (item->>'value')::double precision
+          ), false)
+        )
+      ORDER BY r.ord
+      LIMIT 1
+    ) matched ON true
+  ),
+  recommended AS (
+    SELECT
+      d.*,
+      COALESCE(d.rule->>'recommendation',
+        CASE WHEN d.converted_score >= 3 THEN 'Dapat diperpanjang' ELSE 'Diberhentikan' END) AS recommendation,
+      CASE
+        WHEN d.rule IS NULL THEN CASE WHEN d.converted_score >= 4 THEN 'Kandidat promosi' END
+        WHEN COALESCE(d.rule->>'note', '') = '' THEN NULL
+        ELSE replace(replace(d.rule->>'note', '{skor}', to_char(d.converted_score, 'FM999990.00')), '{nilai}', COALESCE((
+          SELECT d.criterion_values->>(item->>'criterionName')
+          FROM jsonb_array_elements(d.rule->'conditions') WITH ORDINALITY AS t(item, ord)
+          WHERE item->>'subject' = 'criterion'
+          ORDER BY ord
+          LIMIT 1
+        ), '-'))
+      END AS note,
+      d.rule->>'name' AS rule_name,
+      COALESCE((d.rule->>'terminates')::boolean, false) AS terminated
+    FROM decided d
+  ),
+  -- Kunci pemecah seri (semakin besar semakin baik); data yang tidak tersedia kalah dengan -Infinity
+  keyed AS (
+    SELECT
+      rc.*,
+      round(rc.final_score::numeric, 9) AS score_key,
+      ARRAY(
+        SELECT CASE tb->>'kind'
+          WHEN 'category' THEN round(COALESCE((
+            SELECT SUM(n.normalized_value * n.weight)
+            FROM normalized n
+            WHERE n.employee_id = rc.employee_id AND n.category = tb->>'category'
+          ), 0)::numeric, 9)::double precision
+          WHEN 'criterion' THEN COALESCE((
+            SELECT CASE WHEN tb->>'direction' = 'lower' THEN -n.raw_value ELSE n.raw_value END
+            FROM normalized n
+            WHERE n.employee_id = rc.employee_id AND n.name = tb->>'criterionName'
+            LIMIT 1
+          ), 0)
+          WHEN 'hireDate' THEN COALESCE(-extract(epoch FROM rc.hire_date::timestamp)::double precision, '-Infinity')
+          ELSE 0
+        END
+        FROM jsonb_array_elements(v_tie_breakers) WITH ORDINALITY AS t(tb, ord)
+        ORDER BY ord
+      )::double precision[] AS tie_keys
+    FROM recommended rc
+  ),
+  ranked AS (
+    SELECT
+      k.*,
+      RANK() OVER (PARTITION BY k.terminated ORDER BY k.score_key DESC, k.tie_keys DESC) AS position_rank,
+      COUNT(*) OVER (PARTITION BY k.terminated, k.score_key) > 1 AS score_tied,
+      COUNT(*) OVER (PARTITION BY k.terminated, k.score_key, k.tie_keys) > 1 AS shares_rank,
+      LAG(k.tie_keys) OVER (PARTITION BY k.terminated, k.score_key ORDER BY k.tie_keys DESC) AS previous_keys,
+      LEAD(k.tie_keys) OVER (PARTITION BY k.terminated, k.score_key ORDER BY k.tie_keys DESC) AS next_keys
+    FROM keyed k
+  )
+  SELECT jsonb_agg(jsonb_build_object(
+      'employee_id', employee_id,
+      'final_score', final_score,
+      'converted_score', converted_score,
+      'rank', CASE WHEN terminated THEN 999 ELSE position_rank END,
+      'recommendation', recommendation,
+      'note', note,
+      'rule_name', rule_name,
+      'is_tied', NOT terminated AND score_tied,
+      'tie_break_reason', CASE
+        WHEN terminated OR NOT score_tied THEN NULL
+        WHEN shares_rank THEN 'Peringkat bersama'
+        ELSE public.saw_describe_tie_breaker(v_tie_breakers -> (
+          COALESCE(public.saw_first_difference(previous_keys, tie_keys), public.saw_first_difference(tie_keys, next_keys)) - 1
+        ))
+      END,
+      'matrix', matrix
+    ) ORDER BY terminated, position_rank, employee_id)
+  INTO v_rows
+  FROM ranked;
+
+  IF v_rows IS NULL THEN
+    RAISE EXCEPTION 'Belum ada karyawan dengan nilai lengkap pada periode ini';
+  END IF;
+
+  IF p_save THEN
+    SELECT jsonb_agg(jsonb_build_object(
+        'criterionId', c.id,
+        'criterionCode', c.code,
+        'criterionName', c.name,
+        'type', c.type,
+        'strategy', c.normalization,
+        'thresholdBands', CASE
+          WHEN c.normalization <> 'threshold' THEN NULL
+          WHEN jsonb_typeof(c.threshold_bands) = 'array' AND jsonb_array_length(c.threshold_bands) > 0 THEN c.threshold_bands
+          ELSE v_default_bands
+        END
+      ) ORDER BY c.position, c.name)
+    INTO v_normalization_config
+    FROM public.criteria c
+    WHERE c.period_id = p_period_id;
+
+    v_calculation_id := public.save_saw_calculation(
+      jsonb_build_object(
+        'period_id', p_period_id,
+        'total_employees', jsonb_array_length(v_rows),
+        'total_criteria', v_criteria_count,
+        'method', 'SAW',
+        'normalization_config', v_normalization_config,
+        'tie_breakers', v_tie_breakers,
+        'missing_score_policy', CASE
+          WHEN jsonb_array_length(v_excluded) > 0 THEN jsonb_build_object(
+            'policy', 'exclude', 'defaults', NULL, 'gaps', v_gaps, 'excludedEmployeeIds', v_excluded
+          )
+        END,
+        'run_by', p_run_by,
+        'label', 'Perhitungan server',
+        'app_version', 'database'
+      ),
+      (SELECT jsonb_agg(result - 'matrix') FROM jsonb_array_elements(v_rows) AS t(result)),
+      (
+        SELECT jsonb_agg(cell || jsonb_build_object('employee_id', result->'employee_id'))
+        FROM jsonb_array_elements(v_rows) AS t(result)
+        CROSS JOIN LATERAL jsonb_array_elements(result->'matrix') AS m(cell)
+      )
+    );
+  END IF;
+
+  RETURN jsonb_build_object(
+    'calculation_id', v_calculation_id,
+    'results', (SELECT jsonb_agg(result - 'matrix') FROM jsonb_array_elements(v_rows) AS t(result)),
+    'excluded_employee_ids', v_excluded
+  );
+END;
+$$ LANGUAGE plpgsql;
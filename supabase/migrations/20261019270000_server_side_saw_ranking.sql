@@ -0,0 +1,487 @@
+/*
+  # Perangkingan dan Nilai Kosong pada Perhitungan SAW di Database
+
+  1. Fungsi Baru
+    - `saw_rank_scores` - Perangkingan seperti `rankScores` di browser: skor yang selisihnya tidak lebih
+      dari 1e-9 (SCORE_TIE_EPSILON) dianggap seri dan diurutkan dengan rantai pemecah seri
+    - `saw_precedes` - Pembanding urutan peringkat dengan toleransi seri yang sama
+    - `saw_period_scores` - Nilai evaluasi periode ditambah nilai pengganti dari catatan kebijakan
+      nilai kosong perhitungan browser
+
+  2. Tipe Baru
+    - `saw_rank_entry` - Satu baris masukan `saw_rank_scores`
+
+  3. Perubahan `calculate_saw`
+    - Parameter baru `p_missing_score_policy`: catatan kebijakan nilai kosong (format kolom
+      `saw_calculations.missing_score_policy`). Untuk kebijakan selain 'exclude', nilai pengganti pada
+      `gaps` dipakai sebagai nilai mentah; karyawan yang masih memiliki nilai kosong tetap dikeluarkan
+    - Aturan dan pemecah seri hanya dibaca dari `recommendation_rules` dan `ranking_settings`, tanpa
+      salinan aturan bawaan; tanpa aturan aktif atau pengaturan perangkingan, perhitungan ditolak
+      (kalkulator browser melewati cek silang pada kondisi ini karena memakai aturan bawaannya sendiri)
+    - Skor dan kunci pemecah seri tidak lagi dibulatkan; perangkingan memakai `saw_rank_scores`
+*/
+
+DO $$
+BEGIN
+  CREATE TYPE public.saw_rank_entry AS (
+    employee_id UUID,
+    final_score DOUBLE PRECISION,
+    tie_keys DOUBLE PRECISION[], -- Semakin besar semakin baik, sesuai urutan pemecah seri
+    terminated BOOLEAN
+  );
+EXCEPTION
+  WHEN duplicate_object THEN NULL;
+END $$;
+
+-- Pembanding rankScores: skor (dengan toleransi seri), lalu pemecah seri pertama yang berbeda, lalu employee_id
+CREATE OR REPLACE FUNCTION public.saw_precedes(
+  p_a public.saw_rank_entry,
+  p_b public.saw_rank_entry
+)
+RETURNS BOOLEAN AS $$
+  SELECT CASE
+    WHEN abs(p_a.final_score - p_b.final_score) > 1e-9 THEN p_a.final_score > p_b.final_score
+    ELSE COALESCE(
+      (SELECT p_a.tie_keys[k] > p_b.tie_keys[k]
+       FROM public.saw_first_difference(p_a.tie_keys, p_b.tie_keys) AS k
+       WHERE k IS NOT NULL),
+      p_a.employee_id < p_b.employee_id
+    )
+  END;
+$$ LANGUAGE sql IMMUTABLE;
+
+/*
+  Peringkat karyawan yang tidak diberhentikan otomatis, baris demi baris seperti rankScores:
+  urutkan dengan saw_precedes, lalu karyawan yang seri dengan tetangganya berbagi peringkat bila
+  semua pemecah seri juga sama. sort_order adalah posisi dalam urutan akhir.
+*/
+CREATE OR REPLACE FUNCTION public.saw_rank_scores(
+  p_entries public.saw_rank_entry[],
+  p_tie_breakers JSONB
+)
+RETURNS TABLE (employee_id UUID, rank INTEGER, sort_order INTEGER, is_tied BOOLEAN, tie_break_reason TEXT) AS $$
+DECLARE
+  v_epsilon CONSTANT DOUBLE PRECISION := 1e-9;
+  v_sorted public.saw_rank_entry[] := '{}';
+  v_ranks INTEGER[] := '{}';
+  v_entry public.saw_rank_entry;
+  v_count INTEGER;
+  v_position INTEGER;
+  v_tied_previous BOOLEAN;
+  v_tied_next BOOLEAN;
+  v_k_previous INTEGER;
+  v_k_next INTEGER;
+  v_shares_previous BOOLEAN;
+  v_shares_next BOOLEAN;
+BEGIN
+  -- Insertion sort: perbandingan dengan toleransi tidak dapat dinyatakan sebagai ORDER BY
+  FOR v_entry IN
+    SELECT e.*
+    FROM unnest(p_entries) AS e
+    WHERE NOT e.terminated
+    ORDER BY e.final_score DESC, e.employee_id
+  LOOP
+    v_position := COALESCE(array_length(v_sorted, 1), 0);
+    WHILE v_position > 0 AND public.saw_precedes(v_entry, v_sorted[v_position]) LOOP
+      v_position := v_position - 1;
+    END LOOP;
+    v_sorted := array_cat(array_append(v_sorted[1:v_position], v_entry), v_sorted[v_position + 1:]);
+  END LOOP;
+
+  v_count := COALESCE(array_length(v_sorted, 1), 0);
+  FOR v_position IN 1..v_count LOOP
+    v_tied_previous := v_position > 1
+      AND abs((v_sorted[v_position - 1]).final_score - (v_sorted[v_position]).final_score) <= v_epsilon;
+    v_tied_next := v_position < v_count
+      AND abs((v_sorted[v_position]).final_score - (v_sorted[v_position + 1]).final_score) <= v_epsilon;
+
+    -- Pemecah yang memisahkan dari tetangga seri; NULL berarti berbagi peringkat dengannya
+    v_k_previous := NULL;
+    v_k_next := NULL;
+    v_shares_previous := false;
+    v_shares_next := false;
+    IF v_tied_previous THEN
+      v_k_previous := public.saw_first_difference((v_sorted[v_position - 1]).tie_keys, (v_sorted[v_position]).tie_keys);
+      v_shares_previous := v_k_previous IS NULL;
+    END IF;
+    IF v_tied_next THEN
+      v_k_next := public.saw_first_difference((v_sorted[v_position]).tie_keys, (v_sorted[v_position + 1]).tie_keys);
+      v_shares_next := v_k_next IS NULL;
+    END IF;
+
+    employee_id := (v_sorted[v_position]).employee_id;
+    rank := CASE WHEN v_shares_previous THEN v_ranks[v_position - 1] ELSE v_position END;
+    sort_order := v_position;
+    is_tied := v_tied_previous OR v_tied_next;
+    tie_break_reason := CASE
+      WHEN NOT (v_tied_previous OR v_tied_next) THEN NULL
+      WHEN v_shares_previous OR v_shares_next THEN 'Peringkat bersama'
+      ELSE public.saw_describe_tie_breaker(p_tie_breakers -> (COALESCE(v_k_previous, v_k_next) - 1))
+    END;
+    v_ranks := array_append(v_ranks, rank);
+    RETURN NEXT;
+  END LOOP;
+END;
+$$ LANGUAGE plpgsql IMMUTABLE;
+
+-- Nilai evaluasi periode ditambah nilai pengganti untuk pasangan karyawan × kriteria yang belum dinilai
+CREATE OR REPLACE FUNCTION public.saw_period_scores(
+  p_period_id UUID,
+  p_missing_score_policy JSONB
+)
+RETURNS TABLE (employee_id UUID, criteria_id UUID, score DOUBLE PRECISION) AS $$
+  SELECT s.employee_id, s.criteria_id, s.score::double precision
+  FROM public.evaluation_scores s
+  WHERE s.period_id = p_period_id
+  UNION ALL
+  SELECT (t.gap->>'employeeId')::uuid, c.id, (t.gap->>'value')::double precision
+  FROM jsonb_array_elements(COALESCE(p_missing_score_policy->'gaps', '[]'::jsonb)) AS t(gap)
+  JOIN public.criteria c ON c.id = (t.gap->>'criterionId')::uuid AND c.period_id = p_period_id
+  WHERE COALESCE(p_missing_score_policy->>'policy', 'exclude') <> 'exclude'
+    AND jsonb_typeof(t.gap->'value') = 'number'
+    AND NOT EXISTS (
+      SELECT 1
+      FROM public.evaluation_scores s
+      WHERE s.period_id = p_period_id
+        AND s.employee_id = (t.gap->>'employeeId')::uuid
+        AND s.criteria_id = c.id
+    );
+$$ LANGUAGE sql STABLE;
+
+-- Tanda tangan lama tanpa p_missing_score_policy diganti agar pemanggilan RPC tidak ambigu
+DROP FUNCTION IF EXISTS public.calculate_saw(UUID, BOOLEAN, TEXT);
+
+CREATE OR REPLACE FUNCTION public.calculate_saw(
+  p_period_id UUID,
+  p_save BOOLEAN DEFAULT true,
+  p_run_by TEXT DEFAULT NULL,
+  p_missing_score_policy JSONB DEFAULT NULL
+)
+RETURNS JSONB AS $$
+DECLARE
+  v_default_bands CONSTANT JSONB := '[{"upTo": 0, "score": 1}, {"upTo": 2, "score": 0.75},
+    {"upTo": 5, "score": 0.5}, {"upTo": 10, "score": 0.25}, {"upTo": null, "score": 0}]';
+  v_criteria_count INTEGER;
+  v_rules JSONB;
+  v_tie_breakers JSONB;
+  v_normalization_config JSONB;
+  v_rows JSONB;
+  v_excluded JSONB;
+  v_gaps JSONB;
+  v_calculation_id UUID;
+BEGIN
+  SELECT COUNT(*) INTO v_criteria_count FROM public.criteria WHERE period_id = p_period_id;
+  IF v_criteria_count = 0 THEN
+    RAISE EXCEPTION 'Belum ada kriteria pada periode ini';
+  END IF;
+
+  -- Aturan aktif sesuai urutan, sama seperti yang dibaca kalkulator browser
+  SELECT jsonb_agg(jsonb_build_object(
+      'name', name, 'applies_to', applies_to, 'conditions', conditions,
+      'recommendation', recommendation, 'note', note, 'terminates', terminates
+    ) ORDER BY position)
+  INTO v_rules
+  FROM public.recommendation_rules
+  WHERE is_active;
+
+  IF v_rules IS NULL THEN
+    RAISE EXCEPTION 'Belum ada aturan rekomendasi aktif';
+  END IF;
+
+  -- Pengaturan perangkingan terbaru; pemecah yang tidak dikenali diabaikan
+  SELECT CASE WHEN jsonb_typeof(s.tie_breakers) = 'array' THEN COALESCE((
+      SELECT jsonb_agg(item ORDER BY ord)
+      FROM jsonb_array_elements(s.tie_breakers) WITH ORDINALITY AS t(item, ord)
+      WHERE (item->>'kind' = 'category' AND jsonb_typeof(item->'category') = 'string')
+         OR (item->>'kind' = 'criterion' AND jsonb_typeof(item->'criterionName') = 'string')
+         OR item->>'kind' = 'hireDate'
+    ), '[]'::jsonb) END
+  INTO v_tie_breakers
+  FROM public.ranking_settings s
+  ORDER BY s.updated_at DESC
+  LIMIT 1;
+
+  IF v_tie_breakers IS NULL THEN
+    RAISE EXCEPTION 'Pengaturan pemecah seri belum disimpan';
+  END IF;
+
+  -- Karyawan yang masih memiliki nilai kosong setelah nilai pengganti diterapkan dikeluarkan dari perhitungan
+  WITH period_scores AS (
+    SELECT * FROM public.saw_period_scores(p_period_id, p_missing_score_policy)
+  ),
+  gaps AS (
+    SELECT e.id AS employee_id, c.id AS criterion_id, c.name AS criterion_name
+    FROM public.employees e
+    CROSS JOIN public.criteria c
+    WHERE c.period_id = p_period_id
+      AND NOT EXISTS (
+        SELECT 1 FROM period_scores s
+        WHERE s.employee_id = e.id AND s.criteria_id = c.id
+      )
+  )
+  SELECT
+    COALESCE(jsonb_agg(DISTINCT g.employee_id), '[]'::jsonb),
+    COALESCE(jsonb_agg(jsonb_build_object(
+        'employeeId', g.employee_id, 'criterionId', g.criterion_id, 'criterionName', g.criterion_name, 'value', NULL
+      )), '[]'::jsonb)
+  INTO v_excluded, v_gaps
+  FROM gaps g;
+
+  WITH criteria_config AS (
+    SELECT
+      c.id,
+      c.code,
+      c.name,
+      c.category,
+      c.type,
+      c.position,
+      c.weight::double precision / 100 AS weight,
+      c.normalization AS strategy,
+      COALESCE(c.scale->>'kind', 'count') AS scale_kind,
+      CASE
+        WHEN jsonb_typeof(c.scale->'max') = 'number' THEN (c.scale->>'max')::double precision
+        WHEN jsonb_typeof(c.scale->'max') = 'null' THEN NULL
+        WHEN c.scale->>'kind' = 'likert' THEN 5
+        WHEN c.scale->>'kind' = 'binary' THEN 1
+        WHEN c.scale->>'kind' = 'percentage' THEN 100
+      END AS scale_max,
+      CASE
+        WHEN jsonb_typeof(c.threshold_bands) = 'array' AND jsonb_array_length(c.threshold_bands) > 0 THEN c.threshold_bands
+        ELSE v_default_bands
+      END AS bands
+    FROM public.criteria c
+    WHERE c.period_id = p_period_id
+  ),
+  period_scores AS (
+    SELECT * FROM public.saw_period_scores(p_period_id, p_missing_score_policy)
+  ),
+  complete_employees AS (
+    SELECT s.employee_id
+    FROM period_scores s
+    JOIN criteria_config c ON c.id = s.criteria_id
+    GROUP BY s.employee_id
+    HAVING COUNT(DISTINCT s.criteria_id) = v_criteria_count
+  ),
+  cells AS (
+    SELECT s.employee_id, c.*, s.score AS raw_value
+    FROM period_scores s
+    JOIN criteria_config c ON c.id = s.criteria_id
+    JOIN complete_employees ce ON ce.employee_id = s.employee_id
+  ),
+  column_bounds AS (
+    SELECT id AS criteria_id, MIN(raw_value) AS min_value, MAX(raw_value) AS max_value
+    FROM cells
+    GROUP BY id
+  ),
+  normalized AS (
+    SELECT
+      cells.*,
+      CASE cells.strategy
+        WHEN 'classic' THEN
+          CASE
+            WHEN cells.type = 'Benefit' THEN CASE WHEN b.max_value > 0 THEN cells.raw_value / b.max_value ELSE 0 END
+            -- Cost: min/nilai, kolom yang memuat 0 digeser +1
+            ELSE (b.min_value + CASE WHEN b.min_value > 0 THEN 0 ELSE 1 - b.min_value END)
+              / (cells.raw_value + CASE WHEN b.min_value > 0 THEN 0 ELSE 1 - b.min_value END)
+          END
+        WHEN 'linear' THEN
+          CASE
+            WHEN b.max_value = b.min_value THEN 1
+            WHEN cells.type = 'Benefit' THEN (cells.raw_value - b.min_value) / (b.max_value - b.min_value)
+            ELSE (b.max_value - cells.raw_value) / (b.max_value - b.min_value)
+          END
+        WHEN 'threshold' THEN COALESCE((
+          SELECT (band->>'score')::double precision
+          FROM jsonb_array_elements(cells.bands) WITH ORDINALITY AS t(band, ord)
+          WHERE band->'upTo' = 'null'::jsonb OR cells.raw_value <= (band->>'upTo')::double precision
+          ORDER BY ord
+          LIMIT 1
+        ), 0)
+        -- binary (aturan awal)
+        ELSE
+          CASE
+            WHEN cells.type = 'Benefit' THEN
+              CASE
+                WHEN cells.scale_kind IN ('likert', 'percentage') AND cells.scale_max > 0 THEN cells.raw_value / cells.scale_max
+                WHEN cells.scale_kind = 'binary' THEN CASE WHEN cells.raw_value = 1 THEN 1 ELSE 0 END
+                WHEN b.max_value > 0 THEN cells.raw_value / b.max_value
+                ELSE 0
+              END
+            WHEN cells.scale_kind = 'binary' THEN CASE WHEN cells.raw_value = 0 THEN 1 ELSE 0 END
+            ELSE CASE WHEN cells.raw_value > 0 THEN 0 ELSE 1 END
+          END
+      END::double precision AS normalized_value
+    FROM cells
+    JOIN column_bounds b ON b.criteria_id = cells.id
+  ),
+  scores AS (
+    SELECT
+      n.employee_id,
+      SUM(n.normalized_value * n.weight) AS final_score,
+      jsonb_object_agg(n.name, n.raw_value) AS criterion_values,
+      jsonb_agg(jsonb_build_object(
+        'criteria_id', n.id, 'criteria_code', n.code, 'criteria_name', n.name, 'category', n.category,
+        'raw_value', n.raw_value, 'normalized_value', n.normalized_value, 'weight', n.weight
+      ) ORDER BY n.position, n.name) AS matrix
+    FROM normalized n
+    GROUP BY n.employee_id
+  ),
+  converted AS (
+    SELECT
+      sc.*,
+      e.hire_date,
+      COALESCE(e.position, '') || ' ' || COALESCE(e.department, '') AS staff_label,
+      round((sc.final_score * 5)::numeric, 2)::double precision AS converted_score
+    FROM scores sc
+    JOIN public.employees e ON e.id = sc.employee_id
+  ),
+  -- Aturan pertama yang cakupannya memuat karyawan dan semua syaratnya terpenuhi
+  decided AS (
+    SELECT cv.*, matched.rule
+    FROM converted cv
+    LEFT JOIN LATERAL (
+      SELECT r.rule
+      FROM jsonb_array_elements(v_rules) WITH ORDINALITY AS r(rule, ord)
+      WHERE (r.rule->>'applies_to' IS NULL
+          OR strpos(lower(cv.staff_label), lower(btrim(r.rule->>'applies_to'))) > 0)
+        AND NOT EXISTS (
+          SELECT 1
+          FROM jsonb_array_elements(COALESCE(r.rule->'conditions', '[]'::jsonb)) AS t(item)
+          WHERE NOT COALESCE(public.saw_compare(
+            CASE
+              WHEN item->>'subject' = 'score' THEN cv.converted_score
+              ELSE (cv.criterion_values->>(item->>'criterionName'))::double precision
+            END,
+            item->>'operator',
+            (item->>'value')::double precision
+          ), false)
+        )
+      ORDER BY r.ord
+      LIMIT 1
+    ) matched ON true
+  ),
+  recommended AS (
+    SELECT
+      d.*,
+      COALESCE(d.rule->>'recommendation',
+        CASE WHEN d.converted_score >= 3 THEN 'Dapat diperpanjang' ELSE 'Diberhentikan' END) AS recommendation,
+      CASE
+        WHEN d.rule IS NULL THEN CASE WHEN d.converted_score >= 4 THEN 'Kandidat promosi' END
+        WHEN COALESCE(d.rule->>'note', '') = '' THEN NULL
+        ELSE replace(replace(d.rule->>'note', '{skor}', to_char(d.converted_score, 'FM999990.00')), '{nilai}', COALESCE((
+          SELECT d.criterion_values->>(item->>'criterionName')
+          FROM jsonb_array_elements(d.rule->'conditions') WITH ORDINALITY AS t(item, ord)
+          WHERE item->>'subject' = 'criterion'
+          ORDER BY ord
+          LIMIT 1
+        ), '-'))
+      END AS note,
+      d.rule->>'name' AS rule_name,
+      COALESCE((d.rule->>'terminates')::boolean, false) AS terminated
+    FROM decided d
+  ),
+  -- Kunci pemecah seri (semakin besar semakin baik); data yang tidak tersedia kalah dengan -Infinity
+  keyed AS (
+    SELECT
+      rc.*,
+      ARRAY(
+        SELECT CASE tb->>'kind'
+          WHEN 'category' THEN COALESCE((
+            SELECT SUM(n.normalized_value * n.weight)
+            FROM normalized n
+            WHERE n.employee_id = rc.employee_id AND n.category = tb->>'category'
+          ), 0)
+          WHEN 'criterion' THEN COALESCE((
+            SELECT CASE WHEN tb->>'direction' = 'lower' THEN -n.raw_value ELSE n.raw_value END
+            FROM normalized n
+            WHERE n.employee_id = rc.employee_id AND n.name = tb->>'criterionName'
+            LIMIT 1
+          ), 0)
+          WHEN 'hireDate' THEN COALESCE(-extract(epoch FROM rc.hire_date::timestamp)::double precision, '-Infinity')
+          ELSE 0
+        END
+        FROM jsonb_array_elements(v_tie_breakers) WITH ORDINALITY AS t(tb, ord)
+        ORDER BY ord
+      )::double precision[] AS tie_keys
+    FROM recommended rc
+  ),
+  -- Karyawan yang diberhentikan otomatis tidak diperingkat (999) dan diletakkan di akhir
+  ranked AS (
+    SELECT r.*
+    FROM public.saw_rank_scores(
+      (SELECT array_agg(ROW(k.employee_id, k.final_score, k.tie_keys, k.terminated)::public.saw_rank_entry) FROM keyed k),
+      v_tie_breakers
+    ) AS r
+  )
+  SELECT jsonb_agg(jsonb_build_object(
+      'employee_id', k.employee_id,
+      'final_score', k.final_score,
+      'converted_score', k.converted_score,
+      'rank', CASE WHEN k.terminated THEN 999 ELSE r.rank END,
+      'recommendation', k.recommendation,
+      'note', k.note,
+      'rule_name', k.rule_name,
+      'is_tied', COALESCE(r.is_tied, false),
+      'tie_break_reason', r.tie_break_reason,
+      'matrix', k.matrix
+    ) ORDER BY k.terminated, r.sort_order, k.employee_id)
+  INTO v_rows
+  FROM keyed k
+  LEFT JOIN ranked r ON r.employee_id = k.employee_id;
+
+  IF v_rows IS NULL THEN
+    RAISE EXCEPTION 'Belum ada karyawan dengan nilai lengkap pada periode ini';
+  END IF;
+
+  IF p_save THEN
+    SELECT jsonb_agg(jsonb_build_object(
+        'criterionId', c.id,
+        'criterionCode', c.code,
+        'criterionName', c.name,
+        'type', c.type,
+        'strategy', c.normalization,
+        'thresholdBands', CASE
+          WHEN c.normalization <> 'threshold' THEN NULL
+          WHEN jsonb_typeof(c.threshold_bands) = 'array' AND jsonb_array_length(c.threshold_bands) > 0 THEN c.threshold_bands
+          ELSE v_default_bands
+        END
+      ) ORDER BY c.position, c.name)
+    INTO v_normalization_config
+    FROM public.criteria c
+    WHERE c.period_id = p_period_id;
+
+    v_calculation_id := public.save_saw_calculation(
+      jsonb_build_object(
+        'period_id', p_period_id,
+        'total_employees', jsonb_array_length(v_rows),
+        'total_criteria', v_criteria_count,
+        'method', 'SAW',
+        'normalization_config', v_normalization_config,
+        'tie_breakers', v_tie_breakers,
+        'missing_score_policy', CASE
+          WHEN COALESCE(p_missing_score_policy->>'policy', 'exclude') <> 'exclude'
+            THEN p_missing_score_policy || jsonb_build_object('excludedEmployeeIds', v_excluded)
+          WHEN jsonb_array_length(v_excluded) > 0 THEN jsonb_build_object(
+            'policy', 'exclude', 'defaults', NULL, 'gaps', v_gaps, 'excludedEmployeeIds', v_excluded
+          )
+        END,
+        'run_by', p_run_by,
+        'label', 'Perhitungan server',
+        'app_version', 'database'
+      ),
+      (SELECT jsonb_agg(result - 'matrix') FROM jsonb_array_elements(v_rows) AS t(result)),
+      (
+        SELECT jsonb_agg(cell || jsonb_build_object('employee_id', result->'employee_id'))
+        FROM jsonb_array_elements(v_rows) AS t(result)
+        CROSS JOIN LATERAL jsonb_array_elements(result->'matrix') AS m(cell)
+      )
+    );
+  END IF;
+
+  RETURN jsonb_build_object(
+    'calculation_id', v_calculation_id,
+    'results', (SELECT jsonb_agg(result - 'matrix') FROM jsonb_array_elements(v_rows) AS t(result)),
+    'excluded_employee_ids', v_excluded
+  );
+END;
+$$ LANGUAGE plpgsql;
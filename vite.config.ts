@@ -14,6 +14,10 @@ export default defineConfig(({ mode }) => ({
     mode === 'development' &&
     componentTagger(),
   ].filter(Boolean),
+  define: {
+    // Versi aplikasi dicatat di setiap snapshot perhitungan
+    __APP_VERSION__: JSON.stringify(process.env.npm_package_version || "dev"),
+  },
   resolve: {
     alias: {
       "@": path.resolve(__dirname, "./src"),